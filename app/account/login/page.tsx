@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import { AccountForm } from '@/components/AccountForm';
+
+/**
+ * Sign in Page (Server Component)
+ *
+ * The form itself is a Client Component; this page only lays it out.
+ */
+
+export default function LoginPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl font-bold text-gray-900">Sign in</h1>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <p className="text-gray-600 mb-6">Sign in to see the cart saved to your account. Anything already in your cart is added to it.</p>
+          <AccountForm mode="login" />
+          <p className="mt-6 text-sm text-gray-600">
+            New here?{' '}
+            <Link href="/account/register" className="text-blue-600 hover:text-blue-700">
+              Create an account
+            </Link>
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
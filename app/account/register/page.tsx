@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import { AccountForm } from '@/components/AccountForm';
+
+/**
+ * Create account Page (Server Component)
+ *
+ * The form itself is a Client Component; this page only lays it out.
+ */
+
+export default function RegisterPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl font-bold text-gray-900">Create account</h1>
+        </div>
+      </header>
+
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <p className="text-gray-600 mb-6">Your cart is saved to your account, so it follows you to any device.</p>
+          <AccountForm mode="register" />
+          <p className="mt-6 text-sm text-gray-600">
+            Already have an account?{' '}
+            <Link href="/account/login" className="text-blue-600 hover:text-blue-700">
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditEvents, streamAuditEvents } from '@/lib/api/audit-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+import { AuditFilters } from '@/lib/types/audit';
+
+/**
+ * GET /api/audit
+ *
+ * The audit log, newest first: who changed what, when, from which IP and
+ * user agent, with the record before and after the change.
+ *
+ * Query parameters (all optional):
+ * - entityType / entityId: e.g. entityType=product&entityId=prod_001
+ * - actor: an actor's name (key name, customer email) or id
+ * - action: e.g. api_key.revoke
+ * - from / to: ISO 8601 times, from inclusive, to exclusive
+ * - limit: page size (default 50, max 200)
+ * - cursor: nextCursor of the previous page
+ * - format=jsonl: download every matching event as JSON lines instead of
+ *   a page (limit and cursor are ignored)
+ *
+ * Example URLs:
+ * - /api/audit?entityType=promotion&entityId=promo_summer
+ * - /api/audit?actor=Warehouse%20sync&from=2026-10-01T00:00:00Z
+ * - /api/audit?format=jsonl&from=2026-10-01&to=2026-11-01
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Unparseable from/to or unknown format
+ * - 400 INVALID_CURSOR - A cursor we didn't issue
+ *
+ * Requires an API key with the audit:read scope.
+ */
+export const GET = withApiKey('audit:read', async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+
+  const errors = [];
+  const filters: AuditFilters = {
+    entityType: searchParams.get('entityType') ?? undefined,
+    entityId: searchParams.get('entityId') ?? undefined,
+    actor: searchParams.get('actor') ?? undefined,
+    action: searchParams.get('action') ?? undefined,
+  };
+  for (const field of ['from', 'to'] as const) {
+    const value = searchParams.get(field);
+    if (value === null) continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      errors.push({ field, message: 'Must be an ISO 8601 date or time' });
+    } else {
+      filters[field] = date;
+    }
+  }
+
+  const format = searchParams.get('format');
+  if (format !== null && format !== 'jsonl') {
+    errors.push({ field: 'format', message: 'Must be jsonl' });
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Invalid audit query parameters',
+          code: 'VALIDATION_ERROR',
+          details: errors,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (format === 'jsonl') {
+    const lines = streamAuditEvents(filters);
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await lines.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          console.error('Error in GET /api/audit:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await lines.return(undefined);
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-${date}.jsonl"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  try {
+    const limit = parseInt(searchParams.get('limit') || '50', 10) || 50;
+    const page = await getAuditEvents(filters, {
+      limit,
+      cursor: searchParams.get('cursor') ?? undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in GET /api/audit:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch audit events',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loginCustomer } from '@/lib/api/customers-service';
+import { getCustomerCart } from '@/lib/api/cart-service';
+import { ServiceError } from '@/lib/api/errors';
+import { setSessionCookie } from '@/lib/api/with-customer';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+/**
+ * POST /api/auth/login
+ *
+ * Sign a customer in (sets the session cookie).
+ *
+ * Example body:
+ * {
+ *   "email": "ada@example.com",
+ *   "password": "correct horse battery",
+ *   "items": [{ "productId": "prod_003", "quantity": 2 }]
+ * }
+ *
+ * `items` is the anonymous cart from this browser. It is merged into the
+ * account's cart, and the merged cart is returned with the customer.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - Email or password missing, malformed items
+ * - 401 INVALID_CREDENTIALS - Wrong email or password
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { customer, token, expiresAt } = await loginCustomer(body);
+    const cart = await getCustomerCart(customer.id);
+
+    const response = NextResponse.json({
+      success: true,
+      data: { customer, cart },
+      timestamp: new Date().toISOString(),
+    });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/auth/login:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to sign in',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
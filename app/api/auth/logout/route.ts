@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, endSession } from '@/lib/api/customers-service';
+import { clearSessionCookie } from '@/lib/api/with-customer';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+/**
+ * POST /api/auth/logout
+ *
+ * End the current session and clear its cookie. The account's cart stays
+ * on the server for the next sign-in. Succeeds even when not signed in.
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  try {
+    await endSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+    const response = NextResponse.json({
+      success: true,
+      data: null,
+      timestamp: new Date().toISOString(),
+    });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/auth/logout:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to sign out',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { withCustomer } from '@/lib/api/with-customer';
+
+/**
+ * GET /api/auth/me
+ *
+ * The signed-in customer, or 401 UNAUTHORIZED.
+ */
+export const GET = withCustomer(async (request, context, customer) =>
+  NextResponse.json({
+    success: true,
+    data: customer,
+    timestamp: new Date().toISOString(),
+  })
+);
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registerCustomer } from '@/lib/api/customers-service';
+import { getCustomerCart } from '@/lib/api/cart-service';
+import { ServiceError } from '@/lib/api/errors';
+import { setSessionCookie } from '@/lib/api/with-customer';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+/**
+ * POST /api/auth/register
+ *
+ * Create a customer account and sign it in (sets the session cookie).
+ *
+ * Example body:
+ * {
+ *   "email": "ada@example.com",
+ *   "name": "Ada Lovelace",
+ *   "password": "correct horse battery",
+ *   "items": [{ "productId": "prod_001", "quantity": 1 }]
+ * }
+ *
+ * `items` is the cart filled before signing up; it becomes the account's
+ * cart. Responds 201 with the customer and the cart.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ * - 409 CONFLICT - An account with this email already exists
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { customer, token, expiresAt } = await registerCustomer(body);
+    const cart = await getCustomerCart(customer.id);
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: { customer, cart },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/auth/register:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create account',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hydrateCart } from '@/lib/api/cart-service';
+import { validateCartInput } from '@/lib/api/validation-service';
+
+/**
+ * POST /api/cart/hydrate
+ *
+ * Turn cart lines kept in the browser (anonymous shoppers) into products
+ * with current prices and stock. Nothing is stored.
+ *
+ * Example body:
+ * {
+ *   "items": [{ "productId": "prod_001", "quantity": 1 }]
+ * }
+ *
+ * Lines for deleted or unpublished products are listed in `removed`.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - Malformed lines
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { items, errors } = validateCartInput(body);
+  if (!items) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Cart validation failed',
+          code: 'VALIDATION_ERROR',
+          details: errors,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cart = await hydrateCart(items);
+
+    return NextResponse.json({
+      success: true,
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in POST /api/cart/hydrate:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to load cart',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
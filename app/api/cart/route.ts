@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCustomerCart, saveCustomerCart } from '@/lib/api/cart-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withCustomer } from '@/lib/api/with-customer';
+
+/**
+ * GET /api/cart
+ *
+ * The signed-in customer's cart, with current product data. Lines that can
+ * no longer be bought are dropped and listed in `removed`.
+ *
+ * Requires a signed-in customer (session cookie).
+ */
+export const GET = withCustomer(async (request, context, customer) => {
+  try {
+    const cart = await getCustomerCart(customer.id);
+
+    return NextResponse.json({
+      success: true,
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/cart:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to load cart',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/cart
+ *
+ * Replace the signed-in customer's cart.
+ *
+ * Example body:
+ * {
+ *   "items": [
+ *     { "productId": "prod_001", "quantity": 1 },
+ *     { "productId": "prod_007", "variantId": "var_007_m", "quantity": 2 }
+ *   ]
+ * }
+ *
+ * Only ids and quantities are stored. Responds with the hydrated cart.
+ *
+ * Requires a signed-in customer (session cookie).
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - Malformed lines
+ */
+export const PUT = withCustomer(async (request: NextRequest, context, customer) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cart = await saveCustomerCart(customer.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in PUT /api/cart:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to save cart',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
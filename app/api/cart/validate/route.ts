@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateCart } from '@/lib/api/cart-service';
+import { ServiceError } from '@/lib/api/errors';
+
+/**
+ * POST /api/cart/validate
+ *
+ * Check a cart against live prices and stock. The cart and checkout pages
+ * call this before letting the shopper pay.
+ *
+ * Example body:
+ * {
+ *   "items": [
+ *     { "productId": "prod_001", "quantity": 2, "price": 29999 },
+ *     { "productId": "prod_007", "variantId": "var_007_m", "quantity": 1, "price": 2499 }
+ *   ]
+ * }
+ *
+ * `price` is the unit price the shopper was shown, in cents of the
+ * product's currency. Example response data:
+ * {
+ *   "valid": false,
+ *   "changes": [{
+ *     "type": "price-changed",
+ *     "productId": "prod_001",
+ *     "name": "Wireless Headphones",
+ *     "message": "Price changed from $299.99 to $349.99",
+ *     "previousPrice": 29999,
+ *     "currentPrice": 34999,
+ *     "currency": "USD"
+ *   }],
+ *   "items": [...]                     // The cart with the changes applied
+ * }
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - Malformed lines or prices
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const validation = await validateCart(body);
+
+    return NextResponse.json({
+      success: true,
+      data: validation,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/cart/validate:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to validate cart',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCategory,
+  updateCategory,
+  deleteCategory,
+} from '@/lib/api/categories-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * Turn an error thrown by the categories service into an error response
+ *
+ * ServiceErrors keep their own status code; anything else becomes a 500.
+ */
+function errorResponse(error: unknown, method: string, id: string) {
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${method} /api/categories/${id}:`, error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message: 'Category request failed',
+        code: 'INTERNAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/categories/[id]
+ *
+ * Get a single category by ID.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const category = await getCategory(params.id);
+
+    if (!category) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: `Category with ID "${params.id}" not found`,
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: category,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'GET', params.id);
+  }
+}
+
+/**
+ * PATCH /api/categories/[id]
+ *
+ * Update some fields of a category.
+ *
+ * Example bodies:
+ * - { "name": "Audio" } - Rename
+ * - { "parentId": "cat_electronics" } - Move under Electronics
+ * - { "parentId": null } - Make top-level
+ *
+ * Moves that would create a cycle (a category under its own descendant)
+ * are rejected with 409 CATEGORY_CYCLE.
+ *
+ * Requires an API key with the categories:write scope.
+ */
+export const PATCH = withApiKey('categories:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const category = await updateCategory(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: category,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'PATCH', params.id);
+  }
+});
+
+/**
+ * DELETE /api/categories/[id]
+ *
+ * Delete an empty category. Categories that still contain products or
+ * subcategories return 409 Conflict.
+ *
+ * Requires an API key with the categories:write scope.
+ */
+export const DELETE = withApiKey('categories:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const category = await deleteCategory(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: category,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'DELETE', params.id);
+  }
+});
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { getCategories, createCategory } from '@/lib/api/categories-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
 
 /**
  * GET /api/categories
@@ -10,7 +12,8 @@ import { prisma } from '@/lib/db';
  * Categories are used to build navigation menus and filter options.
  *
  * Example URL:
- * - /api/categories - Get all categories
+ * - /api/categories - Get all categories (flat list, sorted by name)
+ * - /api/categories/tree - Same categories nested by parentId
  *
  * Response includes:
  * - Category ID and slug (for routing)
@@ -22,7 +25,7 @@ export async function GET(request: NextRequest) {
     // Fetch all categories from database
     // Educational: This is a simple read operation, no filtering needed
     // In a real app with many categories, you might add pagination
-    const categories = await prisma.category.findMany();
+    const categories = await getCategories();
 
     return NextResponse.json({
       success: true,
@@ -49,6 +52,79 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * POST /api/categories
+ *
+ * Create a category. Set parentId to the id of an existing category to
+ * create a subcategory.
+ *
+ * Example body:
+ * { "slug": "headphones", "name": "Headphones", "description": "...", "parentId": "cat_electronics" }
+ *
+ * Requires an API key with the categories:write scope.
+ */
+export const POST = withApiKey('categories:write', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const category = await createCategory(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: category,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/categories:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create category',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
 /**
  * Educational Notes on Metadata Endpoints:
  *
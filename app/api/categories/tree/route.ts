@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategoryTree } from '@/lib/api/categories-service';
+
+/**
+ * GET /api/categories/tree
+ *
+ * Get all categories nested by parent, with product counts rolled up.
+ *
+ * Educational Note: Each node carries two counts:
+ * - productCount: products directly in this category
+ * - totalProductCount: products in this category and all its descendants
+ *
+ * Example response:
+ * [
+ *   {
+ *     "slug": "fashion", "productCount": 10, "totalProductCount": 18, "depth": 0,
+ *     "children": [{ "slug": "shoes", "productCount": 8, "depth": 1, "children": [] }]
+ *   }
+ * ]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tree = await getCategoryTree();
+
+    return NextResponse.json({
+      success: true,
+      data: tree,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/categories/tree:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to build category tree',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
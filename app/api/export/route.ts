@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportProducts } from '@/lib/api/export-service';
+import { parseFilterParams } from '@/lib/api/filter-service';
+import { authenticateApiKey } from '@/lib/api/api-keys-service';
+import { ServiceError } from '@/lib/api/errors';
+import { authErrorResponse } from '@/lib/api/with-api-key';
+import { ExportFormat, MerchantFeedType } from '@/lib/types/export';
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+};
+
+/**
+ * GET /api/export?format=csv|jsonl|google-merchant
+ *
+ * Downloads the catalog. Takes the same filters as GET /api/products
+ * (category, minPrice, inStock, tags, search, sortBy, ...) - but no
+ * pagination: every matching product is exported.
+ *
+ * Other query parameters:
+ * - feed: xml | tsv - Merchant Center feed type (default xml)
+ * - includeUnpublished: true to include drafts and archived products
+ *   (csv and jsonl only; requires an API key with the products:read scope)
+ *
+ * Example URLs:
+ * - /api/export?format=csv - The whole live catalog for a spreadsheet
+ * - /api/export?format=jsonl&category=electronics&includeUnpublished=true
+ * - /api/export?format=google-merchant - Merchant Center XML feed
+ * - /api/export?format=google-merchant&feed=tsv&inStock=true
+ *
+ * Educational Note: The body is streamed, not a JSON envelope. The
+ * download starts with the first page of products, and a very large
+ * catalog never sits in memory as a whole.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get('format') as ExportFormat | null;
+  const feed = (searchParams.get('feed') ?? 'xml') as MerchantFeedType;
+
+  const errors = [];
+  if (format !== 'csv' && format !== 'jsonl' && format !== 'google-merchant') {
+    errors.push({ field: 'format', message: 'Must be csv, jsonl or google-merchant' });
+  }
+  if (feed !== 'xml' && feed !== 'tsv') {
+    errors.push({ field: 'feed', message: 'Must be xml or tsv' });
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Invalid export parameters',
+          code: 'VALIDATION_ERROR',
+          details: errors,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  // Unpublished products are not public - they need a key
+  const includeUnpublished = searchParams.get('includeUnpublished') === 'true';
+  if (includeUnpublished) {
+    try {
+      await authenticateApiKey(request.headers.get('authorization'), 'products:read');
+    } catch (error) {
+      if (error instanceof ServiceError) return authErrorResponse(error);
+      throw error;
+    }
+  }
+
+  const chunks = exportProducts(parseFilterParams(searchParams), {
+    format: format!,
+    feed,
+    includeUnpublished,
+  });
+  const encoder = new TextEncoder();
+
+  // Educational: pull() is called whenever the client is ready for more,
+  // so a slow download slows the database reads down instead of buffering
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        // Headers are already sent - all we can do is end the download early
+        console.error('Error in GET /api/export:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  const extension = format === 'google-merchant' ? feed : format!;
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[extension],
+      'Content-Disposition': `attachment; filename="products-${date}.${extension}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
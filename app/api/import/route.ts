@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importProducts, parseColumnMapping } from '@/lib/api/import-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+import { ImportFormat } from '@/lib/types/import';
+
+/**
+ * POST /api/import?format=csv&dryRun=true&map=Stock=quantity
+ *
+ * Bulk-imports products from the request body (the file itself, not JSON).
+ * Rows are matched to products by SKU: known SKUs are updated, new ones
+ * created as drafts.
+ *
+ * Query parameters:
+ * - format: csv | jsonl (or send Content-Type text/csv / application/x-ndjson)
+ * - dryRun: true to validate every row without writing anything
+ * - map: column renames, e.g. "Stock=quantity,Retail=price"
+ * - batchSize: rows per transaction (default 100)
+ *
+ * Header X-Author names who ran the import in the revision history
+ * (default: the name of the API key).
+ *
+ * Example:
+ *   curl -X POST "localhost:3000/api/import?dryRun=true" \
+ *     -H "Authorization: Bearer pcms_..." \
+ *     -H "Content-Type: text/csv" --data-binary @products.csv
+ *
+ * Example response:
+ * {
+ *   "dryRun": true,
+ *   "total": 3,
+ *   "created": 1,
+ *   "updated": 1,
+ *   "failed": 1,
+ *   "errors": [
+ *     { "row": 2, "sku": "TEE-RED", "errors": [{ "field": "price", "message": "Must be a positive integer (in cents)" }] }
+ *   ],
+ *   "ignoredColumns": ["Supplier"]
+ * }
+ *
+ * Educational Note: The response is 200 even when rows failed - the
+ * import itself worked, and `errors` says which rows to fix and resend.
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async (
+  request: NextRequest,
+  _context: unknown,
+  apiKey
+) => {
+  const searchParams = request.nextUrl.searchParams;
+  const format = getFormat(searchParams.get('format'), request.headers.get('content-type'));
+
+  if (!format) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Unknown file format',
+          code: 'VALIDATION_ERROR',
+          details: [
+            {
+              field: 'format',
+              message: 'Must be csv or jsonl (or send Content-Type text/csv or application/x-ndjson)',
+            },
+          ],
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const text = await request.text();
+    const batchSize = searchParams.get('batchSize');
+
+    const result = await importProducts(text, {
+      format,
+      dryRun: searchParams.get('dryRun') === 'true',
+      mapping: parseColumnMapping(searchParams.get('map') ?? ''),
+      batchSize: batchSize ? parseInt(batchSize, 10) || undefined : undefined,
+      author: request.headers.get('x-author') ?? apiKey.name,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/import:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to import products',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+function getFormat(format: string | null, contentType: string | null): ImportFormat | null {
+  if (format === 'csv' || format === 'jsonl') return format;
+  if (format) return null;
+
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (type === 'text/csv') return 'csv';
+  if (type === 'application/x-ndjson' || type === 'application/jsonl') return 'jsonl';
+  return null;
+}
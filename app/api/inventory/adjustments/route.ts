@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adjustStock } from '@/lib/api/inventory-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/inventory/adjustments
+ *
+ * Book a stock change with a reason code: a supplier delivery, a customer
+ * return, damaged or lost units, the result of a stock count. The change
+ * is applied to the product (or variant) and recorded in its movement
+ * history.
+ *
+ * Example bodies:
+ * { "productId": "prod_001", "quantity": 50, "reason": "received", "reference": "PO-1042" }
+ * { "productId": "prod_002", "variantId": "var_002_m", "quantity": -2, "reason": "damaged" }
+ * { "productId": "prod_003", "quantity": -1, "reason": "other", "note": "Used for photo shoot" }
+ *
+ * Reasons: received, customer_return, found (up); damaged, lost, stolen,
+ * expired (down); count_correction, other (either way - other needs a note).
+ *
+ * Response (201): { movement, quantity } - quantity is the new on-hand stock.
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Unknown reason, zero or wrong-signed quantity
+ * - 400 VARIANT_REQUIRED - The product has variants; name one
+ * - 404 NOT_FOUND - Unknown product or variant
+ * - 409 INSUFFICIENT_STOCK - Stock would go below zero
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await adjustStock(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/inventory/adjustments:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to adjust stock',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { checkStockAlerts } from '@/lib/api/stock-alerts-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/inventory/alerts/check
+ *
+ * Run the stock alert check now: open alerts for SKUs that fell to their
+ * threshold, resolve restocked ones and notify (STOCK_ALERT_NOTIFIERS,
+ * console and webhook by default). For schedulers that can call a URL but
+ * not run `npm run inventory:alerts`.
+ *
+ * Response: { opened: StockAlert[], resolved, notified }
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async () => {
+  try {
+    const result = await checkStockAlerts();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/inventory/alerts/check:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to check stock alerts',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStockAlerts } from '@/lib/api/stock-alerts-service';
+import { withApiKey } from '@/lib/api/with-api-key';
+import { StockAlertStatus } from '@/lib/types/inventory';
+
+/**
+ * GET /api/inventory/alerts
+ *
+ * Low-stock alerts, newest first: the SKU, its quantity and threshold when
+ * the alert opened, recent daily sales and a suggested reorder quantity.
+ *
+ * Query parameters:
+ * - status: open (default) | resolved | all
+ * - limit: at most this many (default 50, max 200)
+ *
+ * Alerts are opened by `npm run inventory:alerts` or
+ * POST /api/inventory/alerts/check.
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Unknown status
+ *
+ * Requires an API key with the products:read scope.
+ */
+export const GET = withApiKey('products:read', async (request: NextRequest) => {
+  const status = request.nextUrl.searchParams.get('status') ?? 'open';
+  if (status !== 'open' && status !== 'resolved' && status !== 'all') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'status must be one of: open, resolved, all',
+          code: 'VALIDATION_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50;
+
+  try {
+    const alerts = await getStockAlerts({
+      status: status === 'all' ? undefined : (status as StockAlertStatus),
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: alerts,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/inventory/alerts:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch stock alerts',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
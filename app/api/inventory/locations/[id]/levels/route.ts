@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setLevelThreshold } from '@/lib/api/locations-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * PATCH /api/inventory/locations/[id]/levels
+ *
+ * Set the low-stock threshold of a product (or variant) at this location,
+ * e.g. "low" at 2 on the store shelf while the warehouse says 20.
+ *
+ * Example body:
+ * { "productId": "prod_022", "variantId": "var_022_wh_m", "lowStockThreshold": 2 }
+ *
+ * Quantities aren't set here - they change with orders and
+ * POST /api/inventory/adjustments, so every unit is in the ledger.
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR / VARIANT_REQUIRED
+ * - 404 NOT_FOUND - Unknown location, product or variant
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const PATCH = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const level = await setLevelThreshold(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: level,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in PATCH /api/inventory/locations/${params.id}/levels:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to update inventory level',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateLocation, deleteLocation } from '@/lib/api/locations-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * Turn an error thrown by the locations service into an error response
+ *
+ * ServiceErrors keep their own status code; anything else becomes a 500.
+ */
+function errorResponse(error: unknown, method: string, id: string) {
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${method} /api/inventory/locations/${id}:`, error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message: 'Location request failed',
+        code: 'INTERNAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/inventory/locations/[id]
+ *
+ * Update some fields of a location.
+ *
+ * Example bodies:
+ * - { "priority": 5 } - Ship from it only when the others can't
+ * - { "pickup": true } - Offer pickup there
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const PATCH = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const location = await updateLocation(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: location,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'PATCH', params.id);
+  }
+});
+
+/**
+ * DELETE /api/inventory/locations/[id]
+ *
+ * Delete a location. 409 LOCATION_IN_USE while it holds stock or once it
+ * has shipped orders, and for the last location.
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const DELETE = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const location = await deleteLocation(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: location,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'DELETE', params.id);
+  }
+});
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocations, createLocation } from '@/lib/api/locations-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/inventory/locations
+ *
+ * List the warehouses and stores, in priority order.
+ *
+ * Requires an API key with the products:read scope.
+ */
+export const GET = withApiKey('products:read', async () => {
+  try {
+    const locations = await getLocations();
+
+    return NextResponse.json({
+      success: true,
+      data: locations,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/inventory/locations:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch locations',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/inventory/locations
+ *
+ * Add a warehouse or store. It starts without stock - book its stock with
+ * POST /api/inventory/adjustments and its locationId.
+ *
+ * Example bodies:
+ * - { "code": "WH-EAST", "name": "East Coast warehouse", "zipCode": "07094" }
+ * - { "code": "STORE-CHI", "name": "Chicago store", "type": "store",
+ *     "priority": 2, "zipCode": "60611", "pickup": true }
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ * - 409 CONFLICT - Code already used by another location
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const location = await createLocation(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: location,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/inventory/locations:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create location',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
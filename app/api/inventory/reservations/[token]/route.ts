@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseReservation } from '@/lib/api/inventory-service';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+/**
+ * DELETE /api/inventory/reservations/[token]
+ *
+ * Release held stock, e.g. when the shopper leaves checkout without ordering.
+ *
+ * Educational Note: Releasing is idempotent - releasing an already released
+ * (or converted) reservation simply releases 0 lines.
+ */
+export const DELETE = withRequestContext(async (
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) => {
+  try {
+    const released = await releaseReservation(params.token);
+
+    return NextResponse.json({
+      success: true,
+      data: { token: params.token, released },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error in DELETE /api/inventory/reservations/${params?.token}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to release reservation',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
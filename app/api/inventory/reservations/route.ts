@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reserveStock } from '@/lib/api/inventory-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+/**
+ * POST /api/inventory/reservations
+ *
+ * Hold stock for a checkout. Called by the checkout page when it opens.
+ *
+ * Educational Note: Reserved units are subtracted from what other shoppers
+ * can buy, but are not sold yet. If the order is not placed before the
+ * reservation expires (15 minutes), the units become available again.
+ *
+ * Example body:
+ * { "items": [{ "productId": "prod_001", "quantity": 2 }] }
+ *
+ * Response: { token, expiresAt, items } - send the token with the order.
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Invalid items
+ * - 404 NOT_FOUND - A product doesn't exist or isn't published
+ * - 409 INSUFFICIENT_STOCK - details lists { productId, requested, available }
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reservation = await reserveStock(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: reservation,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/inventory/reservations:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to reserve stock',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
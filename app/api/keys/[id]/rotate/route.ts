@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rotateApiKey } from '@/lib/api/api-keys-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/keys/[id]/rotate
+ *
+ * Issue a new secret for an API key, e.g. after it leaked. The old token
+ * stops working at once; name, scopes and expiry stay the same. The
+ * response includes the new `token` - it is never shown again.
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No key with that ID
+ * - 409 KEY_REVOKED - Revoked keys can't be rotated (create a new one)
+ *
+ * Requires an API key with the admin scope.
+ */
+export const POST = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const apiKey = await rotateApiKey(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: apiKey,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in POST /api/keys/${params.id}/rotate:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to rotate API key',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
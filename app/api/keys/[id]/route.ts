@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeApiKey } from '@/lib/api/api-keys-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * DELETE /api/keys/[id]
+ *
+ * Revoke an API key. It stops working immediately but stays in the list
+ * with `revokedAt` set.
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No key with that ID
+ * - 409 KEY_REVOKED - Already revoked
+ *
+ * Requires an API key with the admin scope.
+ */
+export const DELETE = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const apiKey = await revokeApiKey(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: apiKey,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in DELETE /api/keys/${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to revoke API key',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
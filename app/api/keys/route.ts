@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeys, createApiKey } from '@/lib/api/api-keys-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/keys
+ *
+ * List every API key, newest first, including revoked ones. Secrets are
+ * never listed - only each key's prefix.
+ *
+ * Requires an API key with the admin scope.
+ */
+export const GET = withApiKey('admin', async () => {
+  try {
+    const apiKeys = await getApiKeys();
+
+    return NextResponse.json({
+      success: true,
+      data: apiKeys,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/keys:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch API keys',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/keys
+ *
+ * Create an API key.
+ *
+ * Example body:
+ * { "name": "Warehouse sync", "scopes": ["products:write"], "expiresAt": "2027-06-30T00:00:00Z" }
+ *
+ * The response includes `token` - store it now, it is never shown again.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ *
+ * Requires an API key with the admin scope.
+ */
+export const POST = withApiKey('admin', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const apiKey = await createApiKey(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: apiKey,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/keys:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create API key',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
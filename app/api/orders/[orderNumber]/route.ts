@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderByNumber } from '@/lib/api/orders-service';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/orders/[orderNumber]
+ *
+ * Look up an order with its lines, discounts and taxes, e.g. for support
+ * or fulfilment tools.
+ *
+ * Example: /api/orders/ORD-20261019-4F7K2Q
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No order with that number
+ *
+ * Requires an API key with the orders:read scope.
+ */
+export const GET = withApiKey('orders:read', async (
+  request: NextRequest,
+  { params }: { params: { orderNumber: string } }
+) => {
+  try {
+    const order = await getOrderByNumber(params.orderNumber);
+
+    if (!order) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: `Order "${params.orderNumber}" not found`,
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: order,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error in GET /api/orders/${params.orderNumber}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch order',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createOrder } from '@/lib/api/orders-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+/**
+ * POST /api/orders
+ *
+ * Place an order.
+ *
+ * Educational Note: The body only contains product ids and quantities.
+ * Prices, names and SKUs are looked up in the database and copied into the
+ * order lines, so the order keeps its values even if the catalog changes.
+ *
+ * Example body:
+ * {
+ *   "customer": { "email": "ada@example.com", "firstName": "Ada", "lastName": "Lovelace" },
+ *   "shippingAddress": { "address": "1 Main St", "city": "Springfield", "state": "IL",
+ *                        "zipCode": "62701", "country": "United States" },
+ *   "items": [{ "productId": "prod_001", "quantity": 1 }],
+ *   "couponCode": "WELCOME10",
+ *   "shippingMethod": "express",
+ *   "currency": "EUR"
+ * }
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Invalid body or unknown product ids
+ * - 400 INVALID_COUPON - couponCode is unknown, expired or doesn't apply to the cart
+ * - 400 SHIPPING_UNAVAILABLE - No shipping to that country, or not with that method
+ * - 409 INSUFFICIENT_STOCK - details lists the lines that cannot be fulfilled
+ * - 409 PROMOTION_UNAVAILABLE - A promotion reached its usage limit meanwhile
+ */
+export const POST = withRequestContext(async (
+  request: NextRequest,
+  _context: unknown,
+  customer
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const order = await createOrder(body, customer?.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: order,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/orders:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to place order',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
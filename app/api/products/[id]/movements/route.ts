@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProductMovements } from '@/lib/api/stock-movements-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/products/[id]/movements
+ *
+ * The stock history of a product, newest first: every sale, return,
+ * receipt, adjustment, reservation and release, with who made it and why.
+ *
+ * Query parameters (optional):
+ * - variantId: only this variant's movements
+ * - limit: number of movements (default 50, max 200)
+ *
+ * Example response entry:
+ * {
+ *   "type": "sale",
+ *   "quantity": -2,
+ *   "reserved": 0,
+ *   "reference": "ord_8f2c...",
+ *   "actor": "jane@shop.example",
+ *   "createdAt": "2026-10-19T14:03:00.000Z"
+ * }
+ *
+ * Requires an API key with the products:read scope.
+ */
+export const GET = withApiKey('products:read', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const movements = await getProductMovements(params.id, {
+      variantId: searchParams.get('variantId') ?? undefined,
+      limit: parseInt(searchParams.get('limit') || '50', 10) || 50,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: movements,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in GET /api/products/${params.id}/movements:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch stock movements',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPreviewToken } from '@/lib/api/preview-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/products/[id]/preview
+ *
+ * Issue a preview link for a product, whatever its status. The returned
+ * `url` opens the product page with a signed token that is valid for one
+ * hour, so an editor can check a draft before publishing it.
+ *
+ * Example response:
+ * {
+ *   "token": "1760889600.Yt3...",
+ *   "url": "/products/wireless-headphones?preview=1760889600.Yt3...",
+ *   "expiresAt": "2026-10-19T16:00:00.000Z"
+ * }
+ *
+ * Educational Note: Anyone holding the link can see the draft until it
+ * expires - share it like a password.
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const preview = await createPreviewToken(params.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: preview,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in POST /api/products/${params.id}/preview:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create preview link',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
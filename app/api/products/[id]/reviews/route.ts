@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getProductReviews,
+  getRatingSummary,
+  createReview,
+} from '@/lib/api/reviews-service';
+import { getProduct, isPubliclyVisible } from '@/lib/api/products-service';
+import { ServiceError } from '@/lib/api/errors';
+import { ReviewSort } from '@/lib/types/review';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+const REVIEW_SORTS: ReviewSort[] = ['newest', 'helpful', 'rating-high', 'rating-low'];
+
+/**
+ * GET /api/products/[id]/reviews
+ *
+ * Approved reviews of a product, one page at a time, plus the rating
+ * summary (average, count and star histogram).
+ *
+ * Query Parameters:
+ * - page: Page number (default 1)
+ * - limit: Reviews per page (default 5, max 50)
+ * - sort: newest | helpful | rating-high | rating-low (default newest)
+ *
+ * Example URLs:
+ * - /api/products/prod_001/reviews
+ * - /api/products/prod_001/reviews?sort=helpful&page=2
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Reviews of drafts and archived products stay hidden, like the product
+    const product = await getProduct(params.id);
+    if (!product || !isPubliclyVisible(product)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: `Product with ID "${params.id}" not found`,
+            code: 'NOT_FOUND',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '5', 10);
+    const sort = searchParams.get('sort') as ReviewSort | null;
+
+    const [result, summary] = await Promise.all([
+      getProductReviews(params.id, {
+        page: isNaN(page) ? 1 : page,
+        limit: isNaN(limit) ? 5 : limit,
+        sort: sort && REVIEW_SORTS.includes(sort) ? sort : 'newest',
+      }),
+      getRatingSummary(params.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+      summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error in GET /api/products/${params.id}/reviews:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch reviews',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/products/[id]/reviews
+ *
+ * Submit a review. It is stored as pending and only appears (and counts
+ * towards the rating) once a moderator approves it.
+ *
+ * Example body:
+ * { "authorName": "Ada", "email": "ada@example.com", "rating": 5,
+ *   "title": "Great", "body": "Works perfectly." }
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ * - 404 NOT_FOUND - No published product with that ID
+ * - 409 CONFLICT - This email or account has already reviewed the product
+ */
+export const POST = withRequestContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  customer
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const review = await createReview(params.id, body, customer?.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: review,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in POST /api/products/${params.id}/reviews:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to submit review',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
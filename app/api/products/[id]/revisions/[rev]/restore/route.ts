@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreProduct } from '@/lib/api/products-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/products/[id]/revisions/[rev]/restore
+ *
+ * Roll a product back to one of its revisions. The rollback is saved as a
+ * new revision (action "restore"), so nothing in the history is lost.
+ * Responds with the restored product.
+ *
+ * Stock levels are kept as they are now - only the product's content is
+ * rolled back. A deleted product is recreated.
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No such revision
+ * - 400 VALIDATION_ERROR - The revision can't be saved any more, e.g. its
+ *   category was deleted (details lists the fields)
+ * - 409 CONFLICT - Its slug or a SKU now belongs to another product
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string; rev: string } },
+  apiKey
+) => {
+  try {
+    const product = await restoreProduct(
+      params.id,
+      Number(params.rev),
+      request.headers.get('x-author') ?? apiKey.name
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: product,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in POST /api/products/${params.id}/revisions/${params.rev}/restore:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to restore revision',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
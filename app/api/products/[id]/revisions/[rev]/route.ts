@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRevision } from '@/lib/api/revisions-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/products/[id]/revisions/[rev]
+ *
+ * One revision of a product, including the full snapshot of the product as
+ * it was saved.
+ *
+ * Requires an API key with the products:read scope.
+ */
+export const GET = withApiKey('products:read', async (
+  request: NextRequest,
+  { params }: { params: { id: string; rev: string } }
+) => {
+  try {
+    const revision = await getRevision(params.id, Number(params.rev));
+
+    return NextResponse.json({
+      success: true,
+      data: revision,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in GET /api/products/${params.id}/revisions/${params.rev}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch revision',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
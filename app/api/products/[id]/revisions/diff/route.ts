@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffRevisions } from '@/lib/api/revisions-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/products/[id]/revisions/diff?from=2&to=4
+ *
+ * Field-level differences between two revisions of a product.
+ *
+ * Example response:
+ * {
+ *   "productId": "prod_001",
+ *   "from": 2,
+ *   "to": 4,
+ *   "changes": [
+ *     { "field": "price", "change": "changed", "before": 29999, "after": 24999 },
+ *     { "field": "tags", "change": "changed", "added": ["sale"], "removed": [] },
+ *     { "field": "attributes.color", "change": "added", "after": "Black" },
+ *     { "field": "variants[TSHIRT-M].inventory.lowStockThreshold", "change": "changed", "before": 5, "after": 10 }
+ *   ]
+ * }
+ *
+ * Educational Note: JSON fields are compared by content. Tags are a set
+ * (order doesn't matter), attributes are compared key by key and variants
+ * are matched by SKU - reordering a list is not a change.
+ *
+ * Requires an API key with the products:read scope.
+ */
+export const GET = withApiKey('products:read', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const searchParams = request.nextUrl.searchParams;
+  const from = Number(searchParams.get('from'));
+  const to = Number(searchParams.get('to'));
+
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Query parameters "from" and "to" must be revision numbers',
+          code: 'VALIDATION_ERROR',
+          details: [
+            { field: 'from', message: 'Must be a positive integer' },
+            { field: 'to', message: 'Must be a positive integer' },
+          ],
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const diff = await diffRevisions(params.id, from, to);
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in GET /api/products/${params.id}/revisions/diff:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to compare revisions',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
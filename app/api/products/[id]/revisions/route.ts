@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRevisions } from '@/lib/api/revisions-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/products/[id]/revisions
+ *
+ * The history of a product, newest first. Every create, update, restore and
+ * delete is one revision with its author, time and the fields it changed.
+ * Deleted products keep their history.
+ *
+ * Example response entry:
+ * {
+ *   "revision": 4,
+ *   "action": "update",
+ *   "author": "jane@shop.example",
+ *   "createdAt": "2026-10-19T14:03:00.000Z",
+ *   "changedFields": ["price", "tags"]
+ * }
+ *
+ * Related:
+ * - GET /api/products/[id]/revisions/[rev] - One revision with its snapshot
+ * - GET /api/products/[id]/revisions/diff?from=2&to=4 - Field-level diff
+ * - POST /api/products/[id]/revisions/[rev]/restore - Roll back
+ *
+ * Requires an API key with the products:read scope.
+ */
+export const GET = withApiKey('products:read', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const revisions = await getRevisions(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: revisions,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in GET /api/products/${params.id}/revisions:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch revisions',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
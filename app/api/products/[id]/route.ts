@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getProduct } from '@/lib/api/products-service';
+import {
+  getProduct,
+  replaceProduct,
+  updateProduct,
+  deleteProduct,
+  isPubliclyVisible,
+} from '@/lib/api/products-service';
+import { getInventoryStatus } from '@/lib/api/product-display';
+import { verifyPreviewToken } from '@/lib/api/preview-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
 
 /**
  * GET /api/products/[id]
@@ -12,6 +22,14 @@ import { getProduct } from '@/lib/api/products-service';
  * Example URLs:
  * - /api/products/prod_001 - Get product with ID "prod_001"
  * - /api/products/prod_042 - Get product with ID "prod_042"
+ * - /api/products/prod_042?preview=<token> - A draft, with a preview token
+ *
+ * Drafts, archived products and scheduled products that aren't live yet
+ * answer 404 unless a valid preview token is given.
+ *
+ * The product comes with `availability`: its inventory status, with
+ * `locations` listing the status at each warehouse and store - e.g.
+ * "Available for pickup at Chicago store".
  *
  * RESTful Pattern:
  * GET /api/products/:id - Get single resource
@@ -45,10 +63,11 @@ export async function GET(
     // Fetch product from service
     // Educational: Service layer handles the business logic
     const product = await getProduct(id);
+    const preview = request.nextUrl.searchParams.get('preview') ?? undefined;
 
-    // Check if product exists
+    // Check if product exists (for shoppers, unpublished products don't)
     // Educational: 404 Not Found is the correct status when resource doesn't exist
-    if (!product) {
+    if (!product || (!isPubliclyVisible(product) && !verifyPreviewToken(id, preview))) {
       return NextResponse.json(
         {
           success: false,
@@ -66,7 +85,7 @@ export async function GET(
     // Educational: 200 OK with the product data
     return NextResponse.json({
       success: true,
-      data: product,
+      data: { ...product, availability: getInventoryStatus(product) },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -89,12 +108,169 @@ export async function GET(
   }
 }
 
+/**
+ * Turn an error thrown by a write handler into an error response
+ *
+ * ServiceErrors (validation, not found, conflict) keep their own status code;
+ * anything else is unexpected and becomes a 500.
+ */
+function writeErrorResponse(error: unknown, method: string, id: string) {
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${method} /api/products/${id}:`, error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message: 'Failed to save product',
+        code: 'INTERNAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
+
+function invalidJsonResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message: 'Request body must be valid JSON',
+        code: 'INVALID_JSON',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * PUT /api/products/[id]
+ *
+ * Replace a product completely.
+ *
+ * Educational Note: PUT means "store this representation at this URL".
+ * The body must be a full product - optional fields left out are cleared.
+ *
+ * Every write stores a revision (see /api/products/[id]/revisions); its
+ * author is the X-Author header, or else the name of the API key.
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const PUT = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  apiKey
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return invalidJsonResponse();
+  }
+
+  try {
+    const product = await replaceProduct(params.id, body, request.headers.get('x-author') ?? apiKey.name);
+
+    return NextResponse.json({
+      success: true,
+      data: product,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return writeErrorResponse(error, 'PUT', params.id);
+  }
+});
+
+/**
+ * PATCH /api/products/[id]
+ *
+ * Update some fields of a product.
+ *
+ * Educational Note: PATCH only sends what changes, e.g. { "price": 2499 }
+ * or { "inventory": { "quantity": 40 } }. The merged result is validated
+ * exactly like a full PUT.
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const PATCH = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  apiKey
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return invalidJsonResponse();
+  }
+
+  try {
+    const product = await updateProduct(params.id, body, request.headers.get('x-author') ?? apiKey.name);
+
+    return NextResponse.json({
+      success: true,
+      data: product,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return writeErrorResponse(error, 'PATCH', params.id);
+  }
+});
+
+/**
+ * DELETE /api/products/[id]
+ *
+ * Delete a product. Responds with the deleted product.
+ *
+ * Educational Note: DELETE is idempotent in intent - deleting twice leaves
+ * the same state - but the second call returns 404 because the resource
+ * no longer exists.
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const DELETE = withApiKey('products:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  apiKey
+) => {
+  try {
+    const product = await deleteProduct(params.id, request.headers.get('x-author') ?? apiKey.name);
+
+    return NextResponse.json({
+      success: true,
+      data: product,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return writeErrorResponse(error, 'DELETE', params.id);
+  }
+});
+
 /**
  * Educational Notes on HTTP Status Codes:
  *
  * 200 OK - Success, resource found and returned
+ * 201 Created - Success, new resource stored (POST /api/products)
  * 400 Bad Request - Client error, invalid input (e.g., missing ID)
  * 404 Not Found - Resource doesn't exist
+ * 409 Conflict - Request clashes with existing data (duplicate slug/sku)
  * 500 Internal Server Error - Server-side error
  *
  * These status codes help clients understand what happened:
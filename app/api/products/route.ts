@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getProducts } from '@/lib/api/products-service';
-import { getAvailableFilterOptions } from '@/lib/api/filter-service';
-import { FilterParams } from '@/lib/types/product';
+import { getProducts, createProduct } from '@/lib/api/products-service';
+import { getAvailableFilterOptions, parseFilterParams } from '@/lib/api/filter-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
 
 /**
  * GET /api/products
@@ -18,10 +19,17 @@ import { FilterParams } from '@/lib/types/product';
  * Example URLs:
  * - /api/products - All products (first page)
  * - /api/products?category=electronics - Filter by category
+ * - /api/products?category=fashion&includeSubcategories=true - Category and its subcategories
  * - /api/products?minPrice=1000&maxPrice=5000 - Price range
  * - /api/products?search=headphones - Search query
  * - /api/products?sortBy=price-asc&page=2&limit=24 - Sorted and paginated
  * - /api/products?category=fashion&inStock=true&sortBy=price-desc - Combined filters
+ * - /api/products?sortBy=price-asc&limit=24&cursor=eyJzb3J0Ij... - Continue from a cursor
+ *
+ * Educational Note: Every response includes pagination.nextCursor and
+ * prevCursor. Sending one back as ?cursor= switches to keyset pagination:
+ * stable while products are added, and fast at any depth. A cursor only
+ * works with the sortBy it was issued for (otherwise 400 INVALID_CURSOR).
  */
 export async function GET(request: NextRequest) {
   try {
@@ -30,75 +38,9 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
 
     // Build filter parameters from query string
-    // Educational: This demonstrates how to parse and validate query parameters
-    const filters: FilterParams = {};
-
-    // Category filter
-    const category = searchParams.get('category');
-    if (category) {
-      filters.category = category;
-    }
-
-    // Price range filters
-    // Educational: Convert string to number and validate
-    const minPrice = searchParams.get('minPrice');
-    if (minPrice) {
-      const parsed = parseInt(minPrice, 10);
-      if (!isNaN(parsed)) {
-        filters.minPrice = parsed;
-      }
-    }
-
-    const maxPrice = searchParams.get('maxPrice');
-    if (maxPrice) {
-      const parsed = parseInt(maxPrice, 10);
-      if (!isNaN(parsed)) {
-        filters.maxPrice = parsed;
-      }
-    }
-
-    // Stock filter
-    // Educational: URL params are always strings, so '1', 'true', 'yes' all mean true
-    const inStock = searchParams.get('inStock');
-    if (inStock) {
-      filters.inStock = inStock === 'true' || inStock === '1';
-    }
-
-    // Tags filter
-    // Educational: Arrays in query strings can be comma-separated
-    const tags = searchParams.get('tags');
-    if (tags) {
-      filters.tags = tags.split(',').map(t => t.trim());
-    }
-
-    // Search query
-    const search = searchParams.get('search');
-    if (search) {
-      filters.search = search;
-    }
-
-    // Sort parameter
-    const sortBy = searchParams.get('sortBy');
-    if (sortBy) {
-      filters.sortBy = sortBy as FilterParams['sortBy'];
-    }
-
-    // Pagination parameters
-    const page = searchParams.get('page');
-    if (page) {
-      const parsed = parseInt(page, 10);
-      if (!isNaN(parsed) && parsed > 0) {
-        filters.page = parsed;
-      }
-    }
-
-    const limit = searchParams.get('limit');
-    if (limit) {
-      const parsed = parseInt(limit, 10);
-      if (!isNaN(parsed) && parsed > 0) {
-        filters.limit = Math.min(parsed, 100); // Cap at 100 items
-      }
-    }
+    // Educational: Parsing lives in the filter service, so every listing
+    // endpoint (e.g. /api/export) reads the same parameters the same way
+    const filters = parseFilterParams(searchParams);
 
     // Call service to get products
     // Educational: Controllers/routes should be thin - just handle HTTP,
@@ -123,6 +65,22 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    // Client errors (e.g. an invalid cursor)
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
     // Error handling
     // Educational: Always handle errors gracefully in API routes
     console.error('Error in GET /api/products:', error);
@@ -142,6 +100,91 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * POST /api/products
+ *
+ * Create a new product.
+ *
+ * Educational Note: POST is used to create resources. The body is a JSON
+ * Product (without createdAt/updatedAt - the server owns those). On success
+ * the API responds with 201 Created and the stored product. The author of
+ * the product's first revision is the X-Author header, or else the name of
+ * the API key.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ * - 409 CONFLICT - slug or sku already used by another product
+ *
+ * Requires an API key with the products:write scope.
+ */
+export const POST = withApiKey('products:write', async (
+  request: NextRequest,
+  _context: unknown,
+  apiKey
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const product = await createProduct(body, request.headers.get('x-author') ?? apiKey.name);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: product,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 } // 201 Created
+    );
+  } catch (error) {
+    // Known service errors carry their own status code (400, 409, ...)
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/products:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create product',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
 /**
  * Educational Notes on this Endpoint:
  *
@@ -150,9 +193,10 @@ export async function GET(request: NextRequest) {
  *    - SEO-friendly
  *    - Cacheable
  *
- * 2. RESTful Design: GET for read operations
- *    - Idempotent (calling it multiple times has same effect)
- *    - Safe (doesn't modify server state)
+ * 2. RESTful Design: GET for read operations, POST for creation
+ *    - GET is idempotent (calling it multiple times has same effect)
+ *    - GET is safe (doesn't modify server state)
+ *    - POST creates a new resource and returns 201 Created
  *
  * 3. Response Structure: Consistent format
  *    - Always includes success flag
@@ -4,7 +4,7 @@ import { performSearch } from '@/lib/api/products-service';
 /**
  * GET /api/products/search
  *
- * Search products using full-text search with relevance ranking
+ * Search products using the full-text index with BM25 relevance ranking
  *
  * Educational Note: Search endpoints are often separate from list endpoints
  * because they use different algorithms (relevance scoring vs. simple filtering).
@@ -12,7 +12,9 @@ import { performSearch } from '@/lib/api/products-service';
  * Example URLs:
  * - /api/products/search?q=headphones - Search for "headphones"
  * - /api/products/search?q=wireless&limit=10 - Limit results to 10
- * - /api/products/search?q=black+leather - Multi-word search
+ * - /api/products/search?q=black+leather - Multi-word search (all words must match)
+ * - /api/products/search?q=head - Prefix match ("headphones")
+ * - /api/products/search?q="noise+cancelling" - Exact phrase
  *
  * Query Parameters:
  * - q (required): Search query string
@@ -95,14 +97,14 @@ export async function GET(request: NextRequest) {
  *    - Search: Fuzzy matches, relevance scoring
  *
  * 2. Relevance Ranking:
- *    - Results sorted by how well they match the query
- *    - Exact matches rank higher than partial matches
+ *    - Results sorted by BM25 score (how well they match the query)
+ *    - Rare words count more than common ones
  *    - Product name matches rank higher than description matches
  *
  * 3. Search Performance:
  *    - Real apps use search engines (Elasticsearch, Algolia)
  *    - They pre-index data for fast searches
- *    - Our implementation is simplified but shows the concept
+ *    - We use SQLite's built-in FTS5 index - same idea, no extra service
  *
  * 4. Query Parameter 'q':
  *    - Short, standard convention
@@ -118,5 +120,6 @@ export async function GET(request: NextRequest) {
  *    - Return partial matches (not just exact)
  *    - Show result count
  *    - Echo back the query
+ *    - Highlight the matched words
  *    - Suggest alternatives if no results (not implemented here, but good practice)
  */
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updatePromotion, deletePromotion } from '@/lib/api/promotions-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * Turn an error thrown by the promotions service into an error response
+ *
+ * ServiceErrors keep their own status code; anything else becomes a 500.
+ */
+function errorResponse(error: unknown, method: string, id: string) {
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${method} /api/promotions/${id}:`, error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message: 'Promotion request failed',
+        code: 'INTERNAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/promotions/[id]
+ *
+ * Update some fields of a promotion.
+ *
+ * Example bodies:
+ * - { "active": false } - End a sale early
+ * - { "endsAt": "2026-12-31T23:59:59Z", "usageLimit": 500 }
+ *
+ * Requires an API key with the promotions:write scope.
+ */
+export const PATCH = withApiKey('promotions:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const promotion = await updatePromotion(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: promotion,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'PATCH', params.id);
+  }
+});
+
+/**
+ * DELETE /api/promotions/[id]
+ *
+ * Delete a promotion. Past orders keep their itemized discounts.
+ *
+ * Requires an API key with the promotions:write scope.
+ */
+export const DELETE = withApiKey('promotions:write', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const promotion = await deletePromotion(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: promotion,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'DELETE', params.id);
+  }
+});
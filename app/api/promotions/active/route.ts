@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCandidatePromotions } from '@/lib/api/promotions-service';
+
+/**
+ * GET /api/promotions/active
+ *
+ * Promotions the cart should price with: every running automatic promotion,
+ * plus the promotion for ?code= if that coupon exists.
+ *
+ * Educational Note: The browser runs the same pricing service as the
+ * server, so it only needs the rules - not a server round trip for every
+ * quantity change. The server still re-prices the order when it is placed.
+ *
+ * Example URLs:
+ * - /api/promotions/active
+ * - /api/promotions/active?code=WELCOME10
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const code = request.nextUrl.searchParams.get('code') || undefined;
+    const promotions = await getCandidatePromotions(code);
+
+    return NextResponse.json({
+      success: true,
+      data: promotions,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/promotions/active:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch promotions',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
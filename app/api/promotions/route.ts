@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPromotions, createPromotion } from '@/lib/api/promotions-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/promotions
+ *
+ * List every promotion, including inactive and expired ones, newest first.
+ *
+ * Requires an API key with the promotions:read scope.
+ */
+export const GET = withApiKey('promotions:read', async () => {
+  try {
+    const promotions = await getPromotions();
+
+    return NextResponse.json({
+      success: true,
+      data: promotions,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/promotions:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch promotions',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/promotions
+ *
+ * Create a promotion.
+ *
+ * Example bodies:
+ * - { "code": "WELCOME10", "name": "10% off your first order", "type": "percentage",
+ *     "value": 10, "minSubtotal": 5000 }
+ * - { "name": "Mugs: buy 2 get 1 free", "type": "buy-x-get-y", "value": 100,
+ *     "buyQuantity": 2, "getQuantity": 1, "tags": ["mug"] }
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ * - 409 CONFLICT - Coupon code already used by another promotion
+ *
+ * Requires an API key with the promotions:write scope.
+ */
+export const POST = withApiKey('promotions:write', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const promotion = await createPromotion(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: promotion,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/promotions:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to create promotion',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,77 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { voteReviewHelpful } from '@/lib/api/reviews-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withRequestContext } from '@/lib/api/with-request-context';
+
+// Anonymous id that lets each browser vote once per review
+const VOTER_COOKIE = 'review_voter';
+
+/**
+ * POST /api/reviews/[id]/helpful
+ *
+ * Mark an approved review as helpful. Voting twice from the same browser
+ * is accepted but not counted again (voted: false in the response).
+ *
+ * Educational Note: Without accounts there is no user to tie a vote to, so
+ * the browser gets a random id in a long-lived, httpOnly cookie. It stops
+ * accidental double votes, not determined ballot stuffing.
+ */
+export const POST = withRequestContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const existingVoterId = request.cookies.get(VOTER_COOKIE)?.value;
+  const voterId = existingVoterId || randomUUID();
+
+  try {
+    const { review, voted } = await voteReviewHelpful(params.id, voterId);
+
+    const response = NextResponse.json({
+      success: true,
+      data: { helpfulCount: review.helpfulCount, voted },
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!existingVoterId) {
+      response.cookies.set(VOTER_COOKIE, voterId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        path: '/',
+        maxAge: 60 * 60 * 24 * 365, // One year
+      });
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error(`Error in POST /api/reviews/${params.id}/helpful:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to record vote',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
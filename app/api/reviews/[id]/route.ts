@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moderateReview, deleteReview } from '@/lib/api/reviews-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * Turn an error thrown by the reviews service into an error response
+ *
+ * ServiceErrors keep their own status code; anything else becomes a 500.
+ */
+function errorResponse(error: unknown, method: string, id: string) {
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Error in ${method} /api/reviews/${id}:`, error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message: 'Review request failed',
+        code: 'INTERNAL_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/reviews/[id]
+ *
+ * Moderate a review.
+ *
+ * Example bodies:
+ * - { "status": "approved" } - Publish it; counts towards the rating
+ * - { "status": "rejected" } - Hide it
+ *
+ * The product's ratingAverage/ratingCount are recomputed in the same
+ * transaction.
+ *
+ * Requires an API key with the reviews:moderate scope.
+ */
+export const PATCH = withApiKey('reviews:moderate', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const review = await moderateReview(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: review,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'PATCH', params.id);
+  }
+});
+
+/**
+ * DELETE /api/reviews/[id]
+ *
+ * Delete a review and recompute the product's rating.
+ *
+ * Requires an API key with the reviews:moderate scope.
+ */
+export const DELETE = withApiKey('reviews:moderate', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const review = await deleteReview(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: review,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'DELETE', params.id);
+  }
+});
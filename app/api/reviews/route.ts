@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewsByStatus } from '@/lib/api/reviews-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+import { ReviewStatus } from '@/lib/types/review';
+
+/**
+ * GET /api/reviews
+ *
+ * The moderation queue: reviews in one status, oldest first.
+ *
+ * Query Parameters:
+ * - status: pending | approved | rejected (default pending)
+ * - page, limit: Pagination (default limit 20, max 100)
+ *
+ * Example URLs:
+ * - /api/reviews - Reviews waiting for moderation
+ * - /api/reviews?status=rejected
+ *
+ * Requires an API key with the reviews:moderate scope.
+ */
+export const GET = withApiKey('reviews:moderate', async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = (searchParams.get('status') || 'pending') as ReviewStatus;
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+    const result = await getReviewsByStatus(status, {
+      page: isNaN(page) ? 1 : page,
+      limit: isNaN(limit) ? 20 : limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in GET /api/reviews:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch reviews',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
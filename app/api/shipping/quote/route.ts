@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { quoteShipping } from '@/lib/api/shipping-service';
+import { ServiceError } from '@/lib/api/errors';
+
+/**
+ * POST /api/shipping/quote
+ *
+ * Price every shipping method for a cart and a destination. Called by the
+ * checkout page whenever the cart or the country changes.
+ *
+ * Educational Note: This is a POST even though nothing is created - the
+ * cart doesn't fit in a URL. The same service prices the chosen method
+ * again when the order is placed.
+ *
+ * Example body:
+ * {
+ *   "items": [{ "productId": "prod_001", "quantity": 2 }],
+ *   "country": "US",
+ *   "couponCode": "WELCOME10"
+ * }
+ *
+ * Response: { zone, weight, subtotal, options: [{ method, name, price, freeShipping, ... }] }
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Invalid items or missing country
+ * - 400 SHIPPING_UNAVAILABLE - We don't ship to that country
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await quoteShipping(body);
+
+    return NextResponse.json({
+      success: true,
+      data: quote,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/shipping/quote:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to quote shipping',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
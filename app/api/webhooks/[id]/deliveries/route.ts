@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookDeliveries } from '@/lib/api/webhooks-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+import { WebhookDeliveryStatus } from '@/lib/types/webhook';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ *
+ * The endpoint's delivery log, newest first: every event queued for it,
+ * with its status, attempt count, last HTTP status or error, and payload.
+ *
+ * Query parameters:
+ * - status: pending | delivered | dead
+ * - limit: at most this many (default 50, max 200)
+ *
+ * Error responses:
+ * - 400 VALIDATION_ERROR - Unknown status
+ * - 404 NOT_FOUND - No endpoint with that ID
+ *
+ * Requires an API key with the admin scope.
+ */
+export const GET = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const status = request.nextUrl.searchParams.get('status');
+  if (status !== null && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+          code: 'VALIDATION_ERROR',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50;
+
+  try {
+    const deliveries = await getWebhookDeliveries(params.id, {
+      status: (status as WebhookDeliveryStatus | null) ?? undefined,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: deliveries,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in GET /api/webhooks/[id]/deliveries:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch webhook deliveries',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  updateWebhookEndpoint,
+} from '@/lib/api/webhooks-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/webhooks/[id]
+ *
+ * Get a webhook endpoint.
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No endpoint with that ID
+ *
+ * Requires an API key with the admin scope.
+ */
+export const GET = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const endpoint = await getWebhookEndpoint(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in GET /api/webhooks/[id]:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch webhook endpoint',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/webhooks/[id]
+ *
+ * Change an endpoint's url, events, description or active flag, e.g.
+ * { "active": false } to pause it. Paused endpoints get no new events;
+ * deliveries already queued are still sent.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ * - 404 NOT_FOUND - No endpoint with that ID
+ *
+ * Requires an API key with the admin scope.
+ */
+export const PATCH = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const endpoint = await updateWebhookEndpoint(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in PATCH /api/webhooks/[id]:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to update webhook endpoint',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/webhooks/[id]
+ *
+ * Remove an endpoint together with its delivery log.
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No endpoint with that ID
+ *
+ * Requires an API key with the admin scope.
+ */
+export const DELETE = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const endpoint = await deleteWebhookEndpoint(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in DELETE /api/webhooks/[id]:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to delete webhook endpoint',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeadWebhookDeliveries } from '@/lib/api/webhooks-service';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/webhooks/dead-letters
+ *
+ * Deliveries that failed every attempt, across all endpoints, most recent
+ * first. Retry one with POST /api/webhooks/deliveries/[id]/retry.
+ *
+ * Query parameters:
+ * - limit: at most this many (default 50, max 200)
+ *
+ * Requires an API key with the admin scope.
+ */
+export const GET = withApiKey('admin', async (request: NextRequest) => {
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50;
+
+  try {
+    const deliveries = await getDeadWebhookDeliveries(limit);
+
+    return NextResponse.json({
+      success: true,
+      data: deliveries,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/webhooks/dead-letters:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch dead-letter deliveries',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { deliverDueWebhooks } from '@/lib/api/webhooks-service';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/webhooks/deliver
+ *
+ * Send the deliveries that are due now and report how many were
+ * delivered, rescheduled and moved to the dead-letter list. For schedulers
+ * (cron) that can call a URL but not run `npm run webhooks:deliver`.
+ *
+ * Requires an API key with the admin scope.
+ */
+export const POST = withApiKey('admin', async () => {
+  try {
+    const result = await deliverDueWebhooks();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in POST /api/webhooks/deliver:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to deliver webhooks',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
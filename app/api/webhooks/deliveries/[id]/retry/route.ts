@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retryWebhookDelivery } from '@/lib/api/webhooks-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * POST /api/webhooks/deliveries/[id]/retry
+ *
+ * Queue a dead (or delivered) delivery again, with a fresh set of
+ * attempts. The payload is sent unchanged, with the same event id.
+ *
+ * Error responses:
+ * - 404 NOT_FOUND - No delivery with that ID
+ * - 409 ALREADY_PENDING - The delivery is still queued
+ *
+ * Requires an API key with the admin scope.
+ */
+export const POST = withApiKey('admin', async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const delivery = await retryWebhookDelivery(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: delivery,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/webhooks/deliveries/[id]/retry:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to retry webhook delivery',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
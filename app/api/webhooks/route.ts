@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createWebhookEndpoint, getWebhookEndpoints } from '@/lib/api/webhooks-service';
+import { ServiceError } from '@/lib/api/errors';
+import { withApiKey } from '@/lib/api/with-api-key';
+
+/**
+ * GET /api/webhooks
+ *
+ * List the registered webhook endpoints, newest first. Signing secrets are
+ * never listed.
+ *
+ * Requires an API key with the admin scope.
+ */
+export const GET = withApiKey('admin', async () => {
+  try {
+    const endpoints = await getWebhookEndpoints();
+
+    return NextResponse.json({
+      success: true,
+      data: endpoints,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/webhooks:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to fetch webhook endpoints',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/webhooks
+ *
+ * Register a webhook endpoint.
+ *
+ * Example body:
+ * {
+ *   "url": "https://erp.example.com/hooks/catalog",
+ *   "events": ["product.created", "product.updated", "product.deleted"],
+ *   "description": "ERP product sync"
+ * }
+ *
+ * The response includes `secret` - the key the receiver uses to verify
+ * the X-Webhook-Signature header. It is never shown again.
+ *
+ * Error responses:
+ * - 400 INVALID_JSON - Body is not valid JSON
+ * - 400 VALIDATION_ERROR - details lists every invalid field
+ *
+ * Requires an API key with the admin scope.
+ */
+export const POST = withApiKey('admin', async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Request body must be valid JSON',
+          code: 'INVALID_JSON',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const endpoint = await createWebhookEndpoint(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: endpoint,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error in POST /api/webhooks:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: 'Failed to register webhook endpoint',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,8 +1,16 @@
 'use client';
 
 import Link from 'next/link';
-import { useCart } from '@/lib/cart-context';
-import { formatPrice } from '@/lib/api/products-service';
+import {
+  useCart,
+  useCartValidation,
+  getCartItemKey,
+  getCartItemPrice,
+  getCartItemVariant,
+} from '@/lib/cart-context';
+import { formatPrice } from '@/lib/api/product-display';
+import { CouponForm } from '@/components/CouponForm';
+import { CartChanges } from '@/components/CartChanges';
 
 /**
  * Shopping Cart Page (Client Component)
@@ -17,7 +25,8 @@ import { formatPrice } from '@/lib/api/products-service';
  */
 
 export default function CartPage() {
-  const { items, removeFromCart, updateQuantity, totalPrice, clearCart } = useCart();
+  const { items, removeFromCart, updateQuantity, totalPrice, pricing, currency, clearCart } = useCart();
+  const { validation, needsReview, acceptChanges } = useCartValidation();
 
   if (items.length === 0) {
     return (
@@ -71,97 +80,120 @@ export default function CartPage() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Prices or stock changed since the items were added */}
+        {needsReview && validation && (
+          <CartChanges validation={validation} currency={currency} onAccept={acceptChanges} />
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
-            {items.map((item) => (
-              <div key={item.product.id} className="bg-white rounded-lg shadow-sm p-6">
-                <div className="flex gap-6">
-                  {/* Product Image Placeholder */}
-                  <div className="w-24 h-24 bg-gray-100 rounded-lg flex-shrink-0 flex items-center justify-center">
-                    <span className="text-gray-400 text-xs text-center px-2">
-                      {item.product.images[0]?.alt || item.product.name}
-                    </span>
-                  </div>
-
-                  {/* Product Info */}
-                  <div className="flex-1">
-                    <div className="flex justify-between">
-                      <div>
-                        <Link
-                          href={`/products/${item.product.slug}`}
-                          className="text-lg font-semibold text-gray-900 hover:text-blue-600"
-                        >
-                          {item.product.name}
-                        </Link>
-                        <p className="text-sm text-gray-600 mt-1">
-                          {item.product.description}
-                        </p>
-                        <p className="text-sm text-gray-500 mt-2">
-                          SKU: {item.product.sku}
-                        </p>
-                      </div>
+            {items.map((item) => {
+              // The chosen variant decides SKU, price and stock for this line
+              const productVariant = getCartItemVariant(item);
+              const unitPrice = getCartItemPrice(item, currency);
+              const inventory = productVariant?.inventory ?? item.product.inventory;
 
-                      {/* Remove Button */}
-                      <button
-                        onClick={() => removeFromCart(item.product.id)}
-                        className="text-gray-400 hover:text-red-600 transition-colors"
-                        title="Remove from cart"
-                      >
-                        <svg
-                          className="w-5 h-5"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M6 18L18 6M6 6l12 12"
-                          />
-                        </svg>
-                      </button>
+              return (
+                <div key={getCartItemKey(item)} className="bg-white rounded-lg shadow-sm p-6">
+                  <div className="flex gap-6">
+                    {/* Product Image Placeholder */}
+                    <div className="w-24 h-24 bg-gray-100 rounded-lg flex-shrink-0 flex items-center justify-center">
+                      <span className="text-gray-400 text-xs text-center px-2">
+                        {item.product.images[0]?.alt || item.product.name}
+                      </span>
                     </div>
 
-                    {/* Price and Quantity */}
-                    <div className="flex items-center justify-between mt-4">
-                      <div className="flex items-center gap-4">
-                        <span className="text-sm text-gray-600">Quantity:</span>
-                        <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
-                            className="w-8 h-8 rounded border border-gray-300 hover:bg-gray-50 flex items-center justify-center"
-                            disabled={item.quantity <= 1}
-                          >
-                            −
-                          </button>
-                          <span className="w-12 text-center font-medium">
-                            {item.quantity}
-                          </span>
-                          <button
-                            onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                            className="w-8 h-8 rounded border border-gray-300 hover:bg-gray-50 flex items-center justify-center"
-                            disabled={item.quantity >= item.product.inventory.quantity}
+                    {/* Product Info */}
+                    <div className="flex-1">
+                      <div className="flex justify-between">
+                        <div>
+                          <Link
+                            href={`/products/${item.product.slug}`}
+                            className="text-lg font-semibold text-gray-900 hover:text-blue-600"
                           >
-                            +
-                          </button>
+                            {item.product.name}
+                          </Link>
+                          {productVariant ? (
+                            <p className="text-sm text-gray-600 mt-1 capitalize">
+                              {Object.entries(productVariant.options)
+                                .map(([name, value]) => `${name}: ${value}`)
+                                .join(' · ')}
+                            </p>
+                          ) : (
+                            <p className="text-sm text-gray-600 mt-1">
+                              {item.product.description}
+                            </p>
+                          )}
+                          <p className="text-sm text-gray-500 mt-2">
+                            SKU: {productVariant?.sku ?? item.product.sku}
+                          </p>
                         </div>
+
+                        {/* Remove Button */}
+                        <button
+                          onClick={() => removeFromCart(item.product.id, item.variantId)}
+                          className="text-gray-400 hover:text-red-600 transition-colors"
+                          title="Remove from cart"
+                        >
+                          <svg
+                            className="w-5 h-5"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M6 18L18 6M6 6l12 12"
+                            />
+                          </svg>
+                        </button>
                       </div>
 
-                      <div className="text-right">
-                        <p className="text-lg font-bold text-gray-900">
-                          {formatPrice(item.product.price * item.quantity, item.product.currency)}
-                        </p>
-                        <p className="text-sm text-gray-500">
-                          {formatPrice(item.product.price, item.product.currency)} each
-                        </p>
+                      {/* Price and Quantity */}
+                      <div className="flex items-center justify-between mt-4">
+                        <div className="flex items-center gap-4">
+                          <span className="text-sm text-gray-600">Quantity:</span>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => updateQuantity(item.product.id, item.quantity - 1, item.variantId)}
+                              className="w-8 h-8 rounded border border-gray-300 hover:bg-gray-50 flex items-center justify-center"
+                              disabled={item.quantity <= 1}
+                            >
+                              −
+                            </button>
+                            <span className="w-12 text-center font-medium">
+                              {item.quantity}
+                            </span>
+                            <button
+                              onClick={() => updateQuantity(item.product.id, item.quantity + 1, item.variantId)}
+                              className="w-8 h-8 rounded border border-gray-300 hover:bg-gray-50 flex items-center justify-center"
+                              disabled={
+                                item.quantity >=
+                                inventory.quantity - inventory.reservedQuantity
+                              }
+                            >
+                              +
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="text-right">
+                          <p className="text-lg font-bold text-gray-900">
+                            {formatPrice(unitPrice * item.quantity, currency)}
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            {formatPrice(unitPrice, currency)} each
+                          </p>
+                        </div>
                       </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
 
             {/* Clear Cart Button */}
             <button
@@ -180,32 +212,51 @@ export default function CartPage() {
               <div className="space-y-3 mb-6">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="font-medium">{formatPrice(totalPrice, 'USD')}</span>
+                  <span className="font-medium">{formatPrice(totalPrice, currency)}</span>
                 </div>
+                {pricing.discounts.map((discount) => (
+                  <div key={discount.promotionId} className="flex justify-between text-sm text-green-700">
+                    <span>{discount.name}</span>
+                    <span className="font-medium">−{formatPrice(discount.amount, currency)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Shipping</span>
-                  <span className="font-medium text-green-600">FREE</span>
+                  <span className="text-gray-500">Calculated at checkout</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Tax (estimated)</span>
-                  <span className="font-medium">{formatPrice(Math.round(totalPrice * 0.08), 'USD')}</span>
+                  <span className="text-gray-600">Tax</span>
+                  <span className="text-gray-500">Calculated at checkout</span>
                 </div>
                 <div className="border-t pt-3">
                   <div className="flex justify-between">
                     <span className="text-lg font-bold text-gray-900">Total</span>
                     <span className="text-lg font-bold text-gray-900">
-                      {formatPrice(Math.round(totalPrice * 1.08), 'USD')}
+                      {formatPrice(pricing.discountedSubtotal, currency)}
                     </span>
                   </div>
                 </div>
               </div>
 
-              <Link
-                href="/checkout"
-                className="block w-full bg-blue-600 text-white text-center py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
-              >
-                Proceed to Checkout
-              </Link>
+              <div className="mb-6">
+                <CouponForm />
+              </div>
+
+              {needsReview ? (
+                <button
+                  disabled
+                  className="block w-full bg-gray-300 text-gray-500 text-center py-3 rounded-lg font-semibold cursor-not-allowed"
+                >
+                  Review cart changes to continue
+                </button>
+              ) : (
+                <Link
+                  href="/checkout"
+                  className="block w-full bg-blue-600 text-white text-center py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+                >
+                  Proceed to Checkout
+                </Link>
+              )}
 
               <Link
                 href="/products"
@@ -236,8 +287,9 @@ export default function CartPage() {
  *
  * 3. Calculations:
  *    - Item subtotal: price × quantity
- *    - Tax calculation: total × 0.08
- *    - Grand total: subtotal + tax
+ *    - Discounts: itemized per promotion (pricing service)
+ *    - Tax and shipping: depend on the address, so they're added at checkout
+ *    - Total: subtotal - discounts
  *
  * 4. UX Features:
  *    - Quantity controls (+/- buttons)
@@ -247,7 +299,9 @@ export default function CartPage() {
  *    - Continue shopping link
  *
  * 5. Business Logic:
- *    - Enforce stock limits (can't exceed inventory)
+ *    - Enforce stock limits (can't exceed inventory of the chosen variant)
+ *    - Re-check prices and stock on the server; checkout waits until the
+ *      shopper has accepted any changes
  *    - Prevent quantity below 1
  *    - Calculate tax and shipping
  *    - Show per-item and total prices
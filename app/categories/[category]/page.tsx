@@ -1,10 +1,13 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
+import { cookies } from 'next/headers';
 import { getProductsByCategory } from '@/lib/api/products-service';
-import { getCategoryBySlug, getAllCategorySlugs } from '@/lib/data/categories';
+import { resolveCurrency, CURRENCY_COOKIE } from '@/lib/api/currency-service';
+import { getCategoryBySlugService, getCategoryTree } from '@/lib/api/categories-service';
+import { getAllCategorySlugs } from '@/lib/data/categories';
+import { CategoryTreeNode } from '@/lib/types/product';
 import { FilterParams } from '@/lib/types/product';
 import { ProductGrid } from '@/components/ProductGrid';
-import { Pagination } from '@/components/Pagination';
 import { SearchBar } from '@/components/SearchBar';
 import { SortSelector } from '@/components/SortSelector';
 
@@ -16,13 +19,14 @@ import { SortSelector } from '@/components/SortSelector';
  *
  * Educational Note: This combines:
  * - Dynamic routing ([category] parameter)
- * - URL search parameters (for pagination, sorting)
+ * - URL search parameters (for sorting and search)
  * - Server-side filtering
+ * - Infinite scroll with cursor pagination
  *
  * Example URLs:
  * - /categories/electronics
  * - /categories/fashion?sortBy=price-asc
- * - /categories/home-living?page=2
+ * - /categories/home-living?limit=24
  */
 
 interface CategoryPageProps {
@@ -32,14 +36,13 @@ interface CategoryPageProps {
   searchParams: {
     search?: string;
     sortBy?: string;
-    page?: string;
     limit?: string;
   };
 }
 
 export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
-  // Get category data
-  const category = getCategoryBySlug(params.category);
+  // Get category data from the database
+  const category = await getCategoryBySlugService(params.category);
 
   // Show 404 if category doesn't exist
   if (!category) {
@@ -48,8 +51,11 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
 
   // Build filter parameters
   // Educational: Category from URL path, other filters from query params
+  // Products in subcategories are included, so a parent category page
+  // lists everything beneath it
   const filters: FilterParams = {
     category: params.category,
+    includeSubcategories: true,
   };
 
   if (searchParams.search) {
@@ -60,16 +66,35 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
     filters.sortBy = searchParams.sortBy as FilterParams['sortBy'];
   }
 
-  if (searchParams.page) {
-    filters.page = parseInt(searchParams.page, 10);
-  }
-
   if (searchParams.limit) {
     filters.limit = parseInt(searchParams.limit, 10);
   }
 
-  // Fetch products for this category from database
+  // Fetch the first page for this category from database
+  // Educational: Further pages are loaded by the browser as the shopper
+  // scrolls, using the nextCursor from this result
   const result = await getProductsByCategory(params.category, filters);
+  const currency = resolveCurrency(cookies().get(CURRENCY_COOKIE)?.value);
+
+  // The same filters as a query string, for GET /api/products
+  const listingQuery = new URLSearchParams({
+    category: params.category,
+    includeSubcategories: 'true',
+    ...(filters.search && { search: filters.search }),
+    ...(filters.sortBy && { sortBy: filters.sortBy }),
+    ...(filters.limit && { limit: String(filters.limit) }),
+  }).toString();
+
+  // Find this category's direct subcategories for the navigation links
+  const findNode = (nodes: CategoryTreeNode[]): CategoryTreeNode | undefined => {
+    for (const node of nodes) {
+      if (node.id === category.id) return node;
+      const found = findNode(node.children);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const subcategories = findNode(await getCategoryTree())?.children ?? [];
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -89,33 +114,49 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Subcategories */}
+        {subcategories.length > 0 && (
+          <div className="mb-6 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600">Subcategories:</span>
+            {subcategories.map((sub) => (
+              <Link
+                key={sub.id}
+                href={`/categories/${sub.slug}`}
+                className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200"
+              >
+                {sub.name} ({sub.totalProductCount})
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Search Bar */}
         <div className="mb-6">
           <SearchBar />
           {filters.search && (
             <p className="mt-2 text-sm text-gray-600">
-              Searching in {category.name} for "{filters.search}"
+              Searching in {category.name} for &ldquo;{filters.search}&rdquo;
             </p>
           )}
         </div>
 
         {/* Sort Options */}
-        <div className="mb-6 flex items-center justify-between">
-          <p className="text-sm text-gray-600">
-            Page {result.pagination.page} of {result.pagination.totalPages}
-          </p>
+        <div className="mb-6 flex items-center justify-end">
           <SortSelector currentSort={filters.sortBy} />
         </div>
 
-        {/* Product Grid */}
+        {/* Product Grid - loads more products on scroll */}
         <ProductGrid
           products={result.data}
           emptyMessage={`No products found in ${category.name}`}
+          infiniteScroll={{
+            nextCursor: result.pagination.nextCursor ?? null,
+            query: listingQuery,
+            total: result.pagination.total,
+          }}
+          currency={currency}
         />
 
-        {/* Pagination */}
-        <Pagination pagination={result.pagination} />
-
         {/* Category Info */}
         <div className="mt-12 bg-white rounded-lg p-6 shadow-sm">
           <h2 className="text-xl font-bold text-gray-900 mb-3">About {category.name}</h2>
@@ -154,6 +195,7 @@ export async function generateStaticParams() {
  * 1. Nested Filtering:
  *    - Category from URL path (required)
  *    - Additional filters from query params (optional)
+ *    - Subcategory products included (WHERE category IN (...))
  *    - Clean, hierarchical URL structure
  *
  * 2. Dynamic Routes + Search Params:
@@ -172,6 +214,7 @@ export async function generateStaticParams() {
  *    - Category description
  *    - Easy navigation back to all products
  *    - Consistent filtering/sorting interface
+ *    - Products keep loading as you scroll (no page numbers)
  *
  * 5. Static Generation:
  *    - Pre-render all category pages
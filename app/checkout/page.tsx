@@ -1,10 +1,26 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useCart } from '@/lib/cart-context';
-import { formatPrice } from '@/lib/api/products-service';
+import {
+  useCart,
+  useCartValidation,
+  getCartItemKey,
+  getCartItemPrice,
+  getCartItemVariant,
+  toPricingLine,
+} from '@/lib/cart-context';
+import { formatPrice } from '@/lib/api/product-display';
+import {
+  calculateTax,
+  formatTaxRate,
+  getTaxableLines,
+} from '@/lib/api/tax-service';
+import { countries } from '@/lib/data/countries';
+import { ShippingMethodId, ShippingQuote } from '@/lib/types/shipping';
+import { CouponForm } from '@/components/CouponForm';
+import { CartChanges } from '@/components/CartChanges';
 
 /**
  * Checkout Page (Client Component)
@@ -17,12 +33,23 @@ import { formatPrice } from '@/lib/api/products-service';
  * - Input validation
  * - Form submission handling
  * - Success/error states
+ * - Holding stock while the shopper fills in the form
+ * - Live shipping quotes for the chosen country
+ * - Re-checking prices and stock before the order can be placed
  */
 
 export default function CheckoutPage() {
   const router = useRouter();
-  const { items, totalPrice, clearCart } = useCart();
+  const { items, totalPrice, pricing, couponCode, currency, clearCart } = useCart();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [reservationToken, setReservationToken] = useState<string | null>(null);
+  const [stockError, setStockError] = useState<string | null>(null);
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
+  const [shippingError, setShippingError] = useState<string | null>(null);
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethodId>('standard');
+  // The units this checkout holds count as available when re-checking stock
+  const { validation, needsReview, acceptChanges } = useCartValidation(reservationToken);
   const [formData, setFormData] = useState({
     // Personal Info
     firstName: '',
@@ -43,6 +70,102 @@ export default function CheckoutPage() {
     cardCVC: '',
   });
 
+  // A stable key for the cart contents - re-reserve only when it changes
+  const reservationKey = items
+    .map(item => `${item.product.id}:${item.variantId ?? ''}:${item.quantity}`)
+    .join(',');
+
+  // Reserve stock when checkout opens so nobody else can buy it meanwhile
+  // Educational: The reservation expires on its own after 15 minutes; the
+  // cleanup releases it early when the shopper leaves or edits the cart
+  useEffect(() => {
+    if (!reservationKey) return;
+
+    let token: string | null = null;
+    let cancelled = false;
+
+    fetch('/api/inventory/reservations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: reservationKey.split(',').map(entry => {
+          const [productId, variantId, quantity] = entry.split(':');
+          return { productId, variantId: variantId || undefined, quantity: Number(quantity) };
+        }),
+      }),
+    })
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) {
+          token = result.data.token;
+          if (cancelled) {
+            releaseReservation(result.data.token);
+            return;
+          }
+          setReservationToken(result.data.token);
+          setStockError(null);
+        } else if (!cancelled) {
+          setReservationToken(null);
+          setStockError(result.error?.message || 'Some items are no longer available');
+        }
+      })
+      .catch(() => {
+        // Not fatal: the order is still checked against live stock
+      });
+
+    return () => {
+      cancelled = true;
+      if (token) releaseReservation(token);
+    };
+  }, [reservationKey]);
+
+  // Quote shipping for the cart and country (discounts count towards the
+  // free-shipping threshold, so the coupon is sent too)
+  useEffect(() => {
+    if (!reservationKey) return;
+
+    let cancelled = false;
+
+    fetch('/api/shipping/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: reservationKey.split(',').map(entry => {
+          const [productId, variantId, quantity] = entry.split(':');
+          return { productId, variantId: variantId || undefined, quantity: Number(quantity) };
+        }),
+        country: formData.country,
+        couponCode: couponCode ?? undefined,
+        currency,
+      }),
+    })
+      .then(response => response.json())
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          const quote: ShippingQuote = result.data;
+          setShippingQuote(quote);
+          setShippingError(null);
+          // Keep the chosen method if it's still offered, else the cheapest
+          setShippingMethod(current =>
+            quote.options.some(option => option.method === current)
+              ? current
+              : quote.options[0].method
+          );
+        } else {
+          setShippingQuote(null);
+          setShippingError(result.error?.message || 'Shipping is not available');
+        }
+      })
+      .catch(() => {
+        // The order is priced on the server either way
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reservationKey, formData.country, couponCode, currency]);
+
   // Redirect if cart is empty
   if (items.length === 0) {
     return (
@@ -69,19 +192,70 @@ export default function CheckoutPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (needsReview) return;
     setIsSubmitting(true);
+    setSubmitError(null);
 
-    // Simulate API call
-    // Educational: In a real app, you'd send this to a payment processor
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // Send only ids and quantities - the server looks up the real prices
+    // Educational: Card details are NOT sent; a real app would hand them
+    // to a payment processor (Stripe, PayPal) instead of our own API
+    try {
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customer: {
+            email: formData.email,
+            firstName: formData.firstName,
+            lastName: formData.lastName,
+            phone: formData.phone || undefined,
+          },
+          shippingAddress: {
+            address: formData.address,
+            city: formData.city,
+            state: formData.state,
+            zipCode: formData.zipCode,
+            country: formData.country,
+          },
+          items: items.map(item => ({
+            productId: item.product.id,
+            variantId: item.variantId,
+            quantity: item.quantity,
+          })),
+          reservationToken: reservationToken || undefined,
+          couponCode: couponCode ?? undefined,
+          shippingMethod,
+          currency,
+        }),
+      });
+      const result = await response.json();
 
-    // Clear cart and redirect to success page
-    clearCart();
-    router.push('/checkout/success');
+      if (!response.ok || !result.success) {
+        setSubmitError(result.error?.message || 'Failed to place order');
+        setIsSubmitting(false);
+        return;
+      }
+
+      // Clear cart and redirect to success page with the new order number
+      clearCart();
+      router.push(`/checkout/success?order=${encodeURIComponent(result.data.orderNumber)}`);
+    } catch (error) {
+      setSubmitError('Could not reach the server. Please try again.');
+      setIsSubmitting(false);
+    }
   };
 
-  const taxAmount = Math.round(totalPrice * 0.08);
-  const finalTotal = totalPrice + taxAmount;
+  // Same numbers the server will charge: tax per discounted line for the
+  // address typed so far (recomputed on every keystroke - it's cheap)
+  const tax = calculateTax({
+    lines: getTaxableLines(items.map(item => toPricingLine(item, currency)), pricing),
+    address: formData,
+    currency,
+  });
+  const selectedShipping = shippingQuote?.options.find(option => option.method === shippingMethod);
+  const shippingTotal = selectedShipping?.price ?? 0;
+  const finalTotal =
+    pricing.discountedSubtotal + shippingTotal + (tax.inclusive ? 0 : tax.taxTotal);
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -92,6 +266,11 @@ export default function CheckoutPage() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Prices or stock changed - the order waits until they're accepted */}
+        {needsReview && validation && (
+          <CartChanges validation={validation} currency={currency} onAccept={acceptChanges} />
+        )}
+
         <form onSubmit={handleSubmit}>
           <div className="grid lg:grid-cols-3 gap-8">
             {/* Checkout Form */}
@@ -171,6 +350,24 @@ export default function CheckoutPage() {
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Country *
+                    </label>
+                    <select
+                      name="country"
+                      required
+                      value={formData.country}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {countries.map((country) => (
+                        <option key={country.code} value={country.name}>
+                          {country.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="grid md:grid-cols-3 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -187,7 +384,7 @@ export default function CheckoutPage() {
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
-                        State *
+                        State / Province *
                       </label>
                       <input
                         type="text"
@@ -215,6 +412,53 @@ export default function CheckoutPage() {
                 </div>
               </div>
 
+              {/* Shipping Method */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Shipping Method</h2>
+                {shippingError ? (
+                  <p className="text-sm text-red-600">{shippingError}</p>
+                ) : !shippingQuote ? (
+                  <p className="text-sm text-gray-500">Calculating shipping...</p>
+                ) : (
+                  <div className="space-y-3">
+                    {shippingQuote.options.map((option) => (
+                      <label
+                        key={option.method}
+                        className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+                          option.method === shippingMethod
+                            ? 'border-blue-600 bg-blue-50'
+                            : 'border-gray-300 hover:border-gray-400'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="shippingMethod"
+                          value={option.method}
+                          checked={option.method === shippingMethod}
+                          onChange={() => setShippingMethod(option.method)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1">
+                          <div className="flex justify-between">
+                            <span className="font-medium text-gray-900">{option.name}</span>
+                            <span className={option.price === 0 ? 'font-medium text-green-600' : 'font-medium'}>
+                              {option.price === 0 ? 'FREE' : formatPrice(option.price, currency)}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600">{option.description}</p>
+                          {option.amountToFreeShipping !== undefined && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Spend {formatPrice(option.amountToFreeShipping, currency)} more for free{' '}
+                              {option.name.toLowerCase()} shipping
+                            </p>
+                          )}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Payment Information */}
               <div className="bg-white rounded-lg shadow-sm p-6">
                 <h2 className="text-xl font-bold text-gray-900 mb-4">Payment Information</h2>
@@ -278,13 +522,18 @@ export default function CheckoutPage() {
                 {/* Items List */}
                 <div className="space-y-3 mb-6 max-h-64 overflow-y-auto">
                   {items.map((item) => (
-                    <div key={item.product.id} className="flex justify-between text-sm">
+                    <div key={getCartItemKey(item)} className="flex justify-between text-sm">
                       <div className="flex-1">
                         <p className="font-medium text-gray-900">{item.product.name}</p>
+                        {getCartItemVariant(item) && (
+                          <p className="text-gray-500 capitalize">
+                            {Object.values(getCartItemVariant(item)!.options).join(' / ')}
+                          </p>
+                        )}
                         <p className="text-gray-600">Qty: {item.quantity}</p>
                       </div>
                       <span className="font-medium">
-                        {formatPrice(item.product.price * item.quantity, item.product.currency)}
+                        {formatPrice(getCartItemPrice(item, currency) * item.quantity, currency)}
                       </span>
                     </div>
                   ))}
@@ -293,36 +542,83 @@ export default function CheckoutPage() {
                 <div className="border-t pt-4 space-y-3">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Subtotal</span>
-                    <span className="font-medium">{formatPrice(totalPrice, 'USD')}</span>
+                    <span className="font-medium">{formatPrice(totalPrice, currency)}</span>
                   </div>
+                  {pricing.discounts.map((discount) => (
+                    <div key={discount.promotionId} className="flex justify-between text-sm text-green-700">
+                      <span>{discount.name}</span>
+                      <span className="font-medium">−{formatPrice(discount.amount, currency)}</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Shipping</span>
-                    <span className="font-medium text-green-600">FREE</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Tax</span>
-                    <span className="font-medium">{formatPrice(taxAmount, 'USD')}</span>
+                    {!selectedShipping ? (
+                      <span className="text-gray-500">—</span>
+                    ) : selectedShipping.price === 0 ? (
+                      <span className="font-medium text-green-600">FREE</span>
+                    ) : (
+                      <span className="font-medium">{formatPrice(selectedShipping.price, currency)}</span>
+                    )}
                   </div>
+                  {!formData.state || !formData.zipCode ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Tax</span>
+                      <span className="text-gray-500">Enter your address</span>
+                    </div>
+                  ) : tax.jurisdictions.length === 0 ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Tax</span>
+                      <span className="font-medium">{formatPrice(0, currency)}</span>
+                    </div>
+                  ) : (
+                    tax.jurisdictions.map((jurisdiction) => (
+                      <div key={jurisdiction.name} className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          {tax.inclusive ? 'Incl. ' : ''}
+                          {jurisdiction.name} ({formatTaxRate(jurisdiction.rate)})
+                        </span>
+                        <span className="font-medium">{formatPrice(jurisdiction.amount, currency)}</span>
+                      </div>
+                    ))
+                  )}
                   <div className="border-t pt-3">
                     <div className="flex justify-between">
                       <span className="text-lg font-bold text-gray-900">Total</span>
                       <span className="text-lg font-bold text-gray-900">
-                        {formatPrice(finalTotal, 'USD')}
+                        {formatPrice(finalTotal, currency)}
                       </span>
                     </div>
                   </div>
                 </div>
 
+                <div className="mt-4">
+                  <CouponForm />
+                </div>
+
+                {stockError && (
+                  <p className="mt-4 text-sm text-orange-600" role="alert">
+                    {stockError}. Please update your cart.
+                  </p>
+                )}
+
+                {submitError && (
+                  <p className="mt-4 text-sm text-red-600" role="alert">
+                    {submitError}
+                  </p>
+                )}
+
                 <button
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || needsReview}
                   className={`mt-6 w-full py-3 rounded-lg font-semibold transition-colors ${
-                    isSubmitting
+                    isSubmitting || needsReview
                       ? 'bg-gray-400 cursor-not-allowed'
                       : 'bg-blue-600 hover:bg-blue-700 text-white'
                   }`}
                 >
-                  {isSubmitting ? 'Processing...' : 'Place Order'}
+                  {isSubmitting
+                    ? 'Processing...'
+                    : needsReview ? 'Accept cart changes first' : 'Place Order'}
                 </button>
 
                 <Link
@@ -355,11 +651,18 @@ export default function CheckoutPage() {
  *
  * 3. Form Submission:
  *    - preventDefault() stops page reload
- *    - Async operation with loading state
- *    - Success redirect after completion
+ *    - POST /api/orders with product ids and quantities only
+ *    - Server re-prices every line (never trust client prices)
+ *    - Success redirect with the order number
+ *    - The reservation token converts held stock into the sale
+ *    - The coupon code is sent along; discounts are recomputed server-side
+ *    - Tax comes from the shared tax service, so the summary matches the
+ *      tax stored with the order
+ *    - The selected shipping method is re-priced by the server, too
  *
  * 4. UX Considerations:
- *    - Disable button while submitting
+ *    - Disable button while submitting, or while cart changes (price,
+ *      stock) haven't been accepted
  *    - Show loading state
  *    - Empty cart check
  *    - Back to cart option
@@ -368,6 +671,18 @@ export default function CheckoutPage() {
  *    - Payment processor integration (Stripe, PayPal)
  *    - Address validation
  *    - Order confirmation email
- *    - Database to store orders
- *    - Inventory reduction
  */
+
+/**
+ * Release a stock reservation
+ *
+ * keepalive lets the request finish even if the page is being unloaded.
+ */
+function releaseReservation(token: string) {
+  fetch(`/api/inventory/reservations/${encodeURIComponent(token)}`, {
+    method: 'DELETE',
+    keepalive: true,
+  }).catch(() => {
+    // The reservation will expire on its own
+  });
+}
@@ -1,16 +1,34 @@
 import Link from 'next/link';
+import { getOrderByNumber } from '@/lib/api/orders-service';
+import { formatPrice } from '@/lib/api/product-display';
+import { formatTaxRate } from '@/lib/api/tax-service';
+import { shippingMethods } from '@/lib/data/shipping-rates';
 
 /**
  * Checkout Success Page (Server Component)
  *
  * Confirmation page after successful checkout.
- * Simple, static page - can be a Server Component.
+ * Reads the order number from the URL and shows the stored order summary.
+ *
+ * Educational Note: The summary comes from the database, not from the cart.
+ * What you see here is exactly what was recorded and charged.
+ *
+ * Example URL:
+ * - /checkout/success?order=ORD-20241120-7K3M9Q
  */
 
-export default function CheckoutSuccessPage() {
+interface CheckoutSuccessPageProps {
+  searchParams: {
+    order?: string;
+  };
+}
+
+export default async function CheckoutSuccessPage({ searchParams }: CheckoutSuccessPageProps) {
+  const order = searchParams.order ? await getOrderByNumber(searchParams.order) : null;
+
   return (
     <main className="min-h-screen bg-gray-50 flex items-center justify-center">
-      <div className="max-w-md mx-auto text-center px-4">
+      <div className="max-w-md w-full mx-auto text-center px-4 py-12">
         {/* Success Icon */}
         <div className="mb-6">
           <div className="mx-auto w-16 h-16 bg-green-100 rounded-full flex items-center justify-center">
@@ -34,10 +52,100 @@ export default function CheckoutSuccessPage() {
         <h1 className="text-3xl font-bold text-gray-900 mb-4">
           Order Placed Successfully!
         </h1>
-        <p className="text-gray-600 mb-8">
-          Thank you for your order. This is a demo project, so no real order was placed.
-          In a production app, you would receive a confirmation email with your order details.
-        </p>
+
+        {order ? (
+          <>
+            <p className="text-gray-600 mb-2">
+              Thank you, {order.customer.firstName}. Your order number is:
+            </p>
+            <p className="text-xl font-mono font-semibold text-gray-900 mb-8">
+              {order.orderNumber}
+            </p>
+
+            {/* Order Summary */}
+            <div className="bg-white rounded-lg shadow-sm p-6 mb-8 text-left">
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Order Summary</h2>
+
+              <div className="space-y-3 mb-4">
+                {order.lines.map((line) => (
+                  <div key={line.id} className="flex justify-between text-sm">
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{line.name}</p>
+                      {line.options && (
+                        <p className="text-gray-500 capitalize">
+                          {Object.values(line.options).join(' / ')}
+                        </p>
+                      )}
+                      <p className="text-gray-600">
+                        {line.quantity} × {formatPrice(line.unitPrice, order.currency)}
+                      </p>
+                    </div>
+                    <span className="font-medium">
+                      {formatPrice(line.lineTotal, order.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span className="font-medium">{formatPrice(order.subtotal, order.currency)}</span>
+                </div>
+                {order.discounts.map((discount, index) => (
+                  <div key={index} className="flex justify-between text-sm text-green-700">
+                    <span>
+                      {discount.name}
+                      {discount.code && <span className="font-mono ml-1">({discount.code})</span>}
+                    </span>
+                    <span className="font-medium">−{formatPrice(discount.amount, order.currency)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">
+                    Shipping ({shippingMethods.find(method => method.id === order.shippingMethod)?.name})
+                  </span>
+                  {order.shippingTotal === 0 ? (
+                    <span className="font-medium text-green-600">FREE</span>
+                  ) : (
+                    <span className="font-medium">{formatPrice(order.shippingTotal, order.currency)}</span>
+                  )}
+                </div>
+                {order.taxes.length === 0 ? (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Tax</span>
+                    <span className="font-medium">{formatPrice(order.taxTotal, order.currency)}</span>
+                  </div>
+                ) : (
+                  order.taxes.map((tax) => (
+                    <div key={tax.jurisdiction} className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        {order.taxInclusive ? 'Incl. ' : ''}
+                        {tax.jurisdiction} ({formatTaxRate(tax.rate)})
+                      </span>
+                      <span className="font-medium">{formatPrice(tax.amount, order.currency)}</span>
+                    </div>
+                  ))
+                )}
+                <div className="flex justify-between border-t pt-2">
+                  <span className="font-bold text-gray-900">Total</span>
+                  <span className="font-bold text-gray-900">
+                    {formatPrice(order.total, order.currency)}
+                  </span>
+                </div>
+              </div>
+
+              <p className="mt-4 text-xs text-gray-500">
+                Shipping to {order.shippingAddress.address}, {order.shippingAddress.city},{' '}
+                {order.shippingAddress.state} {order.shippingAddress.zipCode}
+              </p>
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-600 mb-8">
+            Thank you for your order. We couldn&apos;t load the order details right now.
+          </p>
+        )}
 
         {/* Action Buttons */}
         <div className="space-y-3">
@@ -58,13 +166,12 @@ export default function CheckoutSuccessPage() {
         {/* Educational Note */}
         <div className="mt-8 p-4 bg-blue-50 rounded-lg text-left">
           <p className="text-sm text-gray-700">
-            <strong>Educational Note:</strong> In a real e-commerce application, this page would:
+            <strong>Educational Note:</strong> This order was stored in the database with
+            prices looked up on the server, and the stock was decremented in the same
+            transaction. A production app would also:
           </p>
           <ul className="text-sm text-gray-700 mt-2 space-y-1 list-disc list-inside">
-            <li>Display an order confirmation number</li>
             <li>Send a confirmation email</li>
-            <li>Reduce product inventory in the database</li>
-            <li>Create an order record</li>
             <li>Charge the payment method</li>
             <li>Show shipping estimate</li>
           </ul>
@@ -1,21 +1,35 @@
 import type { Metadata } from 'next'
+import { cookies } from 'next/headers'
 import './globals.css'
 import { CartProvider } from '@/lib/cart-context'
+import { CurrencySelector } from '@/components/CurrencySelector'
+import { AccountMenu } from '@/components/AccountMenu'
+import { CURRENCY_COOKIE, resolveCurrency } from '@/lib/api/currency-service'
+import { SESSION_COOKIE, getSessionCustomer } from '@/lib/api/customers-service'
 
 export const metadata: Metadata = {
   title: 'Product Catalog CMS',
   description: 'Educational product catalog demonstrating backend concepts',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const currency = resolveCurrency(cookies().get(CURRENCY_COOKIE)?.value)
+  const customer = await getSessionCustomer(cookies().get(SESSION_COOKIE)?.value)
+
   return (
     <html lang="en">
       <body>
-        <CartProvider>
+        <CartProvider currency={currency} customer={customer}>
+          <div className="bg-gray-900">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex justify-end items-center gap-6">
+              <AccountMenu customer={customer} />
+              <CurrencySelector />
+            </div>
+          </div>
           {children}
         </CartProvider>
       </body>
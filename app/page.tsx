@@ -1,6 +1,8 @@
 import Link from 'next/link';
+import { cookies } from 'next/headers';
 import { getFeaturedProducts } from '@/lib/api/products-service';
 import { categories } from '@/lib/data/categories';
+import { resolveCurrency, CURRENCY_COOKIE } from '@/lib/api/currency-service';
 import { ProductGrid } from '@/components/ProductGrid';
 import { CategoryNavHorizontal } from '@/components/CategoryNav';
 import { CartButton } from '@/components/CartButton';
@@ -22,6 +24,7 @@ export default async function HomePage() {
   // Educational: async/await works directly in Server Components!
   // No need for useEffect, useState, or loading states
   const featuredProducts = await getFeaturedProducts(8);
+  const currency = resolveCurrency(cookies().get(CURRENCY_COOKIE)?.value);
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -85,7 +88,7 @@ export default async function HomePage() {
             </Link>
           </div>
 
-          <ProductGrid products={featuredProducts} />
+          <ProductGrid products={featuredProducts} currency={currency} />
         </section>
 
         {/* Categories Grid */}
@@ -1,8 +1,16 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
-import { getProductBySlugService, formatPrice, getDiscountPercentage, getInventoryStatus, getRelatedProducts } from '@/lib/api/products-service';
+import { cookies } from 'next/headers';
+import { getProductBySlugService, getRelatedProducts, isPubliclyVisible } from '@/lib/api/products-service';
+import { formatPrice, getDiscountPercentage, getInventoryStatus } from '@/lib/api/product-display';
+import { convertProduct, resolveCurrency, CURRENCY_COOKIE } from '@/lib/api/currency-service';
+import { verifyPreviewToken } from '@/lib/api/preview-service';
 import { getAllProductSlugs } from '@/lib/data/products';
 import { ProductGrid } from '@/components/ProductGrid';
+import { VariantSelector } from '@/components/VariantSelector';
+import { AddToCartButton } from '@/components/AddToCartButton';
+import { ProductReviews } from '@/components/ProductReviews';
+import { ReviewSort } from '@/lib/types/review';
 
 /**
  * Product Detail Page (Server Component)
@@ -16,32 +24,68 @@ import { ProductGrid } from '@/components/ProductGrid';
  * Example URLs:
  * - /products/wireless-noise-cancelling-headphones
  * - /products/gaming-mechanical-keyboard-rgb
+ * - /products/new-arrival?preview=<token> - A draft, with a signed preview
+ *   token from POST /api/products/[id]/preview
  */
 
 interface ProductDetailPageProps {
   params: {
     slug: string;
   };
+  searchParams: {
+    reviewPage?: string;
+    reviewSort?: string;
+    preview?: string;
+  };
 }
 
-export default async function ProductDetailPage({ params }: ProductDetailPageProps) {
+const REVIEW_SORTS: ReviewSort[] = ['newest', 'helpful', 'rating-high', 'rating-low'];
+
+export default async function ProductDetailPage({ params, searchParams }: ProductDetailPageProps) {
   // Fetch product by slug from database
   // Educational: await works directly in Server Components
-  const product = await getProductBySlugService(params.slug);
+  const product = await getProductBySlugService(params.slug, { includeUnpublished: true });
 
-  // Show 404 if product not found
+  // Show 404 if product not found - or not published, without a valid preview token
   // Educational: notFound() is a Next.js function that shows the 404 page
   if (!product) {
     notFound();
   }
+  const isPreview = !isPubliclyVisible(product);
+  if (isPreview && !verifyPreviewToken(product.id, searchParams.preview)) {
+    notFound();
+  }
 
   // Calculate derived data
   const discount = getDiscountPercentage(product);
   const inventoryStatus = getInventoryStatus(product);
   const relatedProducts = await getRelatedProducts(product, 4);
+  const hasVariants = (product.variants?.length ?? 0) > 0;
+  const hasPriceRange = !!product.priceRange && product.priceRange.min < product.priceRange.max;
+
+  // Prices in the shopper's currency (the cart still gets the stored product)
+  const currency = resolveCurrency(cookies().get(CURRENCY_COOKIE)?.value);
+  const display = convertProduct(product, currency);
+
+  // Which page of reviews to show (from the URL, so it can be linked to)
+  const reviewPage = Math.max(1, parseInt(searchParams.reviewPage || '1', 10) || 1);
+  const reviewSort = REVIEW_SORTS.includes(searchParams.reviewSort as ReviewSort)
+    ? (searchParams.reviewSort as ReviewSort)
+    : 'newest';
 
   return (
     <main className="min-h-screen bg-gray-50">
+      {/* Preview banner - shoppers never see this page */}
+      {isPreview && (
+        <div className="bg-amber-100 border-b border-amber-300 text-amber-900 text-sm text-center py-2 px-4">
+          Preview: this product is <strong>{product.status}</strong>
+          {product.status === 'scheduled' && product.publishedAt
+            ? ` and goes live on ${new Date(product.publishedAt).toLocaleString('en-US')}`
+            : ''}{' '}
+          and is not visible to shoppers.
+        </div>
+      )}
+
       {/* Header */}
       <header className="bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
@@ -87,9 +131,9 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
                       {product.rating.average.toFixed(1)}
                     </span>
                   </div>
-                  <span className="text-sm text-gray-500">
+                  <a href="#reviews" className="text-sm text-blue-600 hover:text-blue-700">
                     ({product.rating.count} reviews)
-                  </span>
+                  </a>
                 </div>
               )}
 
@@ -97,11 +141,13 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
               <div className="mb-6">
                 <div className="flex items-baseline gap-3">
                   <span className="text-4xl font-bold text-gray-900">
-                    {formatPrice(product.price, product.currency)}
+                    {hasPriceRange && display.priceRange
+                      ? `${formatPrice(display.priceRange.min, currency)} – ${formatPrice(display.priceRange.max, currency)}`
+                      : formatPrice(display.price, currency)}
                   </span>
-                  {product.originalPrice && product.originalPrice > product.price && (
+                  {display.originalPrice && display.originalPrice > display.price && (
                     <span className="text-xl text-gray-500 line-through">
-                      {formatPrice(product.originalPrice, product.currency)}
+                      {formatPrice(display.originalPrice, currency)}
                     </span>
                   )}
                   {discount && (
@@ -119,7 +165,16 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
                 <p className="text-gray-600 text-sm mb-6">{product.longDescription}</p>
               )}
 
-              {/* Inventory Status */}
+              {/* Variant selection or a plain Add to Cart */}
+              {hasVariants ? (
+                <VariantSelector product={product} currency={currency} />
+              ) : (
+                <div className="mb-6 max-w-sm">
+                  <AddToCartButton product={product} variant="full" />
+                </div>
+              )}
+
+              {/* Inventory Status (summed over all variants) */}
               <div className="mb-6">
                 <div
                   className={`inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium ${
@@ -132,6 +187,15 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
                 >
                   {inventoryStatus.message}
                 </div>
+
+                {/* Store pickup, where a store has it on the shelf */}
+                {inventoryStatus.locations
+                  ?.filter(location => location.pickup && location.status !== 'out-of-stock')
+                  .map(location => (
+                    <p key={location.locationId} className="mt-2 text-sm text-gray-600">
+                      {location.message}
+                    </p>
+                  ))}
               </div>
 
               {/* Attributes */}
@@ -175,11 +239,14 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
           </div>
         </div>
 
+        {/* Reviews */}
+        <ProductReviews productId={product.id} page={reviewPage} sort={reviewSort} />
+
         {/* Related Products */}
         {relatedProducts.length > 0 && (
           <div className="mt-12">
             <h2 className="text-2xl font-bold text-gray-900 mb-6">Related Products</h2>
-            <ProductGrid products={relatedProducts} />
+            <ProductGrid products={relatedProducts} currency={currency} />
           </div>
         )}
       </div>
@@ -236,7 +303,16 @@ export async function generateStaticParams() {
  *    - Encourages browsing
  *    - Cross-selling opportunity
  *
- * 6. SEO Benefits:
+ * 6. Variants:
+ *    - Price shown as a range when variants differ in price
+ *    - VariantSelector is a Client Component inside this Server Component
+ *    - The chosen variant's id goes into the cart line
+ *
+ * 7. Reviews:
+ *    - Rating summary, histogram and approved reviews
+ *    - Review page and sort order come from searchParams
+ *
+ * 8. SEO Benefits:
  *    - Server-rendered content
  *    - Semantic HTML
  *    - Descriptive text
@@ -1,5 +1,7 @@
 import Link from 'next/link';
+import { cookies } from 'next/headers';
 import { getProducts } from '@/lib/api/products-service';
+import { resolveCurrency, CURRENCY_COOKIE } from '@/lib/api/currency-service';
 import { FilterParams } from '@/lib/types/product';
 import { ProductGrid } from '@/components/ProductGrid';
 import { Pagination } from '@/components/Pagination';
@@ -83,6 +85,7 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
   // Educational: This runs on the server for every request
   // The data is fresh and SEO-friendly
   const result = await getProducts(filters);
+  const currency = resolveCurrency(cookies().get(CURRENCY_COOKIE)?.value);
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -116,7 +119,7 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
             <span className="text-sm text-gray-600">Active filters:</span>
             {filters.search && (
               <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
-                Search: "{filters.search}"
+                Search: &ldquo;{filters.search}&rdquo;
               </span>
             )}
             {filters.category && (
@@ -154,6 +157,7 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
               ? `No products found for "${filters.search}"`
               : 'No products found'
           }
+          currency={currency}
         />
 
         {/* Pagination */}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FieldError } from '@/lib/types/api';
+import { readStoredLines } from '@/lib/cart-context';
+
+/**
+ * AccountForm Component (Client Component)
+ *
+ * Sign-in and registration form. The cart filled before signing in is sent
+ * along and merged into the account's cart on the server.
+ *
+ * Educational Note: After a successful sign-in the anonymous cart is
+ * removed from localStorage - it now lives in the account - and
+ * router.refresh() lets the layout pick up the new session cookie.
+ */
+
+interface AccountFormProps {
+  mode: 'login' | 'register';
+}
+
+export function AccountForm({ mode }: AccountFormProps) {
+  const router = useRouter();
+  const [formData, setFormData] = useState({ name: '', email: '', password: '' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    if (errors[e.target.name]) {
+      setErrors(prev => ({ ...prev, [e.target.name]: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: formData.email,
+          password: formData.password,
+          ...(mode === 'register' && { name: formData.name }),
+          items: readStoredLines(),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        const fieldErrors: Record<string, string> = {};
+        if (Array.isArray(result.error?.details)) {
+          result.error.details.forEach((detail: FieldError) => {
+            fieldErrors[detail.field] = detail.message;
+          });
+        }
+        setErrors(fieldErrors);
+        setSubmitError(result.error?.message || 'Something went wrong');
+        return;
+      }
+
+      localStorage.removeItem('cart');
+      router.push('/');
+      router.refresh();
+    } catch {
+      setSubmitError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {mode === 'register' && (
+        <div>
+          <input
+            type="text"
+            name="name"
+            value={formData.name}
+            onChange={handleChange}
+            placeholder="Your name"
+            autoComplete="name"
+            className={`w-full px-4 py-2 border rounded-lg ${errors.name ? 'border-red-500' : 'border-gray-300'}`}
+          />
+          {errors.name && <p className="text-red-600 text-sm mt-1">{errors.name}</p>}
+        </div>
+      )}
+
+      <div>
+        <input
+          type="email"
+          name="email"
+          value={formData.email}
+          onChange={handleChange}
+          placeholder="Email"
+          autoComplete="email"
+          className={`w-full px-4 py-2 border rounded-lg ${errors.email ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        {errors.email && <p className="text-red-600 text-sm mt-1">{errors.email}</p>}
+      </div>
+
+      <div>
+        <input
+          type="password"
+          name="password"
+          value={formData.password}
+          onChange={handleChange}
+          placeholder="Password"
+          autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+          className={`w-full px-4 py-2 border rounded-lg ${errors.password ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        {errors.password && <p className="text-red-600 text-sm mt-1">{errors.password}</p>}
+      </div>
+
+      {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400"
+      >
+        {isSubmitting
+          ? 'Please wait...'
+          : mode === 'register' ? 'Create account' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Customer } from '@/lib/types/customer';
+
+/**
+ * AccountMenu Component (Client Component)
+ *
+ * Sign-in links for anonymous shoppers; the customer's name and a sign-out
+ * button otherwise.
+ *
+ * Educational Note: The layout reads the session cookie and passes the
+ * customer in. After signing out, router.refresh() re-renders the layout
+ * without it, and the cart switches back to the (empty) anonymous cart.
+ */
+
+interface AccountMenuProps {
+  customer: Customer | null;
+}
+
+export function AccountMenu({ customer }: AccountMenuProps) {
+  const router = useRouter();
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    router.refresh();
+  };
+
+  if (!customer) {
+    return (
+      <div className="flex items-center gap-4 text-sm">
+        <Link href="/account/login" className="text-gray-300 hover:text-white">
+          Sign in
+        </Link>
+        <Link href="/account/register" className="text-gray-300 hover:text-white">
+          Create account
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4 text-sm">
+      <span className="text-gray-300">Hi, {customer.name}</span>
+      <button onClick={signOut} className="text-gray-300 hover:text-white">
+        Sign out
+      </button>
+    </div>
+  );
+}
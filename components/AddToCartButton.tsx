@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useCart } from '@/lib/cart-context';
 import { Product } from '@/lib/types/product';
 
@@ -17,22 +18,51 @@ import { Product } from '@/lib/types/product';
 interface AddToCartButtonProps {
   product: Product;
   variant?: 'default' | 'full';
+  variantId?: string;                   // Chosen product variant (size, color, ...)
 }
 
-export function AddToCartButton({ product, variant = 'default' }: AddToCartButtonProps) {
-  const { addToCart } = useCart();
+export function AddToCartButton({ product, variant = 'default', variantId }: AddToCartButtonProps) {
+  const { items, addToCart } = useCart();
   const [added, setAdded] = useState(false);
 
+  const hasVariants = (product.variants?.length ?? 0) > 0;
+  const productVariant = product.variants?.find(v => v.id === variantId);
+
   const handleAddToCart = () => {
-    addToCart(product, 1);
+    addToCart(product, 1, productVariant?.id);
     setAdded(true);
 
     // Reset button after animation
     setTimeout(() => setAdded(false), 2000);
   };
 
-  // Check if product is available
-  const isAvailable = product.inventory.inStock && product.inventory.quantity > 0;
+  // Products with variants can only be bought once a variant is chosen,
+  // which happens on the product page
+  if (hasVariants && !productVariant) {
+    return (
+      <Link
+        href={`/products/${product.slug}`}
+        className={`block w-full text-center rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 ${
+          variant === 'full' ? 'py-3 px-6 font-semibold' : 'py-2 px-4 text-sm'
+        }`}
+      >
+        Choose Options
+      </Link>
+    );
+  }
+
+  // Check if product is available (units reserved by other checkouts don't count)
+  // Educational: A variant has its own stock, separate from its siblings
+  const inventory = productVariant?.inventory ?? product.inventory;
+  const availableQuantity = inventory.inStock
+    ? Math.max(inventory.quantity - inventory.reservedQuantity, 0)
+    : 0;
+  const isAvailable = availableQuantity > 0;
+
+  // Units of this product (in this variant) already in the cart
+  const inCart = items.find(
+    item => item.product.id === product.id && item.variantId === productVariant?.id
+  )?.quantity ?? 0;
 
   if (!isAvailable) {
     return (
@@ -45,6 +75,20 @@ export function AddToCartButton({ product, variant = 'default' }: AddToCartButto
     );
   }
 
+  // Every available unit is already in the cart
+  if (inCart >= availableQuantity) {
+    return (
+      <button
+        disabled
+        className={`w-full bg-gray-300 text-gray-500 rounded-lg font-medium cursor-not-allowed ${
+          variant === 'full' ? 'py-3 px-6 font-semibold' : 'py-2 px-4 text-sm'
+        }`}
+      >
+        All {availableQuantity} in your cart
+      </button>
+    );
+  }
+
   if (variant === 'full') {
     return (
       <button
@@ -89,8 +133,11 @@ export function AddToCartButton({ product, variant = 'default' }: AddToCartButto
  *
  * 3. Conditional Rendering:
  *    - Different button for out of stock
+ *    - Disabled once the cart holds every available unit (the cart and
+ *      checkout re-check this against live stock)
  *    - Different styles for states
  *    - Variant prop for different sizes
+ *    - "Choose Options" link until a product variant is picked
  *
  * 4. User Feedback:
  *    - Visual change on success
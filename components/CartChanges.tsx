@@ -0,0 +1,53 @@
+'use client';
+
+import { CartValidation } from '@/lib/types/customer';
+import { formatPrice } from '@/lib/api/product-display';
+import { convertPrice } from '@/lib/api/currency-service';
+
+/**
+ * CartChanges Component (Client Component)
+ *
+ * Lists what changed in the cart since the shopper added the items - new
+ * prices, reduced quantities, unavailable products - with a button to
+ * accept the corrected cart.
+ *
+ * Educational Note: Prices come back in the product's currency and are
+ * converted here, so "price changed from X to Y" uses the same currency
+ * as the rest of the cart.
+ */
+
+interface CartChangesProps {
+  validation: CartValidation;
+  currency: string;
+  onAccept: () => void;
+}
+
+export function CartChanges({ validation, currency, onAccept }: CartChangesProps) {
+  const format = (price: number, from: string) =>
+    formatPrice(convertPrice(price, from, currency), currency);
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+      <h2 className="font-semibold text-yellow-900">Your cart has changed</h2>
+      <ul className="mt-2 space-y-1 text-sm text-yellow-800">
+        {validation.changes.map(change => (
+          <li key={`${change.type}:${change.productId}:${change.variantId ?? ''}`}>
+            <span className="font-medium">{change.name}:</span>{' '}
+            {change.type === 'price-changed'
+              ? `price changed from ${format(change.previousPrice!, change.currency!)} to ${format(change.currentPrice!, change.currency!)}`
+              : change.type === 'quantity-reduced'
+                ? `only ${change.availableQuantity} available, quantity reduced from ${change.requestedQuantity}`
+                : 'no longer available and will be removed'}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={onAccept}
+        className="mt-4 bg-yellow-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-yellow-700"
+      >
+        Accept changes
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { useCart } from '@/lib/cart-context';
+
+/**
+ * CouponForm Component (Client Component)
+ *
+ * Text field for a coupon code. The code is stored in the cart, so it
+ * follows the shopper from the cart page to checkout.
+ *
+ * Educational Note: Whether the code is valid is decided by the pricing
+ * service - this component only shows its verdict (pricing.couponError).
+ * It is not a <form> of its own because checkout renders it inside the
+ * order form (forms can't be nested), so Enter is handled by hand.
+ */
+export function CouponForm() {
+  const { couponCode, applyCoupon, removeCoupon, pricing } = useCart();
+  const [code, setCode] = useState('');
+
+  const submit = () => {
+    if (code.trim()) applyCoupon(code);
+    setCode('');
+  };
+
+  if (couponCode) {
+    return (
+      <div className="text-sm">
+        <div className="flex items-center justify-between">
+          <span className="font-medium text-gray-900">
+            Coupon: <span className="font-mono">{couponCode}</span>
+          </span>
+          <button
+            type="button"
+            onClick={removeCoupon}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            Remove
+          </button>
+        </div>
+        {pricing.couponError && (
+          <p className="text-orange-600 mt-1">{pricing.couponError}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder="Coupon code"
+        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase"
+      />
+      <button
+        type="button"
+        onClick={submit}
+        className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium hover:bg-gray-50"
+      >
+        Apply
+      </button>
+    </div>
+  );
+}
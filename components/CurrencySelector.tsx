@@ -0,0 +1,35 @@
+'use client';
+
+import { useCart } from '@/lib/cart-context';
+import { SUPPORTED_CURRENCIES } from '@/lib/api/currency-service';
+
+/**
+ * CurrencySelector Component (Client Component)
+ *
+ * Drop-down for the currency prices are shown in.
+ *
+ * Educational Note: The choice is stored in a cookie, not in React state,
+ * because Server Components render the listing prices - and they can read
+ * cookies but not client state. Linking to ?currency=EUR sets the same
+ * cookie (see middleware.ts).
+ */
+export function CurrencySelector() {
+  const { currency, setCurrency } = useCart();
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-gray-300">Currency</span>
+      <select
+        value={currency}
+        onChange={(e) => setCurrency(e.target.value)}
+        className="bg-gray-800 text-white border border-gray-700 rounded px-2 py-1"
+      >
+        {SUPPORTED_CURRENCIES.map((code) => (
+          <option key={code} value={code}>
+            {code}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
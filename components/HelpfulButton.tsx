@@ -0,0 +1,54 @@
+'use client';
+
+import { useState } from 'react';
+
+/**
+ * HelpfulButton Component (Client Component)
+ *
+ * "Helpful (12)" button under a review. One vote per browser - the server
+ * remembers the voter in a cookie.
+ */
+
+interface HelpfulButtonProps {
+  reviewId: string;
+  initialCount: number;
+}
+
+export function HelpfulButton({ reviewId, initialCount }: HelpfulButtonProps) {
+  const [count, setCount] = useState(initialCount);
+  const [voted, setVoted] = useState(false);
+  const [pending, setPending] = useState(false);
+
+  const handleClick = async () => {
+    setPending(true);
+    try {
+      const response = await fetch(`/api/reviews/${encodeURIComponent(reviewId)}/helpful`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (result.success) {
+        setCount(result.data.helpfulCount);
+        setVoted(true);
+      }
+    } catch {
+      // Leave the count as it was; the shopper can try again
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={voted || pending}
+      className={`text-xs px-3 py-1 rounded-full border ${
+        voted
+          ? 'border-green-300 bg-green-50 text-green-700'
+          : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+      }`}
+    >
+      {voted ? '✓ Helpful' : 'Helpful'} ({count})
+    </button>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Product } from '@/lib/types/product';
+import { ProductCard } from './ProductCard';
+
+/**
+ * LoadMoreProducts Component (Client Component)
+ *
+ * Appends further pages of products as the shopper scrolls, using the
+ * nextCursor returned by GET /api/products.
+ *
+ * Educational Note: The first page is rendered on the server (fast, SEO
+ * friendly). This component takes over from there: when the sentinel div
+ * at the bottom scrolls into view, it fetches the next page with the cursor
+ * and appends it. Because cursors point at a row rather than a position,
+ * products added while the shopper scrolls never cause duplicates.
+ *
+ * Props:
+ * - initialCursor: nextCursor from the server-rendered first page
+ * - query: Listing filters as a query string (category, sortBy, ...)
+ * - currency: Currency to show prices in
+ */
+
+interface LoadMoreProductsProps {
+  initialCursor: string | null;
+  query: string;
+  currency: string;
+}
+
+export function LoadMoreProducts({ initialCursor, query, currency }: LoadMoreProductsProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [cursor, setCursor] = useState<string | null>(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Start over when the filters change (e.g. a new sort order)
+  useEffect(() => {
+    setProducts([]);
+    setCursor(initialCursor);
+    setError(null);
+  }, [initialCursor, query]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams(query);
+      params.set('cursor', cursor);
+      const response = await fetch(`/api/products?${params.toString()}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to load more products');
+        return;
+      }
+
+      setProducts(previous => [...previous, ...result.data]);
+      setCursor(result.pagination.nextCursor ?? null);
+    } catch {
+      setError('Could not reach the server.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cursor, isLoading, query]);
+
+  // Load the next page when the sentinel becomes visible
+  // Educational: IntersectionObserver is cheaper than listening to every
+  // scroll event and measuring positions ourselves
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !cursor || error) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '400px' } // Start loading before the shopper hits the bottom
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [cursor, error, loadMore]);
+
+  return (
+    <div>
+      {products.length > 0 && (
+        <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {products.map((product) => (
+            <ProductCard key={product.id} product={product} currency={currency} />
+          ))}
+        </div>
+      )}
+
+      <div ref={sentinelRef} className="mt-8 text-center">
+        {isLoading && <p className="text-sm text-gray-500">Loading more products...</p>}
+
+        {/* Fallback button - also used to retry after an error */}
+        {cursor && !isLoading && (
+          <button
+            type="button"
+            onClick={loadMore}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {error ? 'Retry' : 'Load more'}
+          </button>
+        )}
+
+        {error && (
+          <p className="mt-2 text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import Link from 'next/link';
 import { Product } from '@/lib/types/product';
-import { formatPrice, getDiscountPercentage } from '@/lib/api/products-service';
+import { formatPrice, getDiscountPercentage, getInventoryStatus } from '@/lib/api/product-display';
+import { convertProduct } from '@/lib/api/currency-service';
+import { BASE_CURRENCY } from '@/lib/data/exchange-rates';
 import { AddToCartButton } from './AddToCartButton';
 
 /**
@@ -14,19 +16,26 @@ import { AddToCartButton } from './AddToCartButton';
  *
  * Props:
  * - product: The product data to display
+ * - currency: Currency to show prices in (default USD)
  */
 
 interface ProductCardProps {
   product: Product;
+  currency?: string;
 }
 
-export function ProductCard({ product }: ProductCardProps) {
+export function ProductCard({ product, currency = BASE_CURRENCY }: ProductCardProps) {
+  // Prices for display only - the cart keeps the product as stored
+  const display = convertProduct(product, currency);
+
+
   // Calculate discount percentage if there's an original price
   const discount = getDiscountPercentage(product);
 
-  // Get inventory status for display
-  const { inStock, quantity, lowStockThreshold } = product.inventory;
-  const isLowStock = inStock && quantity <= lowStockThreshold;
+  // Get inventory status for display (based on available, unreserved stock)
+  const inventoryStatus = getInventoryStatus(product);
+  const inStock = inventoryStatus.status !== 'out-of-stock';
+  const isLowStock = inventoryStatus.status === 'low-stock';
 
   return (
     <div className="group bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200 overflow-hidden flex flex-col">
@@ -100,11 +109,12 @@ export function ProductCard({ product }: ProductCardProps) {
           {/* Price */}
           <div className="flex items-baseline gap-2">
             <span className="text-lg font-bold text-gray-900">
-              {formatPrice(product.price, product.currency)}
+              {display.priceRange && display.priceRange.min < display.priceRange.max && 'From '}
+              {formatPrice(display.price, display.currency)}
             </span>
-            {product.originalPrice && product.originalPrice > product.price && (
+            {display.originalPrice && display.originalPrice > display.price && (
               <span className="text-sm text-gray-500 line-through">
-                {formatPrice(product.originalPrice, product.currency)}
+                {formatPrice(display.originalPrice, display.currency)}
               </span>
             )}
           </div>
@@ -112,7 +122,7 @@ export function ProductCard({ product }: ProductCardProps) {
           {/* Stock warning */}
           {isLowStock && (
             <p className="text-xs text-orange-600 font-medium mt-2">
-              Only {quantity} left!
+              {inventoryStatus.message}!
             </p>
           )}
         </div>
@@ -1,5 +1,7 @@
 import { Product } from '@/lib/types/product';
 import { ProductCard } from './ProductCard';
+import { LoadMoreProducts } from './LoadMoreProducts';
+import { BASE_CURRENCY } from '@/lib/data/exchange-rates';
 
 /**
  * ProductGrid Component (Server Component)
@@ -13,16 +15,27 @@ import { ProductCard } from './ProductCard';
  * Props:
  * - products: Array of products to display
  * - emptyMessage: Optional message to show when no products (default: "No products found")
+ * - infiniteScroll: Optional; keeps loading pages with the listing's cursor
+ *   instead of showing numbered pages
+ * - currency: Currency to show prices in (default USD)
  */
 
 interface ProductGridProps {
   products: Product[];
   emptyMessage?: string;
+  infiniteScroll?: {
+    nextCursor: string | null;          // pagination.nextCursor of the first page
+    query: string;                      // Listing filters as a query string
+    total: number;                      // Total matching products
+  };
+  currency?: string;
 }
 
 export function ProductGrid({
   products,
   emptyMessage = 'No products found',
+  infiniteScroll,
+  currency = BASE_CURRENCY,
 }: ProductGridProps) {
   // Handle empty state
   // Educational: Always handle edge cases (empty arrays, null, etc.)
@@ -50,14 +63,25 @@ export function ProductGrid({
        */}
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
         {products.map((product) => (
-          <ProductCard key={product.id} product={product} />
+          <ProductCard key={product.id} product={product} currency={currency} />
         ))}
       </div>
 
+      {/* Further pages, appended on scroll */}
+      {infiniteScroll && (
+        <LoadMoreProducts
+          initialCursor={infiniteScroll.nextCursor}
+          query={infiniteScroll.query}
+          currency={currency}
+        />
+      )}
+
       {/* Product count indicator */}
       <div className="mt-8 text-center">
         <p className="text-sm text-gray-500">
-          Showing {products.length} {products.length === 1 ? 'product' : 'products'}
+          {infiniteScroll
+            ? `${infiniteScroll.total} ${infiniteScroll.total === 1 ? 'product' : 'products'} in total`
+            : `Showing ${products.length} ${products.length === 1 ? 'product' : 'products'}`}
         </p>
       </div>
     </div>
@@ -93,7 +117,12 @@ export function ProductGrid({
  *    - Use stable, unique identifiers (product.id)
  *    - Never use array index as key
  *
- * 6. Accessibility:
+ * 6. Infinite Scroll:
+ *    - The first page is server-rendered here
+ *    - LoadMoreProducts (a Client Component) appends the rest
+ *    - Server Components can render Client Components, not the other way round
+ *
+ * 7. Accessibility:
  *    - Semantic HTML
  *    - Clear messaging
  *    - Descriptive text
@@ -0,0 +1,188 @@
+import Link from 'next/link';
+import { getProductReviews, getRatingSummary } from '@/lib/api/reviews-service';
+import { ReviewSort } from '@/lib/types/review';
+import { HelpfulButton } from './HelpfulButton';
+import { ReviewForm } from './ReviewForm';
+
+/**
+ * ProductReviews Component (Server Component)
+ *
+ * Rating summary with a star histogram, one page of approved reviews and
+ * the form for writing a new one.
+ *
+ * Educational Note: The page and sort order live in the URL
+ * (?reviewPage=2&reviewSort=helpful), so a list of reviews can be linked to
+ * and the server renders exactly that page.
+ */
+
+interface ProductReviewsProps {
+  productId: string;
+  page?: number;
+  sort?: ReviewSort;
+}
+
+const SORT_LABELS: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  helpful: 'Most helpful',
+  'rating-high': 'Highest rated',
+  'rating-low': 'Lowest rated',
+};
+
+const REVIEWS_PER_PAGE = 5;
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="text-yellow-400" aria-label={`${rating} out of 5 stars`}>
+      {'★'.repeat(Math.round(rating))}
+      <span className="text-gray-300">{'★'.repeat(5 - Math.round(rating))}</span>
+    </span>
+  );
+}
+
+export async function ProductReviews({ productId, page = 1, sort = 'newest' }: ProductReviewsProps) {
+  const [summary, reviews] = await Promise.all([
+    getRatingSummary(productId),
+    getProductReviews(productId, { page, limit: REVIEWS_PER_PAGE, sort }),
+  ]);
+  const { pagination } = reviews;
+
+  // Link to another page / sort order of this list, keeping the other
+  const reviewsHref = (nextPage: number, nextSort: ReviewSort) =>
+    `?reviewPage=${nextPage}&reviewSort=${nextSort}#reviews`;
+
+  return (
+    <section id="reviews" className="mt-12 bg-white rounded-lg shadow-sm p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Customer Reviews</h2>
+
+      <div className="grid md:grid-cols-3 gap-8">
+        {/* Summary and histogram */}
+        <div>
+          {summary.count > 0 && summary.average !== null ? (
+            <>
+              <div className="flex items-baseline gap-2 mb-1">
+                <span className="text-4xl font-bold text-gray-900">{summary.average.toFixed(1)}</span>
+                <span className="text-gray-500">out of 5</span>
+              </div>
+              <Stars rating={summary.average} />
+              <p className="text-sm text-gray-500 mt-1">
+                {summary.count} review{summary.count === 1 ? '' : 's'}
+              </p>
+            </>
+          ) : (
+            <p className="text-gray-600">No reviews yet. Be the first!</p>
+          )}
+
+          <div className="mt-4 space-y-2">
+            {([5, 4, 3, 2, 1] as const).map(stars => {
+              const count = summary.histogram[stars];
+              const percent = summary.count > 0 ? Math.round((count / summary.count) * 100) : 0;
+
+              return (
+                <div key={stars} className="flex items-center gap-2 text-sm">
+                  <span className="w-12 text-gray-600">{stars} star</span>
+                  <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400" style={{ width: `${percent}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-gray-500">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Review list */}
+        <div className="md:col-span-2">
+          {pagination.total > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4 text-sm">
+              {(Object.keys(SORT_LABELS) as ReviewSort[]).map(option => (
+                <Link
+                  key={option}
+                  href={reviewsHref(1, option)}
+                  scroll={false}
+                  className={`px-3 py-1 rounded-full ${
+                    option === sort
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {SORT_LABELS[option]}
+                </Link>
+              ))}
+            </div>
+          )}
+
+          <div className="divide-y divide-gray-200">
+            {reviews.data.map(review => (
+              <article key={review.id} className="py-4">
+                <div className="flex items-center gap-2">
+                  <Stars rating={review.rating} />
+                  {review.title && (
+                    <h3 className="font-semibold text-gray-900">{review.title}</h3>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {review.authorName} ·{' '}
+                  {review.createdAt.toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                  {review.verifiedPurchase && (
+                    <span className="ml-2 text-green-700 font-medium">✓ Verified purchase</span>
+                  )}
+                </p>
+                <p className="text-gray-700 mt-2">{review.body}</p>
+                <div className="mt-3">
+                  <HelpfulButton reviewId={review.id} initialCount={review.helpfulCount} />
+                </div>
+              </article>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4 text-sm">
+              {pagination.hasPrev ? (
+                <Link href={reviewsHref(page - 1, sort)} scroll={false} className="text-blue-600 hover:text-blue-700">
+                  ← Previous
+                </Link>
+              ) : (
+                <span />
+              )}
+              <span className="text-gray-500">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              {pagination.hasNext ? (
+                <Link href={reviewsHref(page + 1, sort)} scroll={false} className="text-blue-600 hover:text-blue-700">
+                  Next →
+                </Link>
+              ) : (
+                <span />
+              )}
+            </div>
+          )}
+
+          <div className="mt-8 border-t pt-6">
+            <ReviewForm productId={productId} />
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Histogram:
+ *    - One GROUP BY query returns the count per star rating
+ *    - Bar widths are percentages of all approved reviews
+ *
+ * 2. Server + Client Components:
+ *    - The list renders on the server (no JavaScript needed to read it)
+ *    - Only the helpful button and the form are Client Components
+ *
+ * 3. Moderation:
+ *    - Only approved reviews are listed or counted
+ *    - New reviews show up after a moderator approves them
+ */
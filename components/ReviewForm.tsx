@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { FieldError } from '@/lib/types/api';
+
+/**
+ * ReviewForm Component (Client Component)
+ *
+ * Lets a shopper rate and review a product. Submitted reviews wait for
+ * moderation, so the form thanks the shopper instead of showing the
+ * review straight away.
+ *
+ * Educational Note: The server validates everything again - the checks
+ * here only exist to give faster feedback.
+ */
+
+interface ReviewFormProps {
+  productId: string;
+}
+
+export function ReviewForm({ productId }: ReviewFormProps) {
+  const [formData, setFormData] = useState({
+    authorName: '',
+    email: '',
+    title: '',
+    body: '',
+  });
+  const [rating, setRating] = useState(0);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    if (errors[e.target.name]) {
+      setErrors(prev => ({ ...prev, [e.target.name]: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rating === 0) {
+      setErrors({ rating: 'Choose a star rating' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await fetch(`/api/products/${encodeURIComponent(productId)}/reviews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          title: formData.title || undefined,
+          rating,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        // Show field errors next to their inputs
+        const fieldErrors: Record<string, string> = {};
+        if (Array.isArray(result.error?.details)) {
+          result.error.details.forEach((detail: FieldError) => {
+            fieldErrors[detail.field] = detail.message;
+          });
+        }
+        setErrors(fieldErrors);
+        setSubmitError(result.error?.message || 'Failed to submit review');
+        return;
+      }
+
+      setSubmitted(true);
+    } catch {
+      setSubmitError('Failed to submit review. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+        Thanks for your review! It will appear here once it has been approved.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Write a review</h3>
+
+      {/* Star rating */}
+      <div>
+        <div className="flex gap-1">
+          {[1, 2, 3, 4, 5].map(star => (
+            <button
+              key={star}
+              type="button"
+              onClick={() => {
+                setRating(star);
+                setErrors(prev => ({ ...prev, rating: '' }));
+              }}
+              className={`text-2xl ${star <= rating ? 'text-yellow-400' : 'text-gray-300'}`}
+              aria-label={`${star} star${star > 1 ? 's' : ''}`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+        {errors.rating && <p className="text-red-600 text-sm mt-1">{errors.rating}</p>}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <input
+            type="text"
+            name="authorName"
+            value={formData.authorName}
+            onChange={handleChange}
+            placeholder="Your name"
+            className={`w-full px-4 py-2 border rounded-lg ${errors.authorName ? 'border-red-500' : 'border-gray-300'}`}
+          />
+          {errors.authorName && <p className="text-red-600 text-sm mt-1">{errors.authorName}</p>}
+        </div>
+        <div>
+          <input
+            type="email"
+            name="email"
+            value={formData.email}
+            onChange={handleChange}
+            placeholder="Email (not published)"
+            className={`w-full px-4 py-2 border rounded-lg ${errors.email ? 'border-red-500' : 'border-gray-300'}`}
+          />
+          {errors.email && <p className="text-red-600 text-sm mt-1">{errors.email}</p>}
+        </div>
+      </div>
+
+      <div>
+        <input
+          type="text"
+          name="title"
+          value={formData.title}
+          onChange={handleChange}
+          placeholder="Title (optional)"
+          className={`w-full px-4 py-2 border rounded-lg ${errors.title ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        {errors.title && <p className="text-red-600 text-sm mt-1">{errors.title}</p>}
+      </div>
+
+      <div>
+        <textarea
+          name="body"
+          value={formData.body}
+          onChange={handleChange}
+          rows={4}
+          placeholder="What did you like or dislike?"
+          className={`w-full px-4 py-2 border rounded-lg ${errors.body ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        {errors.body && <p className="text-red-600 text-sm mt-1">{errors.body}</p>}
+      </div>
+
+      {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400"
+      >
+        {isSubmitting ? 'Submitting...' : 'Submit Review'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { Product, ProductVariant } from '@/lib/types/product';
+import { formatPrice, getInventoryStatus } from '@/lib/api/product-display';
+import { convertPrice } from '@/lib/api/currency-service';
+import { AddToCartButton } from './AddToCartButton';
+
+/**
+ * VariantSelector Component (Client Component)
+ *
+ * Lets the shopper pick one value per option axis (size, color, ...) and
+ * shows the matching variant's price, stock and SKU.
+ *
+ * Educational Note: The selection lives in local state - nothing is sent to
+ * the server until the variant is added to the cart.
+ */
+
+interface VariantSelectorProps {
+  product: Product;
+  currency: string;                     // Currency to show prices in
+}
+
+// Does this variant have every option in the (partial) selection?
+function matches(variant: ProductVariant, selection: Record<string, string>): boolean {
+  return Object.keys(selection).every(name => variant.options[name] === selection[name]);
+}
+
+export function VariantSelector({ product, currency }: VariantSelectorProps) {
+  const options = product.options ?? [];
+  const variants = product.variants ?? [];
+
+  // Start from the first variant that can actually be bought
+  const initial =
+    variants.find(v => getInventoryStatus({ ...product, inventory: v.inventory }).canOrder) ??
+    variants[0];
+  const [selection, setSelection] = useState<Record<string, string>>(
+    initial ? { ...initial.options } : {}
+  );
+
+  const selected = variants.find(v => matches(v, selection) && options.length > 0);
+  const status = selected
+    ? getInventoryStatus({ ...product, inventory: selected.inventory })
+    : null;
+
+  const choose = (name: string, value: string) => {
+    const next = { ...selection, [name]: value };
+
+    // If the combination doesn't exist (e.g. Blue only comes in M and L),
+    // keep the new value and fill in the rest from a variant that has it
+    if (!variants.some(v => matches(v, next))) {
+      const fallback = variants.find(v => v.options[name] === value);
+      setSelection(fallback ? { ...fallback.options } : next);
+      return;
+    }
+
+    setSelection(next);
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      {/* Option axes */}
+      {options.map(option => (
+        <div key={option.name}>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2 capitalize">
+            {option.name}: <span className="font-normal text-gray-600">{selection[option.name]}</span>
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map(value => {
+              // Grey out values that are sold out with the other current choices
+              const candidate = variants.find(v =>
+                matches(v, { ...selection, [option.name]: value })
+              );
+              const available =
+                !!candidate &&
+                getInventoryStatus({ ...product, inventory: candidate.inventory }).canOrder;
+              const isSelected = selection[option.name] === value;
+
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => choose(option.name, value)}
+                  className={`px-4 py-2 rounded-lg border text-sm font-medium ${
+                    isSelected
+                      ? 'border-blue-600 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  } ${available ? '' : 'line-through opacity-50'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {/* Selected variant */}
+      {selected && status ? (
+        <div className="space-y-3">
+          <div className="flex items-baseline gap-3">
+            <span className="text-2xl font-bold text-gray-900">
+              {formatPrice(convertPrice(selected.price, product.currency, currency), currency)}
+            </span>
+            {selected.originalPrice && selected.originalPrice > selected.price && (
+              <span className="text-lg text-gray-500 line-through">
+                {formatPrice(convertPrice(selected.originalPrice, product.currency, currency), currency)}
+              </span>
+            )}
+          </div>
+          <p
+            className={`text-sm font-medium ${
+              status.status === 'in-stock'
+                ? 'text-green-700'
+                : status.status === 'low-stock'
+                ? 'text-orange-600'
+                : 'text-gray-500'
+            }`}
+          >
+            {status.message}
+          </p>
+          <p className="text-xs text-gray-500">SKU: {selected.sku}</p>
+          <AddToCartButton product={product} variant="full" variantId={selected.id} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">This combination is not available.</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Options vs Variants:
+ *    - Options are the axes shoppers choose along (size, color)
+ *    - Variants are the combinations that actually exist
+ *    - Not every combination has to exist
+ *
+ * 2. Derived Selection:
+ *    - Only the chosen values are stored in state
+ *    - The matching variant is looked up on every render
+ *
+ * 3. Availability Hints:
+ *    - Sold-out values stay clickable but are struck through
+ *    - Stock comes from the variant, not the product totals
+ */
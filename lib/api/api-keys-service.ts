@@ -0,0 +1,258 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey, ApiScope, IssuedApiKey } from '../types/auth';
+import { prisma } from '../db';
+import { ServiceError } from './errors';
+import { validateApiKeyInput } from './validation-service';
+import { recordAuditEvent } from './audit-service';
+
+/**
+ * API Keys Service
+ *
+ * Issues, rotates and revokes API keys, and checks the bearer token of a
+ * request against the scope an endpoint requires.
+ *
+ * Educational Flow (authenticating a request):
+ * 1. Read "Authorization: Bearer pcms_<prefix>_<secret>"
+ * 2. Look the key up by its prefix (indexed, not secret)
+ * 3. Hash the secret and compare it with the stored hash
+ * 4. Refuse revoked and expired keys (401), then keys without the
+ *    endpoint's scope (403)
+ *
+ * Educational Concepts:
+ * - 401 vs 403: 401 means "we don't know who you are", 403 means "we know,
+ *   and you may not do this"
+ * - The token is shown once. Lost tokens can't be recovered, only rotated
+ */
+
+const TOKEN_PREFIX = 'pcms';
+const TOKEN_PATTERN = /^pcms_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+// Refresh lastUsedAt at most once a minute, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Educational: A fast hash is enough here. Passwords need a slow hash
+ * (bcrypt, scrypt) because people pick guessable ones; a secret of 32
+ * random bytes can't be guessed however fast each attempt is.
+ */
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function generateToken(prefix: string): { token: string; secretHash: string } {
+  const secret = randomBytes(32).toString('base64url');
+  return {
+    token: `${TOKEN_PREFIX}_${prefix}_${secret}`,
+    secretHash: hashSecret(secret),
+  };
+}
+
+function transformDbApiKey(dbApiKey: any): ApiKey {
+  return {
+    id: dbApiKey.id,
+    name: dbApiKey.name,
+    prefix: dbApiKey.prefix,
+    scopes: JSON.parse(dbApiKey.scopes),
+    expiresAt: dbApiKey.expiresAt ?? undefined,
+    lastUsedAt: dbApiKey.lastUsedAt ?? undefined,
+    revokedAt: dbApiKey.revokedAt ?? undefined,
+    createdAt: dbApiKey.createdAt,
+    updatedAt: dbApiKey.updatedAt,
+  };
+}
+
+/**
+ * List API Keys (newest first, revoked ones included)
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  const dbApiKeys = await prisma.apiKey.findMany({
+    orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+  });
+  return dbApiKeys.map(transformDbApiKey);
+}
+
+/**
+ * Create API Key
+ *
+ * Returns the key with its token - the only time the token is available.
+ */
+export async function createApiKey(input: unknown): Promise<IssuedApiKey> {
+  const { apiKey, errors } = validateApiKeyInput(input);
+  if (!apiKey) {
+    throw new ServiceError('API key validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const prefix = randomBytes(8).toString('hex');
+  const { token, secretHash } = generateToken(prefix);
+
+  const created = await prisma.$transaction(async (tx) => {
+    const dbApiKey = transformDbApiKey(
+      await tx.apiKey.create({
+        data: {
+          name: apiKey.name,
+          prefix,
+          secretHash,
+          scopes: JSON.stringify(apiKey.scopes),
+          expiresAt: apiKey.expiresAt,
+        },
+      })
+    );
+    await recordAuditEvent(tx, {
+      action: 'api_key.create',
+      entityType: 'api_key',
+      entityId: dbApiKey.id,
+      after: dbApiKey,
+    });
+    return dbApiKey;
+  });
+
+  return { ...created, token };
+}
+
+async function getActiveApiKey(id: string) {
+  const dbApiKey = await prisma.apiKey.findUnique({ where: { id } });
+  if (!dbApiKey) {
+    throw new ServiceError(`API key with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+  if (dbApiKey.revokedAt) {
+    throw new ServiceError('API key has been revoked', 'KEY_REVOKED', 409);
+  }
+  return dbApiKey;
+}
+
+/**
+ * Rotate API Key
+ *
+ * Issues a new secret for the key; the old token stops working at once.
+ * Name, scopes and expiry are kept. Throws 409 KEY_REVOKED for revoked keys.
+ */
+export async function rotateApiKey(id: string): Promise<IssuedApiKey> {
+  const current = await getActiveApiKey(id);
+  const { token, secretHash } = generateToken(current.prefix);
+
+  // Only the (unlogged) secret changes - the event records that it happened
+  const rotated = await prisma.$transaction(async (tx) => {
+    const dbApiKey = transformDbApiKey(
+      await tx.apiKey.update({
+        where: { id },
+        data: { secretHash },
+      })
+    );
+    await recordAuditEvent(tx, {
+      action: 'api_key.rotate',
+      entityType: 'api_key',
+      entityId: id,
+      before: transformDbApiKey(current),
+      after: dbApiKey,
+    });
+    return dbApiKey;
+  });
+
+  return { ...rotated, token };
+}
+
+/**
+ * Revoke API Key
+ *
+ * The key stops working but stays listed, so it's clear what existed.
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey> {
+  const current = await getActiveApiKey(id);
+
+  return prisma.$transaction(async (tx) => {
+    const revoked = transformDbApiKey(
+      await tx.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      })
+    );
+    await recordAuditEvent(tx, {
+      action: 'api_key.revoke',
+      entityType: 'api_key',
+      entityId: id,
+      before: transformDbApiKey(current),
+      after: revoked,
+    });
+    return revoked;
+  });
+}
+
+/**
+ * Whether a key may act for a scope (admin may do everything)
+ */
+export function hasScope(apiKey: ApiKey, scope: ApiScope): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+function unauthorized(message: string): ServiceError {
+  return new ServiceError(message, 'UNAUTHORIZED', 401);
+}
+
+/**
+ * Authenticate a request
+ *
+ * Takes the Authorization header and the scope the endpoint requires.
+ * Returns the key, or throws 401 UNAUTHORIZED (missing, malformed, unknown,
+ * revoked or expired token) / 403 FORBIDDEN (scope missing).
+ */
+export async function authenticateApiKey(
+  authorization: string | null,
+  scope: ApiScope
+): Promise<ApiKey> {
+  if (!authorization) {
+    throw unauthorized('An API key is required (Authorization: Bearer <key>)');
+  }
+
+  const [scheme, token] = authorization.trim().split(/\s+/);
+  const match = scheme?.toLowerCase() === 'bearer' ? token?.match(TOKEN_PATTERN) : null;
+  if (!match) {
+    throw unauthorized('Malformed API key');
+  }
+
+  const dbApiKey = await prisma.apiKey.findUnique({ where: { prefix: match[1] } });
+  const expected = Buffer.from(dbApiKey?.secretHash ?? '', 'hex');
+  const actual = Buffer.from(hashSecret(match[2]), 'hex');
+  if (!dbApiKey || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw unauthorized('Invalid API key');
+  }
+
+  if (dbApiKey.revokedAt) {
+    throw unauthorized('API key has been revoked');
+  }
+  const now = new Date();
+  if (dbApiKey.expiresAt && dbApiKey.expiresAt <= now) {
+    throw unauthorized('API key has expired');
+  }
+
+  const apiKey = transformDbApiKey(dbApiKey);
+  if (!hasScope(apiKey, scope)) {
+    throw new ServiceError(`This API key lacks the "${scope}" scope`, 'FORBIDDEN', 403, {
+      required: scope,
+      granted: apiKey.scopes,
+    });
+  }
+
+  if (!dbApiKey.lastUsedAt || now.getTime() - dbApiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: dbApiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return apiKey;
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Prefix + secret:
+ *    - Hashes can't be searched by "does this token match?", so the token
+ *      carries a public prefix that finds the row in one indexed lookup
+ *    - The prefix also lets people tell keys apart in logs and in the
+ *      list of keys, without ever showing a secret
+ *
+ * 2. Rotation:
+ *    - A leaked or departing key is rotated: same name and scopes, new
+ *      secret. Whoever held the old token is locked out immediately
+ *
+ * 3. Revocation instead of deletion:
+ *    - A revoked key keeps its row, so "which key was this?" can still be
+ *      answered later
+ */
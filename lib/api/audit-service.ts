@@ -0,0 +1,234 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+import { AuditActorType, AuditContext, AuditEvent, AuditFilters } from '../types/audit';
+import { prisma } from '../db';
+import { encodeCursor, decodeCursor } from './pagination-service';
+import { ServiceError } from './errors';
+
+/**
+ * Audit Service
+ *
+ * Records every change made through the service layer as an AuditEvent and
+ * reads the log back for GET /api/audit.
+ *
+ * Educational Flow (one request):
+ * 1. The route wrapper (withApiKey, withCustomer or withRequestContext)
+ *    works out who is acting and runs the handler inside
+ *    runWithAuditContext()
+ * 2. Each service write calls recordAuditEvent() - inside its own
+ *    transaction where it has one, so an event is never logged for a
+ *    change that was rolled back
+ * 3. recordAuditEvent() picks up the actor, IP, user agent and request id
+ *    from the context; code running outside a request (scripts, the
+ *    import CLI) is recorded as the system actor
+ *
+ * Educational Concepts:
+ * - AsyncLocalStorage: the context follows the request through every
+ *   await, so services don't need an extra "who is asking" parameter on
+ *   each function
+ * - Append-only log: database triggers refuse UPDATE and DELETE on the
+ *   table (see the add_audit_events migration)
+ */
+
+export const SYSTEM_ACTOR: AuditContext = { actor: { type: 'system', name: 'system' } };
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const STREAM_BATCH_SIZE = 500;
+
+// Cursors are tied to the one order the log is read in
+const CURSOR_SORT = 'audit';
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a function with an audit context
+ *
+ * Everything it does - including the awaits inside it - is attributed to
+ * context.actor.
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return auditStorage.run(context, fn);
+}
+
+/**
+ * The audit context of the current request (the system actor outside one)
+ */
+export function getAuditContext(): AuditContext {
+  return auditStorage.getStore() ?? SYSTEM_ACTOR;
+}
+
+/**
+ * Record an Audit Event
+ *
+ * Pass the transaction of the write when there is one; otherwise the
+ * event is written on its own, right after the change.
+ *
+ * `before` and `after` are stored as JSON - leave secrets (password
+ * hashes, key hashes, signing secrets) out of them.
+ */
+export async function recordAuditEvent(
+  db: Prisma.TransactionClient,
+  event: {
+    action: string;
+    entityType: string;
+    entityId: string;
+    before?: unknown;
+    after?: unknown;
+  }
+): Promise<void> {
+  const context = getAuditContext();
+  const { actor } = context;
+
+  await db.auditEvent.create({
+    data: {
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+      actor: actor.name,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      before: event.before === undefined ? null : JSON.stringify(event.before),
+      after: event.after === undefined ? null : JSON.stringify(event.after),
+      ip: context.ip ?? null,
+      userAgent: context.userAgent ?? null,
+      requestId: context.requestId ?? null,
+    },
+  });
+}
+
+function transformDbEvent(dbEvent: any): AuditEvent {
+  return {
+    id: dbEvent.id,
+    createdAt: dbEvent.createdAt,
+    actorType: dbEvent.actorType as AuditActorType,
+    actorId: dbEvent.actorId ?? undefined,
+    actor: dbEvent.actor,
+    action: dbEvent.action,
+    entityType: dbEvent.entityType,
+    entityId: dbEvent.entityId,
+    before: dbEvent.before === null ? undefined : JSON.parse(dbEvent.before),
+    after: dbEvent.after === null ? undefined : JSON.parse(dbEvent.after),
+    ip: dbEvent.ip ?? undefined,
+    userAgent: dbEvent.userAgent ?? undefined,
+    requestId: dbEvent.requestId ?? undefined,
+  };
+}
+
+function buildWhere(filters: AuditFilters): Prisma.AuditEventWhereInput {
+  return {
+    ...(filters.entityType && { entityType: filters.entityType }),
+    ...(filters.entityId && { entityId: filters.entityId }),
+    ...(filters.action && { action: filters.action }),
+    ...(filters.actor && { OR: [{ actor: filters.actor }, { actorId: filters.actor }] }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lt: filters.to }),
+      },
+    }),
+  };
+}
+
+/**
+ * Rows after a cursor, newest first (ties broken by id, descending)
+ */
+function afterCursor(createdAt: Date, id: string): Prisma.AuditEventWhereInput {
+  return {
+    OR: [
+      { createdAt: { lt: createdAt } },
+      { createdAt, id: { lt: id } },
+    ],
+  };
+}
+
+/**
+ * List Audit Events (newest first)
+ *
+ * Returns one page and the cursor of the next one (null on the last page).
+ * Throws 400 INVALID_CURSOR for a cursor we didn't issue.
+ */
+export async function getAuditEvents(
+  filters: AuditFilters,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ data: AuditEvent[]; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const where = buildWhere(filters);
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (!cursor || cursor.sort !== CURSOR_SORT || typeof cursor.key !== 'number') {
+      throw new ServiceError('Invalid cursor', 'INVALID_CURSOR', 400);
+    }
+    where.AND = [afterCursor(new Date(cursor.key), cursor.id)];
+  }
+
+  // One extra row tells us whether there is a next page
+  const dbEvents = await prisma.auditEvent.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+  });
+
+  const page = dbEvents.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    data: page.map(transformDbEvent),
+    nextCursor:
+      dbEvents.length > limit
+        ? encodeCursor({
+            sort: CURSOR_SORT,
+            key: last.createdAt.getTime(),
+            id: last.id,
+            direction: 'next',
+          })
+        : null,
+  };
+}
+
+/**
+ * Every matching event as JSON lines, newest first
+ *
+ * For the JSON Lines export - read in batches, so a long log is never in
+ * memory as a whole.
+ */
+export async function* streamAuditEvents(filters: AuditFilters): AsyncGenerator<string> {
+  let cursor: { createdAt: Date; id: string } | null = null;
+
+  while (true) {
+    const where = buildWhere(filters);
+    if (cursor) where.AND = [afterCursor(cursor.createdAt, cursor.id)];
+
+    const dbEvents = await prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: STREAM_BATCH_SIZE,
+    });
+
+    for (const dbEvent of dbEvents) {
+      yield JSON.stringify(transformDbEvent(dbEvent)) + '\n';
+    }
+
+    if (dbEvents.length < STREAM_BATCH_SIZE) return;
+    const last = dbEvents[dbEvents.length - 1];
+    cursor = { createdAt: last.createdAt, id: last.id };
+  }
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Audit log vs. product revisions:
+ *    - Revisions keep full product snapshots so a product can be diffed
+ *      and rolled back; the audit log covers every kind of record and
+ *      answers "who did this, and from where?"
+ *
+ * 2. Why before and after:
+ *    - An event that only said "promotion.update" would not tell you the
+ *      discount went from 10% to 90%
+ *
+ * 3. What is not logged:
+ *    - Reads, and the queue's own bookkeeping (webhook delivery attempts,
+ *      session lookups) - only changes somebody asked for
+ */
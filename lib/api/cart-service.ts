@@ -0,0 +1,333 @@
+import {
+  Cart,
+  CartChange,
+  CartCheckLine,
+  CartValidation,
+  HydratedCartLine,
+} from '../types/customer';
+import { StockLine } from '../types/inventory';
+import { prisma } from '../db';
+import { ServiceError } from './errors';
+import { validateCartCheckInput, validateCartInput } from './validation-service';
+import { getProductsByIds } from './products-service';
+import { formatPrice } from './product-display';
+import { recordAuditEvent } from './audit-service';
+
+/**
+ * Cart Service
+ *
+ * Stores signed-in customers' carts, and turns stored lines (ids and
+ * quantities) back into products for display.
+ *
+ * Educational Flow (loading a cart):
+ * 1. Read the lines: { productId, variantId, quantity }
+ * 2. Load those products fresh from the database - current price, stock
+ *    and images
+ * 3. Drop lines whose product was deleted or unpublished, or whose variant
+ *    no longer exists, and report them in `removed`
+ *
+ * Anonymous shoppers keep the same lines in localStorage and hydrate them
+ * through POST /api/cart/hydrate.
+ */
+
+// Database rows use "" for "no variant" so the unique index covers them
+function toStockLine(line: { productId: string; variantId: string; quantity: number }): StockLine {
+  return {
+    productId: line.productId,
+    ...(line.variantId && { variantId: line.variantId }),
+    quantity: line.quantity,
+  };
+}
+
+/**
+ * Hydrate cart lines with current product data
+ */
+export async function hydrateCart(lines: StockLine[]): Promise<Cart> {
+  const products = await getProductsByIds(Array.from(new Set(lines.map(line => line.productId))));
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const items: HydratedCartLine[] = [];
+  const removed: StockLine[] = [];
+
+  for (const line of lines) {
+    const product = productsById.get(line.productId);
+    const hasVariants = !!product?.variants && product.variants.length > 0;
+    const variantExists = line.variantId
+      ? !!product?.variants?.some(variant => variant.id === line.variantId)
+      : !hasVariants;
+
+    if (product && variantExists) {
+      items.push({ ...line, product });
+    } else {
+      removed.push(line);
+    }
+  }
+
+  return { items, removed };
+}
+
+/**
+ * Get a Customer's Cart (GET /api/cart)
+ *
+ * Lines that can no longer be bought are deleted from the stored cart as
+ * they are reported.
+ */
+export async function getCustomerCart(customerId: string): Promise<Cart> {
+  const dbCart = await prisma.cart.findUnique({
+    where: { customerId },
+    include: { lines: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!dbCart) return { items: [], removed: [] };
+
+  const cart = await hydrateCart(dbCart.lines.map(toStockLine));
+
+  if (cart.removed.length > 0) {
+    await prisma.cartLine.deleteMany({
+      where: {
+        cartId: dbCart.id,
+        OR: cart.removed.map(line => ({
+          productId: line.productId,
+          variantId: line.variantId ?? '',
+        })),
+      },
+    });
+  }
+
+  return cart;
+}
+
+/**
+ * Save a Customer's Cart (PUT /api/cart)
+ *
+ * Replaces every line - the browser sends the whole cart after each change.
+ * Throws 400 VALIDATION_ERROR for malformed lines.
+ */
+export async function saveCustomerCart(customerId: string, input: unknown): Promise<Cart> {
+  const { items, errors } = validateCartInput(input);
+  if (!items) {
+    throw new ServiceError('Cart validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  // Lines for products that don't exist can't be stored (foreign key)
+  const cart = await hydrateCart(items);
+
+  await prisma.$transaction(async (tx) => {
+    const dbCart = await tx.cart.upsert({
+      where: { customerId },
+      create: { customerId },
+      update: { updatedAt: new Date() },
+    });
+    const before = await tx.cartLine.findMany({
+      where: { cartId: dbCart.id },
+      orderBy: { createdAt: 'asc' },
+    });
+    await tx.cartLine.deleteMany({ where: { cartId: dbCart.id } });
+    await tx.cartLine.createMany({
+      data: cart.items.map(line => ({
+        cartId: dbCart.id,
+        productId: line.productId,
+        variantId: line.variantId ?? '',
+        quantity: line.quantity,
+      })),
+    });
+    await recordAuditEvent(tx, {
+      action: 'cart.update',
+      entityType: 'cart',
+      entityId: dbCart.id,
+      before: { items: before.map(toStockLine) },
+      after: { items: cart.items.map(({ product, ...line }) => line) },
+    });
+  });
+
+  return cart;
+}
+
+/**
+ * Merge an anonymous cart into a customer's cart (at login/registration)
+ *
+ * Educational: A line in both carts keeps the larger quantity rather than
+ * the sum. Merging is then safe to repeat - signing in twice with the same
+ * anonymous cart doesn't double anything.
+ */
+export async function mergeIntoCustomerCart(customerId: string, lines: StockLine[]): Promise<void> {
+  if (lines.length === 0) return;
+
+  const { items } = await hydrateCart(lines);
+  if (items.length === 0) return;
+
+  await prisma.$transaction(async (tx) => {
+    const dbCart = await tx.cart.upsert({
+      where: { customerId },
+      create: { customerId },
+      update: { updatedAt: new Date() },
+    });
+    const before = await tx.cartLine.findMany({
+      where: { cartId: dbCart.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const line of items) {
+      const key = {
+        cartId: dbCart.id,
+        productId: line.productId,
+        variantId: line.variantId ?? '',
+      };
+      const existing = await tx.cartLine.findUnique({
+        where: { cartId_productId_variantId: key },
+      });
+
+      if (existing) {
+        await tx.cartLine.update({
+          where: { id: existing.id },
+          data: { quantity: Math.max(existing.quantity, line.quantity) },
+        });
+      } else {
+        await tx.cartLine.create({ data: { ...key, quantity: line.quantity } });
+      }
+    }
+
+    const after = await tx.cartLine.findMany({
+      where: { cartId: dbCart.id },
+      orderBy: { createdAt: 'asc' },
+    });
+    await recordAuditEvent(tx, {
+      action: 'cart.merge',
+      entityType: 'cart',
+      entityId: dbCart.id,
+      before: { items: before.map(toStockLine) },
+      after: { items: after.map(toStockLine) },
+    });
+  });
+}
+
+/**
+ * Revalidate a Cart (POST /api/cart/validate)
+ *
+ * Compares each line with the product as it is now and reports what
+ * changed since the shopper added it.
+ *
+ * Educational Flow:
+ * 1. Hydrate the lines - deleted or unpublished products are unavailable
+ * 2. Out of stock (counting other checkouts' reservations, but not the
+ *    one in `reservationToken`) - unavailable
+ * 3. Fewer units available than asked for - the quantity is reduced
+ * 4. A different unit price than the one sent - the price changed
+ *
+ * The returned `items` already contain every correction, so accepting the
+ * changes is just replacing the cart with them. Nothing is stored.
+ */
+export async function validateCart(input: unknown): Promise<CartValidation> {
+  const { cart, errors } = validateCartCheckInput(input);
+  if (!cart) {
+    throw new ServiceError('Cart validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const { items: hydrated, removed } = await hydrateCart(cart.items);
+
+  // Units this checkout already holds are available to it
+  const held = new Map<string, number>();
+  if (cart.reservationToken) {
+    const rows = await prisma.inventoryReservation.findMany({
+      where: { token: cart.reservationToken, status: 'active' },
+    });
+    rows.forEach(row => {
+      const key = `${row.productId}|${row.variantId ?? ''}`;
+      held.set(key, (held.get(key) ?? 0) + row.quantity);
+    });
+  }
+
+  const changes: CartChange[] = removed.map(line => ({
+    type: 'unavailable',
+    productId: line.productId,
+    ...(line.variantId && { variantId: line.variantId }),
+    name: line.productId,
+    message: 'No longer available',
+    requestedQuantity: line.quantity,
+    availableQuantity: 0,
+  }));
+  const items: HydratedCartLine[] = [];
+
+  for (const line of hydrated as Array<HydratedCartLine & CartCheckLine>) {
+    const { product, productId, variantId } = line;
+    const variant = variantId
+      ? product.variants?.find(candidate => candidate.id === variantId)
+      : undefined;
+    const name = variant
+      ? `${product.name} (${Object.values(variant.options).join(' / ')})`
+      : product.name;
+    const ids = { productId, ...(variantId && { variantId }) };
+
+    // A variant has its own stock and price
+    const inventory = variant?.inventory ?? product.inventory;
+    const available = inventory.inStock
+      ? Math.max(inventory.quantity - inventory.reservedQuantity, 0) +
+        (held.get(`${productId}|${variantId ?? ''}`) ?? 0)
+      : 0;
+
+    if (available === 0) {
+      changes.push({
+        type: 'unavailable',
+        ...ids,
+        name,
+        message: 'Out of stock',
+        requestedQuantity: line.quantity,
+        availableQuantity: 0,
+      });
+      continue;
+    }
+
+    let quantity = line.quantity;
+    if (available < quantity) {
+      changes.push({
+        type: 'quantity-reduced',
+        ...ids,
+        name,
+        message: `Only ${available} available - quantity reduced from ${quantity}`,
+        requestedQuantity: quantity,
+        availableQuantity: available,
+      });
+      quantity = available;
+    }
+
+    const currentPrice = variant?.price ?? product.price;
+    if (line.price !== undefined && line.price !== currentPrice) {
+      changes.push({
+        type: 'price-changed',
+        ...ids,
+        name,
+        message: `Price changed from ${formatPrice(line.price, product.currency)} to ${formatPrice(currentPrice, product.currency)}`,
+        previousPrice: line.price,
+        currentPrice,
+        currency: product.currency,
+      });
+    }
+
+    items.push({ ...ids, quantity, product });
+  }
+
+  return { valid: changes.length === 0, items, changes };
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Store references, not copies:
+ *    - The old cart saved whole Product objects in localStorage, so a
+ *      price change never reached a cart filled last week
+ *    - Storing { productId, variantId, quantity } and loading the product
+ *      each time means the cart always shows what checkout will charge
+ *
+ * 2. One cart per customer:
+ *    - The cart is keyed by customer, not by browser, so the phone and the
+ *      laptop see the same cart
+ *
+ * 3. Saving the whole cart:
+ *    - Replacing every line on each change is simpler than separate
+ *      add/remove/update endpoints, and a cart is small
+ *
+ * 4. Revalidation:
+ *    - A cart open in a tab for an hour can be out of date even though it
+ *      was fresh when loaded
+ *    - The browser sends the prices it displays; any difference is shown
+ *      to the shopper, who accepts the corrected cart before paying
+ */
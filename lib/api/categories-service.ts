@@ -0,0 +1,397 @@
+import { randomUUID } from 'crypto';
+import { Category, CategoryTreeNode } from '../types/product';
+import { prisma } from '../db';
+import { validateCategoryInput } from './validation-service';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { recordAuditEvent } from './audit-service';
+import { buildVisibleWhere } from './products-service';
+
+/**
+ * Categories Service
+ *
+ * Business logic for the category hierarchy: listing, building the tree,
+ * and create/update/delete with integrity checks.
+ *
+ * Educational Note: Categories form a tree, but the database stores them as
+ * a flat table where each row has a parentId (an "adjacency list").
+ * Catalogs have few categories, so we load them all and walk the tree in
+ * memory instead of writing recursive SQL.
+ */
+
+/**
+ * Helper function to transform database category to Category type
+ * Converts NULL columns to undefined to match the optional fields
+ */
+function transformDbCategory(dbCategory: any): Category {
+  return {
+    id: dbCategory.id,
+    slug: dbCategory.slug,
+    name: dbCategory.name,
+    description: dbCategory.description,
+    image: dbCategory.image ?? undefined,
+    parentId: dbCategory.parentId ?? undefined,
+    productCount: dbCategory.productCount,
+  };
+}
+
+/**
+ * Replace the stored product counts with the number of products shoppers
+ * can see
+ *
+ * Educational: The productCount column counts every product, drafts and
+ * scheduled ones included - deleteCategory needs that. Public reads count
+ * with the same condition the listings filter with, so "Electronics (25)"
+ * leads to 25 products.
+ */
+async function withVisibleCounts(categories: Category[]): Promise<Category[]> {
+  const groups = await prisma.product.groupBy({
+    by: ['category'],
+    where: buildVisibleWhere(),
+    _count: { _all: true },
+  });
+  const counts = new Map(groups.map(group => [group.category, group._count._all]));
+
+  return categories.map(category => ({ ...category, productCount: counts.get(category.slug) ?? 0 }));
+}
+
+/**
+ * Get All Categories
+ *
+ * Product counts only include published products.
+ *
+ * Educational: This is SELECT * FROM categories ORDER BY name
+ */
+export async function getCategories(): Promise<Category[]> {
+  const dbCategories = await prisma.category.findMany({
+    orderBy: { name: 'asc' },
+  });
+
+  return withVisibleCounts(dbCategories.map(transformDbCategory));
+}
+
+/**
+ * Get Single Category by ID
+ */
+export async function getCategory(id: string): Promise<Category | null> {
+  const dbCategory = await prisma.category.findUnique({ where: { id } });
+  return dbCategory ? transformDbCategory(dbCategory) : null;
+}
+
+/**
+ * Get Single Category by Slug
+ *
+ * Used by category pages with SEO-friendly URLs (with the published
+ * product count, like getCategories)
+ */
+export async function getCategoryBySlugService(slug: string): Promise<Category | null> {
+  const dbCategory = await prisma.category.findUnique({ where: { slug } });
+  return dbCategory ? (await withVisibleCounts([transformDbCategory(dbCategory)]))[0] : null;
+}
+
+/**
+ * Build Category Tree
+ *
+ * Nests every category under its parent and rolls product counts up,
+ * so "Fashion" reports its own products plus those of "Shoes", "Bags", ...
+ *
+ * Educational Flow:
+ * 1. Create a node for every category (lookup by id)
+ * 2. Attach each node to its parent's children (or to the roots)
+ * 3. Walk the tree depth-first to set depth and total counts
+ */
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const nodes = new Map<string, CategoryTreeNode>();
+  for (const category of categories) {
+    nodes.set(category.id, {
+      ...category,
+      depth: 0,
+      totalProductCount: category.productCount,
+      children: [],
+    });
+  }
+
+  const roots: CategoryTreeNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      // Categories whose parent is missing are shown at the top level
+      roots.push(node);
+    }
+  }
+
+  // Post-order walk: children's totals are known before the parent's
+  const finalize = (node: CategoryTreeNode, depth: number): number => {
+    node.depth = depth;
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.totalProductCount =
+      node.productCount +
+      node.children.reduce((sum, child) => sum + finalize(child, depth + 1), 0);
+    return node.totalProductCount;
+  };
+
+  roots.sort((a, b) => a.name.localeCompare(b.name));
+  roots.forEach(root => finalize(root, 0));
+
+  return roots;
+}
+
+export async function getCategoryTree(): Promise<CategoryTreeNode[]> {
+  return buildCategoryTree(await getCategories());
+}
+
+/**
+ * Get Category Slug with All Descendants
+ *
+ * Returns the slug itself followed by the slugs of every subcategory below
+ * it (children, grandchildren, ...). Used to filter products by a parent
+ * category and include its subcategories.
+ *
+ * Educational: Breadth-first search over the adjacency list.
+ */
+export async function getDescendantSlugs(slug: string): Promise<string[]> {
+  const categories = await prisma.category.findMany({
+    select: { id: true, slug: true, parentId: true },
+  });
+
+  const root = categories.find(c => c.slug === slug);
+  if (!root) {
+    return [slug];
+  }
+
+  const slugs: string[] = [];
+  const visited = new Set<string>();
+  const queue = [root];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (visited.has(current.id)) continue; // Defensive: never loop on bad data
+    visited.add(current.id);
+    slugs.push(current.slug);
+    queue.push(...categories.filter(c => c.parentId === current.id));
+  }
+
+  return slugs;
+}
+
+/**
+ * Check that a parent exists and that re-parenting would not create a cycle
+ *
+ * Educational: A cycle (A → B → A) would make the tree infinite. We walk up
+ * from the proposed parent; if we ever reach the category being moved, the
+ * move is rejected.
+ */
+async function assertValidParent(categoryId: string | undefined, parentId: string) {
+  if (categoryId && parentId === categoryId) {
+    throw new ServiceError('A category cannot be its own parent', 'VALIDATION_ERROR', 400, [
+      { field: 'parentId', message: 'Cannot reference the category itself' },
+    ]);
+  }
+
+  const categories = await prisma.category.findMany({
+    select: { id: true, parentId: true },
+  });
+  const parentOf = new Map(categories.map(c => [c.id, c.parentId]));
+
+  if (!parentOf.has(parentId)) {
+    throw new ServiceError('Category validation failed', 'VALIDATION_ERROR', 400, [
+      { field: 'parentId', message: `Category "${parentId}" does not exist` },
+    ]);
+  }
+
+  if (!categoryId) {
+    return;
+  }
+
+  const seen = new Set<string>();
+  let ancestor: string | null | undefined = parentId;
+  while (ancestor && !seen.has(ancestor)) {
+    if (ancestor === categoryId) {
+      throw new ServiceError(
+        'Moving this category would create a cycle in the hierarchy',
+        'CATEGORY_CYCLE',
+        409,
+        { categoryId, parentId }
+      );
+    }
+    seen.add(ancestor);
+    ancestor = parentOf.get(ancestor);
+  }
+}
+
+async function assertUniqueSlug(slug: string, excludeId?: string) {
+  const existing = await prisma.category.findFirst({
+    where: { slug, ...(excludeId ? { NOT: { id: excludeId } } : {}) },
+  });
+
+  if (existing) {
+    throw new ServiceError(
+      `A category with slug "${slug}" already exists`,
+      'CONFLICT',
+      409,
+      { field: 'slug', conflictingId: existing.id }
+    );
+  }
+}
+
+/**
+ * Create Category
+ *
+ * New categories start with a productCount of 0; the count is maintained
+ * by the product write functions.
+ */
+export async function createCategory(input: unknown): Promise<Category> {
+  const { category, errors } = validateCategoryInput(input);
+  if (!category) {
+    throw new ServiceError('Category validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  await assertUniqueSlug(category.slug);
+  if (category.parentId) {
+    await assertValidParent(undefined, category.parentId);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = transformDbCategory(
+        await tx.category.create({
+          data: {
+            id: category.id ?? `cat_${randomUUID()}`,
+            slug: category.slug,
+            name: category.name,
+            description: category.description,
+            image: category.image ?? null,
+            parentId: category.parentId ?? null,
+            productCount: 0,
+          },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'category.create',
+        entityType: 'category',
+        entityId: created.id,
+        after: created,
+      });
+      return created;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ServiceError('A category with this id or slug already exists', 'CONFLICT', 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update Category (PATCH)
+ *
+ * Merges the given fields into the current category. Changing parentId
+ * re-parents the category (and its whole subtree); set it to null to make
+ * the category top-level.
+ *
+ * Educational: Changing a slug is safe - products reference categories by
+ * slug with ON UPDATE CASCADE, so the database rewrites them for us.
+ */
+export async function updateCategory(id: string, patch: unknown): Promise<Category> {
+  const current = await getCategory(id);
+  if (!current) {
+    throw new ServiceError(`Category with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    throw new ServiceError('Category validation failed', 'VALIDATION_ERROR', 400, [
+      { field: '', message: 'Request body must be a JSON object' },
+    ]);
+  }
+
+  const { id: _id, productCount, ...currentFields } = current;
+  const { category, errors } = validateCategoryInput({ ...currentFields, ...patch });
+  if (!category) {
+    throw new ServiceError('Category validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  await assertUniqueSlug(category.slug, id);
+  if (category.parentId) {
+    await assertValidParent(id, category.parentId);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const updated = transformDbCategory(
+        await tx.category.update({
+          where: { id },
+          data: {
+            slug: category.slug,
+            name: category.name,
+            description: category.description,
+            image: category.image ?? null,
+            parentId: category.parentId ?? null,
+          },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'category.update',
+        entityType: 'category',
+        entityId: id,
+        before: current,
+        after: updated,
+      });
+      return updated;
+    });
+  } catch (error) {
+    // A concurrent write may have taken the slug since assertUniqueSlug
+    if (isUniqueConstraintError(error)) {
+      throw new ServiceError('A category with this slug already exists', 'CONFLICT', 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete Category
+ *
+ * Only empty leaf categories can be deleted. Products would be left without
+ * a category, and subcategories without a parent, so both cases are
+ * rejected with 409 Conflict - move them first.
+ */
+export async function deleteCategory(id: string): Promise<Category> {
+  const existing = await prisma.category.findUnique({ where: { id } });
+  if (!existing) {
+    throw new ServiceError(`Category with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  const [productCount, childCount] = await Promise.all([
+    prisma.product.count({ where: { category: existing.slug } }),
+    prisma.category.count({ where: { parentId: id } }),
+  ]);
+
+  if (productCount > 0) {
+    throw new ServiceError(
+      `Category "${existing.slug}" still has ${productCount} products`,
+      'CATEGORY_NOT_EMPTY',
+      409,
+      { productCount }
+    );
+  }
+  if (childCount > 0) {
+    throw new ServiceError(
+      `Category "${existing.slug}" still has ${childCount} subcategories`,
+      'CATEGORY_HAS_CHILDREN',
+      409,
+      { childCount }
+    );
+  }
+
+  const deleted = transformDbCategory(existing);
+  await prisma.$transaction(async (tx) => {
+    await tx.category.delete({ where: { id } });
+    await recordAuditEvent(tx, {
+      action: 'category.delete',
+      entityType: 'category',
+      entityId: id,
+      before: deleted,
+    });
+  });
+  return deleted;
+}
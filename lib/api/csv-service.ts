@@ -0,0 +1,78 @@
+/**
+ * CSV Service
+ *
+ * Reads and writes CSV text as used by spreadsheets (RFC 4180).
+ *
+ * Educational Concepts:
+ * - A field containing a comma, quote or line break is wrapped in quotes,
+ *   and a quote inside it is written twice: "12"" ruler, metal"
+ * - So a row can span several lines - splitting the text on newlines first
+ *   would cut such fields in half. The parser reads character by character
+ *   and only ends a row on a line break outside quotes.
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Handles quoted fields, escaped quotes, CRLF line endings and a leading
+ * byte order mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Format one row of CSV, quoting only the fields that need it
+ *
+ * Lines end with CRLF, as RFC 4180 specifies.
+ */
+export function formatCsvRow(fields: string[]): string {
+  return (
+    fields
+      .map(field => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field))
+      .join(',') + '\r\n'
+  );
+}
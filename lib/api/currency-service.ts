@@ -0,0 +1,110 @@
+import { Product } from '../types/product';
+import { BASE_CURRENCY, exchangeRates, currencyLocales } from '../data/exchange-rates';
+
+/**
+ * Currency Service
+ *
+ * Converts prices between currencies and decides which currency a shopper
+ * sees (?currency=EUR, remembered in a cookie).
+ *
+ * Like the pricing and tax services it has no database access, so pages,
+ * the cart and order creation all convert with the very same code.
+ *
+ * Educational Concepts:
+ * - Amounts stay integers: cents in, cents out, rounded once per price
+ * - Convert unit prices, then multiply - line totals always match the
+ *   unit price the shopper saw
+ * - Conversion goes through the base currency, so one table of rates
+ *   covers every pair
+ */
+
+// Cookie that remembers the shopper's currency
+export const CURRENCY_COOKIE = 'currency';
+
+export const SUPPORTED_CURRENCIES = Object.keys(exchangeRates);
+
+/**
+ * Is this a currency we can show prices in?
+ */
+export function isSupportedCurrency(currency: unknown): currency is string {
+  return typeof currency === 'string' && SUPPORTED_CURRENCIES.includes(currency);
+}
+
+/**
+ * First supported currency among the candidates (e.g. query param, then
+ * cookie), or the base currency
+ */
+export function resolveCurrency(...candidates: (string | null | undefined)[]): string {
+  for (const candidate of candidates) {
+    const currency = candidate?.trim().toUpperCase();
+    if (isSupportedCurrency(currency)) return currency;
+  }
+  return BASE_CURRENCY;
+}
+
+/**
+ * Convert an amount in cents from one currency to another
+ *
+ * Educational: Math.round on the final cents ("round half up" for
+ * positive amounts) - the only rounding step in a conversion.
+ */
+export function convertPrice(amount: number, from: string, to: string): number {
+  if (from === to) return amount;
+
+  const fromRate = exchangeRates[from];
+  const toRate = exchangeRates[to];
+  if (!fromRate || !toRate) {
+    throw new Error(`Cannot convert from ${from} to ${to}`);
+  }
+
+  return Math.round((amount / fromRate) * toRate);
+}
+
+/**
+ * Locale for formatting a currency (falls back to en-US)
+ */
+export function getCurrencyLocale(currency: string): string {
+  return currencyLocales[currency] ?? 'en-US';
+}
+
+/**
+ * A product with every price converted for display
+ */
+export function convertProduct(product: Product, currency: string): Product {
+  if (product.currency === currency) return product;
+
+  const convert = (amount: number) => convertPrice(amount, product.currency, currency);
+
+  return {
+    ...product,
+    currency,
+    price: convert(product.price),
+    originalPrice: product.originalPrice !== undefined ? convert(product.originalPrice) : undefined,
+    priceRange: product.priceRange && {
+      min: convert(product.priceRange.min),
+      max: convert(product.priceRange.max),
+    },
+    variants: product.variants?.map(variant => ({
+      ...variant,
+      price: convert(variant.price),
+      originalPrice: variant.originalPrice !== undefined ? convert(variant.originalPrice) : undefined,
+    })),
+  };
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Display vs. storage:
+ *    - The catalog, promotions and shipping rates are all in USD
+ *    - Conversion happens at the edges: when a page renders, when the cart
+ *      totals up and when an order is placed
+ *
+ * 2. Mixed-currency carts:
+ *    - Every line is converted into the shopper's currency before it is
+ *      added up, so a cart never sums cents of different currencies
+ *
+ * 3. Orders:
+ *    - An order is charged in one currency and stores converted prices,
+ *      so later rate changes never alter a placed order
+ */
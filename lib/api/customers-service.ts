@@ -0,0 +1,247 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Customer } from '../types/customer';
+import { prisma } from '../db';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { validateLoginInput, validateRegistrationInput } from './validation-service';
+import { mergeIntoCustomerCart } from './cart-service';
+import { getAuditContext, recordAuditEvent, runWithAuditContext } from './audit-service';
+
+/**
+ * Customers Service
+ *
+ * Customer accounts and their sessions.
+ *
+ * Educational Flow (signing in):
+ * 1. Find the customer by email and check the password against its hash
+ * 2. Create a session: a random token for the browser's cookie, and its
+ *    hash in the database
+ * 3. Merge the cart the shopper filled while signed out into their
+ *    account's cart
+ * 4. Every later request finds the customer from the cookie's token
+ *
+ * Educational Concepts:
+ * - Password hashing: scrypt is deliberately slow and memory-hungry, so
+ *   guessing passwords from a stolen database takes years, not minutes
+ * - Session tokens are random and unguessable, so a fast hash is enough
+ *   for them (like API keys)
+ */
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_TTL_DAYS = 30;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+/**
+ * Hash a password: "scrypt$<salt>$<hash>" (both base64url)
+ *
+ * Educational: Every password gets its own random salt, so two customers
+ * with the same password have different hashes - and precomputed tables
+ * of common passwords are useless.
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked for unknown emails, so they take as long as a wrong password
+const DUMMY_PASSWORD_HASH = `scrypt$${'A'.repeat(22)}$${'A'.repeat(86)}`;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function transformDbCustomer(dbCustomer: any): Customer {
+  return {
+    id: dbCustomer.id,
+    email: dbCustomer.email,
+    name: dbCustomer.name,
+    createdAt: dbCustomer.createdAt,
+  };
+}
+
+/**
+ * Run the rest of a registration or login as the customer
+ *
+ * The request started out anonymous; once the password is checked, the
+ * session and the cart merge are the customer's own doing.
+ */
+function actAsCustomer<T>(customer: Customer, fn: () => Promise<T>): Promise<T> {
+  return runWithAuditContext(
+    { ...getAuditContext(), actor: { type: 'customer', id: customer.id, name: customer.email } },
+    fn
+  );
+}
+
+/**
+ * Start a session for a customer
+ *
+ * Returns the token for the cookie; only its hash is stored.
+ */
+async function createSession(customerId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.$transaction(async (tx) => {
+    const session = await tx.session.create({
+      data: { tokenHash: hashToken(token), customerId, expiresAt },
+    });
+    await recordAuditEvent(tx, {
+      action: 'session.create',
+      entityType: 'session',
+      entityId: session.id,
+      after: { customerId, expiresAt },
+    });
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Register (POST /api/auth/register)
+ *
+ * Creates the account, signs it in and saves the anonymous cart to it.
+ * Throws 400 VALIDATION_ERROR or 409 CONFLICT (email already registered).
+ */
+export async function registerCustomer(
+  input: unknown
+): Promise<{ customer: Customer; token: string; expiresAt: Date }> {
+  const { registration, errors } = validateRegistrationInput(input);
+  if (!registration) {
+    throw new ServiceError('Registration validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const passwordHash = await hashPassword(registration.password);
+  let customer: Customer;
+  try {
+    customer = await prisma.$transaction(async (tx) => {
+      const created = transformDbCustomer(
+        await tx.customer.create({
+          data: { email: registration.email, name: registration.name, passwordHash },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'customer.register',
+        entityType: 'customer',
+        entityId: created.id,
+        after: created,
+      });
+      return created;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ServiceError('An account with this email already exists', 'CONFLICT', 409, {
+        field: 'email',
+      });
+    }
+    throw error;
+  }
+
+  return actAsCustomer(customer, async () => {
+    await mergeIntoCustomerCart(customer.id, registration.items);
+    return { customer, ...(await createSession(customer.id)) };
+  });
+}
+
+/**
+ * Log In (POST /api/auth/login)
+ *
+ * Throws 401 INVALID_CREDENTIALS - the same for an unknown email and a
+ * wrong password, so the response doesn't reveal who has an account.
+ */
+export async function loginCustomer(
+  input: unknown
+): Promise<{ customer: Customer; token: string; expiresAt: Date }> {
+  const { login, errors } = validateLoginInput(input);
+  if (!login) {
+    throw new ServiceError('Login validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const dbCustomer = await prisma.customer.findUnique({ where: { email: login.email } });
+  const valid = await verifyPassword(
+    login.password,
+    dbCustomer?.passwordHash ?? DUMMY_PASSWORD_HASH
+  );
+  if (!dbCustomer || !valid) {
+    throw new ServiceError('Email or password is incorrect', 'INVALID_CREDENTIALS', 401);
+  }
+
+  const customer = transformDbCustomer(dbCustomer);
+  return actAsCustomer(customer, async () => {
+    await mergeIntoCustomerCart(customer.id, login.items);
+    return { customer, ...(await createSession(customer.id)) };
+  });
+}
+
+/**
+ * The customer a session token belongs to
+ *
+ * Null for missing, unknown and expired tokens.
+ */
+export async function getSessionCustomer(token: string | undefined): Promise<Customer | null> {
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { customer: true },
+  });
+  if (!session || session.expiresAt <= new Date()) return null;
+
+  return transformDbCustomer(session.customer);
+}
+
+/**
+ * Log Out (POST /api/auth/logout)
+ *
+ * Deletes the session, so the token stops working even if it was copied.
+ */
+export async function endSession(token: string | undefined): Promise<void> {
+  if (!token) return;
+
+  const session = await prisma.session.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!session) return;
+
+  await prisma.$transaction(async (tx) => {
+    // deleteMany: a concurrent logout may have removed it already
+    await tx.session.deleteMany({ where: { id: session.id } });
+    await recordAuditEvent(tx, {
+      action: 'session.delete',
+      entityType: 'session',
+      entityId: session.id,
+      before: { customerId: session.customerId, expiresAt: session.expiresAt },
+    });
+  });
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Sessions in the database (vs. signed cookies):
+ *    - Logging out really ends the session - the row is gone
+ *    - The cost is one indexed lookup per request
+ *
+ * 2. The cookie:
+ *    - httpOnly: page scripts can't read it, so an XSS bug can't steal it
+ *    - sameSite=lax: other sites can't make the browser send it with
+ *      their form posts
+ *
+ * 3. Merging carts at login:
+ *    - A shopper who filled a cart before signing in expects to keep it
+ *    - See cart-service for how lines in both carts are combined
+ */
@@ -0,0 +1,38 @@
+/**
+ * Service Errors
+ *
+ * Services throw a ServiceError when a request cannot be fulfilled for a
+ * reason the client can fix (bad input, missing record, duplicate value).
+ * API routes turn it into the standard ApiErrorResponse shape using the
+ * status and code carried on the error.
+ *
+ * Educational Note: Keeping HTTP details (status codes) next to the error
+ * means services stay independent of Next.js, while routes stay thin.
+ */
+export class ServiceError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly details?: any;
+
+  constructor(message: string, code: string, status: number, details?: any) {
+    super(message);
+    this.name = 'ServiceError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Check for Prisma's unique constraint violation (error code P2002)
+ *
+ * Educational: Even after checking for duplicates up front, two requests
+ * can race each other - the database constraint is the final safety net.
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: string }).code === 'P2002'
+  );
+}
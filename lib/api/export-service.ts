@@ -0,0 +1,327 @@
+import { FilterParams, Product, ProductVariant } from '../types/product';
+import { ExportOptions, MerchantItem } from '../types/export';
+import { formatCsvRow } from './csv-service';
+import { LIST_SEPARATOR } from './import-service';
+import { getProducts, getProductAttributeKeys } from './products-service';
+import { getInventoryStatus } from './product-display';
+
+/**
+ * Export Service
+ *
+ * Streams the catalog (or the part matching some filters) as CSV, JSON
+ * lines or a Google Merchant Center feed. Used by GET /api/export.
+ *
+ * Educational Flow:
+ * 1. Read the matching products a page at a time with the listing's own
+ *    cursor pagination - the whole catalog is never in memory at once
+ * 2. Turn each product into a line (or an XML item)
+ * 3. Hand each chunk to the response as soon as it's ready, so the download
+ *    starts immediately and memory stays flat however big the catalog is
+ */
+
+const PAGE_SIZE = 100;                  // The listing's maximum page size
+
+// Absolute URLs are required in feeds - set SITE_URL in production
+const SITE_URL = process.env.SITE_URL || 'http://localhost:3000';
+
+/**
+ * CSV columns, in order - named like the importer's columns, so an
+ * exported file can be edited and imported back. Attributes follow as
+ * attributes.<name>.
+ */
+const CSV_COLUMNS = [
+  'id', 'sku', 'slug', 'name', 'description', 'longDescription',
+  'price', 'originalPrice', 'currency', 'category', 'subcategory', 'tags',
+  'status', 'publishedAt', 'featured', 'isNew',
+  'inStock', 'quantity', 'lowStockThreshold', 'reservedQuantity',
+  'images', 'ratingAverage', 'ratingCount', 'createdAt', 'updatedAt',
+  'options', 'variants',
+];
+
+/**
+ * Merchant Center attributes, in feed order
+ *
+ * https://support.google.com/merchants/answer/7052112
+ */
+const MERCHANT_FIELDS = [
+  'id', 'item_group_id', 'title', 'description', 'link', 'image_link',
+  'additional_image_link', 'availability', 'price', 'sale_price',
+  'condition', 'brand', 'identifier_exists', 'product_type',
+  'color', 'size', 'material', 'pattern',
+];
+
+// Variant options with a Merchant Center attribute of the same name
+const MERCHANT_OPTION_FIELDS = ['color', 'size', 'material', 'pattern'];
+
+const MERCHANT_DESCRIPTION_LIMIT = 5000;
+
+/**
+ * All products matching the filters, one page at a time
+ *
+ * Educational: An async generator - the caller pulls products with
+ * `for await`, and the next page is only fetched once the previous one has
+ * been consumed (and written to the response).
+ */
+async function* streamProducts(
+  filters: FilterParams,
+  includeUnpublished: boolean
+): AsyncGenerator<Product> {
+  let cursor: string | undefined;
+
+  do {
+    const page = await getProducts(
+      { ...filters, page: undefined, limit: PAGE_SIZE, cursor },
+      { includeUnpublished }
+    );
+    for (const product of page.data) yield product;
+
+    cursor = page.pagination.hasNext ? page.pagination.nextCursor ?? undefined : undefined;
+  } while (cursor);
+}
+
+/**
+ * Flatten a product into one CSV row
+ *
+ * Nested values become columns: inventory.quantity → quantity, each
+ * attribute → attributes.<name>, images → their URLs joined with "|".
+ * Options and variants stay JSON - they don't fit in flat columns.
+ */
+function toCsvFields(product: Product, attributeKeys: string[]): string[] {
+  const values: Record<string, unknown> = {
+    ...product,
+    ...product.inventory,
+    tags: product.tags.join(LIST_SEPARATOR),
+    images: product.images.map(image => image.url).join(LIST_SEPARATOR),
+    ratingAverage: product.rating?.average,
+    ratingCount: product.rating?.count,
+    publishedAt: product.publishedAt ? new Date(product.publishedAt).toISOString() : undefined,
+    createdAt: new Date(product.createdAt).toISOString(),
+    updatedAt: new Date(product.updatedAt).toISOString(),
+    options: product.options?.length ? JSON.stringify(product.options) : undefined,
+    variants: product.variants?.length ? JSON.stringify(product.variants) : undefined,
+  };
+
+  return [
+    ...CSV_COLUMNS.map(column => values[column]),
+    ...attributeKeys.map(key => product.attributes[key]),
+  ].map(value => (value === undefined || value === null ? '' : String(value)));
+}
+
+async function* exportCsv(
+  filters: FilterParams,
+  includeUnpublished: boolean
+): AsyncGenerator<string> {
+  const attributeKeys = await getProductAttributeKeys(filters, { includeUnpublished });
+  yield formatCsvRow([...CSV_COLUMNS, ...attributeKeys.map(key => `attributes.${key}`)]);
+
+  for await (const product of streamProducts(filters, includeUnpublished)) {
+    yield formatCsvRow(toCsvFields(product, attributeKeys));
+  }
+}
+
+async function* exportJsonLines(
+  filters: FilterParams,
+  includeUnpublished: boolean
+): AsyncGenerator<string> {
+  for await (const product of streamProducts(filters, includeUnpublished)) {
+    yield JSON.stringify(product) + '\n';
+  }
+}
+
+function toAbsoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${SITE_URL}${path}`;
+}
+
+// Merchant Center prices: "29.99 USD"
+function formatMerchantPrice(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency}`;
+}
+
+/**
+ * Price attributes from a price and its original price
+ *
+ * Educational: In the feed, `price` is the regular price and `sale_price`
+ * what the shopper pays - so a product marked down from originalPrice
+ * reports originalPrice as `price`.
+ */
+function toMerchantPrices(
+  price: number,
+  originalPrice: number | undefined,
+  currency: string
+): MerchantItem {
+  if (originalPrice !== undefined && originalPrice > price) {
+    return {
+      price: formatMerchantPrice(originalPrice, currency),
+      sale_price: formatMerchantPrice(price, currency),
+    };
+  }
+  return { price: formatMerchantPrice(price, currency) };
+}
+
+/**
+ * Feed items for a product - one per variant for products with variants
+ *
+ * Variants of a product share an item_group_id (the product SKU), which is
+ * how Merchant Center shows them as one product in several sizes/colors.
+ */
+function toMerchantItems(product: Product): MerchantItem[] {
+  const base: MerchantItem = {
+    title: product.name,
+    description: (product.longDescription || product.description).slice(
+      0,
+      MERCHANT_DESCRIPTION_LIMIT
+    ),
+    link: toAbsoluteUrl(`/products/${product.slug}`),
+    condition: 'new',
+    // We have no GTINs or manufacturer part numbers to send
+    identifier_exists: 'no',
+    product_type: [product.category, product.subcategory].filter(Boolean).join(' > '),
+  };
+  if (product.attributes.brand !== undefined) {
+    base.brand = String(product.attributes.brand);
+  }
+
+  const withImages = (item: MerchantItem, images: Product['images']): MerchantItem => {
+    const [primary, ...others] = [...images].sort(
+      (a, b) => Number(b.isPrimary) - Number(a.isPrimary)
+    );
+    if (primary) item.image_link = toAbsoluteUrl(primary.url);
+    if (others.length > 0) item.additional_image_link = others.map(image => toAbsoluteUrl(image.url));
+    return item;
+  };
+
+  if (!product.variants || product.variants.length === 0) {
+    return [
+      withImages(
+        {
+          id: product.sku,
+          ...base,
+          availability: getInventoryStatus(product).canOrder ? 'in_stock' : 'out_of_stock',
+          ...toMerchantPrices(product.price, product.originalPrice, product.currency),
+        },
+        product.images
+      ),
+    ];
+  }
+
+  return product.variants.map((variant: ProductVariant) => {
+    const item: MerchantItem = {
+      id: variant.sku,
+      item_group_id: product.sku,
+      ...base,
+      title: `${product.name} - ${Object.values(variant.options).join(' / ')}`,
+      availability: getInventoryStatus({ ...product, inventory: variant.inventory }).canOrder
+        ? 'in_stock'
+        : 'out_of_stock',
+      ...toMerchantPrices(variant.price, variant.originalPrice, product.currency),
+    };
+    Object.entries(variant.options).forEach(([name, value]) => {
+      if (MERCHANT_OPTION_FIELDS.includes(name.toLowerCase())) item[name.toLowerCase()] = value;
+    });
+    return withImages(item, variant.images.length > 0 ? variant.images : product.images);
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toXmlItem(item: MerchantItem): string {
+  const elements = MERCHANT_FIELDS.flatMap(field => {
+    const value = item[field];
+    if (value === undefined || value === '') return [];
+    return (Array.isArray(value) ? value : [value]).map(
+      entry => `      <g:${field}>${escapeXml(entry)}</g:${field}>`
+    );
+  });
+  return `    <item>\n${elements.join('\n')}\n    </item>\n`;
+}
+
+// Tabs and line breaks would end the cell or the row - TSV feeds have no quoting
+function toTsvRow(values: string[]): string {
+  return values.map(value => value.replace(/[\t\r\n]+/g, ' ')).join('\t') + '\n';
+}
+
+async function* exportMerchantFeed(
+  filters: FilterParams,
+  feed: 'xml' | 'tsv'
+): AsyncGenerator<string> {
+  if (feed === 'tsv') {
+    yield toTsvRow(MERCHANT_FIELDS);
+  } else {
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">\n' +
+      '  <channel>\n' +
+      '    <title>Product Catalog</title>\n' +
+      `    <link>${escapeXml(SITE_URL)}</link>\n` +
+      '    <description>Product feed for Google Merchant Center</description>\n';
+  }
+
+  // A feed advertises what can be bought, so only live products are listed
+  for await (const product of streamProducts(filters, false)) {
+    for (const item of toMerchantItems(product)) {
+      yield feed === 'tsv'
+        ? toTsvRow(
+            MERCHANT_FIELDS.map(field => {
+              const value = item[field] ?? '';
+              return Array.isArray(value) ? value.join(',') : value;
+            })
+          )
+        : toXmlItem(item);
+    }
+  }
+
+  if (feed === 'xml') {
+    yield '  </channel>\n</rss>\n';
+  }
+}
+
+/**
+ * Export Products
+ *
+ * Returns the export as a stream of text chunks, ready to be written to a
+ * response body. The listing's sortBy applies; page, limit and cursor are
+ * ignored - an export always covers every matching product.
+ */
+export function exportProducts(
+  filters: FilterParams,
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const includeUnpublished = !!options.includeUnpublished;
+
+  switch (options.format) {
+    case 'csv':
+      return exportCsv(filters, includeUnpublished);
+    case 'jsonl':
+      return exportJsonLines(filters, includeUnpublished);
+    case 'google-merchant':
+      return exportMerchantFeed(filters, options.feed ?? 'xml');
+  }
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Streaming:
+ *    - Building a 50,000 product CSV in one string needs all of it in
+ *      memory, and the client waits until the last row is ready
+ *    - A stream sends each page as it's read: the first bytes leave after
+ *      one query, and memory holds one page at a time
+ *    - The catch: the status code is sent with the first chunk, so an error
+ *      halfway through can only cut the download short
+ *
+ * 2. Round trips:
+ *    - CSV columns carry the importer's names, and lists use its "|"
+ *      separator - export, edit in a spreadsheet, import again
+ *
+ * 3. Feeds are a contract with someone else:
+ *    - Merchant Center wants absolute URLs, "29.99 USD" prices and
+ *      in_stock / out_of_stock - not our cents and inventory objects
+ *    - Each variant is its own item (own SKU, price and stock), grouped by
+ *      item_group_id
+ */
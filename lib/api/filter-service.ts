@@ -12,6 +12,101 @@ import { Product, FilterParams } from '../types/product';
  * with any database or API.
  */
 
+/**
+ * Parse Filter Parameters from a Query String
+ *
+ * Shared by the product listing and the export, so ?category=...&tags=...
+ * means the same thing everywhere.
+ *
+ * Educational Note: This demonstrates how to parse and validate query
+ * parameters - unparseable values are ignored rather than rejected.
+ */
+export function parseFilterParams(searchParams: URLSearchParams): FilterParams {
+  const filters: FilterParams = {};
+
+  // Category filter
+  const category = searchParams.get('category');
+  if (category) {
+    filters.category = category;
+  }
+
+  // Include products from subcategories of the selected category
+  const includeSubcategories = searchParams.get('includeSubcategories');
+  if (includeSubcategories) {
+    filters.includeSubcategories =
+      includeSubcategories === 'true' || includeSubcategories === '1';
+  }
+
+  // Price range filters
+  // Educational: Convert string to number and validate
+  const minPrice = searchParams.get('minPrice');
+  if (minPrice) {
+    const parsed = parseInt(minPrice, 10);
+    if (!isNaN(parsed)) {
+      filters.minPrice = parsed;
+    }
+  }
+
+  const maxPrice = searchParams.get('maxPrice');
+  if (maxPrice) {
+    const parsed = parseInt(maxPrice, 10);
+    if (!isNaN(parsed)) {
+      filters.maxPrice = parsed;
+    }
+  }
+
+  // Stock filter
+  // Educational: URL params are always strings, so '1', 'true', 'yes' all mean true
+  const inStock = searchParams.get('inStock');
+  if (inStock) {
+    filters.inStock = inStock === 'true' || inStock === '1';
+  }
+
+  // Tags filter
+  // Educational: Arrays in query strings can be comma-separated
+  const tags = searchParams.get('tags');
+  if (tags) {
+    filters.tags = tags.split(',').map(t => t.trim());
+  }
+
+  // Search query
+  const search = searchParams.get('search');
+  if (search) {
+    filters.search = search;
+  }
+
+  // Sort parameter
+  const sortBy = searchParams.get('sortBy');
+  if (sortBy) {
+    filters.sortBy = sortBy as FilterParams['sortBy'];
+  }
+
+  // Pagination parameters
+  const page = searchParams.get('page');
+  if (page) {
+    const parsed = parseInt(page, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      filters.page = parsed;
+    }
+  }
+
+  const limit = searchParams.get('limit');
+  if (limit) {
+    const parsed = parseInt(limit, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      filters.limit = Math.min(parsed, 100); // Cap at 100 items
+    }
+  }
+
+  // Cursor from a previous response (takes precedence over page)
+  const cursor = searchParams.get('cursor');
+  if (cursor) {
+    filters.cursor = cursor;
+  }
+
+  return filters;
+}
+
 /**
  * Filter Products by Multiple Criteria
  *
@@ -0,0 +1,419 @@
+import { Prisma } from '@prisma/client';
+import { FieldError } from '../types/api';
+import { Product, ProductInput } from '../types/product';
+import { ImportFormat, ImportOptions, ImportResult, ImportRowError } from '../types/import';
+import { prisma } from '../db';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { parseCsv } from './csv-service';
+import {
+  getProductsBySku,
+  prepareProductWrite,
+  insertProduct,
+  overwriteProduct,
+  mergeProductPatch,
+} from './products-service';
+import { UNKNOWN_AUTHOR } from './revisions-service';
+import { deliverWebhooksSoon } from './webhooks-service';
+
+/**
+ * Import Service
+ *
+ * Bulk-loads products from CSV or JSON lines. Used by POST /api/import and
+ * by the command line (scripts/import-products.ts).
+ *
+ * Educational Flow:
+ * 1. Parse the file into rows, and rename columns with the mapping
+ *    (e.g. a supplier's "Stock" column → quantity)
+ * 2. Turn each row into a product: text cells become numbers, booleans and
+ *    lists; a row for a known SKU is merged into that product (cells left
+ *    empty keep their current value), a new SKU gets defaults
+ * 3. Validate every row exactly like the products API would - nothing is
+ *    written yet, so a dry run stops here
+ * 4. Write the valid rows in batches, one transaction per batch. If a batch
+ *    fails, its rows are retried one by one so only the bad row is lost
+ *
+ * CSV columns: sku, name, description, price, category, ... (see
+ * IMPORT_COLUMNS), attributes as attributes.<name>, lists separated with
+ * "|", and options/variants as JSON. JSON lines use the Product shape.
+ */
+
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 1000;
+const BATCH_TIMEOUT_MS = 60_000;        // Interactive transactions default to 5 seconds
+export const LIST_SEPARATOR = '|';    // Between tags or image URLs in a CSV cell
+
+const TEXT_COLUMNS = [
+  'id', 'sku', 'slug', 'name', 'description', 'longDescription', 'currency',
+  'category', 'subcategory', 'status', 'publishedAt',
+];
+const INTEGER_COLUMNS = ['price', 'originalPrice'];
+const BOOLEAN_COLUMNS = ['featured', 'isNew'];
+const INVENTORY_COLUMNS = ['quantity', 'lowStockThreshold', 'inStock'];
+const JSON_COLUMNS = ['options', 'variants'];
+
+/**
+ * Columns the importer understands, besides attributes.<name>
+ *
+ * Stock on hold for checkouts (reservedQuantity) is never imported.
+ */
+export const IMPORT_COLUMNS = [
+  ...TEXT_COLUMNS,
+  ...INTEGER_COLUMNS,
+  ...BOOLEAN_COLUMNS,
+  ...INVENTORY_COLUMNS,
+  ...JSON_COLUMNS,
+  'tags',
+  'images',
+];
+
+interface SourceRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+interface PreparedRow {
+  row: number;
+  sku: string;
+  existing?: Product;                   // Known SKU: the product the row updates
+  product: ProductInput;
+}
+
+/**
+ * Parse a column mapping ("Stock=quantity,Price=price")
+ *
+ * Used for the `map` query parameter and the --map CLI flag.
+ */
+export function parseColumnMapping(spec: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const pair of spec.split(',')) {
+    const [source, target] = pair.split('=').map(part => part.trim());
+    if (source && target) mapping[source] = target;
+  }
+  return mapping;
+}
+
+/**
+ * Read the rows of a file
+ *
+ * Lines that can't be read at all (invalid JSON, wrong number of CSV
+ * fields) are reported as row errors.
+ */
+function parseRows(
+  text: string,
+  format: ImportFormat
+): { rows: SourceRow[]; errors: ImportRowError[] } {
+  const rows: SourceRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  if (format === 'jsonl') {
+    text.split('\n').forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        const value = JSON.parse(line);
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          throw new Error('not an object');
+        }
+        rows.push({ row: index + 1, values: value });
+      } catch {
+        errors.push({ row: index + 1, errors: [{ field: '', message: 'Must be a JSON object' }] });
+      }
+    });
+    return { rows, errors };
+  }
+
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new ServiceError('The file is empty', 'INVALID_FILE', 400);
+  }
+  const columns = header.map(column => column.trim());
+
+  records.forEach((fields, index) => {
+    if (fields.length !== columns.length) {
+      errors.push({
+        row: index + 1,
+        errors: [
+          { field: '', message: `Has ${fields.length} fields, the header has ${columns.length}` },
+        ],
+      });
+      return;
+    }
+    rows.push({
+      row: index + 1,
+      values: Object.fromEntries(columns.map((column, i) => [column, fields[i]])),
+    });
+  });
+
+  return { rows, errors };
+}
+
+// "19" → 19; anything else is left for the validator to reject
+function toInteger(value: unknown): unknown {
+  return typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', '1'].includes(normalized)) return true;
+  if (['false', 'no', '0'].includes(normalized)) return false;
+  return value;
+}
+
+function toList(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Turn one row into a (partial) product
+ *
+ * Empty cells are left out, so they don't overwrite existing values.
+ * Unknown columns are collected in `ignored`.
+ */
+function toPatch(
+  values: Record<string, unknown>,
+  mapping: Record<string, string>,
+  ignored: Set<string>
+): { patch: Record<string, any>; errors: FieldError[] } {
+  const patch: Record<string, any> = {};
+  const errors: FieldError[] = [];
+
+  for (const [source, raw] of Object.entries(values)) {
+    const column = mapping[source] ?? source;
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === '' || value === null || value === undefined) continue;
+
+    if (column.startsWith('attributes.')) {
+      patch.attributes = { ...patch.attributes, [column.slice('attributes.'.length)]: value };
+    } else if (column === 'attributes' || column === 'inventory') {
+      patch[column] = { ...patch[column], ...(value as object) };
+    } else if (INVENTORY_COLUMNS.includes(column)) {
+      patch.inventory = {
+        ...patch.inventory,
+        [column]: column === 'inStock' ? toBoolean(value) : toInteger(value),
+      };
+    } else if (INTEGER_COLUMNS.includes(column)) {
+      patch[column] = toInteger(value);
+    } else if (BOOLEAN_COLUMNS.includes(column)) {
+      patch[column] = toBoolean(value);
+    } else if (column === 'tags') {
+      patch.tags = toList(value);
+    } else if (column === 'images') {
+      const images = toList(value);
+      patch.images = Array.isArray(images)
+        ? images.map((image, index) =>
+            typeof image === 'string'
+              ? { url: image, alt: String(values.name ?? ''), isPrimary: index === 0 }
+              : image
+          )
+        : images;
+    } else if (JSON_COLUMNS.includes(column)) {
+      if (typeof value !== 'string') {
+        patch[column] = value;
+        continue;
+      }
+      try {
+        patch[column] = JSON.parse(value);
+      } catch {
+        errors.push({ field: column, message: 'Must be valid JSON' });
+      }
+    } else if (TEXT_COLUMNS.includes(column)) {
+      patch[column] = value;
+    } else {
+      ignored.add(source);
+    }
+  }
+
+  return { patch, errors };
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * The full product to save for a row
+ *
+ * Known SKU: the row is a partial update of the current product.
+ * New SKU: defaults fill everything the row doesn't say (an unpublished
+ * draft with no stock, slug derived from the name).
+ */
+function buildInput(patch: Record<string, any>, existing?: Product): Record<string, any> {
+  // Restocking a product puts it back in stock unless the row says otherwise
+  const inventory = { ...patch.inventory };
+  if (inventory.quantity !== undefined && inventory.inStock === undefined) {
+    inventory.inStock = typeof inventory.quantity === 'number' ? inventory.quantity > 0 : true;
+  }
+
+  if (existing) {
+    return mergeProductPatch(existing, {
+      ...patch,
+      inventory,
+      ...(patch.attributes ? { attributes: { ...existing.attributes, ...patch.attributes } } : {}),
+    });
+  }
+
+  return {
+    slug: typeof patch.name === 'string' ? slugify(patch.name) : undefined,
+    currency: 'USD',
+    tags: [],
+    images: [],
+    featured: false,
+    isNew: false,
+    attributes: {},
+    ...patch,
+    inventory: {
+      inStock: false,
+      quantity: 0,
+      lowStockThreshold: 10,
+      ...inventory,
+    },
+  };
+}
+
+/**
+ * Field errors for a failed row
+ */
+function toFieldErrors(error: unknown): FieldError[] {
+  if (error instanceof ServiceError) {
+    if (Array.isArray(error.details)) return error.details;
+    return [{ field: error.details?.field ?? '', message: error.message }];
+  }
+  if (isUniqueConstraintError(error)) {
+    return [{ field: 'slug', message: 'Slug or SKU is already used by another product' }];
+  }
+  return [{ field: '', message: error instanceof Error ? error.message : 'Unknown error' }];
+}
+
+/**
+ * Write one batch in a transaction
+ *
+ * Educational: If anything in the batch fails, the transaction rolls back
+ * and each row is retried on its own - a single bad row then costs one row,
+ * not the hundred around it.
+ */
+async function writeBatch(
+  batch: PreparedRow[],
+  author: string,
+  result: ImportResult
+): Promise<void> {
+  const write = (tx: Prisma.TransactionClient, item: PreparedRow) =>
+    item.existing
+      ? overwriteProduct(tx, item.existing.id, item.product, author, 'update', item.existing)
+      : insertProduct(tx, item.product, author);
+
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        for (const item of batch) await write(tx, item);
+      },
+      { timeout: BATCH_TIMEOUT_MS }
+    );
+    batch.forEach(item => (item.existing ? result.updated++ : result.created++));
+    return;
+  } catch {
+    // Fall through to row-by-row
+  }
+
+  for (const item of batch) {
+    try {
+      await prisma.$transaction(tx => write(tx, item));
+      item.existing ? result.updated++ : result.created++;
+    } catch (error) {
+      result.failed++;
+      result.errors.push({ row: item.row, sku: item.sku, errors: toFieldErrors(error) });
+    }
+  }
+}
+
+/**
+ * Import Products
+ *
+ * Upserts products by SKU from the text of a CSV or JSON lines file.
+ * Row problems never throw - they are listed in the result. Throws
+ * 400 INVALID_FILE only when the file can't be read at all.
+ */
+export async function importProducts(text: string, options: ImportOptions): Promise<ImportResult> {
+  const mapping = options.mapping ?? {};
+  const batchSize = Math.min(Math.max(options.batchSize ?? DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+  const author = options.author ?? UNKNOWN_AUTHOR;
+
+  const { rows, errors } = parseRows(text, options.format);
+  const result: ImportResult = {
+    dryRun: !!options.dryRun,
+    total: rows.length + errors.length,
+    created: 0,
+    updated: 0,
+    failed: errors.length,
+    errors,
+    ignoredColumns: [],
+  };
+
+  // Turn rows into products
+  const ignored = new Set<string>();
+  const patches = rows.map(row => ({ row: row.row, ...toPatch(row.values, mapping, ignored) }));
+  const skus = patches
+    .map(({ patch }) => patch.sku)
+    .filter((sku): sku is string => typeof sku === 'string');
+  const existingBySku = await getProductsBySku(skus);
+
+  // Validate every row before writing anything
+  const prepared: PreparedRow[] = [];
+  const seenSkus = new Map<string, number>();
+  for (const { row, patch, errors: rowErrors } of patches) {
+    const sku = typeof patch.sku === 'string' ? patch.sku : undefined;
+    if (!sku) {
+      rowErrors.push({ field: 'sku', message: 'Is required to match or create a product' });
+    } else if (seenSkus.has(sku)) {
+      rowErrors.push({ field: 'sku', message: `Duplicate of row ${seenSkus.get(sku)}` });
+    }
+    if (sku && !seenSkus.has(sku)) seenSkus.set(sku, row);
+
+    if (rowErrors.length > 0) {
+      result.failed++;
+      result.errors.push({ row, sku, errors: rowErrors });
+      continue;
+    }
+
+    const existing = existingBySku.get(sku!);
+    try {
+      const product = await prepareProductWrite(buildInput(patch, existing), existing?.id);
+      prepared.push({ row, sku: sku!, existing, product });
+    } catch (error) {
+      result.failed++;
+      result.errors.push({ row, sku, errors: toFieldErrors(error) });
+    }
+  }
+
+  if (result.dryRun) {
+    prepared.forEach(item => (item.existing ? result.updated++ : result.created++));
+  } else {
+    for (let start = 0; start < prepared.length; start += batchSize) {
+      await writeBatch(prepared.slice(start, start + batchSize), author, result);
+    }
+    deliverWebhooksSoon();
+  }
+
+  result.errors.sort((a, b) => a.row - b.row);
+  result.ignoredColumns = Array.from(ignored);
+  return result;
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Upsert by SKU:
+ *    - The SKU is the key the warehouse and suppliers share, so it (not our
+ *      internal id) decides whether a row updates or creates a product
+ *    - Importing the same file twice changes nothing the second time
+ *
+ * 2. Validate first, write second:
+ *    - Every row goes through the same checks as POST /api/products
+ *    - A dry run is the same import without step 4, so what it reports is
+ *      exactly what a real run would do
+ *
+ * 3. Batches:
+ *    - One transaction per row is slow (every commit waits for the disk);
+ *      one transaction for the whole file means one bad row undoes all
+ *    - Batches of ~100 rows are the middle ground
+ */
@@ -0,0 +1,629 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import {
+  Reservation,
+  StockAdjustmentReason,
+  StockLine,
+  StockMovement,
+  StockMovementType,
+  StockShortage,
+} from '../types/inventory';
+import { ShippingAddress } from '../types/order';
+import { prisma } from '../db';
+import { validateReservationInput, validateStockAdjustmentInput } from './validation-service';
+import { ServiceError } from './errors';
+import { enqueueWebhookEvent } from './webhooks-service';
+import { SYSTEM_ACTOR, getAuditContext, recordAuditEvent, runWithAuditContext } from './audit-service';
+import { recordMovement } from './stock-movements-service';
+import { allocateOrder, changeLevel, getDefaultLocationId } from './locations-service';
+import { isPubliclyVisible } from './products-service';
+
+/**
+ * Inventory Service
+ *
+ * Reserves stock while a shopper checks out and turns reservations into
+ * real stock decrements when the order is placed.
+ *
+ * Educational Note: Checking stock and then updating it in two steps has a
+ * race: two shoppers both read "1 left" and both buy it. Every change here
+ * is a single conditional UPDATE instead:
+ *
+ *   UPDATE Product SET reservedQuantity = reservedQuantity + 1
+ *   WHERE id = ? AND quantity - reservedQuantity >= 1
+ *
+ * The database applies it atomically, so only one of the two succeeds -
+ * the other sees 0 rows affected and is told the item is unavailable.
+ *
+ * For products with variants, stock is counted per variant. The conditional
+ * UPDATE runs on the ProductVariant row, and the product's totals (the sum
+ * over its variants) are adjusted alongside it.
+ *
+ * Every change is also written to the inventory ledger (see
+ * stock-movements-service) in the same transaction. Changes to units on
+ * hand are applied to the locations holding them too (locations-service).
+ */
+
+// How long reserved stock is held for a checkout
+export const RESERVATION_TTL_MINUTES = 15;
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Build shortage details for a line that could not be reserved or sold
+ */
+async function getShortage(tx: Tx, line: StockLine): Promise<StockShortage> {
+  const row = line.variantId
+    ? await tx.productVariant.findFirst({
+        where: { id: line.variantId, productId: line.productId },
+      })
+    : await tx.product.findUnique({ where: { id: line.productId } });
+
+  const available = row && row.inStock
+    ? Math.max(row.quantity - row.reservedQuantity, 0)
+    : 0;
+
+  return {
+    productId: line.productId,
+    ...(line.variantId && { variantId: line.variantId }),
+    requested: line.quantity,
+    available,
+  };
+}
+
+/**
+ * Throw INSUFFICIENT_STOCK for a line (rolls back the caller's transaction)
+ */
+async function throwShortage(tx: Tx, line: StockLine): Promise<never> {
+  throw new ServiceError(
+    'Some products are not available in the requested quantity',
+    'INSUFFICIENT_STOCK',
+    409,
+    [await getShortage(tx, line)]
+  );
+}
+
+/**
+ * Reject lines for products with variants that don't name a variant
+ *
+ * Educational: "Add a T-shirt" is not enough - the warehouse needs to know
+ * which size and color to hold.
+ */
+export async function assertVariantsChosen(lines: StockLine[]): Promise<void> {
+  const withoutVariant = lines.filter(line => !line.variantId).map(line => line.productId);
+  if (withoutVariant.length === 0) return;
+
+  const variants = await prisma.productVariant.findMany({
+    where: { productId: { in: withoutVariant } },
+    select: { productId: true },
+  });
+  const needingVariant = Array.from(new Set(variants.map(variant => variant.productId)));
+
+  if (needingVariant.length > 0) {
+    throw new ServiceError(
+      'Choose a variant (e.g. size or color) for every product that has them',
+      'VARIANT_REQUIRED',
+      400,
+      needingVariant.map(productId => ({
+        field: 'items',
+        message: `Product "${productId}" requires a variantId`,
+      }))
+    );
+  }
+}
+
+/**
+ * Hold units of a line for a checkout. Returns false if not enough are available.
+ */
+async function holdStock(tx: Tx, line: StockLine): Promise<boolean> {
+  if (!line.variantId) {
+    const held = await tx.$executeRaw`
+      UPDATE "Product"
+      SET "reservedQuantity" = "reservedQuantity" + ${line.quantity}
+      WHERE "id" = ${line.productId}
+        AND "inStock" = true
+        AND "quantity" - "reservedQuantity" >= ${line.quantity}`;
+    return held > 0;
+  }
+
+  const held = await tx.$executeRaw`
+    UPDATE "ProductVariant"
+    SET "reservedQuantity" = "reservedQuantity" + ${line.quantity}
+    WHERE "id" = ${line.variantId}
+      AND "productId" = ${line.productId}
+      AND "inStock" = true
+      AND "quantity" - "reservedQuantity" >= ${line.quantity}`;
+  if (held === 0) return false;
+
+  await tx.$executeRaw`
+    UPDATE "Product"
+    SET "reservedQuantity" = "reservedQuantity" + ${line.quantity}
+    WHERE "id" = ${line.productId}`;
+  return true;
+}
+
+/**
+ * Give held units of a line back
+ */
+async function unholdStock(tx: Tx, line: StockLine): Promise<void> {
+  if (line.variantId) {
+    await tx.$executeRaw`
+      UPDATE "ProductVariant"
+      SET "reservedQuantity" = MAX("reservedQuantity" - ${line.quantity}, 0)
+      WHERE "id" = ${line.variantId}`;
+  }
+  await tx.$executeRaw`
+    UPDATE "Product"
+    SET "reservedQuantity" = MAX("reservedQuantity" - ${line.quantity}, 0)
+    WHERE "id" = ${line.productId}`;
+}
+
+/**
+ * Permanently remove sold units. Returns false if not enough are available.
+ *
+ * Units held by OTHER shoppers' reservations are not available.
+ * inStock is switched off when the product (or variant) reaches zero.
+ */
+async function sellStock(tx: Tx, line: StockLine): Promise<boolean> {
+  if (!line.variantId) {
+    const sold = await tx.$executeRaw`
+      UPDATE "Product"
+      SET "quantity" = "quantity" - ${line.quantity},
+          "inStock" = CASE WHEN "quantity" - ${line.quantity} <= 0 THEN false ELSE "inStock" END
+      WHERE "id" = ${line.productId}
+        AND "inStock" = true
+        AND "quantity" - "reservedQuantity" >= ${line.quantity}`;
+    return sold > 0;
+  }
+
+  const sold = await tx.$executeRaw`
+    UPDATE "ProductVariant"
+    SET "quantity" = "quantity" - ${line.quantity},
+        "inStock" = CASE WHEN "quantity" - ${line.quantity} <= 0 THEN false ELSE "inStock" END
+    WHERE "id" = ${line.variantId}
+      AND "productId" = ${line.productId}
+      AND "inStock" = true
+      AND "quantity" - "reservedQuantity" >= ${line.quantity}`;
+  if (sold === 0) return false;
+
+  // The product is in stock while any of its variants is
+  await tx.$executeRaw`
+    UPDATE "Product"
+    SET "quantity" = MAX("quantity" - ${line.quantity}, 0),
+        "inStock" = EXISTS (
+          SELECT 1 FROM "ProductVariant"
+          WHERE "productId" = ${line.productId} AND "inStock" = true
+        )
+    WHERE "id" = ${line.productId}`;
+  return true;
+}
+
+/**
+ * Queue inventory.low_stock when a sale takes a product (or variant) to its
+ * lowStockThreshold or below
+ *
+ * Only the sale that crosses the threshold announces it - the sales after
+ * it, already below, don't repeat the event.
+ */
+async function announceLowStock(tx: Tx, line: StockLine): Promise<void> {
+  const product = await tx.product.findUnique({ where: { id: line.productId } });
+  const row = line.variantId
+    ? await tx.productVariant.findUnique({ where: { id: line.variantId } })
+    : product;
+  if (!product || !row) return;
+
+  const quantityBefore = row.quantity + line.quantity;
+  if (row.quantity > row.lowStockThreshold || quantityBefore <= row.lowStockThreshold) return;
+
+  await enqueueWebhookEvent(tx, 'inventory.low_stock', {
+    productId: product.id,
+    ...(line.variantId && { variantId: line.variantId }),
+    sku: row.sku,
+    name: product.name,
+    quantity: row.quantity,
+    reservedQuantity: row.reservedQuantity,
+    lowStockThreshold: row.lowStockThreshold,
+  });
+}
+
+/**
+ * Reserve Stock
+ *
+ * Holds the requested quantities for RESERVATION_TTL_MINUTES. Either every
+ * line is reserved or none is: one unavailable line rolls back the rest.
+ *
+ * Only products shoppers can see can be reserved - drafts, archived and
+ * not-yet-live products are 404 NOT_FOUND, like unknown ids.
+ *
+ * Educational Flow:
+ * 1. Release reservations that have already expired (frees their stock)
+ * 2. For each line, atomically raise reservedQuantity if enough is available
+ * 3. Record a reservation row per line, grouped under a shared token
+ */
+export async function reserveStock(
+  input: unknown,
+  ttlMinutes: number = RESERVATION_TTL_MINUTES
+): Promise<Reservation> {
+  const { items, errors } = validateReservationInput(input);
+  if (!items) {
+    throw new ServiceError('Reservation validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(item => item.productId) } },
+    select: { id: true, status: true, publishedAt: true },
+  });
+  const visibleIds = new Set(products.filter(isPubliclyVisible).map(product => product.id));
+  const missing = items.filter(item => !visibleIds.has(item.productId));
+  if (missing.length > 0) {
+    throw new ServiceError(
+      'Some products do not exist',
+      'NOT_FOUND',
+      404,
+      missing.map(item => ({
+        field: 'items',
+        message: `Product "${item.productId}" not found`,
+      }))
+    );
+  }
+
+  await assertVariantsChosen(items);
+  await releaseExpiredReservations();
+
+  const token = randomUUID();
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  await prisma.$transaction(async (tx) => {
+    for (const item of items) {
+      if (!(await holdStock(tx, item))) {
+        // Throwing inside the transaction rolls back earlier lines too
+        await throwShortage(tx, item);
+      }
+
+      await tx.inventoryReservation.create({
+        data: {
+          token,
+          productId: item.productId,
+          variantId: item.variantId ?? null,
+          quantity: item.quantity,
+          expiresAt,
+        },
+      });
+      await recordMovement(tx, {
+        productId: item.productId,
+        variantId: item.variantId,
+        type: 'reservation',
+        reserved: item.quantity,
+        reference: token,
+      });
+    }
+
+    await recordAuditEvent(tx, {
+      action: 'reservation.create',
+      entityType: 'reservation',
+      entityId: token,
+      after: { items, expiresAt },
+    });
+  });
+
+  return { token, expiresAt, items };
+}
+
+/**
+ * Convert a reservation row into a stock line
+ */
+function toStockLine(row: { productId: string; variantId: string | null; quantity: number }): StockLine {
+  return {
+    productId: row.productId,
+    variantId: row.variantId ?? undefined,
+    quantity: row.quantity,
+  };
+}
+
+/**
+ * Release the held stock of the given reservation rows
+ */
+async function releaseRows(
+  tx: Tx,
+  rows: { id: string; token: string; productId: string; variantId: string | null; quantity: number }[]
+) {
+  for (const row of rows) {
+    // Only release rows still active - guards against double release
+    const { count } = await tx.inventoryReservation.updateMany({
+      where: { id: row.id, status: 'active' },
+      data: { status: 'released' },
+    });
+    if (count === 0) continue;
+
+    await unholdStock(tx, toStockLine(row));
+    await recordMovement(tx, {
+      productId: row.productId,
+      variantId: row.variantId ?? undefined,
+      type: 'release',
+      reserved: -row.quantity,
+      reference: row.token,
+    });
+  }
+}
+
+/**
+ * Release Reservation
+ *
+ * Gives held stock back, e.g. when the shopper leaves checkout.
+ * Returns the number of lines released (0 if already released or converted).
+ */
+export async function releaseReservation(token: string): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const rows = await tx.inventoryReservation.findMany({
+      where: { token, status: 'active' },
+    });
+    await releaseRows(tx, rows);
+
+    if (rows.length > 0) {
+      await recordAuditEvent(tx, {
+        action: 'reservation.release',
+        entityType: 'reservation',
+        entityId: token,
+        before: { items: rows.map(toStockLine), expiresAt: rows[0].expiresAt },
+      });
+    }
+    return rows.length;
+  });
+}
+
+/**
+ * Release Expired Reservations
+ *
+ * Shoppers often abandon checkout without telling us. Any reservation past
+ * its expiry time is released so the stock becomes available again.
+ * Runs at the start of every reservation, and can be run on a schedule.
+ */
+export async function releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+  // Expiry is housekeeping, not the doing of whoever's request noticed it
+  return runWithAuditContext({ ...getAuditContext(), actor: SYSTEM_ACTOR.actor }, () =>
+    prisma.$transaction(async (tx) => {
+      const rows = await tx.inventoryReservation.findMany({
+        where: { status: 'active', expiresAt: { lt: now } },
+      });
+      await releaseRows(tx, rows);
+
+      const tokens = Array.from(new Set(rows.map(row => row.token)));
+      for (const token of tokens) {
+        const released = rows.filter(row => row.token === token);
+        await recordAuditEvent(tx, {
+          action: 'reservation.expire',
+          entityType: 'reservation',
+          entityId: token,
+          before: { items: released.map(toStockLine), expiresAt: released[0].expiresAt },
+        });
+      }
+      return rows.length;
+    })
+  );
+}
+
+/**
+ * Commit Stock for an Order
+ *
+ * Called inside the order transaction. Converts the checkout's reservation
+ * (if any) and permanently decrements stock for every line:
+ *
+ * 1. The reservation's held units are un-reserved and marked "converted"
+ * 2. Each line's quantity is decremented, as long as enough stock remains
+ *    that is not held by OTHER shoppers' reservations
+ * 3. inStock is switched off when a product reaches zero
+ * 4. Lines that reach the low-stock threshold queue inventory.low_stock
+ * 5. The lines are allocated to the locations that ship them, nearest to
+ *    shipTo or by priority (see allocateOrder)
+ *
+ * The ledger gets a release per converted reservation line and a sale per
+ * allocation, both referencing the order.
+ *
+ * Throws INSUFFICIENT_STOCK (and the caller's transaction rolls back) if
+ * any line cannot be fulfilled.
+ */
+export async function commitStockForOrder(
+  tx: Tx,
+  items: StockLine[],
+  orderId: string,
+  shipTo: Pick<ShippingAddress, 'zipCode' | 'country'>,
+  reservationToken?: string
+): Promise<void> {
+  if (reservationToken) {
+    const rows = await tx.inventoryReservation.findMany({
+      where: { token: reservationToken, status: 'active' },
+    });
+    for (const row of rows) {
+      await unholdStock(tx, toStockLine(row));
+      await recordMovement(tx, {
+        productId: row.productId,
+        variantId: row.variantId ?? undefined,
+        type: 'release',
+        reserved: -row.quantity,
+        reference: orderId,
+      });
+    }
+    await tx.inventoryReservation.updateMany({
+      where: { id: { in: rows.map(row => row.id) } },
+      data: { status: 'converted', orderId },
+    });
+  }
+
+  for (const item of items) {
+    if (!(await sellStock(tx, item))) {
+      await throwShortage(tx, item);
+    }
+    await announceLowStock(tx, item);
+  }
+
+  for (const { locationId, line } of await allocateOrder(tx, orderId, items, shipTo)) {
+    await recordMovement(tx, {
+      productId: line.productId,
+      variantId: line.variantId,
+      type: 'sale',
+      quantity: -line.quantity,
+      reference: orderId,
+      locationId,
+    });
+  }
+}
+
+// Movement type recorded for each adjustment reason
+const ADJUSTMENT_TYPES: Record<StockAdjustmentReason, StockMovementType> = {
+  received: 'receipt',
+  customer_return: 'return',
+  damaged: 'adjustment',
+  lost: 'adjustment',
+  stolen: 'adjustment',
+  expired: 'adjustment',
+  found: 'adjustment',
+  count_correction: 'adjustment',
+  other: 'adjustment',
+};
+
+/**
+ * Change a line's on-hand quantity by delta. Returns false if it would go
+ * below zero.
+ *
+ * inStock is switched off at zero, and back on when stock arrives for a
+ * product (or variant) that had none.
+ */
+async function changeStock(
+  tx: Tx,
+  line: { productId: string; variantId?: string },
+  delta: number
+): Promise<boolean> {
+  if (!line.variantId) {
+    const changed = await tx.$executeRaw`
+      UPDATE "Product"
+      SET "quantity" = "quantity" + ${delta},
+          "inStock" = CASE
+            WHEN "quantity" + ${delta} <= 0 THEN false
+            WHEN "quantity" <= 0 THEN true
+            ELSE "inStock"
+          END
+      WHERE "id" = ${line.productId}
+        AND "quantity" + ${delta} >= 0`;
+    return changed > 0;
+  }
+
+  const changed = await tx.$executeRaw`
+    UPDATE "ProductVariant"
+    SET "quantity" = "quantity" + ${delta},
+        "inStock" = CASE
+          WHEN "quantity" + ${delta} <= 0 THEN false
+          WHEN "quantity" <= 0 THEN true
+          ELSE "inStock"
+        END
+    WHERE "id" = ${line.variantId}
+      AND "productId" = ${line.productId}
+      AND "quantity" + ${delta} >= 0`;
+  if (changed === 0) return false;
+
+  await tx.$executeRaw`
+    UPDATE "Product"
+    SET "quantity" = MAX("quantity" + ${delta}, 0),
+        "inStock" = EXISTS (
+          SELECT 1 FROM "ProductVariant"
+          WHERE "productId" = ${line.productId} AND "inStock" = true
+        )
+    WHERE "id" = ${line.productId}`;
+  return true;
+}
+
+/**
+ * Adjust Stock
+ *
+ * Books a stock change that isn't a sale or reservation - a delivery, a
+ * customer return, damaged or lost units, a stock count - with a reason
+ * code, at one location (the default location unless one is named).
+ * Returns the movement and the new on-hand quantity of the product (or
+ * variant) across all locations.
+ *
+ * Educational: The reason decides the movement type (received → receipt,
+ * customer_return → return, anything else → adjustment), so reports can
+ * tell "we received 50" from "we found 50 in the back room".
+ *
+ * Errors:
+ * - 400 VALIDATION_ERROR / VARIANT_REQUIRED
+ * - 404 NOT_FOUND - Unknown product, variant or location
+ * - 409 INSUFFICIENT_STOCK - The change would take stock (at the location) below zero
+ */
+export async function adjustStock(
+  input: unknown
+): Promise<{ movement: StockMovement; quantity: number }> {
+  const { adjustment, errors } = validateStockAdjustmentInput(input);
+  if (!adjustment) {
+    throw new ServiceError('Stock adjustment validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  await assertVariantsChosen([{ ...adjustment, quantity: Math.abs(adjustment.quantity) }]);
+
+  return prisma.$transaction(async (tx) => {
+    const row = adjustment.variantId
+      ? await tx.productVariant.findFirst({
+          where: { id: adjustment.variantId, productId: adjustment.productId },
+        })
+      : await tx.product.findUnique({ where: { id: adjustment.productId } });
+    if (!row) {
+      throw new ServiceError(
+        adjustment.variantId
+          ? `Variant "${adjustment.variantId}" of product "${adjustment.productId}" not found`
+          : `Product with ID "${adjustment.productId}" not found`,
+        'NOT_FOUND',
+        404
+      );
+    }
+
+    const locationId = adjustment.locationId ?? (await getDefaultLocationId(tx));
+    if (adjustment.locationId) {
+      const location = await tx.inventoryLocation.findUnique({ where: { id: locationId } });
+      if (!location) {
+        throw new ServiceError(`Location with ID "${locationId}" not found`, 'NOT_FOUND', 404);
+      }
+    }
+
+    if (
+      !(await changeStock(tx, adjustment, adjustment.quantity)) ||
+      !(await changeLevel(tx, locationId, adjustment, adjustment.quantity))
+    ) {
+      const level = await tx.inventoryLevel.findUnique({
+        where: {
+          locationId_productId_variantId: {
+            locationId,
+            productId: adjustment.productId,
+            variantId: adjustment.variantId ?? '',
+          },
+        },
+      });
+      throw new ServiceError(
+        'Stock cannot go below zero',
+        'INSUFFICIENT_STOCK',
+        409,
+        [{
+          productId: adjustment.productId,
+          ...(adjustment.variantId && { variantId: adjustment.variantId }),
+          locationId,
+          requested: -adjustment.quantity,
+          available: Math.min(row.quantity, level?.quantity ?? 0),
+        }]
+      );
+    }
+
+    const movement = await recordMovement(tx, {
+      ...adjustment,
+      type: ADJUSTMENT_TYPES[adjustment.reason],
+      locationId,
+    });
+    const quantity = row.quantity + adjustment.quantity;
+
+    await recordAuditEvent(tx, {
+      action: 'inventory.adjust',
+      entityType: 'product',
+      entityId: adjustment.productId,
+      before: { variantId: adjustment.variantId ?? null, locationId, quantity: row.quantity },
+      after: { variantId: adjustment.variantId ?? null, locationId, quantity, reason: adjustment.reason },
+    });
+
+    return { movement, quantity };
+  });
+}
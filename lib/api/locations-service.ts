@@ -0,0 +1,527 @@
+import { Prisma } from '@prisma/client';
+import {
+  AllocationStrategy,
+  InventoryLevel,
+  InventoryLocation,
+  InventoryLocationType,
+  StockLine,
+} from '../types/inventory';
+import { ShippingAddress } from '../types/order';
+import { prisma } from '../db';
+import { validateLevelInput, validateLocationInput } from './validation-service';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { recordAuditEvent } from './audit-service';
+
+/**
+ * Locations Service
+ *
+ * Warehouses and stores, the stock each of them holds (InventoryLevel),
+ * and the choice of where an order ships from.
+ *
+ * Educational Concepts:
+ * - Totals and parts: Product.quantity stays the number shoppers see and
+ *   the conditional UPDATEs in inventory-service guard. The levels split
+ *   that number over the locations and always add up to it
+ * - Allocation: an order is shipped from one location if any can send all
+ *   of it - one parcel is cheaper than two. Otherwise each line is taken
+ *   from the locations in order, splitting it if it has to
+ */
+
+// How orders pick locations: "proximity" (default) or "priority"
+const ALLOCATION_STRATEGY: AllocationStrategy =
+  process.env.ALLOCATION_STRATEGY === 'priority' ? 'priority' : 'proximity';
+
+type Tx = Prisma.TransactionClient;
+
+// The order locations are used in when nothing else decides
+const LOCATION_ORDER: Prisma.InventoryLocationOrderByWithRelationInput[] = [
+  { priority: 'asc' },
+  { createdAt: 'asc' },
+  { id: 'asc' },
+];
+
+function transformDbLocation(dbLocation: any): InventoryLocation {
+  return {
+    id: dbLocation.id,
+    code: dbLocation.code,
+    name: dbLocation.name,
+    type: dbLocation.type as InventoryLocationType,
+    priority: dbLocation.priority,
+    zipCode: dbLocation.zipCode ?? undefined,
+    country: dbLocation.country,
+    pickup: dbLocation.pickup,
+    createdAt: dbLocation.createdAt,
+    updatedAt: dbLocation.updatedAt,
+  };
+}
+
+function transformDbLevel(dbLevel: any): InventoryLevel {
+  return {
+    locationId: dbLevel.locationId,
+    productId: dbLevel.productId,
+    variantId: dbLevel.variantId || undefined,
+    quantity: dbLevel.quantity,
+    lowStockThreshold: dbLevel.lowStockThreshold,
+  };
+}
+
+/**
+ * List Locations (in priority order)
+ */
+export async function getLocations(): Promise<InventoryLocation[]> {
+  const dbLocations = await prisma.inventoryLocation.findMany({ orderBy: LOCATION_ORDER });
+  return dbLocations.map(transformDbLocation);
+}
+
+/**
+ * Get Location by ID
+ */
+export async function getLocation(id: string): Promise<InventoryLocation | null> {
+  const dbLocation = await prisma.inventoryLocation.findUnique({ where: { id } });
+  return dbLocation ? transformDbLocation(dbLocation) : null;
+}
+
+/**
+ * Turn a duplicate location code into a 409 Conflict
+ */
+function rethrowDuplicateCode(error: unknown, code: string): never {
+  if (isUniqueConstraintError(error)) {
+    throw new ServiceError(
+      `A location with code "${code}" already exists`,
+      'CONFLICT',
+      409,
+      { field: 'code' }
+    );
+  }
+  throw error;
+}
+
+/**
+ * Create Location
+ *
+ * A new location starts empty; stock arrives with adjustments
+ * (POST /api/inventory/adjustments with its locationId).
+ */
+export async function createLocation(input: unknown): Promise<InventoryLocation> {
+  const { location, errors } = validateLocationInput(input);
+  if (!location) {
+    throw new ServiceError('Location validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = transformDbLocation(
+        await tx.inventoryLocation.create({
+          data: { ...location, zipCode: location.zipCode ?? null },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'location.create',
+        entityType: 'location',
+        entityId: created.id,
+        after: created,
+      });
+      return created;
+    });
+  } catch (error) {
+    rethrowDuplicateCode(error, location.code);
+  }
+}
+
+/**
+ * Update Location (PATCH)
+ *
+ * Merges the given fields into the current location, e.g.
+ * { "priority": 5 } to ship from it only when the others can't.
+ */
+export async function updateLocation(id: string, patch: unknown): Promise<InventoryLocation> {
+  const current = await getLocation(id);
+  if (!current) {
+    throw new ServiceError(`Location with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    throw new ServiceError('Location validation failed', 'VALIDATION_ERROR', 400, [
+      { field: '', message: 'Request body must be a JSON object' },
+    ]);
+  }
+
+  const { id: _id, createdAt, updatedAt, ...currentFields } = current;
+  const { location, errors } = validateLocationInput({
+    ...currentFields,
+    ...(patch as Record<string, unknown>),
+  });
+  if (!location) {
+    throw new ServiceError('Location validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const updated = transformDbLocation(
+        await tx.inventoryLocation.update({
+          where: { id },
+          data: { ...location, zipCode: location.zipCode ?? null },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'location.update',
+        entityType: 'location',
+        entityId: id,
+        before: current,
+        after: updated,
+      });
+      return updated;
+    });
+  } catch (error) {
+    rethrowDuplicateCode(error, location.code);
+  }
+}
+
+/**
+ * Delete Location
+ *
+ * Only an empty location that never shipped an order can be deleted, and
+ * never the last one. Move its stock away with adjustments first.
+ */
+export async function deleteLocation(id: string): Promise<InventoryLocation> {
+  const current = await getLocation(id);
+  if (!current) {
+    throw new ServiceError(`Location with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  const [stocked, allocations, locations] = await Promise.all([
+    prisma.inventoryLevel.count({ where: { locationId: id, quantity: { not: 0 } } }),
+    prisma.orderAllocation.count({ where: { locationId: id } }),
+    prisma.inventoryLocation.count(),
+  ]);
+  if (stocked > 0 || allocations > 0 || locations === 1) {
+    throw new ServiceError(
+      locations === 1
+        ? 'The last location cannot be deleted'
+        : `Location "${current.code}" still holds stock or has shipped orders`,
+      'LOCATION_IN_USE',
+      409
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.inventoryLevel.deleteMany({ where: { locationId: id } });
+    await tx.inventoryLocation.delete({ where: { id } });
+    await recordAuditEvent(tx, {
+      action: 'location.delete',
+      entityType: 'location',
+      entityId: id,
+      before: current,
+    });
+  });
+
+  return current;
+}
+
+/**
+ * Set a Location's Low-Stock Threshold for a Product (or Variant)
+ *
+ * Educational: A store shelf is "low" at 2 units while the warehouse
+ * reorders at 50 - each level has its own threshold.
+ */
+export async function setLevelThreshold(locationId: string, input: unknown): Promise<InventoryLevel> {
+  const { level, errors } = validateLevelInput(input);
+  if (!level) {
+    throw new ServiceError('Inventory level validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const [location, product] = await Promise.all([
+    prisma.inventoryLocation.findUnique({ where: { id: locationId } }),
+    prisma.product.findUnique({ where: { id: level.productId }, include: { variants: true } }),
+  ]);
+  if (!location) {
+    throw new ServiceError(`Location with ID "${locationId}" not found`, 'NOT_FOUND', 404);
+  }
+  if (!product || (level.variantId && !product.variants.some(v => v.id === level.variantId))) {
+    throw new ServiceError(
+      level.variantId
+        ? `Variant "${level.variantId}" of product "${level.productId}" not found`
+        : `Product with ID "${level.productId}" not found`,
+      'NOT_FOUND',
+      404
+    );
+  }
+  if (!level.variantId && product.variants.length > 0) {
+    throw new ServiceError(
+      'Choose a variant (e.g. size or color) for every product that has them',
+      'VARIANT_REQUIRED',
+      400,
+      [{ field: 'variantId', message: `Product "${product.id}" requires a variantId` }]
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const key = { locationId, productId: level.productId, variantId: level.variantId ?? '' };
+    const before = await tx.inventoryLevel.findUnique({
+      where: { locationId_productId_variantId: key },
+    });
+    const updated = transformDbLevel(
+      await tx.inventoryLevel.upsert({
+        where: { locationId_productId_variantId: key },
+        create: { ...key, lowStockThreshold: level.lowStockThreshold },
+        update: { lowStockThreshold: level.lowStockThreshold },
+      })
+    );
+    await recordAuditEvent(tx, {
+      action: 'inventory_level.update',
+      entityType: 'location',
+      entityId: locationId,
+      before: before ? transformDbLevel(before) : null,
+      after: updated,
+    });
+    return updated;
+  });
+}
+
+/**
+ * The location stock goes to when nobody says where: the first by priority
+ */
+export async function getDefaultLocationId(tx: Tx): Promise<string> {
+  const location = await tx.inventoryLocation.findFirst({ orderBy: LOCATION_ORDER });
+  if (!location) {
+    throw new ServiceError('No inventory location exists', 'NO_LOCATION', 409);
+  }
+  return location.id;
+}
+
+/**
+ * Change the stock of a SKU at one location by delta. Returns false if it
+ * would go below zero.
+ */
+export async function changeLevel(
+  tx: Tx,
+  locationId: string,
+  line: { productId: string; variantId?: string },
+  delta: number
+): Promise<boolean> {
+  const key = { locationId, productId: line.productId, variantId: line.variantId ?? '' };
+
+  if (delta > 0) {
+    await tx.inventoryLevel.upsert({
+      where: { locationId_productId_variantId: key },
+      create: { ...key, quantity: delta },
+      update: { quantity: { increment: delta } },
+    });
+    return true;
+  }
+
+  // One conditional UPDATE, so two removals can't both take the last unit
+  const { count } = await tx.inventoryLevel.updateMany({
+    where: { ...key, quantity: { gte: -delta } },
+    data: { quantity: { increment: delta } },
+  });
+  return count > 0;
+}
+
+/**
+ * Apply a change to a SKU's total stock to its locations
+ *
+ * For changes that don't name a location, e.g. a product edit setting the
+ * quantity. Added units go to the default location; removed units are
+ * taken from the locations in priority order. Returns the change per
+ * location.
+ */
+export async function spreadStockChange(
+  tx: Tx,
+  line: { productId: string; variantId?: string },
+  delta: number
+): Promise<{ locationId: string; quantity: number }[]> {
+  if (delta === 0) return [];
+
+  if (delta > 0) {
+    const locationId = await getDefaultLocationId(tx);
+    await changeLevel(tx, locationId, line, delta);
+    return [{ locationId, quantity: delta }];
+  }
+
+  const levels = await tx.inventoryLevel.findMany({
+    where: { productId: line.productId, variantId: line.variantId ?? '', quantity: { gt: 0 } },
+    include: { location: true },
+  });
+  levels.sort((a, b) => compareByPriority(a.location, b.location));
+
+  const parts: { locationId: string; quantity: number }[] = [];
+  let remaining = -delta;
+  for (const level of levels) {
+    if (remaining === 0) break;
+    const take = Math.min(level.quantity, remaining);
+    await changeLevel(tx, level.locationId, line, -take);
+    parts.push({ locationId: level.locationId, quantity: -take });
+    remaining -= take;
+  }
+  return parts;
+}
+
+function compareByPriority(
+  a: { priority: number; createdAt: Date; id: string },
+  b: { priority: number; createdAt: Date; id: string }
+): number {
+  return (
+    a.priority - b.priority ||
+    a.createdAt.getTime() - b.createdAt.getTime() ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
+
+/**
+ * Rough distance between a location and a shipping address
+ *
+ * Educational: US ZIP codes run from the northeast (0xxxx) to the west
+ * coast (9xxxx), and the first three digits name a regional sorting
+ * center. Comparing those is a crude but dependency-free stand-in for
+ * geocoding; anything it can't compare counts as infinitely far.
+ */
+function zipDistance(
+  location: { zipCode: string | null; country: string },
+  shipTo: Pick<ShippingAddress, 'zipCode' | 'country'>
+): number {
+  if (!location.zipCode || location.country !== shipTo.country.trim().toUpperCase()) {
+    return Infinity;
+  }
+  const from = parseInt(location.zipCode.slice(0, 3), 10);
+  const to = parseInt(shipTo.zipCode.trim().slice(0, 3), 10);
+  return isNaN(from) || isNaN(to) ? Infinity : Math.abs(from - to);
+}
+
+/**
+ * Order locations for a shipment: nearest first (ties by priority), or by
+ * priority alone
+ */
+export function sortLocationsForShipment<
+  T extends { id: string; priority: number; createdAt: Date; zipCode: string | null; country: string }
+>(
+  locations: T[],
+  shipTo: Pick<ShippingAddress, 'zipCode' | 'country'>,
+  strategy: AllocationStrategy = ALLOCATION_STRATEGY
+): T[] {
+  return locations.slice().sort((a, b) => {
+    if (strategy === 'proximity') {
+      const distanceA = zipDistance(a, shipTo);
+      const distanceB = zipDistance(b, shipTo);
+      if (distanceA !== distanceB) return distanceA < distanceB ? -1 : 1;
+    }
+    return compareByPriority(a, b);
+  });
+}
+
+/**
+ * Allocate an Order to Locations (inside the order transaction)
+ *
+ * Takes each line's units from the chosen locations and records an
+ * OrderAllocation per location and line. Returns the allocations.
+ *
+ * Educational Flow:
+ * 1. Sort the locations for the shipping address
+ * 2. Use the first location holding every line in full, if there is one
+ * 3. Otherwise take each line from the locations in that order
+ * 4. Lower the levels with conditional UPDATEs, like the totals
+ *
+ * The caller has already taken the units off the SKU totals, so the levels
+ * - which add up to them - can always cover the order unless they drifted.
+ */
+export async function allocateOrder(
+  tx: Tx,
+  orderId: string,
+  items: StockLine[],
+  shipTo: Pick<ShippingAddress, 'zipCode' | 'country'>
+): Promise<{ locationId: string; line: StockLine }[]> {
+  const keyOf = (line: { productId: string | null; variantId?: string | null }) =>
+    `${line.productId}:${line.variantId || ''}`;
+
+  // The same SKU twice in an order is allocated as one line
+  const wanted = new Map<string, StockLine>();
+  for (const item of items) {
+    const existing = wanted.get(keyOf(item));
+    wanted.set(keyOf(item), { ...item, quantity: (existing?.quantity ?? 0) + item.quantity });
+  }
+  const lines = Array.from(wanted.values());
+
+  const [locations, levels, orderLines] = await Promise.all([
+    tx.inventoryLocation.findMany(),
+    tx.inventoryLevel.findMany({
+      where: { productId: { in: lines.map(line => line.productId) }, quantity: { gt: 0 } },
+    }),
+    tx.orderLine.findMany({ where: { orderId } }),
+  ]);
+  const onHand = new Map(levels.map(level => [`${level.locationId}|${keyOf(level)}`, level.quantity]));
+  const stockAt = (locationId: string, line: StockLine) => onHand.get(`${locationId}|${keyOf(line)}`) ?? 0;
+  const ordered = sortLocationsForShipment(locations, shipTo);
+
+  const plan: { locationId: string; line: StockLine }[] = [];
+  const single = ordered.find(location => lines.every(line => stockAt(location.id, line) >= line.quantity));
+  if (single) {
+    for (const line of lines) plan.push({ locationId: single.id, line });
+  } else {
+    for (const line of lines) {
+      let remaining = line.quantity;
+      for (const location of ordered) {
+        const take = Math.min(stockAt(location.id, line), remaining);
+        if (take === 0) continue;
+        plan.push({ locationId: location.id, line: { ...line, quantity: take } });
+        remaining -= take;
+        if (remaining === 0) break;
+      }
+      if (remaining > 0) {
+        throw new ServiceError(
+          'Some products are not available in the requested quantity',
+          'INSUFFICIENT_STOCK',
+          409,
+          [{
+            productId: line.productId,
+            ...(line.variantId && { variantId: line.variantId }),
+            requested: line.quantity,
+            available: line.quantity - remaining,
+          }]
+        );
+      }
+    }
+  }
+
+  const skus = new Map(orderLines.map(line => [keyOf(line), line.sku]));
+  for (const { locationId, line } of plan) {
+    if (!(await changeLevel(tx, locationId, line, -line.quantity))) {
+      throw new ServiceError(
+        'Stock changed while the order was placed, please try again',
+        'INSUFFICIENT_STOCK',
+        409
+      );
+    }
+    await tx.orderAllocation.create({
+      data: {
+        orderId,
+        locationId,
+        productId: line.productId,
+        variantId: line.variantId ?? '',
+        sku: skus.get(keyOf(line)) ?? '',
+        quantity: line.quantity,
+      },
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Why reservations aren't per location:
+ *    - A shopper reserves "2 of this T-shirt" before we know where it will
+ *      ship to. Holding units at a specific location that early could send
+ *      the parcel across the country for no reason
+ *
+ * 2. Priority vs. proximity (ALLOCATION_STRATEGY):
+ *    - priority: a main warehouse ships everything it can, stores only
+ *      help out - simple, and keeps store shelves full
+ *    - proximity: the nearest location ships - faster and cheaper
+ *      delivery, at the cost of running stores down
+ *
+ * 3. Deleting locations:
+ *    - Allocations point at the location that shipped an order, so a
+ *      location with history is kept. Once its stock is moved away with
+ *      adjustments, orders are no longer allocated to it
+ */
@@ -0,0 +1,355 @@
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { Order } from '../types/order';
+import { prisma } from '../db';
+import { validateOrderInput } from './validation-service';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { assertVariantsChosen, commitStockForOrder } from './inventory-service';
+import { getCandidatePromotions, redeemPromotions } from './promotions-service';
+import { priceCart } from './pricing-service';
+import { calculateTax, getTaxableLines } from './tax-service';
+import { getParcelWeight, getShippingCharge } from './shipping-service';
+import { convertPrice } from './currency-service';
+import { isPubliclyVisible } from './products-service';
+import { deliverWebhooksSoon, enqueueWebhookEvent } from './webhooks-service';
+import { recordAuditEvent } from './audit-service';
+import { BASE_CURRENCY } from '../data/exchange-rates';
+
+/**
+ * Orders Service
+ *
+ * Turns a checkout request into a stored order.
+ *
+ * Educational Note: The client only tells us WHAT it wants (product ids and
+ * quantities). Everything that costs money - prices, discounts, totals, tax - is
+ * computed here from the database, so a tampered request cannot change
+ * what the customer pays.
+ */
+
+// Letters and digits that are hard to confuse when read aloud (no 0/O, 1/I)
+const ORDER_NUMBER_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+/**
+ * Generate a human-friendly order number, e.g. "ORD-20241120-7K3M9Q"
+ *
+ * Educational: Database ids (cuid) are great for machines, but customers
+ * read order numbers over the phone - so they get their own short format.
+ */
+function generateOrderNumber(now: Date = new Date()): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  let suffix = '';
+  for (let i = 0; i < 6; i++) {
+    suffix += ORDER_NUMBER_ALPHABET[randomInt(ORDER_NUMBER_ALPHABET.length)];
+  }
+  return `ORD-${date}-${suffix}`;
+}
+
+// Relations loaded with every order
+const ORDER_INCLUDE = {
+  lines: true,
+  discounts: true,
+  taxes: true,
+  allocations: { include: { location: true } },
+} satisfies Prisma.OrderInclude;
+
+/**
+ * Helper function to transform database order (with lines) to Order type
+ */
+function transformDbOrder(dbOrder: any): Order {
+  return {
+    id: dbOrder.id,
+    orderNumber: dbOrder.orderNumber,
+    status: dbOrder.status,
+    customer: {
+      email: dbOrder.email,
+      firstName: dbOrder.firstName,
+      lastName: dbOrder.lastName,
+      phone: dbOrder.phone ?? undefined,
+    },
+    shippingAddress: JSON.parse(dbOrder.shippingAddress),
+    currency: dbOrder.currency,
+    lines: (dbOrder.lines ?? []).map((line: any) => ({
+      id: line.id,
+      productId: line.productId,
+      variantId: line.variantId,
+      sku: line.sku,
+      name: line.name,
+      options: line.options ? JSON.parse(line.options) : undefined,
+      unitPrice: line.unitPrice,
+      quantity: line.quantity,
+      lineTotal: line.lineTotal,
+      taxAmount: line.taxAmount,
+    })),
+    subtotal: dbOrder.subtotal,
+    discounts: (dbOrder.discounts ?? []).map((discount: any) => ({
+      promotionId: discount.promotionId,
+      code: discount.code ?? undefined,
+      name: discount.name,
+      amount: discount.amount,
+    })),
+    discountTotal: dbOrder.discountTotal,
+    shippingMethod: dbOrder.shippingMethod,
+    shippingTotal: dbOrder.shippingTotal,
+    taxes: (dbOrder.taxes ?? []).map((tax: any) => ({
+      jurisdiction: tax.jurisdiction,
+      rate: tax.rate,
+      taxableAmount: tax.taxableAmount,
+      amount: tax.amount,
+    })),
+    allocations: (dbOrder.allocations ?? []).map((allocation: any) => ({
+      locationId: allocation.locationId,
+      locationName: allocation.location.name,
+      productId: allocation.productId,
+      variantId: allocation.variantId || null,
+      sku: allocation.sku,
+      quantity: allocation.quantity,
+    })),
+    taxTotal: dbOrder.taxTotal,
+    taxInclusive: dbOrder.taxInclusive,
+    total: dbOrder.total,
+    createdAt: dbOrder.createdAt,
+  };
+}
+
+/**
+ * Create Order
+ *
+ * Educational Flow:
+ * 1. Validate the request shape (ids, quantities, address)
+ * 2. Load every product (and variant) from the database - unknown ids are
+ *    rejected, and products with variants must name one
+ * 3. Price each line from the database - the variant's price if it has one -
+ *    converted into the order's currency
+ * 4. Apply promotions with the same pricing service the cart uses
+ * 5. Price the chosen shipping method from the parcel's weight and the
+ *    discounted subtotal (free over the zone's threshold)
+ * 6. Tax each discounted line for the shipping address with the same tax
+ *    service the checkout page uses
+ * 7. In one transaction: store the order (linked to the signed-in
+ *    customer whose id the route passes, if any) with its line, discount and tax snapshots, count promotion uses, decrement stock (using the
+ *    checkout's reservation, if any), allocate the lines to the locations
+ *    that ship them and queue the order.placed webhook
+ *
+ * If any line is out of stock, or a promotion ran out of uses meanwhile,
+ * the whole transaction rolls back and no order is created.
+ */
+export async function createOrder(input: unknown, customerId?: string): Promise<Order> {
+  const { order: request, errors } = validateOrderInput(input);
+  if (!request) {
+    throw new ServiceError('Order validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: request.items.map(item => item.productId) } },
+  });
+  // Drafts and archived products can't be bought - they count as unknown
+  const productsById = new Map(products.filter(isPubliclyVisible).map(p => [p.id, p]));
+
+  // Unknown products
+  const missing = request.items.filter(item => !productsById.has(item.productId));
+  if (missing.length > 0) {
+    throw new ServiceError(
+      'Some products in the order do not exist',
+      'VALIDATION_ERROR',
+      400,
+      missing.map(item => ({
+        field: 'items',
+        message: `Product "${item.productId}" not found`,
+      }))
+    );
+  }
+
+  // Variants must exist and belong to the product they are ordered with
+  await assertVariantsChosen(request.items);
+
+  const variantIds = request.items
+    .map(item => item.variantId)
+    .filter((id): id is string => Boolean(id));
+  const variants = await prisma.productVariant.findMany({
+    where: { id: { in: variantIds } },
+  });
+  const variantsById = new Map(variants.map(v => [v.id, v]));
+
+  const badVariants = request.items.filter(
+    item => item.variantId && variantsById.get(item.variantId)?.productId !== item.productId
+  );
+  if (badVariants.length > 0) {
+    throw new ServiceError(
+      'Some variants in the order do not exist',
+      'VALIDATION_ERROR',
+      400,
+      badVariants.map(item => ({
+        field: 'items',
+        message: `Variant "${item.variantId}" not found for product "${item.productId}"`,
+      }))
+    );
+  }
+
+  // A single order is charged in a single currency: every price is
+  // converted into it, whatever currency the product is listed in
+  const currency = request.currency ?? BASE_CURRENCY;
+
+  // Price every line from the database, never from the client
+  const lines = request.items.map(item => {
+    const product = productsById.get(item.productId)!;
+    const variant = item.variantId ? variantsById.get(item.variantId)! : null;
+    const unitPrice = convertPrice(
+      variant ? variant.price : product.price,
+      product.currency,
+      currency
+    );
+    return {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      sku: variant ? variant.sku : product.sku,
+      name: product.name,
+      options: variant ? variant.options : null,
+      unitPrice,
+      quantity: item.quantity,
+      lineTotal: unitPrice * item.quantity,
+    };
+  });
+
+  // Promotions - exactly the calculation the cart and checkout showed
+  const promotions = await getCandidatePromotions(request.couponCode);
+  const pricingLines = request.items.map((item, index) => {
+    const product = productsById.get(item.productId)!;
+    return {
+      key: `${item.productId}:${item.variantId ?? ''}`,
+      productId: product.id,
+      category: product.category,
+      subcategory: product.subcategory ?? undefined,
+      tags: JSON.parse(product.tags),
+      unitPrice: lines[index].unitPrice,
+      quantity: item.quantity,
+    };
+  });
+  const pricing = priceCart(pricingLines, promotions, {
+    couponCode: request.couponCode,
+    currency,
+  });
+
+  if (request.couponCode && pricing.couponError) {
+    throw new ServiceError(pricing.couponError, 'INVALID_COUPON', 400, [
+      { field: 'couponCode', message: pricing.couponError },
+    ]);
+  }
+
+  // Shipping - the same quote the checkout's method selector showed
+  const shipping = getShippingCharge(
+    getParcelWeight(request.items, productsById),
+    pricing.discountedSubtotal,
+    request.shippingAddress.country,
+    request.shippingMethod ?? 'standard',
+    currency
+  );
+  const shippingTotal = shipping.price;
+
+  // Tax - exactly the calculation the checkout summary showed
+  const tax = calculateTax({
+    lines: getTaxableLines(pricingLines, pricing),
+    address: request.shippingAddress,
+    currency,
+  });
+  const taxByKey = new Map(tax.lines.map(line => [line.key, line.tax]));
+
+  const { subtotal, discountTotal, discountedSubtotal } = pricing;
+  const taxTotal = tax.taxTotal;
+
+  // Retry in the unlikely case two orders draw the same number
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const order = await tx.order.create({
+          data: {
+            orderNumber: generateOrderNumber(),
+            email: request.customer.email,
+            customerId: customerId ?? null,
+            firstName: request.customer.firstName,
+            lastName: request.customer.lastName,
+            phone: request.customer.phone ?? null,
+            shippingAddress: JSON.stringify(request.shippingAddress),
+            currency,
+            subtotal,
+            discountTotal,
+            shippingMethod: shipping.method,
+            shippingTotal,
+            taxTotal,
+            taxInclusive: tax.inclusive,
+            total: discountedSubtotal + shippingTotal + (tax.inclusive ? 0 : taxTotal),
+            lines: {
+              create: lines.map((line, index) => ({
+                ...line,
+                taxAmount: taxByKey.get(pricingLines[index].key) ?? 0,
+              })),
+            },
+            discounts: {
+              create: pricing.discounts.map(discount => ({
+                promotionId: discount.promotionId,
+                code: discount.code ?? null,
+                name: discount.name,
+                amount: discount.amount,
+              })),
+            },
+            taxes: {
+              create: tax.jurisdictions
+                .filter(jurisdiction => jurisdiction.amount > 0)
+                .map(jurisdiction => ({
+                  jurisdiction: jurisdiction.name,
+                  rate: jurisdiction.rate,
+                  taxableAmount: jurisdiction.taxableAmount,
+                  amount: jurisdiction.amount,
+                })),
+            },
+          },
+        });
+
+        await redeemPromotions(tx, pricing.discounts);
+        await commitStockForOrder(
+          tx,
+          request.items,
+          order.id,
+          request.shippingAddress,
+          request.reservationToken
+        );
+        const placed = await tx.order.findUniqueOrThrow({
+          where: { id: order.id },
+          include: ORDER_INCLUDE,
+        });
+        await enqueueWebhookEvent(tx, 'order.placed', { order: transformDbOrder(placed) });
+        await recordAuditEvent(tx, {
+          action: 'order.place',
+          entityType: 'order',
+          entityId: order.id,
+          after: transformDbOrder(placed),
+        });
+
+        return placed;
+      });
+      deliverWebhooksSoon();
+
+      return transformDbOrder(created);
+    } catch (error) {
+      if (!isUniqueConstraintError(error) || attempt === 2) {
+        throw error;
+      }
+    }
+  }
+
+  // Unreachable: the loop either returns or throws
+  throw new Error('Failed to generate a unique order number');
+}
+
+/**
+ * Get Order by Order Number
+ *
+ * Used by the checkout success page to show the order summary.
+ */
+export async function getOrderByNumber(orderNumber: string): Promise<Order | null> {
+  const dbOrder = await prisma.order.findUnique({
+    where: { orderNumber },
+    include: ORDER_INCLUDE,
+  });
+
+  return dbOrder ? transformDbOrder(dbOrder) : null;
+}
@@ -8,6 +8,7 @@ import { PaginatedResponse, PaginationMeta } from '../types/api';
  *
  * Educational Concepts:
  * - Offset-based pagination (most common)
+ * - Cursor-based (keyset) pagination (for infinite scroll)
  * - Page calculation mathematics
  * - Metadata for building pagination UI
  * - Performance considerations
@@ -136,6 +137,91 @@ export function buildPaginationLinks(
   return links;
 }
 
+/**
+ * Cursor Payload
+ *
+ * What a cursor remembers: the row it points at (its sort key and id), the
+ * sort it belongs to, and which way to read from it.
+ */
+export interface CursorPayload {
+  sort: string;                         // sortBy the cursor was created for
+  key: string | number | null;          // Sort key value of the row
+  id: string;                           // Tie-breaker: rows with equal keys are ordered by id
+  direction: 'next' | 'prev';           // Read rows after or before this one
+}
+
+/**
+ * Encode a cursor
+ *
+ * Cursors are opaque to clients: just a string to send back unchanged.
+ *
+ * Educational: Offset pagination says "skip 24 rows". If a product is
+ * inserted meanwhile, every row shifts and the next page repeats an item.
+ * A cursor says "continue after the row with price 2999 and id prod_042",
+ * which stays correct while rows are added or removed - and the database
+ * can jump straight there using an index instead of counting skipped rows.
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * What a cursor's key must look like for the column it was taken from
+ */
+export interface CursorKeyType {
+  type: 'number' | 'string' | 'date';   // 'date': an ISO-8601 string
+  nullable?: boolean;                   // The column can be NULL
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+function matchesKeyType(key: unknown, expected: CursorKeyType): boolean {
+  if (key === null) return !!expected.nullable;
+  switch (expected.type) {
+    case 'number':
+      return typeof key === 'number' && isFinite(key);
+    case 'string':
+      return typeof key === 'string';
+    case 'date':
+      return typeof key === 'string' && ISO_DATE_PATTERN.test(key) && !isNaN(Date.parse(key));
+  }
+}
+
+/**
+ * Decode a cursor
+ *
+ * Returns null if the string is not a cursor we issued (corrupted or
+ * hand-edited). Pass the key type of the sort column to also reject keys
+ * of the wrong type - a string where the database expects a price would
+ * otherwise fail in the query, as a 500 instead of a 400.
+ */
+export function decodeCursor(cursor: string, keyType?: CursorKeyType): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const validKey = keyType
+      ? matchesKeyType(payload.key, keyType)
+      : payload.key === null || typeof payload.key === 'string' || typeof payload.key === 'number';
+
+    if (
+      typeof payload.sort !== 'string' ||
+      typeof payload.id !== 'string' ||
+      !validKey ||
+      (payload.direction !== 'next' && payload.direction !== 'prev')
+    ) {
+      return null;
+    }
+
+    return {
+      sort: payload.sort,
+      key: payload.key,
+      id: payload.id,
+      direction: payload.direction,
+    };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Calculate page numbers for pagination UI
  *
@@ -0,0 +1,285 @@
+import {
+  Promotion,
+  PricingLine,
+  PricingResult,
+  AppliedPromotion,
+} from '../types/promotion';
+import { BASE_CURRENCY } from '../data/exchange-rates';
+import { convertPrice, getCurrencyLocale } from './currency-service';
+
+/**
+ * Pricing Service
+ *
+ * Applies promotions to a set of cart lines and itemizes every discount.
+ *
+ * The same function prices the cart drawer, the checkout summary and the
+ * order that is finally stored - so the shopper is charged exactly what
+ * they were shown. It has no database access and can run in the browser;
+ * the server loads promotions from the database and calls it again when the
+ * order is placed.
+ *
+ * Educational Concepts:
+ * - Pure functions: same input, same output, easy to share and reason about
+ * - Rules as data: each promotion type is a small, separate calculation
+ * - Stacking: every discount is capped by what is left of each line, so
+ *   combined promotions can never make an item cost less than zero
+ */
+
+// Order in which promotion types are applied. Item-level deals first, then
+// percentages, then fixed amounts (so "$5 off" doesn't shrink a "10% off").
+const TYPE_ORDER: Record<Promotion['type'], number> = {
+  'buy-x-get-y': 0,
+  percentage: 1,
+  fixed: 2,
+};
+
+/**
+ * Normalize a coupon code the way it is stored (trimmed, uppercase)
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Cents as a currency amount, for messages like "Spend $50.00 or more" -
+// in the currency's locale, like formatPrice shows the prices next to it
+function formatAmount(cents: number, currency: string): string {
+  return new Intl.NumberFormat(getCurrencyLocale(currency), { style: 'currency', currency }).format(cents / 100);
+}
+
+/**
+ * A promotion with its money amounts converted from the base currency
+ *
+ * Educational: Percentages don't depend on the currency, but "$5 off" and
+ * "spend $50" do - they are stored in USD and converted like prices.
+ */
+function toCurrency(promotion: Promotion, currency: string): Promotion {
+  if (currency === BASE_CURRENCY) return promotion;
+
+  return {
+    ...promotion,
+    value:
+      promotion.type === 'fixed'
+        ? convertPrice(promotion.value, BASE_CURRENCY, currency)
+        : promotion.value,
+    minSubtotal:
+      promotion.minSubtotal != null
+        ? convertPrice(promotion.minSubtotal, BASE_CURRENCY, currency)
+        : promotion.minSubtotal,
+  };
+}
+
+/**
+ * Does a line fall inside the promotion's scope?
+ *
+ * Educational: Empty category and tag lists mean "everything". Otherwise a
+ * product qualifies through its category, its subcategory or any tag.
+ */
+export function isLineEligible(promotion: Promotion, line: PricingLine): boolean {
+  const hasScope = promotion.categories.length > 0 || promotion.tags.length > 0;
+  if (!hasScope) return true;
+
+  if (
+    promotion.categories.includes(line.category) ||
+    (line.subcategory !== undefined && promotion.categories.includes(line.subcategory))
+  ) {
+    return true;
+  }
+
+  return line.tags.some(tag => promotion.tags.includes(tag));
+}
+
+/**
+ * Why a promotion cannot be used right now (null when it can)
+ *
+ * Dates may arrive as strings when promotions were fetched as JSON, so they
+ * are always converted with new Date().
+ */
+export function getPromotionBlocker(
+  promotion: Promotion,
+  subtotal: number,
+  now: Date,
+  currency: string = 'USD'
+): string | null {
+  if (!promotion.active) {
+    return 'This promotion is not active';
+  }
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    return 'This promotion has not started yet';
+  }
+  if (promotion.endsAt && new Date(promotion.endsAt) <= now) {
+    return 'This promotion has expired';
+  }
+  if (promotion.usageLimit != null && promotion.usageCount >= promotion.usageLimit) {
+    return 'This promotion has reached its usage limit';
+  }
+  if (promotion.minSubtotal != null && subtotal < promotion.minSubtotal) {
+    return `Spend ${formatAmount(promotion.minSubtotal, currency)} or more to use this promotion`;
+  }
+  return null;
+}
+
+/**
+ * Discount per line for one promotion (before capping)
+ */
+function computeLineDiscounts(
+  promotion: Promotion,
+  lines: PricingLine[],
+  remaining: Map<string, number>
+): Map<string, number> {
+  const amounts = new Map<string, number>();
+
+  switch (promotion.type) {
+    case 'percentage':
+      // Percent of what is left of each eligible line after item deals
+      for (const line of lines) {
+        amounts.set(line.key, Math.round(((remaining.get(line.key) ?? 0) * promotion.value) / 100));
+      }
+      break;
+
+    case 'fixed': {
+      // A fixed amount, taken from the eligible lines in cart order
+      let left = promotion.value;
+      for (const line of lines) {
+        const take = Math.min(left, remaining.get(line.key) ?? 0);
+        if (take > 0) amounts.set(line.key, take);
+        left -= take;
+      }
+      break;
+    }
+
+    case 'buy-x-get-y': {
+      // Line up every eligible unit from most to least expensive. In each
+      // group of (buy + get) units, the last `get` units - the cheapest of
+      // the group - are discounted. This is the usual "cheapest item free".
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const groupSize = buy + get;
+      if (buy < 1 || get < 1) break;
+
+      const units: PricingLine[] = [];
+      for (const line of lines) {
+        for (let i = 0; i < line.quantity; i++) units.push(line);
+      }
+      units.sort((a, b) => b.unitPrice - a.unitPrice);
+
+      const groups = Math.floor(units.length / groupSize);
+      for (let group = 0; group < groups; group++) {
+        for (let i = group * groupSize + buy; i < (group + 1) * groupSize; i++) {
+          const unit = units[i];
+          const discount = Math.round((unit.unitPrice * promotion.value) / 100);
+          amounts.set(unit.key, (amounts.get(unit.key) ?? 0) + discount);
+        }
+      }
+      break;
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Price a Cart
+ *
+ * Educational Flow:
+ * 1. Subtotal = Σ unitPrice × quantity
+ * 2. Candidates: every automatic promotion plus the one matching the
+ *    entered coupon code (at most one coupon per order)
+ * 3. For each candidate (in TYPE_ORDER): skip it if it's not live or the
+ *    cart is below its minimum spend, otherwise discount its eligible lines
+ * 4. Cap each line's discount at what is left of that line
+ * 5. Return the itemized discounts, the discounted subtotal and what is
+ *    left of each line (the tax service taxes those amounts)
+ *
+ * @param lines - Cart lines with server- or client-side prices
+ * @param promotions - Promotions that might apply (expired ones are ignored)
+ * @param options.couponCode - Code entered by the shopper, if any
+ * @param options.currency - Currency of the line prices (default USD)
+ */
+export function priceCart(
+  lines: PricingLine[],
+  promotions: Promotion[],
+  options: { couponCode?: string; now?: Date; currency?: string } = {}
+): PricingResult {
+  const now = options.now ?? new Date();
+  const code = options.couponCode ? normalizeCouponCode(options.couponCode) : undefined;
+  const currency = options.currency ?? BASE_CURRENCY;
+
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const remaining = new Map(lines.map(line => [line.key, line.unitPrice * line.quantity]));
+
+  const candidates = promotions
+    .map(promotion => toCurrency(promotion, currency))
+    .filter(promotion => !promotion.code || promotion.code === code)
+    .sort((a, b) => TYPE_ORDER[a.type] - TYPE_ORDER[b.type]);
+
+  const discounts: AppliedPromotion[] = [];
+  let couponError: string | undefined;
+
+  if (code && !candidates.some(promotion => promotion.code === code)) {
+    couponError = `Coupon code "${code}" is not valid`;
+  }
+
+  for (const promotion of candidates) {
+    const blocker = getPromotionBlocker(promotion, subtotal, now, currency);
+    if (blocker) {
+      if (promotion.code) couponError = blocker;
+      continue;
+    }
+
+    const eligible = lines.filter(line => isLineEligible(promotion, line));
+    const perLine = computeLineDiscounts(promotion, eligible, remaining);
+
+    let amount = 0;
+    perLine.forEach((discount, key) => {
+      const capped = Math.min(discount, remaining.get(key) ?? 0);
+      remaining.set(key, (remaining.get(key) ?? 0) - capped);
+      amount += capped;
+    });
+
+    if (amount > 0) {
+      discounts.push({
+        promotionId: promotion.id,
+        code: promotion.code,
+        name: promotion.name,
+        amount,
+      });
+    } else if (promotion.code) {
+      couponError =
+        eligible.length === 0
+          ? 'This coupon does not apply to any item in your cart'
+          : 'Add more eligible items to use this coupon';
+    }
+  }
+
+  const discountTotal = discounts.reduce((sum, discount) => sum + discount.amount, 0);
+  const lineTotals: Record<string, number> = {};
+  remaining.forEach((total, key) => {
+    lineTotals[key] = total;
+  });
+
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    discountedSubtotal: subtotal - discountTotal,
+    lineTotals,
+    couponError,
+  };
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Why one shared function?
+ *    - The cart and checkout show a price, the order charges a price
+ *    - If they were computed by different code, they would drift apart
+ *    - The server always re-prices - the browser's numbers are a preview
+ *
+ * 2. Buy X Get Y:
+ *    - "Buy 2 get 1 free" = groups of 3 units, cheapest of each group free
+ *    - Units are sorted by price so the shop gives away the cheapest item
+ *
+ * 3. Rounding:
+ *    - All amounts are integer cents
+ *    - Percentages are rounded per line with Math.round
+ */
@@ -0,0 +1,139 @@
+import { Product, InventoryStatus, LocationAvailability } from '../types/product';
+import { getCurrencyLocale } from './currency-service';
+
+/**
+ * Product Display
+ *
+ * Turns product data into what the storefront shows: prices, discounts
+ * and stock messages.
+ *
+ * Educational Note: Client components import these, so this module must
+ * stay free of database, audit and webhook imports - anything it imports
+ * ends up in the browser bundle. products-service keeps the data access.
+ */
+
+/**
+ * Get Available Quantity
+ *
+ * Units that can still be bought: stock on hand minus units held for
+ * other shoppers' checkouts.
+ * Educational: quantity - reservedQuantity, never below zero
+ */
+export function getAvailableQuantity(product: Product): number {
+  const { quantity, reservedQuantity } = product.inventory;
+  return Math.max(quantity - reservedQuantity, 0);
+}
+
+/**
+ * Inventory Status at each Location
+ *
+ * Educational: On-hand units per location, each against its own
+ * threshold. Reservations aren't tied to a location, so they aren't
+ * subtracted here - the overall status already accounts for them.
+ */
+function getLocationAvailability(product: Product): LocationAvailability[] | undefined {
+  return product.inventory.locations?.map(location => {
+    const quantity = product.inventory.inStock ? location.quantity : 0;
+    const status: LocationAvailability['status'] =
+      quantity === 0 ? 'out-of-stock' : quantity <= location.lowStockThreshold ? 'low-stock' : 'in-stock';
+    const where = location.pickup ? `for pickup at ${location.name}` : `at ${location.name}`;
+
+    return {
+      locationId: location.locationId,
+      name: location.name,
+      pickup: location.pickup,
+      status,
+      message:
+        status === 'out-of-stock' ? `Not available ${where}`
+        : status === 'low-stock' ? `Only ${quantity} left ${where}`
+        : `Available ${where}`,
+      quantity,
+    };
+  });
+}
+
+/**
+ * Calculate Inventory Status
+ *
+ * Determines display message and availability based on inventory data
+ * Educational: This is business logic that transforms raw data into user-facing information.
+ * It works on the available quantity, so reserved units are not promised twice.
+ * For products stocked at several locations, the quantity is the sum over
+ * them, and the status of each location is listed as well.
+ */
+export function getInventoryStatus(product: Product): InventoryStatus {
+  const { lowStockThreshold, inStock, locations } = product.inventory;
+  const onHand = locations && locations.length > 0
+    ? locations.reduce((sum, location) => sum + location.quantity, 0)
+    : product.inventory.quantity;
+  const quantity = getAvailableQuantity({
+    ...product,
+    inventory: { ...product.inventory, quantity: onHand },
+  });
+  const perLocation = locations && locations.length > 0
+    ? { locations: getLocationAvailability(product) }
+    : {};
+
+  // Out of stock
+  if (!inStock || quantity === 0) {
+    return {
+      status: 'out-of-stock',
+      message: 'Out of Stock',
+      canOrder: false,
+      urgency: 'none',
+      ...perLocation,
+    };
+  }
+
+  // Low stock
+  if (quantity <= lowStockThreshold) {
+    return {
+      status: 'low-stock',
+      message: `Only ${quantity} left in stock`,
+      canOrder: true,
+      urgency: 'high',
+      ...perLocation,
+    };
+  }
+
+  // In stock
+  return {
+    status: 'in-stock',
+    message: 'In Stock',
+    canOrder: true,
+    urgency: 'none',
+    ...perLocation,
+  };
+}
+
+/**
+ * Format Price for Display
+ *
+ * Converts price from cents to formatted string, in the currency's own
+ * locale (e.g. "$1,234.56", "1.234,56 €", "£1,234.56")
+ * Educational: Utility function for consistent price formatting
+ */
+export function formatPrice(priceInCents: number, currency: string = 'USD'): string {
+  const dollars = priceInCents / 100;
+
+  return new Intl.NumberFormat(getCurrencyLocale(currency), {
+    style: 'currency',
+    currency,
+  }).format(dollars);
+}
+
+/**
+ * Calculate Discount Percentage
+ *
+ * Educational: Simple business calculation
+ */
+export function getDiscountPercentage(product: Product): number | null {
+  if (!product.originalPrice || product.originalPrice <= product.price) {
+    return null;
+  }
+
+  const discount =
+    ((product.originalPrice - product.price) / product.originalPrice) * 100;
+
+  return Math.round(discount);
+}
@@ -1,7 +1,17 @@
-import { Product, FilterParams, InventoryStatus } from '../types/product';
-import { PaginatedResponse } from '../types/api';
+import { randomUUID } from 'crypto';
+import { Product, ProductInput, InventoryInput, ProductStatus, ProductVariant, ProductVariantInput, FilterParams, LocationStock } from '../types/product';
+import { PaginatedResponse, SearchHighlight } from '../types/api';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../db';
-import { sortProducts } from './filter-service';
+import { validateProductInput } from './validation-service';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { getDescendantSlugs } from './categories-service';
+import { CursorKeyType, CursorPayload, encodeCursor, decodeCursor } from './pagination-service';
+import { searchProductIndex, getMatchingProductIds } from './search-service';
+import { recordRevision, getRevision, toSnapshot, UNKNOWN_AUTHOR } from './revisions-service';
+import { deliverWebhooksSoon, enqueueWebhookEvent } from './webhooks-service';
+import { recordAuditEvent } from './audit-service';
+import { applyProductStockEdit } from './stock-movements-service';
 
 /**
  * Products Service - Database Version
@@ -18,11 +28,88 @@ import { sortProducts } from './filter-service';
  * - Services use Prisma to access database
  */
 
+/**
+ * Relations loaded with every product
+ *
+ * Educational: This is a JOIN - Prisma fetches the product's variants in the
+ * same round of queries, in their display order, and the stock each
+ * location holds of them.
+ */
+const PRODUCT_INCLUDE = {
+  variants: { orderBy: { position: 'asc' } },
+  inventoryLevels: { include: { location: true } },
+} satisfies Prisma.ProductInclude;
+
+/**
+ * Helper function to turn inventory levels into per-location stock
+ *
+ * With a variant id, that variant's levels; without, every level of the
+ * product - its own, or for products with variants the sums over them.
+ * Locations come in priority order.
+ */
+function transformDbLevels(dbLevels: any[] | undefined, variantId?: string): LocationStock[] | undefined {
+  if (!dbLevels) return undefined;
+
+  const byLocation = new Map<string, { stock: LocationStock; priority: number; createdAt: Date }>();
+  for (const level of dbLevels) {
+    if (variantId !== undefined && level.variantId !== variantId) continue;
+
+    const entry = byLocation.get(level.locationId);
+    if (entry) {
+      entry.stock.quantity += level.quantity;
+      entry.stock.lowStockThreshold += level.lowStockThreshold;
+    } else {
+      byLocation.set(level.locationId, {
+        stock: {
+          locationId: level.locationId,
+          name: level.location.name,
+          type: level.location.type,
+          pickup: level.location.pickup,
+          quantity: level.quantity,
+          lowStockThreshold: level.lowStockThreshold,
+        },
+        priority: level.location.priority,
+        createdAt: level.location.createdAt,
+      });
+    }
+  }
+
+  return Array.from(byLocation.values())
+    .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime())
+    .map(entry => entry.stock);
+}
+
+/**
+ * Helper function to transform a database variant to ProductVariant type
+ */
+function transformDbVariant(dbVariant: any, dbLevels?: any[]): ProductVariant {
+  return {
+    id: dbVariant.id,
+    sku: dbVariant.sku,
+    options: JSON.parse(dbVariant.options),
+    price: dbVariant.price,
+    originalPrice: dbVariant.originalPrice ?? undefined,
+    inventory: {
+      inStock: dbVariant.inStock,
+      quantity: dbVariant.quantity,
+      lowStockThreshold: dbVariant.lowStockThreshold,
+      reservedQuantity: dbVariant.reservedQuantity,
+      locations: transformDbLevels(dbLevels, dbVariant.id),
+    },
+    images: JSON.parse(dbVariant.images),
+  };
+}
+
 /**
  * Helper function to transform database product to Product type
  * Parses JSON fields stored in the database
  */
 function transformDbProduct(dbProduct: any): Product {
+  const variants: ProductVariant[] = (dbProduct.variants ?? []).map(
+    (dbVariant: any) => transformDbVariant(dbVariant, dbProduct.inventoryLevels)
+  );
+  const prices = variants.length > 0 ? variants.map(v => v.price) : [dbProduct.price];
+
   return {
     id: dbProduct.id,
     slug: dbProduct.slug,
@@ -41,6 +128,7 @@ function transformDbProduct(dbProduct: any): Product {
       quantity: dbProduct.quantity,
       lowStockThreshold: dbProduct.lowStockThreshold,
       reservedQuantity: dbProduct.reservedQuantity,
+      locations: transformDbLevels(dbProduct.inventoryLevels),
     },
     images: JSON.parse(dbProduct.images),
     featured: dbProduct.featured,
@@ -52,44 +140,303 @@ function transformDbProduct(dbProduct: any): Product {
         }
       : undefined,
     attributes: JSON.parse(dbProduct.attributes),
+    options: JSON.parse(dbProduct.options ?? '[]'),
+    variants,
+    priceRange: {
+      min: Math.min(...prices),
+      max: Math.max(...prices),
+    },
+    status: dbProduct.status,
     createdAt: dbProduct.createdAt,
     updatedAt: dbProduct.updatedAt,
-    publishedAt: dbProduct.publishedAt,
+    publishedAt: dbProduct.publishedAt ?? undefined,
   };
 }
 
 /**
- * Get Products with Filters, Sorting, and Pagination
+ * Helper function to transform a Product into database columns
  *
- * This is the main product listing function using database queries.
+ * The inverse of transformDbProduct: nested inventory is flattened and
+ * tags/images/attributes are serialized into their JSON string columns.
+ * Identity and timestamps are left to the caller; reservedQuantity is
+ * never written here (see holdStock in inventory-service).
+ */
+function toDbProductData(product: ProductInput) {
+  return {
+    slug: product.slug,
+    sku: product.sku,
+    name: product.name,
+    description: product.description,
+    longDescription: product.longDescription ?? null,
+    price: product.price,
+    originalPrice: product.originalPrice ?? null,
+    currency: product.currency,
+    category: product.category,
+    subcategory: product.subcategory ?? null,
+    tags: JSON.stringify(product.tags),
+    inStock: product.inventory.inStock,
+    quantity: product.inventory.quantity,
+    lowStockThreshold: product.inventory.lowStockThreshold,
+    images: JSON.stringify(product.images),
+    featured: product.featured,
+    isNew: product.isNew,
+    attributes: JSON.stringify(product.attributes),
+    options: JSON.stringify(product.options ?? []),
+    status: product.status,
+    publishedAt: product.publishedAt ?? null,
+  };
+}
+
+/**
+ * Helper function to transform a variant into database columns
+ */
+function toDbVariantData(variant: ProductVariantInput, position: number) {
+  return {
+    sku: variant.sku,
+    options: JSON.stringify(variant.options),
+    price: variant.price,
+    originalPrice: variant.originalPrice ?? null,
+    inStock: variant.inventory.inStock,
+    quantity: variant.inventory.quantity,
+    lowStockThreshold: variant.inventory.lowStockThreshold,
+    images: JSON.stringify(variant.images),
+    position,
+  };
+}
+
+/**
+ * Derive product-level price and stock from the variants
  *
- * Educational Flow:
- * 1. Build WHERE clauses from filters
- * 2. Execute database query with filters
- * 3. Apply sorting (can be done in DB or in memory)
- * 4. Apply pagination with LIMIT and OFFSET
- * 5. Return formatted response with metadata
+ * Educational: Listings, filters and sorting all work on Product columns.
+ * Keeping "from" price and total stock on the product row means they keep
+ * working for products with variants, without joining every query.
  */
-export async function getProducts(
-  filters: FilterParams = {}
-): Promise<PaginatedResponse<Product>> {
-  // Build where clause for Prisma
-  const where: any = {};
+function withVariantTotals(product: ProductInput): ProductInput {
+  const variants = product.variants ?? [];
+  if (variants.length === 0) {
+    return product;
+  }
+
+  const cheapest = variants.reduce((min, v) => (v.price < min.price ? v : min));
+
+  return {
+    ...product,
+    price: cheapest.price,
+    originalPrice: cheapest.originalPrice,
+    inventory: {
+      ...product.inventory,
+      inStock: variants.some(v => v.inventory.inStock),
+      quantity: variants.reduce((sum, v) => sum + v.inventory.quantity, 0),
+    },
+  };
+}
+
+/**
+ * Statuses that go live once their publishedAt has passed
+ */
+const LIVE_STATUSES: ProductStatus[] = ['published', 'scheduled'];
+
+/**
+ * Visibility Options
+ *
+ * Shopper-facing reads only return live products. Admin tools (and
+ * previews) pass includeUnpublished to see drafts and archived products too.
+ */
+export interface VisibilityOptions {
+  includeUnpublished?: boolean;
+}
+
+/**
+ * WHERE condition for products shoppers may see
+ *
+ * Educational: A scheduled product needs no job to publish it - from its
+ * publishedAt on, this condition simply starts matching it.
+ */
+export function buildVisibleWhere(): Prisma.ProductWhereInput {
+  return {
+    status: { in: LIVE_STATUSES },
+    publishedAt: { lte: new Date() },
+  };
+}
+
+/**
+ * Can shoppers see this product right now?
+ *
+ * Same rule as buildVisibleWhere, for rows that are already loaded.
+ */
+export function isPubliclyVisible(product: {
+  status: string;
+  publishedAt?: Date | null;
+}): boolean {
+  return (
+    LIVE_STATUSES.includes(product.status as ProductStatus) &&
+    !!product.publishedAt &&
+    product.publishedAt.getTime() <= Date.now()
+  );
+}
+
+/**
+ * Sort Keys
+ *
+ * The column and direction behind each sortBy option. Both the ORDER BY and
+ * the cursor conditions are derived from this table, so they cannot drift
+ * apart.
+ */
+type SortField = 'price' | 'name' | 'createdAt' | 'ratingAverage' | 'id';
+
+interface SortKey {
+  field: SortField;
+  direction: 'asc' | 'desc';
+  nullable?: boolean;                   // NULLs sort last
+  keyType: CursorKeyType['type'];       // Type of the field's value in a cursor
+}
+
+const SORT_KEYS: Record<NonNullable<FilterParams['sortBy']> | 'default', SortKey> = {
+  'price-asc': { field: 'price', direction: 'asc', keyType: 'number' },
+  'price-desc': { field: 'price', direction: 'desc', keyType: 'number' },
+  name: { field: 'name', direction: 'asc', keyType: 'string' },
+  newest: { field: 'createdAt', direction: 'desc', keyType: 'date' },
+  rating: { field: 'ratingAverage', direction: 'desc', nullable: true, keyType: 'number' },
+  default: { field: 'id', direction: 'asc', keyType: 'string' },
+};
+
+function flip(direction: 'asc' | 'desc'): 'asc' | 'desc' {
+  return direction === 'asc' ? 'desc' : 'asc';
+}
+
+/**
+ * Translate a sort key into a Prisma orderBy
+ *
+ * Educational: Every ordering ends with the id as a tie-breaker. Without it,
+ * products with the same price could come back in a different order on
+ * every query - and appear on two pages, or on none.
+ *
+ * With reverse = true the whole ordering is flipped; used to read the page
+ * BEFORE a cursor (the rows are flipped back afterwards).
+ */
+function buildProductOrderBy(
+  sortKey: SortKey,
+  reverse: boolean = false
+): Prisma.ProductOrderByWithRelationInput[] {
+  const direction = reverse ? flip(sortKey.direction) : sortKey.direction;
+  const idDirection = reverse ? 'desc' : 'asc';
+
+  if (sortKey.field === 'id') {
+    return [{ id: idDirection }];
+  }
+
+  const primary: Prisma.ProductOrderByWithRelationInput = sortKey.nullable
+    // Unrated products go last, not first (SQLite sorts NULL as smallest)
+    ? { [sortKey.field]: { sort: direction, nulls: reverse ? 'first' : 'last' } }
+    : { [sortKey.field]: direction };
+
+  return [primary, { id: idDirection }];
+}
+
+/**
+ * Build the WHERE condition for "rows after this cursor"
+ *
+ * Educational: This is keyset pagination. For sortBy=price-asc, the rows
+ * after (price 2999, id prod_042) are:
+ *
+ *   WHERE price > 2999 OR (price = 2999 AND id > 'prod_042')
+ *
+ * Reading backwards (prev) flips both comparisons.
+ */
+function buildCursorWhere(sortKey: SortKey, cursor: CursorPayload): Prisma.ProductWhereInput {
+  const forward = cursor.direction === 'next';
+  const idCondition = { id: forward ? { gt: cursor.id } : { lt: cursor.id } };
+
+  if (sortKey.field === 'id') {
+    return idCondition;
+  }
+
+  const field = sortKey.field;
+  const key = field === 'createdAt' && cursor.key !== null
+    ? new Date(cursor.key)
+    : cursor.key;
+
+  // NULL keys (unrated products) sit at the end of the forward order
+  if (key === null) {
+    return forward
+      ? { [field]: null, ...idCondition }
+      : { OR: [{ [field]: { not: null } }, { [field]: null, ...idCondition }] };
+  }
+
+  const direction = forward ? sortKey.direction : flip(sortKey.direction);
+  const conditions: Prisma.ProductWhereInput[] = [
+    { [field]: direction === 'asc' ? { gt: key } : { lt: key } },
+    { [field]: key, ...idCondition },
+  ];
+  if (sortKey.nullable && forward) {
+    conditions.push({ [field]: null });
+  }
+
+  return { OR: conditions };
+}
+
+/**
+ * Create a cursor pointing at a product row
+ */
+function toCursor(
+  sortBy: string,
+  sortKey: SortKey,
+  dbProduct: any,
+  direction: CursorPayload['direction']
+): string {
+  const value = dbProduct[sortKey.field];
+  return encodeCursor({
+    sort: sortBy,
+    key: value instanceof Date ? value.toISOString() : value ?? null,
+    id: dbProduct.id,
+    direction,
+  });
+}
+
+/**
+ * Get the ids of products having at least one of the given tags
+ *
+ * Educational: Tags are stored as a JSON array string. SQLite's json_each()
+ * turns that array into rows, so the database can filter on it:
+ *
+ *   SELECT DISTINCT p.id FROM Product p, json_each(p.tags) t
+ *   WHERE t.value IN ('wireless', 'audio')
+ */
+async function getProductIdsWithTags(tags: string[]): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT DISTINCT "Product"."id"
+    FROM "Product", json_each("Product"."tags") AS "tag"
+    WHERE "tag"."value" IN (${Prisma.join(tags)})`;
+
+  return rows.map(row => row.id);
+}
+
+/**
+ * Build the Prisma WHERE clause for product listings
+ */
+async function buildProductWhere(
+  filters: FilterParams,
+  options: VisibilityOptions = {}
+): Promise<Prisma.ProductWhereInput> {
+  const where: Prisma.ProductWhereInput = options.includeUnpublished ? {} : buildVisibleWhere();
+  // Id restrictions from tags and search - a product must satisfy all of them
+  const idFilters: Prisma.ProductWhereInput[] = [];
 
   // Category filter
+  // Educational: With includeSubcategories, filtering by "fashion" also
+  // matches products in its subcategories - WHERE category IN (...)
   if (filters.category) {
-    where.category = filters.category;
+    where.category = filters.includeSubcategories
+      ? { in: await getDescendantSlugs(filters.category) }
+      : filters.category;
   }
 
   // Price range filter
   if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-    where.price = {};
-    if (filters.minPrice !== undefined) {
-      where.price.gte = filters.minPrice;
-    }
-    if (filters.maxPrice !== undefined) {
-      where.price.lte = filters.maxPrice;
-    }
+    where.price = {
+      gte: filters.minPrice,
+      lte: filters.maxPrice,
+    };
   }
 
   // In stock filter
@@ -99,29 +446,118 @@ export async function getProducts(
 
   // Tags filter (OR logic - product has at least one of the tags)
   if (filters.tags && filters.tags.length > 0) {
-    // Since tags are stored as JSON, we need to filter in memory after fetching
-    // For now, we'll fetch all matching other filters and filter tags in memory
+    idFilters.push({ id: { in: await getProductIdsWithTags(filters.tags) } });
   }
 
   // Search filter
+  // Educational: The full-text index finds the matching ids, then they are
+  // combined with the other filters - WHERE id IN (...)
   if (filters.search) {
-    // Full-text search across name and description
-    // Note: SQLite searches are case-insensitive by default with LIKE
-    where.OR = [
-      { name: { contains: filters.search } },
-      { description: { contains: filters.search } },
-    ];
+    idFilters.push({ id: { in: await getMatchingProductIds(filters.search) } });
   }
 
-  // Pagination
-  const page = filters.page || 1;
+  if (idFilters.length > 0) {
+    where.AND = idFilters;
+  }
+
+  return where;
+}
+
+/**
+ * Get Products with Filters, Sorting, and Pagination
+ *
+ * This is the main product listing function using database queries.
+ *
+ * Educational Flow:
+ * 1. Build WHERE clauses from filters (including tags and search)
+ * 2. Translate sortBy into ORDER BY
+ * 3. Apply pagination - either a page (LIMIT and OFFSET) or a cursor
+ *    (keyset: WHERE sort key > cursor's key, then LIMIT)
+ * 4. Count matching rows with the SAME WHERE clause
+ * 5. Return formatted response with metadata, including cursors for the
+ *    next and previous pages
+ *
+ * Educational Note: Filtering, sorting and counting must all happen in the
+ * database, before LIMIT/OFFSET. Sorting only the 12 rows of the current
+ * page would give page 2 cheaper items than page 1.
+ *
+ * Only live products are listed unless options.includeUnpublished is set.
+ *
+ * Throws INVALID_CURSOR (400) if the cursor is malformed or was created
+ * for a different sortBy.
+ */
+export async function getProducts(
+  filters: FilterParams = {},
+  options: VisibilityOptions = {}
+): Promise<PaginatedResponse<Product>> {
+  const where = await buildProductWhere(filters, options);
+  const sortBy = filters.sortBy || 'default';
+  const sortKey = SORT_KEYS[sortBy] ?? SORT_KEYS.default;
+
   const limit = Math.min(filters.limit || 12, 100); // Max 100 items per page
+
+  let cursor: CursorPayload | null = null;
+  if (filters.cursor) {
+    cursor = decodeCursor(filters.cursor, { type: sortKey.keyType, nullable: sortKey.nullable });
+    if (!cursor || cursor.sort !== sortBy) {
+      throw new ServiceError(
+        'Invalid cursor for this listing. Restart from the first page.',
+        'INVALID_CURSOR',
+        400
+      );
+    }
+  }
+
+  // Cursor mode: fetch one extra row to learn whether more rows follow
+  if (cursor) {
+    const forward = cursor.direction === 'next';
+
+    const [dbRows, total] = await Promise.all([
+      prisma.product.findMany({
+        include: PRODUCT_INCLUDE,
+        where: { AND: [where, buildCursorWhere(sortKey, cursor)] },
+        orderBy: buildProductOrderBy(sortKey, !forward),
+        take: limit + 1,
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    const hasMore = dbRows.length > limit;
+    const pageRows = dbRows.slice(0, limit);
+    if (!forward) pageRows.reverse();
+
+    const hasNext = forward ? hasMore : true;
+    const hasPrev = forward ? true : hasMore;
+
+    return {
+      data: pageRows.map(transformDbProduct),
+      pagination: {
+        page: 0,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: hasNext && pageRows.length > 0,
+        hasPrev: hasPrev && pageRows.length > 0,
+        nextCursor: hasNext && pageRows.length > 0
+          ? toCursor(sortBy, sortKey, pageRows[pageRows.length - 1], 'next')
+          : null,
+        prevCursor: hasPrev && pageRows.length > 0
+          ? toCursor(sortBy, sortKey, pageRows[0], 'prev')
+          : null,
+      },
+    };
+  }
+
+  // Page mode
+  const page = filters.page || 1;
   const skip = (page - 1) * limit;
 
   // Fetch products from database
   const [dbProducts, total] = await Promise.all([
     prisma.product.findMany({
+      include: PRODUCT_INCLUDE,
       where,
+      orderBy: buildProductOrderBy(sortKey),
       skip,
       take: limit,
     }),
@@ -129,68 +565,136 @@ export async function getProducts(
   ]);
 
   // Transform database products to Product type
-  let results = dbProducts.map(transformDbProduct);
-
-  // Apply tags filter in memory (since tags are JSON)
-  if (filters.tags && filters.tags.length > 0) {
-    results = results.filter(product =>
-      filters.tags!.some(tag => product.tags.includes(tag))
-    );
-  }
-
-  // Apply sorting
-  results = sortProducts(results, filters.sortBy);
+  const results = dbProducts.map(transformDbProduct);
 
   // Calculate pagination metadata
   const totalPages = Math.ceil(total / limit);
+  const hasNext = page < totalPages;
+  const hasPrev = page > 1;
 
+  // Cursors let a client switch to cursor mode from any page (infinite scroll)
   return {
-    success: true,
     data: results,
     pagination: {
       page,
       limit,
       total,
       totalPages,
-      hasNext: page < totalPages,
-      hasPrev: page > 1,
+      hasNext,
+      hasPrev,
+      nextCursor: hasNext && dbProducts.length > 0
+        ? toCursor(sortBy, sortKey, dbProducts[dbProducts.length - 1], 'next')
+        : null,
+      prevCursor: hasPrev && dbProducts.length > 0
+        ? toCursor(sortBy, sortKey, dbProducts[0], 'prev')
+        : null,
     },
-    timestamp: new Date().toISOString(),
   };
 }
 
+/**
+ * Attribute names used by the products matching some filters, sorted
+ *
+ * Educational: Only the attributes column is read. The CSV export needs
+ * every name up front for its header row, before it streams the products.
+ */
+export async function getProductAttributeKeys(
+  filters: FilterParams = {},
+  options: VisibilityOptions = {}
+): Promise<string[]> {
+  const rows = await prisma.product.findMany({
+    where: await buildProductWhere(filters, options),
+    select: { attributes: true },
+  });
+
+  const keys = new Set<string>();
+  rows.forEach(row => Object.keys(JSON.parse(row.attributes)).forEach(key => keys.add(key)));
+  return Array.from(keys).sort();
+}
+
 /**
  * Get Single Product by ID
  *
+ * Returns the product whatever its status - callers showing it to
+ * shoppers check isPubliclyVisible().
+ *
  * Educational: This is like SELECT * FROM products WHERE id = ?
  */
 export async function getProduct(id: string): Promise<Product | null> {
   const dbProduct = await prisma.product.findUnique({
     where: { id },
+    include: PRODUCT_INCLUDE,
   });
 
   return dbProduct ? transformDbProduct(dbProduct) : null;
 }
 
+/**
+ * Get Live Products by ID
+ *
+ * Products that don't exist or aren't published are left out - the cart
+ * uses this to drop lines shoppers can no longer buy.
+ */
+export async function getProductsByIds(ids: string[]): Promise<Product[]> {
+  const dbProducts = await prisma.product.findMany({
+    where: { id: { in: ids }, ...buildVisibleWhere() },
+    include: PRODUCT_INCLUDE,
+  });
+  return dbProducts.map(transformDbProduct);
+}
+
+/**
+ * Get Products by SKU
+ *
+ * Returns a map from SKU to product for the SKUs that exist (product SKUs
+ * only - variant SKUs are not matched). Used by the bulk import to decide
+ * between update and create.
+ */
+export async function getProductsBySku(skus: string[]): Promise<Map<string, Product>> {
+  const dbProducts = await prisma.product.findMany({
+    where: { sku: { in: skus } },
+    include: PRODUCT_INCLUDE,
+  });
+
+  return new Map(dbProducts.map(dbProduct => [dbProduct.sku, transformDbProduct(dbProduct)]));
+}
+
 /**
  * Get Single Product by Slug
  *
- * Used for product detail pages with SEO-friendly URLs
+ * Used for product detail pages with SEO-friendly URLs. Unpublished
+ * products are treated as missing unless options.includeUnpublished is set.
  * Educational: Slugs are URL-friendly identifiers
  */
-export async function getProductBySlugService(slug: string): Promise<Product | null> {
+export async function getProductBySlugService(
+  slug: string,
+  options: VisibilityOptions = {}
+): Promise<Product | null> {
   const dbProduct = await prisma.product.findUnique({
     where: { slug },
+    include: PRODUCT_INCLUDE,
   });
 
-  return dbProduct ? transformDbProduct(dbProduct) : null;
+  if (!dbProduct || (!options.includeUnpublished && !isPubliclyVisible(dbProduct))) {
+    return null;
+  }
+  return transformDbProduct(dbProduct);
 }
 
 /**
  * Search Products
  *
- * Full-text search with relevance ranking
- * Educational: Uses database LIKE queries for search
+ * Full-text search with BM25 relevance ranking, prefix matching and
+ * "quoted phrases", using the SQLite FTS5 index (see search-service.ts).
+ *
+ * Educational Flow:
+ * 1. Ask the index for the best matches (ids, scores, highlights)
+ * 2. Load those products from the Product table
+ * 3. Return them in relevance order - the database returns IN (...) rows
+ *    in its own order, so the ranking is restored afterwards
+ *
+ * Unpublished products are left out in step 1, before the limit is
+ * applied, so they can't crowd published matches out of the results.
  */
 export async function performSearch(
   query: string,
@@ -199,27 +703,39 @@ export async function performSearch(
   results: Product[];
   query: string;
   count: number;
+  highlights: Record<string, SearchHighlight>;
 }> {
-  // Search in name, description, and tags
-  // Note: SQLite searches are case-insensitive by default with LIKE
+  const matches = await searchProductIndex(query, limit, {
+    statuses: LIVE_STATUSES,
+    publishedBefore: new Date(),
+  });
+
   const dbProducts = await prisma.product.findMany({
-    where: {
-      OR: [
-        { name: { contains: query } },
-        { description: { contains: query } },
-        { longDescription: { contains: query } },
-        { tags: { contains: query } },
-      ],
-    },
-    take: limit,
+    include: PRODUCT_INCLUDE,
+    where: { id: { in: matches.map(match => match.productId) }, ...buildVisibleWhere() },
   });
+  const productsById = new Map(dbProducts.map(p => [p.id, p]));
 
-  const results = dbProducts.map(transformDbProduct);
+  const results: Product[] = [];
+  const highlights: Record<string, SearchHighlight> = {};
+
+  for (const match of matches) {
+    const dbProduct = productsById.get(match.productId);
+    if (!dbProduct) continue;
+
+    results.push(transformDbProduct(dbProduct));
+    highlights[match.productId] = {
+      name: match.nameHighlight,
+      snippet: match.snippet,
+      score: match.score,
+    };
+  }
 
   return {
     results,
     query,
     count: results.length,
+    highlights,
   };
 }
 
@@ -231,7 +747,8 @@ export async function performSearch(
  */
 export async function getFeaturedProducts(limit: number = 8): Promise<Product[]> {
   const dbProducts = await prisma.product.findMany({
-    where: { featured: true },
+    include: PRODUCT_INCLUDE,
+    where: { featured: true, ...buildVisibleWhere() },
     take: limit,
   });
 
@@ -246,7 +763,8 @@ export async function getFeaturedProducts(limit: number = 8): Promise<Product[]>
  */
 export async function getNewArrivals(limit: number = 12): Promise<Product[]> {
   const dbProducts = await prisma.product.findMany({
-    where: { isNew: true },
+    include: PRODUCT_INCLUDE,
+    where: { isNew: true, ...buildVisibleWhere() },
     orderBy: { createdAt: 'desc' },
     take: limit,
   });
@@ -261,11 +779,12 @@ export async function getNewArrivals(limit: number = 12): Promise<Product[]> {
  */
 export async function getProductsByCategory(
   category: string,
-  filters: FilterParams = {}
+  filters: FilterParams = {},
+  options: VisibilityOptions = {}
 ): Promise<PaginatedResponse<Product>> {
   // Add category to filters
   const categoryFilters = { ...filters, category };
-  return getProducts(categoryFilters);
+  return getProducts(categoryFilters, options);
 }
 
 /**
@@ -276,8 +795,10 @@ export async function getProductsByCategory(
  */
 export async function getProductsOnSale(limit: number = 12): Promise<Product[]> {
   const dbProducts = await prisma.product.findMany({
+    include: PRODUCT_INCLUDE,
     where: {
       NOT: { originalPrice: null },
+      ...buildVisibleWhere(),
     },
     take: limit,
   });
@@ -299,6 +820,7 @@ export async function getProductsOnSale(limit: number = 12): Promise<Product[]>
  */
 export async function getLowStockProducts(): Promise<Product[]> {
   const dbProducts = await prisma.product.findMany({
+    include: PRODUCT_INCLUDE,
     where: { inStock: true },
   });
 
@@ -315,6 +837,7 @@ export async function getLowStockProducts(): Promise<Product[]> {
  */
 export async function getOutOfStockProducts(): Promise<Product[]> {
   const dbProducts = await prisma.product.findMany({
+    include: PRODUCT_INCLUDE,
     where: {
       OR: [{ inStock: false }, { quantity: 0 }],
     },
@@ -324,43 +847,499 @@ export async function getOutOfStockProducts(): Promise<Product[]> {
 }
 
 /**
- * Calculate Inventory Status
+ * Validate input and make sure the referenced category exists
  *
- * Determines display message and availability based on inventory data
- * Educational: This is business logic that transforms raw data into user-facing information
+ * Throws a 400 ServiceError listing every invalid field.
  */
-export function getInventoryStatus(product: Product): InventoryStatus {
-  const { quantity, lowStockThreshold, inStock } = product.inventory;
+async function validateForWrite(input: unknown): Promise<ProductInput> {
+  const { product, errors } = validateProductInput(input);
 
-  // Out of stock
-  if (!inStock || quantity === 0) {
-    return {
-      status: 'out-of-stock',
-      message: 'Out of Stock',
-      canOrder: false,
-      urgency: 'none',
-    };
+  if (product) {
+    const category = await prisma.category.findUnique({
+      where: { slug: product.category },
+    });
+    if (!category) {
+      errors.push({
+        field: 'category',
+        message: `Category "${product.category}" does not exist`,
+      });
+    }
   }
 
-  // Low stock
-  if (quantity <= lowStockThreshold) {
-    return {
-      status: 'low-stock',
-      message: `Only ${quantity} left in stock`,
-      canOrder: true,
-      urgency: 'high',
+  if (!product || errors.length > 0) {
+    throw new ServiceError('Product validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  return withVariantTotals(product);
+}
+
+/**
+ * Enforce unique slug and SKU
+ *
+ * Educational: The database has UNIQUE indexes on both columns, but checking
+ * first lets us tell the client exactly which field clashed (409 Conflict).
+ * SKUs are shared between products and variants: a warehouse scanning a
+ * barcode must find exactly one thing.
+ */
+async function assertUniqueSlugAndSku(product: ProductInput, excludeId?: string) {
+  const variantSkus = (product.variants ?? []).map(v => v.sku);
+  const allSkus = [product.sku, ...variantSkus];
+
+  const existing = await prisma.product.findFirst({
+    where: {
+      OR: [{ slug: product.slug }, { sku: { in: allSkus } }],
+      ...(excludeId ? { NOT: { id: excludeId } } : {}),
+    },
+  });
+
+  if (existing) {
+    const field = existing.slug === product.slug ? 'slug' : 'sku';
+    const value = field === 'slug' ? product.slug : existing.sku;
+    throw new ServiceError(
+      `A product with ${field} "${value}" already exists`,
+      'CONFLICT',
+      409,
+      { field, conflictingId: existing.id }
+    );
+  }
+
+  const existingVariant = await prisma.productVariant.findFirst({
+    where: {
+      sku: { in: allSkus },
+      ...(excludeId ? { NOT: { productId: excludeId } } : {}),
+    },
+  });
+
+  if (existingVariant) {
+    throw new ServiceError(
+      `A product variant with sku "${existingVariant.sku}" already exists`,
+      'CONFLICT',
+      409,
+      { field: 'sku', conflictingId: existingVariant.productId }
+    );
+  }
+}
+
+/**
+ * Validate a product for a write
+ *
+ * Field validation, the category check and the slug/SKU uniqueness check,
+ * for a new product or for an overwrite of product `id`. Throws a
+ * ServiceError (400 VALIDATION_ERROR or 409 CONFLICT).
+ *
+ * Exported for the bulk import, which validates every row before writing.
+ */
+export async function prepareProductWrite(input: unknown, id?: string): Promise<ProductInput> {
+  const product = await validateForWrite(input);
+  await assertUniqueSlugAndSku(product, id);
+  return product;
+}
+
+/**
+ * Read a product back inside a transaction, e.g. after its location stock changed
+ */
+async function reloadProduct(tx: Prisma.TransactionClient, id: string): Promise<Product> {
+  return transformDbProduct(
+    await tx.product.findUniqueOrThrow({ where: { id }, include: PRODUCT_INCLUDE })
+  );
+}
+
+/**
+ * Insert a validated product inside a transaction
+ *
+ * Inserts the product and its variants, bumps the category's productCount,
+ * records revision 1, puts the opening stock in the default location and
+ * queues the product.created webhook.
+ */
+export async function insertProduct(
+  tx: Prisma.TransactionClient,
+  product: ProductInput,
+  author: string
+): Promise<Product> {
+  let created = transformDbProduct(
+    await tx.product.create({
+      data: {
+        id: product.id ?? `prod_${randomUUID()}`,
+        ...toDbProductData(product),
+        variants: {
+          create: (product.variants ?? []).map((variant, position) => ({
+            id: variant.id ?? `var_${randomUUID()}`,
+            ...toDbVariantData(variant, position),
+          })),
+        },
+      },
+      include: PRODUCT_INCLUDE,
+    })
+  );
+  await tx.category.update({
+    where: { slug: product.category },
+    data: { productCount: { increment: 1 } },
+  });
+  if (await applyProductStockEdit(tx, null, created)) {
+    created = await reloadProduct(tx, created.id);
+  }
+  await recordRevision(tx, created, 'create', author);
+  await recordAuditEvent(tx, {
+    action: 'product.create',
+    entityType: 'product',
+    entityId: created.id,
+    after: toSnapshot(created),
+  });
+  await enqueueWebhookEvent(tx, 'product.created', { product: created });
+
+  return created;
+}
+
+/**
+ * Keep the stock a write didn't change
+ *
+ * A PATCH, restore or import row is built from `base`, read before the
+ * transaction - a sale or a delivery may have changed the stock since.
+ * Where the input still has the base's quantity or inStock, the request
+ * didn't set it, and the value read inside the transaction (`current`)
+ * is kept instead of the stale one.
+ */
+function keepUnchangedStock(product: ProductInput, base: Product, current: Product): ProductInput {
+  const keep = (
+    inventory: InventoryInput,
+    from?: Product['inventory'],
+    now?: Product['inventory']
+  ): InventoryInput =>
+    from && now
+      ? {
+          ...inventory,
+          quantity: inventory.quantity === from.quantity ? now.quantity : inventory.quantity,
+          inStock: inventory.inStock === from.inStock ? now.inStock : inventory.inStock,
+        }
+      : inventory;
+
+  const baseVariants = new Map((base.variants ?? []).map(v => [v.id, v]));
+  const currentVariants = new Map((current.variants ?? []).map(v => [v.id, v]));
+
+  return withVariantTotals({
+    ...product,
+    inventory: keep(product.inventory, base.inventory, current.inventory),
+    variants: product.variants?.map(variant =>
+      variant.id
+        ? {
+            ...variant,
+            inventory: keep(
+              variant.inventory,
+              baseVariants.get(variant.id)?.inventory,
+              currentVariants.get(variant.id)?.inventory
+            ),
+          }
+        : variant
+    ),
+  });
+}
+
+/**
+ * Overwrite an existing product with a validated one, inside a transaction
+ *
+ * Keeps the category counts in sync, syncs the variants, records the
+ * revision and any stock change, and queues the product.updated webhook.
+ *
+ * @param base - The product the input was built from, if any; stock the
+ *   input leaves as it was in base is not written (see keepUnchangedStock)
+ */
+export async function overwriteProduct(
+  tx: Prisma.TransactionClient,
+  id: string,
+  input: ProductInput,
+  author: string,
+  action: 'update' | 'restore' = 'update',
+  base?: Product
+): Promise<Product> {
+  const existing = await tx.product.findUnique({ where: { id }, include: PRODUCT_INCLUDE });
+  if (!existing) {
+    throw new ServiceError(`Product with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+  const previous = transformDbProduct(existing);
+  const product = base ? keepUnchangedStock(input, base, previous) : input;
+
+  // Keep the denormalized category counts in sync when a product moves
+  if (existing.category !== product.category) {
+    await tx.category.update({
+      where: { slug: existing.category },
+      data: { productCount: { decrement: 1 } },
+    });
+    await tx.category.update({
+      where: { slug: product.category },
+      data: { productCount: { increment: 1 } },
+    });
+  }
+
+  // Sync variants: delete the dropped ones, update or create the rest
+  const variants = product.variants ?? [];
+  const existingIds = new Set(existing.variants.map(variant => variant.id));
+  await tx.productVariant.deleteMany({
+    where: {
+      productId: id,
+      id: { notIn: variants.filter(v => v.id).map(v => v.id!) },
+    },
+  });
+  for (let position = 0; position < variants.length; position++) {
+    const variant = variants[position];
+    const data = toDbVariantData(variant, position);
+    if (variant.id && existingIds.has(variant.id)) {
+      await tx.productVariant.update({ where: { id: variant.id }, data });
+    } else {
+      await tx.productVariant.create({
+        data: { id: variant.id ?? `var_${randomUUID()}`, productId: id, ...data },
+      });
+    }
+  }
+
+  let saved = transformDbProduct(
+    await tx.product.update({
+      where: { id },
+      data: toDbProductData(product),
+      include: PRODUCT_INCLUDE,
+    })
+  );
+  if (await applyProductStockEdit(tx, previous, saved)) {
+    saved = await reloadProduct(tx, id);
+  }
+  await recordRevision(tx, saved, action, author, previous);
+  await recordAuditEvent(tx, {
+    action: `product.${action}`,
+    entityType: 'product',
+    entityId: id,
+    before: toSnapshot(previous),
+    after: toSnapshot(saved),
+  });
+  await enqueueWebhookEvent(tx, 'product.updated', { product: saved });
+
+  return saved;
+}
+
+/**
+ * Create Product
+ *
+ * Validates the input, then inserts the product, bumps the category's
+ * productCount and records revision 1 in a single transaction.
+ *
+ * Educational: This is INSERT INTO products ... plus an UPDATE on categories.
+ * A transaction makes sure both happen, or neither does.
+ *
+ * @param author - Who made the change, stored with the revision
+ */
+export async function createProduct(
+  input: unknown,
+  author: string = UNKNOWN_AUTHOR
+): Promise<Product> {
+  const product = await prepareProductWrite(input);
+
+  try {
+    const created = await prisma.$transaction(tx => insertProduct(tx, product, author));
+    deliverWebhooksSoon();
+    return created;
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ServiceError('A product with this id, slug or sku already exists', 'CONFLICT', 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace Product (PUT)
+ *
+ * Every field is overwritten with the new input - omitted optional fields
+ * are cleared. The id and createdAt of the existing product are kept.
+ *
+ * Variants are matched by id: listed variants are updated (or created),
+ * variants missing from the input are deleted. Past order lines keep their
+ * snapshot when a variant is deleted.
+ */
+export async function replaceProduct(
+  id: string,
+  input: unknown,
+  author: string = UNKNOWN_AUTHOR
+): Promise<Product> {
+  const current = await getProduct(id);
+  if (!current) {
+    throw new ServiceError(`Product with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+  return saveProduct(id, input, author, 'update', current);
+}
+
+/**
+ * Validate and overwrite a product (PUT, PATCH and restores)
+ *
+ * @param base - The product as read when the input was built
+ */
+async function saveProduct(
+  id: string,
+  input: unknown,
+  author: string,
+  action: 'update' | 'restore',
+  base: Product
+): Promise<Product> {
+  const product = await prepareProductWrite(input, id);
+
+  try {
+    const saved = await prisma.$transaction(tx =>
+      overwriteProduct(tx, id, product, author, action, base)
+    );
+    deliverWebhooksSoon();
+    return saved;
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ServiceError('A product with this slug or sku already exists', 'CONFLICT', 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update Product (PATCH)
+ *
+ * Merges the given fields into the current product and validates the
+ * result as a whole, so a partial update can never leave a product in an
+ * invalid state. Inventory fields can be patched individually.
+ *
+ * For products with variants, price and inventory totals are always derived
+ * from the variants - patch the variants to change them.
+ *
+ * Educational: The current product is read before the write's transaction,
+ * so a sale can land in between. A patch that doesn't touch the stock
+ * keeps whatever stock the product has when the write happens.
+ */
+export async function updateProduct(
+  id: string,
+  patch: unknown,
+  author: string = UNKNOWN_AUTHOR
+): Promise<Product> {
+  const current = await getProduct(id);
+  if (!current) {
+    throw new ServiceError(`Product with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    throw new ServiceError('Product validation failed', 'VALIDATION_ERROR', 400, [
+      { field: '', message: 'Request body must be a JSON object' },
+    ]);
+  }
+
+  return saveProduct(id, mergeProductPatch(current, patch as Record<string, any>), author, 'update', current);
+}
+
+/**
+ * Apply a partial update to a product
+ *
+ * Returns the full input to validate: the current fields with the changes
+ * on top, and inventory merged field by field. Server-owned fields are
+ * dropped.
+ */
+export function mergeProductPatch(current: Product, changes: Record<string, any>) {
+  const { id: _id, createdAt, updatedAt, priceRange, rating, ...currentFields } = current;
+  return {
+    ...currentFields,
+    ...changes,
+    inventory: { ...current.inventory, ...(changes.inventory ?? {}) },
+  };
+}
+
+/**
+ * Restore a Revision
+ *
+ * Saves the product as it was in the given revision - as a new revision,
+ * so the rollback shows up in the history and can itself be undone.
+ *
+ * Stock is not rolled back: quantities count physical units and change with
+ * every sale, so the current inventory of the product and of variants that
+ * still exist is kept. Variants brought back by the restore start empty.
+ * A deleted product is recreated with its old id.
+ */
+export async function restoreProduct(
+  id: string,
+  revision: number,
+  author: string = UNKNOWN_AUTHOR
+): Promise<Product> {
+  const { snapshot } = await getRevision(id, revision);
+  const current = await getProduct(id);
+
+  if (!current) {
+    const restored = {
+      ...snapshot,
+      inventory: { ...snapshot.inventory, inStock: false, quantity: 0 },
+      variants: (snapshot.variants ?? []).map(variant => ({
+        ...variant,
+        inventory: { ...variant.inventory, inStock: false, quantity: 0 },
+      })),
     };
+    return createProduct(restored, author);
   }
 
-  // In stock
+  const currentVariants = new Map((current.variants ?? []).map(v => [v.id, v]));
+  const restored = {
+    ...snapshot,
+    inventory: { ...snapshot.inventory, ...pickStock(current.inventory) },
+    variants: (snapshot.variants ?? []).map(variant => {
+      const existing = variant.id ? currentVariants.get(variant.id) : undefined;
+      return {
+        ...variant,
+        inventory: existing
+          ? { ...variant.inventory, ...pickStock(existing.inventory) }
+          : { ...variant.inventory, inStock: false, quantity: 0 },
+      };
+    }),
+  };
+
+  return saveProduct(id, restored, author, 'restore', current);
+}
+
+// The stock counters of an inventory (everything except the threshold)
+function pickStock(inventory: Product['inventory']) {
   return {
-    status: 'in-stock',
-    message: 'In Stock',
-    canOrder: true,
-    urgency: 'none',
+    inStock: inventory.inStock,
+    quantity: inventory.quantity,
   };
 }
 
+/**
+ * Delete Product
+ *
+ * Removes the product and decrements its category's productCount.
+ * Returns the deleted product so clients can show what was removed.
+ * Its revisions are kept, with a final "delete" revision, so it can be
+ * restored.
+ */
+export async function deleteProduct(
+  id: string,
+  author: string = UNKNOWN_AUTHOR
+): Promise<Product> {
+  const existing = await prisma.product.findUnique({
+    where: { id },
+    include: PRODUCT_INCLUDE,
+  });
+  if (!existing) {
+    throw new ServiceError(`Product with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  const deleted = transformDbProduct(existing);
+  await prisma.$transaction(async (tx) => {
+    await tx.product.delete({ where: { id } });
+    await tx.category.update({
+      where: { slug: existing.category },
+      data: { productCount: { decrement: 1 } },
+    });
+    await recordRevision(tx, deleted, 'delete', author, deleted);
+    await recordAuditEvent(tx, {
+      action: 'product.delete',
+      entityType: 'product',
+      entityId: id,
+      before: toSnapshot(deleted),
+    });
+    await enqueueWebhookEvent(tx, 'product.deleted', { product: deleted });
+  });
+  deliverWebhooksSoon();
+
+  return deleted;
+}
+
 /**
  * Get Product Statistics
  *
@@ -421,9 +1400,11 @@ export async function getRelatedProducts(
 ): Promise<Product[]> {
   // First, get products in the same category
   const dbProducts = await prisma.product.findMany({
+    include: PRODUCT_INCLUDE,
     where: {
       category: product.category,
       NOT: { id: product.id },
+      ...buildVisibleWhere(),
     },
     take: limit * 2, // Get more than we need to filter by tags
   });
@@ -439,34 +1420,3 @@ export async function getRelatedProducts(
 
   return sorted.slice(0, limit);
 }
-
-/**
- * Format Price for Display
- *
- * Converts price from cents to formatted string
- * Educational: Utility function for consistent price formatting
- */
-export function formatPrice(priceInCents: number, currency: string = 'USD'): string {
-  const dollars = priceInCents / 100;
-
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(dollars);
-}
-
-/**
- * Calculate Discount Percentage
- *
- * Educational: Simple business calculation
- */
-export function getDiscountPercentage(product: Product): number | null {
-  if (!product.originalPrice || product.originalPrice <= product.price) {
-    return null;
-  }
-
-  const discount =
-    ((product.originalPrice - product.price) / product.originalPrice) * 100;
-
-  return Math.round(discount);
-}
@@ -0,0 +1,270 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { Promotion, PromotionInput, AppliedPromotion } from '../types/promotion';
+import { prisma } from '../db';
+import { validatePromotionInput } from './validation-service';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { normalizeCouponCode } from './pricing-service';
+import { recordAuditEvent } from './audit-service';
+
+/**
+ * Promotions Service
+ *
+ * Stores promotions and hands the ones that might apply to the pricing
+ * service. The discount math itself lives in pricing-service.ts, which is
+ * shared with the browser.
+ *
+ * Educational Note: Usage limits are the one rule the browser cannot check
+ * reliably - two shoppers could use the last redemption at the same time.
+ * redeemPromotions() settles that inside the order transaction.
+ */
+
+/**
+ * Helper function to transform database promotion to Promotion type
+ */
+function transformDbPromotion(dbPromotion: any): Promotion {
+  return {
+    id: dbPromotion.id,
+    code: dbPromotion.code ?? undefined,
+    name: dbPromotion.name,
+    description: dbPromotion.description ?? undefined,
+    type: dbPromotion.type,
+    value: dbPromotion.value,
+    buyQuantity: dbPromotion.buyQuantity ?? undefined,
+    getQuantity: dbPromotion.getQuantity ?? undefined,
+    categories: JSON.parse(dbPromotion.categories),
+    tags: JSON.parse(dbPromotion.tags),
+    minSubtotal: dbPromotion.minSubtotal ?? undefined,
+    usageLimit: dbPromotion.usageLimit ?? undefined,
+    usageCount: dbPromotion.usageCount,
+    startsAt: dbPromotion.startsAt ?? undefined,
+    endsAt: dbPromotion.endsAt ?? undefined,
+    active: dbPromotion.active,
+    createdAt: dbPromotion.createdAt,
+    updatedAt: dbPromotion.updatedAt,
+  };
+}
+
+/**
+ * Helper function to transform a PromotionInput into database columns
+ */
+function toDbPromotionData(promotion: PromotionInput) {
+  return {
+    code: promotion.code ?? null,
+    name: promotion.name,
+    description: promotion.description ?? null,
+    type: promotion.type,
+    value: promotion.value,
+    buyQuantity: promotion.buyQuantity ?? null,
+    getQuantity: promotion.getQuantity ?? null,
+    categories: JSON.stringify(promotion.categories),
+    tags: JSON.stringify(promotion.tags),
+    minSubtotal: promotion.minSubtotal ?? null,
+    usageLimit: promotion.usageLimit ?? null,
+    startsAt: promotion.startsAt ?? null,
+    endsAt: promotion.endsAt ?? null,
+    active: promotion.active,
+  };
+}
+
+/**
+ * Get Candidate Promotions
+ *
+ * Every automatic promotion that is active and inside its validity window,
+ * plus the promotion for the given coupon code (if it exists and is
+ * active). The pricing service decides which of them actually apply - and
+ * explains why a coupon didn't.
+ */
+export async function getCandidatePromotions(
+  couponCode?: string,
+  now: Date = new Date()
+): Promise<Promotion[]> {
+  const liveWindow: Prisma.PromotionWhereInput = {
+    AND: [
+      { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+      { OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+    ],
+  };
+
+  const where: Prisma.PromotionWhereInput = {
+    active: true,
+    OR: [
+      { code: null, ...liveWindow },
+      ...(couponCode ? [{ code: normalizeCouponCode(couponCode) }] : []),
+    ],
+  };
+
+  const dbPromotions = await prisma.promotion.findMany({
+    where,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return dbPromotions.map(transformDbPromotion);
+}
+
+/**
+ * List All Promotions (newest first)
+ */
+export async function getPromotions(): Promise<Promotion[]> {
+  const dbPromotions = await prisma.promotion.findMany({
+    orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+  });
+  return dbPromotions.map(transformDbPromotion);
+}
+
+/**
+ * Get Promotion by ID
+ */
+export async function getPromotion(id: string): Promise<Promotion | null> {
+  const dbPromotion = await prisma.promotion.findUnique({ where: { id } });
+  return dbPromotion ? transformDbPromotion(dbPromotion) : null;
+}
+
+/**
+ * Turn a duplicate coupon code into a 409 Conflict
+ */
+function rethrowDuplicateCode(error: unknown, code: string | undefined): never {
+  if (isUniqueConstraintError(error)) {
+    throw new ServiceError(
+      `A promotion with code "${code}" already exists`,
+      'CONFLICT',
+      409,
+      { field: 'code' }
+    );
+  }
+  throw error;
+}
+
+/**
+ * Create Promotion
+ */
+export async function createPromotion(input: unknown): Promise<Promotion> {
+  const { promotion, errors } = validatePromotionInput(input);
+  if (!promotion) {
+    throw new ServiceError('Promotion validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = transformDbPromotion(
+        await tx.promotion.create({
+          data: {
+            id: promotion.id ?? `promo_${randomUUID()}`,
+            ...toDbPromotionData(promotion),
+          },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'promotion.create',
+        entityType: 'promotion',
+        entityId: created.id,
+        after: created,
+      });
+      return created;
+    });
+  } catch (error) {
+    rethrowDuplicateCode(error, promotion.code);
+  }
+}
+
+/**
+ * Update Promotion (PATCH)
+ *
+ * Merges the given fields into the current promotion and validates the
+ * result, e.g. { "active": false } to end a sale early.
+ */
+export async function updatePromotion(id: string, patch: unknown): Promise<Promotion> {
+  const current = await getPromotion(id);
+  if (!current) {
+    throw new ServiceError(`Promotion with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    throw new ServiceError('Promotion validation failed', 'VALIDATION_ERROR', 400, [
+      { field: '', message: 'Request body must be a JSON object' },
+    ]);
+  }
+
+  const { id: _id, usageCount, createdAt, updatedAt, ...currentFields } = current;
+  const { promotion, errors } = validatePromotionInput({
+    ...currentFields,
+    ...(patch as Record<string, unknown>),
+  });
+  if (!promotion) {
+    throw new ServiceError('Promotion validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const updated = transformDbPromotion(
+        await tx.promotion.update({
+          where: { id },
+          data: toDbPromotionData(promotion),
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'promotion.update',
+        entityType: 'promotion',
+        entityId: id,
+        before: current,
+        after: updated,
+      });
+      return updated;
+    });
+  } catch (error) {
+    rethrowDuplicateCode(error, promotion.code);
+  }
+}
+
+/**
+ * Delete Promotion
+ *
+ * Orders that used it keep their discount rows (with promotionId cleared).
+ */
+export async function deletePromotion(id: string): Promise<Promotion> {
+  const current = await getPromotion(id);
+  if (!current) {
+    throw new ServiceError(`Promotion with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.promotion.delete({ where: { id } });
+    await recordAuditEvent(tx, {
+      action: 'promotion.delete',
+      entityType: 'promotion',
+      entityId: id,
+      before: current,
+    });
+  });
+  return current;
+}
+
+/**
+ * Redeem Promotions (inside the order transaction)
+ *
+ * Counts one use of every applied promotion. The conditional UPDATE only
+ * succeeds while usageCount is below usageLimit, so a promotion can never
+ * be used more often than allowed - even by orders placed at the same time.
+ */
+export async function redeemPromotions(
+  tx: Prisma.TransactionClient,
+  applied: AppliedPromotion[]
+): Promise<void> {
+  for (const promotion of applied) {
+    const updated = await tx.$executeRaw`
+      UPDATE "Promotion"
+      SET "usageCount" = "usageCount" + 1
+      WHERE "id" = ${promotion.promotionId}
+        AND ("usageLimit" IS NULL OR "usageCount" < "usageLimit")
+    `;
+
+    if (updated === 0) {
+      throw new ServiceError(
+        `The promotion "${promotion.name}" is no longer available`,
+        'PROMOTION_UNAVAILABLE',
+        409,
+        { promotionId: promotion.promotionId, code: promotion.code }
+      );
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import { Prisma } from '@prisma/client';
+import { Review, ReviewStatus, ReviewSort, RatingSummary } from '../types/review';
+import { PaginatedResponse } from '../types/api';
+import { prisma } from '../db';
+import { validateReviewInput } from './validation-service';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { getOffset } from './pagination-service';
+import { recordAuditEvent } from './audit-service';
+import { isPubliclyVisible } from './products-service';
+
+/**
+ * Reviews Service
+ *
+ * Stores customer reviews, moderates them and keeps each product's rating
+ * in step with its approved reviews.
+ *
+ * Educational Concepts:
+ * - Moderation workflow: pending → approved / rejected
+ * - Derived data: Product.ratingAverage/ratingCount are recomputed in the
+ *   same transaction as every change that could affect them
+ * - Aggregation in the database (AVG, COUNT, GROUP BY) instead of in memory
+ */
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+const REVIEW_ORDER_BY: Record<ReviewSort, Prisma.ReviewOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'asc' }],
+  helpful: [{ helpfulCount: 'desc' }, { createdAt: 'desc' }, { id: 'asc' }],
+  'rating-high': [{ rating: 'desc' }, { createdAt: 'desc' }, { id: 'asc' }],
+  'rating-low': [{ rating: 'asc' }, { createdAt: 'desc' }, { id: 'asc' }],
+};
+
+/**
+ * Helper function to transform database review to Review type
+ *
+ * Educational: The email stays on the server - it is only used to check
+ * for a purchase and to stop duplicate reviews.
+ */
+function transformDbReview(dbReview: any): Review {
+  return {
+    id: dbReview.id,
+    productId: dbReview.productId,
+    authorName: dbReview.authorName,
+    rating: dbReview.rating,
+    title: dbReview.title ?? undefined,
+    body: dbReview.body,
+    status: dbReview.status,
+    verifiedPurchase: dbReview.verifiedPurchase,
+    helpfulCount: dbReview.helpfulCount,
+    createdAt: dbReview.createdAt,
+    moderatedAt: dbReview.moderatedAt ?? undefined,
+  };
+}
+
+/**
+ * Wrap one page of database reviews with its pagination metadata
+ */
+function toReviewPage(
+  dbReviews: any[],
+  total: number,
+  page: number,
+  limit: number
+): PaginatedResponse<Review> {
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: dbReviews.map(transformDbReview),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+/**
+ * Recompute a product's rating from its approved reviews
+ *
+ * Call inside the transaction that changed the reviews, so the product row
+ * can never show a rating that disagrees with them.
+ */
+async function recomputeProductRating(
+  tx: Prisma.TransactionClient,
+  productId: string
+): Promise<void> {
+  const aggregate = await tx.review.aggregate({
+    where: { productId, status: 'approved' },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  const count = aggregate._count._all;
+  const average = aggregate._avg.rating;
+
+  await tx.product.update({
+    where: { id: productId },
+    data: {
+      // One decimal place, as shown in the UI (4.666… → 4.7)
+      ratingAverage: count > 0 && average != null ? Math.round(average * 10) / 10 : null,
+      ratingCount: count > 0 ? count : null,
+    },
+  });
+}
+
+/**
+ * Get Approved Reviews for a Product
+ *
+ * The public, paginated review list. Pending and rejected reviews are
+ * never included.
+ */
+export async function getProductReviews(
+  productId: string,
+  options: { page?: number; limit?: number; sort?: ReviewSort } = {}
+): Promise<PaginatedResponse<Review>> {
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const limit = Math.min(Math.max(1, Math.floor(options.limit ?? 5)), 50);
+  const orderBy = REVIEW_ORDER_BY[options.sort ?? 'newest'] ?? REVIEW_ORDER_BY.newest;
+  const where: Prisma.ReviewWhereInput = { productId, status: 'approved' };
+
+  const [total, dbReviews] = await Promise.all([
+    prisma.review.count({ where }),
+    prisma.review.findMany({
+      where,
+      orderBy,
+      skip: getOffset(page, limit),
+      take: limit,
+    }),
+  ]);
+
+  return toReviewPage(dbReviews, total, page, limit);
+}
+
+/**
+ * Get Rating Summary
+ *
+ * Average, count and the number of reviews for each star rating.
+ *
+ * Educational: GROUP BY rating returns at most five rows, however many
+ * reviews there are - the database does the counting.
+ */
+export async function getRatingSummary(productId: string): Promise<RatingSummary> {
+  const groups = await prisma.review.groupBy({
+    by: ['rating'],
+    where: { productId, status: 'approved' },
+    _count: { _all: true },
+  });
+
+  const histogram: RatingSummary['histogram'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let count = 0;
+  let sum = 0;
+
+  for (const group of groups) {
+    const stars = group.rating as keyof RatingSummary['histogram'];
+    if (stars in histogram) {
+      histogram[stars] = group._count._all;
+      count += group._count._all;
+      sum += group.rating * group._count._all;
+    }
+  }
+
+  return {
+    average: count > 0 ? Math.round((sum / count) * 10) / 10 : null,
+    count,
+    histogram,
+  };
+}
+
+/**
+ * List Reviews by Status (moderation queue)
+ *
+ * Oldest first, so reviews are moderated in the order they arrived.
+ */
+export async function getReviewsByStatus(
+  status: ReviewStatus = 'pending',
+  options: { page?: number; limit?: number } = {}
+): Promise<PaginatedResponse<Review>> {
+  if (!REVIEW_STATUSES.includes(status)) {
+    throw new ServiceError(
+      `Status must be one of: ${REVIEW_STATUSES.join(', ')}`,
+      'VALIDATION_ERROR',
+      400,
+      [{ field: 'status', message: `Must be one of: ${REVIEW_STATUSES.join(', ')}` }]
+    );
+  }
+
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const limit = Math.min(Math.max(1, Math.floor(options.limit ?? 20)), 100);
+  const where: Prisma.ReviewWhereInput = { status };
+
+  const [total, dbReviews] = await Promise.all([
+    prisma.review.count({ where }),
+    prisma.review.findMany({
+      where,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      skip: getOffset(page, limit),
+      take: limit,
+    }),
+  ]);
+
+  return toReviewPage(dbReviews, total, page, limit);
+}
+
+/**
+ * Create Review
+ *
+ * New reviews start as pending, so they don't affect the product's rating
+ * until a moderator approves them.
+ *
+ * Educational Flow:
+ * 1. Validate the submitted fields
+ * 2. Make sure the product exists and is published (404 otherwise)
+ * 3. Mark the review as a verified purchase if the reviewer is signed in
+ *    (the route passes their customer id) and placed an order for this
+ *    product from their account
+ * 4. Store it - the unique (productId, email) and (productId, customerId)
+ *    indexes allow one review per email, and per account, per product. A
+ *    signed-in reviewer can't collect several verified reviews by typing
+ *    different emails.
+ */
+export async function createReview(
+  productId: string,
+  input: unknown,
+  customerId?: string
+): Promise<Review> {
+  const { review, errors } = validateReviewInput(input);
+  if (!review) {
+    throw new ServiceError('Review validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, status: true, publishedAt: true },
+  });
+  if (!product || !isPubliclyVisible(product)) {
+    throw new ServiceError(`Product with ID "${productId}" not found`, 'NOT_FOUND', 404);
+  }
+
+  // The email in the form proves nothing - anyone can type a buyer's
+  // address. Only orders placed while signed in are tied to the reviewer.
+  const purchase = customerId
+    ? await prisma.orderLine.findFirst({
+        where: {
+          productId,
+          order: { customerId, status: 'placed' },
+        },
+        select: { id: true },
+      })
+    : null;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = transformDbReview(
+        await tx.review.create({
+          data: {
+            productId,
+            customerId: customerId ?? null,
+            authorName: review.authorName,
+            email: review.email,
+            rating: review.rating,
+            title: review.title ?? null,
+            body: review.body,
+            verifiedPurchase: purchase !== null,
+          },
+        })
+      );
+      await recordAuditEvent(tx, {
+        action: 'review.create',
+        entityType: 'review',
+        entityId: created.id,
+        after: created,
+      });
+      return created;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ServiceError(
+        'You have already reviewed this product',
+        'CONFLICT',
+        409,
+        customerId ? undefined : { field: 'email' }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moderate Review
+ *
+ * Approve or reject a review (or send it back to pending). The product's
+ * rating is recomputed in the same transaction.
+ */
+export async function moderateReview(id: string, input: unknown): Promise<Review> {
+  const status = (input as { status?: unknown } | null)?.status;
+  if (typeof status !== 'string' || !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+    throw new ServiceError('Review validation failed', 'VALIDATION_ERROR', 400, [
+      { field: 'status', message: `Must be one of: ${REVIEW_STATUSES.join(', ')}` },
+    ]);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.review.findUnique({ where: { id } });
+    if (!existing) {
+      throw new ServiceError(`Review with ID "${id}" not found`, 'NOT_FOUND', 404);
+    }
+
+    const dbReview = await tx.review.update({
+      where: { id },
+      data: {
+        status,
+        moderatedAt: status === 'pending' ? null : new Date(),
+      },
+    });
+
+    await recomputeProductRating(tx, existing.productId);
+
+    const moderated = transformDbReview(dbReview);
+    await recordAuditEvent(tx, {
+      action: 'review.moderate',
+      entityType: 'review',
+      entityId: id,
+      before: transformDbReview(existing),
+      after: moderated,
+    });
+    return moderated;
+  });
+}
+
+/**
+ * Delete Review
+ *
+ * Returns the deleted review. The product's rating is recomputed.
+ */
+export async function deleteReview(id: string): Promise<Review> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.review.findUnique({ where: { id } });
+    if (!existing) {
+      throw new ServiceError(`Review with ID "${id}" not found`, 'NOT_FOUND', 404);
+    }
+
+    await tx.review.delete({ where: { id } });
+    await recomputeProductRating(tx, existing.productId);
+
+    const deleted = transformDbReview(existing);
+    await recordAuditEvent(tx, {
+      action: 'review.delete',
+      entityType: 'review',
+      entityId: id,
+      before: deleted,
+    });
+    return deleted;
+  });
+}
+
+/**
+ * Vote a Review Helpful
+ *
+ * Each voter counts once per review - voting again changes nothing.
+ * Only approved reviews can be voted on.
+ *
+ * Educational: The vote row and the denormalized helpfulCount are written
+ * in one transaction, and the unique (reviewId, voterId) index is what
+ * really prevents double votes when two requests race.
+ */
+export async function voteReviewHelpful(
+  id: string,
+  voterId: string
+): Promise<{ review: Review; voted: boolean }> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const existing = await tx.review.findUnique({ where: { id } });
+      if (!existing || existing.status !== 'approved') {
+        throw new ServiceError(`Review with ID "${id}" not found`, 'NOT_FOUND', 404);
+      }
+
+      await tx.reviewVote.create({ data: { reviewId: id, voterId } });
+      const dbReview = await tx.review.update({
+        where: { id },
+        data: { helpfulCount: { increment: 1 } },
+      });
+      await recordAuditEvent(tx, {
+        action: 'review.vote_helpful',
+        entityType: 'review',
+        entityId: id,
+        before: { helpfulCount: existing.helpfulCount },
+        after: { helpfulCount: dbReview.helpfulCount, voterId },
+      });
+
+      return { review: transformDbReview(dbReview), voted: true };
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      const dbReview = await prisma.review.findUniqueOrThrow({ where: { id } });
+      return { review: transformDbReview(dbReview), voted: false };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,298 @@
+import { Prisma } from '@prisma/client';
+import { Product } from '../types/product';
+import {
+  FieldChange,
+  ProductRevision,
+  ProductRevisionSummary,
+  ProductSnapshot,
+  RevisionAction,
+  RevisionDiff,
+} from '../types/revision';
+import { prisma } from '../db';
+import { ServiceError } from './errors';
+
+/**
+ * Revisions Service
+ *
+ * Keeps the history of every product: each create, update, restore and
+ * delete stores a numbered snapshot in the same transaction as the write,
+ * so the history can never disagree with the product.
+ *
+ * Educational Concepts:
+ * - Append-only history: revisions are never updated or deleted
+ * - Structured diffs: JSON fields (tags, attributes, variants) are compared
+ *   by their contents, not as the strings stored in the database
+ *
+ * Stock movements from orders and reservations are not product edits and
+ * don't create revisions.
+ */
+
+// Author recorded when the caller doesn't say who made the change
+export const UNKNOWN_AUTHOR = 'unknown';
+
+/**
+ * The product as the products API would accept it back
+ *
+ * Derived and server-owned fields (timestamps, price range, rating, held
+ * and per-location stock) are left out - they are not something a restore could set.
+ */
+export function toSnapshot(product: Product): ProductSnapshot {
+  const { createdAt, updatedAt, priceRange, rating, publishedAt, ...fields } = product;
+  const { locations, reservedQuantity, ...inventory } = fields.inventory;
+  return {
+    ...fields,
+    inventory,
+    ...(fields.variants && {
+      variants: fields.variants.map(variant => {
+        const { locations, reservedQuantity, ...variantInventory } = variant.inventory;
+        return { ...variant, inventory: variantInventory };
+      }),
+    }),
+    publishedAt: publishedAt ? new Date(publishedAt).toISOString() : undefined,
+  };
+}
+
+function transformDbRevision(dbRevision: any): ProductRevision {
+  return {
+    id: dbRevision.id,
+    productId: dbRevision.productId,
+    revision: dbRevision.revision,
+    action: dbRevision.action as RevisionAction,
+    author: dbRevision.author,
+    createdAt: dbRevision.createdAt,
+    snapshot: JSON.parse(dbRevision.snapshot),
+  };
+}
+
+/**
+ * Store a revision of a product (inside the write's transaction)
+ *
+ * Products saved before revision history existed have no revision 1. Their
+ * previous state is recorded first, so the very first change can still be
+ * diffed and rolled back.
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  product: Product,
+  action: RevisionAction,
+  author: string,
+  previous?: Product
+): Promise<void> {
+  const latest = await tx.productRevision.findFirst({
+    where: { productId: product.id },
+    orderBy: { revision: 'desc' },
+  });
+  let revision = latest ? latest.revision + 1 : 1;
+
+  if (!latest && previous) {
+    await tx.productRevision.create({
+      data: {
+        productId: previous.id,
+        revision: revision++,
+        action: 'create',
+        author: UNKNOWN_AUTHOR,
+        snapshot: JSON.stringify(toSnapshot(previous)),
+        createdAt: previous.updatedAt,
+      },
+    });
+  }
+
+  await tx.productRevision.create({
+    data: {
+      productId: product.id,
+      revision,
+      action,
+      author,
+      snapshot: JSON.stringify(toSnapshot(product)),
+    },
+  });
+}
+
+/**
+ * List a product's revisions, newest first
+ *
+ * Each entry names the fields changed since the revision before it.
+ */
+export async function getRevisions(productId: string): Promise<ProductRevisionSummary[]> {
+  const revisions = (
+    await prisma.productRevision.findMany({
+      where: { productId },
+      orderBy: { revision: 'asc' },
+    })
+  ).map(transformDbRevision);
+
+  if (revisions.length === 0) {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new ServiceError(`Product with ID "${productId}" not found`, 'NOT_FOUND', 404);
+    }
+  }
+
+  return revisions
+    .map((revision, index) => {
+      const { snapshot, ...summary } = revision;
+      const changedFields =
+        index === 0
+          ? []
+          : diffSnapshots(revisions[index - 1].snapshot, snapshot).map(change => change.field);
+      return { ...summary, changedFields };
+    })
+    .reverse();
+}
+
+/**
+ * Get one revision with its snapshot
+ *
+ * Throws 404 NOT_FOUND when the product has no such revision.
+ */
+export async function getRevision(productId: string, revision: number): Promise<ProductRevision> {
+  const dbRevision = Number.isInteger(revision)
+    ? await prisma.productRevision.findUnique({
+        where: { productId_revision: { productId, revision } },
+      })
+    : null;
+
+  if (!dbRevision) {
+    throw new ServiceError(
+      `Revision ${revision} of product "${productId}" not found`,
+      'NOT_FOUND',
+      404
+    );
+  }
+
+  return transformDbRevision(dbRevision);
+}
+
+/**
+ * Field-level diff between two revisions of a product
+ *
+ * Either order works: from=5&to=2 shows what a rollback to 2 would change.
+ */
+export async function diffRevisions(
+  productId: string,
+  from: number,
+  to: number
+): Promise<RevisionDiff> {
+  const [before, after] = await Promise.all([
+    getRevision(productId, from),
+    getRevision(productId, to),
+  ]);
+
+  return {
+    productId,
+    from,
+    to,
+    changes: diffSnapshots(before.snapshot, after.snapshot),
+  };
+}
+
+/**
+ * Compare two snapshots field by field
+ */
+export function diffSnapshots(before: ProductSnapshot, after: ProductSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues('', before, after, changes);
+  return changes;
+}
+
+// Fields that identify an element of a list of objects, in order of preference
+const IDENTITY_FIELDS = ['sku', 'id', 'name', 'url'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * The field that identifies every element of a list of objects, if any
+ *
+ * Variants are matched by SKU, options by name, images by URL - so a
+ * reordered list isn't reported as every element changing.
+ */
+function getIdentityField(items: unknown[]): string | undefined {
+  return IDENTITY_FIELDS.find(field =>
+    items.every(item => isPlainObject(item) && typeof item[field] === 'string')
+  );
+}
+
+/**
+ * Educational: A recursive walk over both values at once
+ * - objects: compare key by key
+ * - lists of plain values (tags, option values): compare as sets
+ * - lists of objects with an identity (variants, images): match elements
+ *   by identity, then compare each pair
+ * - anything else: compare the values themselves
+ */
+function diffValues(path: string, before: unknown, after: unknown, changes: FieldChange[]) {
+  if (isEqual(before, after)) return;
+
+  if (before === undefined || before === null) {
+    changes.push({ field: path, change: 'added', after });
+    return;
+  }
+  if (after === undefined || after === null) {
+    changes.push({ field: path, change: 'removed', before });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => diffValues(joinPath(path, key), before[key], after[key], changes));
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const all = [...before, ...after];
+
+    // Lists of plain values
+    if (all.every(item => !isPlainObject(item) && !Array.isArray(item))) {
+      const added = after.filter(item => !before.includes(item));
+      const removed = before.filter(item => !after.includes(item));
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({ field: path, change: 'changed', added, removed });
+      }
+      return;
+    }
+
+    // Lists of objects that can be matched up
+    const identity = getIdentityField(all);
+    if (identity) {
+      const byIdentity = (items: unknown[]) =>
+        new Map(items.map(item => [(item as Record<string, unknown>)[identity] as string, item]));
+      const beforeById = byIdentity(before);
+      const afterById = byIdentity(after);
+      const ids = new Set([...Array.from(beforeById.keys()), ...Array.from(afterById.keys())]);
+      ids.forEach(id =>
+        diffValues(`${path}[${id}]`, beforeById.get(id), afterById.get(id), changes)
+      );
+      return;
+    }
+  }
+
+  changes.push({ field: path, change: 'changed', before, after });
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Snapshots vs. change logs:
+ *    - A change log stores only "price: 2999 → 2499" and must be replayed
+ *      from the start to rebuild an old version
+ *    - A snapshot IS the old version; diffs are computed when asked for
+ *
+ * 2. Same transaction:
+ *    - The product row and its revision are written together
+ *    - A failed write leaves no orphan revision, and no write goes unrecorded
+ *
+ * 3. Restoring is a write too:
+ *    - Rolling back to revision 3 creates a new revision with the content
+ *      of 3 - history is never rewritten, so the rollback itself can be
+ *      undone
+ */
@@ -0,0 +1,162 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+/**
+ * Search Service
+ *
+ * Full-text search backed by the SQLite FTS5 index "ProductSearch".
+ *
+ * Educational Note: A LIKE '%query%' scan reads every row and cannot tell a
+ * great match from a poor one. A full-text index works like the index at the
+ * back of a book: it maps each word to the products containing it, and
+ * ranks matches with BM25 - the same family of scoring used by Elasticsearch.
+ *
+ * The index is maintained by database triggers (see the
+ * add_product_search_index migration), so every insert, update and delete
+ * of a product is reflected immediately - no matter which code wrote it.
+ */
+
+// Column weights for BM25, in index column order:
+// productId (not searchable), name, description, longDescription, tags, attributes
+// Educational: A match in the name is worth far more than one deep in the long description
+const BM25_WEIGHTS = '0.0, 10.0, 5.0, 1.0, 3.0, 2.0';
+
+// Markers placed around matched words by FTS5. Private-use characters never
+// appear in product text, so they can be swapped for <mark> after escaping.
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+
+// Upper bound on query terms, to keep MATCH expressions cheap
+const MAX_TERMS = 10;
+
+export interface SearchMatch {
+  productId: string;
+  score: number;                        // Higher is better
+  nameHighlight: string;                // HTML-safe, matches in <mark>
+  snippet: string;                      // HTML-safe, matches in <mark>
+}
+
+/**
+ * Split text into words, dropping anything with no letter or digit
+ */
+function toWords(text: string): string[] {
+  return text.split(/\s+/).filter(word => /[0-9A-Za-z\u00C0-\uFFFF]/.test(word));
+}
+
+/**
+ * Build an FTS5 MATCH expression from what the shopper typed
+ *
+ * - Quoted text is a phrase: "noise cancelling" must appear in that order
+ * - Every other word is a prefix: wire matches wireless, wired, ...
+ * - All terms must match (implicit AND)
+ *
+ * Educational: User input is never passed to MATCH as-is. Every word is
+ * wrapped in double quotes (which the input can no longer contain), and
+ * inside quotes FTS5 treats operators like OR, NEAR, * or column filters
+ * typed by the user as plain text.
+ *
+ * Example: 'wireless "noise cancelling"' → '"wireless"* "noise cancelling"'
+ * Returns null when the input contains no searchable words.
+ */
+export function buildMatchExpression(query: string): string | null {
+  const terms: string[] = [];
+
+  // Odd-indexed parts were inside quotes (an unclosed quote runs to the end)
+  query.split('"').forEach((part, index) => {
+    const words = toWords(part);
+    if (words.length === 0) return;
+
+    if (index % 2 === 1) {
+      terms.push(`"${words.join(' ')}"`);
+    } else {
+      words.forEach(word => terms.push(`"${word}"*`));
+    }
+  });
+
+  return terms.length > 0 ? terms.slice(0, MAX_TERMS).join(' ') : null;
+}
+
+/**
+ * Escape product text for HTML, then turn FTS5 markers into <mark> tags
+ */
+function toHighlightHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>');
+}
+
+/**
+ * Which products a search may return
+ */
+export interface SearchVisibility {
+  statuses: string[];                   // Product statuses to include
+  publishedBefore: Date;                // ...with publishedAt at or before this
+}
+
+/**
+ * Search Products (ranked)
+ *
+ * Returns the best matches first, with highlighted name and snippet.
+ *
+ * Educational: bm25() returns lower values for better matches, so results
+ * are ordered ascending and the score is negated for the API. The
+ * visibility condition joins the Product table and is applied before the
+ * LIMIT - filtering afterwards would let a few well-matching drafts push
+ * every published product out of the top results.
+ */
+export async function searchProductIndex(
+  query: string,
+  limit: number = 20,
+  visibility?: SearchVisibility
+): Promise<SearchMatch[]> {
+  const expression = buildMatchExpression(query);
+  if (!expression) return [];
+
+  const visibleOnly = visibility
+    ? Prisma.sql`
+      AND "Product"."status" IN (${Prisma.join(visibility.statuses)})
+      AND "Product"."publishedAt" <= ${visibility.publishedBefore}`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<
+    { productId: string; rank: number; nameHighlight: string; snippet: string }[]
+  >`
+    SELECT
+      "productId",
+      bm25("ProductSearch", ${Prisma.raw(BM25_WEIGHTS)}) AS "rank",
+      highlight("ProductSearch", 1, ${MARK_START}, ${MARK_END}) AS "nameHighlight",
+      snippet("ProductSearch", -1, ${MARK_START}, ${MARK_END}, '…', 16) AS "snippet"
+    FROM "ProductSearch"
+    JOIN "Product" ON "Product"."id" = "ProductSearch"."productId"
+    WHERE "ProductSearch" MATCH ${expression}${visibleOnly}
+    ORDER BY "rank"
+    LIMIT ${limit}`;
+
+  return rows.map(row => ({
+    productId: row.productId,
+    score: Math.round(-Number(row.rank) * 1000) / 1000,
+    nameHighlight: toHighlightHtml(row.nameHighlight),
+    snippet: toHighlightHtml(row.snippet),
+  }));
+}
+
+/**
+ * Get the ids of all products matching a query
+ *
+ * Used by product listings, where search is one filter among many and the
+ * order comes from the chosen sort.
+ */
+export async function getMatchingProductIds(query: string): Promise<string[]> {
+  const expression = buildMatchExpression(query);
+  if (!expression) return [];
+
+  const rows = await prisma.$queryRaw<{ productId: string }[]>`
+    SELECT "productId" FROM "ProductSearch" WHERE "ProductSearch" MATCH ${expression}`;
+
+  return rows.map(row => row.productId);
+}
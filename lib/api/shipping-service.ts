@@ -0,0 +1,308 @@
+import {
+  Dimensions,
+  ShippingMethodId,
+  ShippingOption,
+  ShippingQuote,
+} from '../types/shipping';
+import { StockLine } from '../types/inventory';
+import { prisma } from '../db';
+import {
+  shippingMethods,
+  shippingZones,
+  defaultCategoryWeights,
+  DEFAULT_ITEM_WEIGHT,
+  DIMENSIONAL_WEIGHT_DIVISOR,
+} from '../data/shipping-rates';
+import { getCountryCode } from '../data/countries';
+import { BASE_CURRENCY } from '../data/exchange-rates';
+import { validateShippingQuoteInput } from './validation-service';
+import { ServiceError } from './errors';
+import { getCandidatePromotions } from './promotions-service';
+import { priceCart } from './pricing-service';
+import { convertPrice } from './currency-service';
+
+/**
+ * Shipping Service
+ *
+ * Prices the shipping methods for a cart and a destination country.
+ *
+ * Educational Flow:
+ * 1. Weigh every item: the `weight` attribute ("250g", "1.2kg", "5 lbs"),
+ *    or a per-category estimate when a product doesn't list one
+ * 2. Bulky items are charged by their dimensional weight instead
+ *    (`dimensions` attribute, e.g. "66x43x15cm")
+ * 3. Find the zone that contains the country
+ * 4. Price each method the zone offers from the total weight - free when
+ *    the discounted subtotal reaches the method's threshold
+ */
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+  lbs: 453.592,
+};
+
+const CM_PER_UNIT: Record<string, number> = {
+  mm: 0.1,
+  cm: 1,
+  in: 2.54,
+  inch: 2.54,
+  inches: 2.54,
+};
+
+const WEIGHT_PATTERN = /^(\d+(?:\.\d+)?)\s*(g|kg|oz|lbs?)$/i;
+const DIMENSIONS_PATTERN =
+  /^(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*(mm|cm|in|inch|inches)?$/i;
+
+/**
+ * Parse a weight attribute into grams ("250g" → 250, "1.2kg" → 1200)
+ *
+ * Returns null for anything that isn't a single weight, e.g. "5-50 lbs".
+ */
+export function parseWeight(value: unknown): number | null {
+  if (typeof value === 'number') return value > 0 ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(WEIGHT_PATTERN);
+  if (!match) return null;
+
+  return Math.round(parseFloat(match[1]) * GRAMS_PER_UNIT[match[2].toLowerCase()]);
+}
+
+/**
+ * Parse a dimensions attribute into centimetres
+ * ("66x43x15cm", "16 x 8 x 9 in"; centimetres when no unit is given)
+ */
+export function parseDimensions(value: unknown): Dimensions | null {
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(DIMENSIONS_PATTERN);
+  if (!match) return null;
+
+  const factor = CM_PER_UNIT[(match[4] ?? 'cm').toLowerCase()];
+  return {
+    length: parseFloat(match[1]) * factor,
+    width: parseFloat(match[2]) * factor,
+    height: parseFloat(match[3]) * factor,
+  };
+}
+
+/**
+ * Billable weight of one item in grams
+ *
+ * Educational: The larger of the real weight and the dimensional weight
+ * (L × W × H / 5000 in kg), the way parcel carriers charge.
+ */
+export function getItemWeight(
+  attributes: Record<string, unknown>,
+  category: string
+): number {
+  const actual =
+    parseWeight(attributes.weight) ?? defaultCategoryWeights[category] ?? DEFAULT_ITEM_WEIGHT;
+
+  const dimensions = parseDimensions(attributes.dimensions);
+  if (!dimensions) return actual;
+
+  const dimensional = Math.round(
+    (dimensions.length * dimensions.width * dimensions.height * 1000) / DIMENSIONAL_WEIGHT_DIVISOR
+  );
+  return Math.max(actual, dimensional);
+}
+
+/**
+ * Shipping options for a parcel and a destination
+ *
+ * Returns null when the country is not in any zone (we don't ship there).
+ *
+ * @param weight - Billable weight in grams
+ * @param subtotal - Discounted subtotal in cents, for free-shipping thresholds
+ * @param country - Country code or name
+ * @param currency - Currency of the subtotal and of the returned prices
+ *   (rates are stored in USD and converted)
+ */
+export function getShippingOptions(
+  weight: number,
+  subtotal: number,
+  country: string,
+  currency: string = BASE_CURRENCY
+): { zone: string; options: ShippingOption[] } | null {
+  const code = getCountryCode(country);
+  const zone = shippingZones.find(entry => code !== undefined && entry.countries.includes(code));
+  if (!zone) return null;
+
+  // Every started kilogram after the first
+  const extraKg = Math.max(0, Math.ceil(weight / 1000) - 1);
+
+  const options: ShippingOption[] = [];
+  for (const method of shippingMethods) {
+    const rate = zone.rates[method.id];
+    if (!rate) continue;
+
+    const freeOver =
+      rate.freeOver !== undefined ? convertPrice(rate.freeOver, BASE_CURRENCY, currency) : undefined;
+    const freeShipping = freeOver !== undefined && subtotal >= freeOver;
+    options.push({
+      method: method.id,
+      name: method.name,
+      description: method.description,
+      price: freeShipping
+        ? 0
+        : convertPrice(rate.base + rate.perKg * extraKg, BASE_CURRENCY, currency),
+      freeShipping,
+      amountToFreeShipping:
+        freeOver !== undefined && !freeShipping ? freeOver - subtotal : undefined,
+      minDays: method.minDays,
+      maxDays: method.maxDays,
+    });
+  }
+
+  return { zone: zone.name, options };
+}
+
+/**
+ * Price of the chosen method (used when the order is placed)
+ *
+ * Throws 400 SHIPPING_UNAVAILABLE when the country isn't served or the
+ * method isn't offered there (e.g. store pickup abroad).
+ */
+export function getShippingCharge(
+  weight: number,
+  subtotal: number,
+  country: string,
+  method: ShippingMethodId,
+  currency: string = BASE_CURRENCY
+): ShippingOption {
+  const result = getShippingOptions(weight, subtotal, country, currency);
+  if (!result) {
+    throw new ServiceError(`We don't ship to "${country}"`, 'SHIPPING_UNAVAILABLE', 400, [
+      { field: 'shippingAddress.country', message: 'Not a country we ship to' },
+    ]);
+  }
+
+  const option = result.options.find(entry => entry.method === method);
+  if (!option) {
+    throw new ServiceError(
+      `Shipping method "${method}" is not available to ${result.zone}`,
+      'SHIPPING_UNAVAILABLE',
+      400,
+      {
+        field: 'shippingMethod',
+        available: result.options.map(entry => entry.method),
+      }
+    );
+  }
+
+  return option;
+}
+
+/**
+ * Total billable weight of some stock lines, from the products' attributes
+ */
+export function getParcelWeight(
+  lines: StockLine[],
+  productsById: Map<string, { category: string; attributes: string }>
+): number {
+  return lines.reduce((sum, line) => {
+    const product = productsById.get(line.productId);
+    if (!product) return sum;
+    return sum + getItemWeight(JSON.parse(product.attributes), product.category) * line.quantity;
+  }, 0);
+}
+
+/**
+ * Quote Shipping (POST /api/shipping/quote)
+ *
+ * Prices come from the database and promotions are applied, so the free
+ * shipping threshold is checked against what the order will really cost.
+ */
+export async function quoteShipping(input: unknown): Promise<ShippingQuote> {
+  const { quote: request, errors } = validateShippingQuoteInput(input);
+  if (!request) {
+    throw new ServiceError('Shipping quote validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const [products, variants] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: request.items.map(item => item.productId) } },
+    }),
+    prisma.productVariant.findMany({
+      where: {
+        id: {
+          in: request.items
+            .map(item => item.variantId)
+            .filter((id): id is string => Boolean(id)),
+        },
+      },
+    }),
+  ]);
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const variantsById = new Map(variants.map(v => [v.id, v]));
+
+  const missing = request.items.filter(item => !productsById.has(item.productId));
+  if (missing.length > 0) {
+    throw new ServiceError(
+      'Some products do not exist',
+      'VALIDATION_ERROR',
+      400,
+      missing.map(item => ({
+        field: 'items',
+        message: `Product "${item.productId}" not found`,
+      }))
+    );
+  }
+
+  const currency = request.currency ?? BASE_CURRENCY;
+  const promotions = await getCandidatePromotions(request.couponCode);
+  const pricing = priceCart(
+    request.items.map(item => {
+      const product = productsById.get(item.productId)!;
+      const variant = item.variantId ? variantsById.get(item.variantId) : undefined;
+      return {
+        key: `${item.productId}:${item.variantId ?? ''}`,
+        productId: product.id,
+        category: product.category,
+        subcategory: product.subcategory ?? undefined,
+        tags: JSON.parse(product.tags),
+        unitPrice: convertPrice(variant ? variant.price : product.price, product.currency, currency),
+        quantity: item.quantity,
+      };
+    }),
+    promotions,
+    { couponCode: request.couponCode, currency }
+  );
+
+  const weight = getParcelWeight(request.items, productsById);
+  const result = getShippingOptions(weight, pricing.discountedSubtotal, request.country, currency);
+  if (!result) {
+    throw new ServiceError(`We don't ship to "${request.country}"`, 'SHIPPING_UNAVAILABLE', 400, [
+      { field: 'country', message: 'Not a country we ship to' },
+    ]);
+  }
+
+  return {
+    zone: result.zone,
+    currency,
+    weight,
+    subtotal: pricing.discountedSubtotal,
+    options: result.options,
+  };
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Parsing free-form attributes:
+ *    - Seed data stores weights as text ("250g", "1.2kg", "105 lbs")
+ *    - Everything is converted to grams / centimetres once, then compared
+ *    - Values that can't be parsed fall back to a category estimate
+ *
+ * 2. Dimensional weight:
+ *    - A 66×43×15 cm pillow weighs 1.4 kg but takes up the space of 8.5 kg
+ *    - Carriers bill the larger figure, so we do too
+ *
+ * 3. Rates as data:
+ *    - Zones and methods live in lib/data/shipping-rates.ts
+ *    - Adding a country or a method is a data change, not a code change
+ */
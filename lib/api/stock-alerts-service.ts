@@ -0,0 +1,345 @@
+import { Prisma } from '@prisma/client';
+import { StockAlert, StockAlertCheck, StockAlertNotifier, StockAlertStatus } from '../types/inventory';
+import { prisma } from '../db';
+import { ServiceError, isUniqueConstraintError } from './errors';
+import { recordAuditEvent } from './audit-service';
+import { deliverWebhooksSoon, enqueueWebhookEvent } from './webhooks-service';
+
+/**
+ * Stock Alerts Service
+ *
+ * Finds products (and variants) at or below their lowStockThreshold,
+ * opens an alert with a suggested reorder quantity, and tells the
+ * notifiers about it. Run by `npm run inventory:alerts` on a schedule, or
+ * POST /api/inventory/alerts/check.
+ *
+ * Educational Flow (one check):
+ * 1. Compare every SKU's on-hand quantity with its threshold
+ * 2. Open an alert for each SKU at or below it that has no open alert yet
+ * 3. Resolve the open alerts of SKUs that were restocked above it - the
+ *    next drop opens a new one
+ * 4. Hand the alerts nobody has been told about to the notifiers
+ *
+ * Educational Concepts:
+ * - Edge-triggered alerts: a SKU sitting at 2 units for a week alerts
+ *   once, not on every run - the open alert is the memory of "already said"
+ * - Reorder point: order enough to cover the sales expected while the
+ *   delivery is on its way, and for a while after it arrives
+ */
+
+// Sales of the last 30 days set the expected daily sales
+const VELOCITY_WINDOW_DAYS = 30;
+
+// Days a supplier takes to deliver, and days of sales an order should cover
+const REORDER_LEAD_TIME_DAYS = Number(process.env.REORDER_LEAD_TIME_DAYS) || 7;
+const REORDER_COVERAGE_DAYS = Number(process.env.REORDER_COVERAGE_DAYS) || 30;
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function transformDbAlert(dbAlert: any): StockAlert {
+  return {
+    id: dbAlert.id,
+    productId: dbAlert.productId,
+    variantId: dbAlert.variantId || undefined,
+    sku: dbAlert.sku,
+    name: dbAlert.name,
+    quantity: dbAlert.quantity,
+    lowStockThreshold: dbAlert.lowStockThreshold,
+    dailySales: dbAlert.dailySales,
+    reorderQuantity: dbAlert.reorderQuantity,
+    status: dbAlert.status as StockAlertStatus,
+    notified: dbAlert.notifiedAt !== null,
+    createdAt: dbAlert.createdAt,
+    resolvedAt: dbAlert.resolvedAt ?? undefined,
+  };
+}
+
+/**
+ * Suggested Reorder Quantity
+ *
+ * Enough to cover the expected sales during the lead time and the
+ * coverage period, with the threshold itself kept as safety stock:
+ *
+ *   dailySales × (lead time + coverage) + threshold - on hand
+ *
+ * Educational: A SKU that hasn't sold recently still gets topped back up
+ * to its threshold, so it doesn't stay stuck in low stock.
+ */
+export function suggestReorderQuantity(
+  quantity: number,
+  lowStockThreshold: number,
+  dailySales: number
+): number {
+  const target =
+    Math.ceil(dailySales * (REORDER_LEAD_TIME_DAYS + REORDER_COVERAGE_DAYS)) + lowStockThreshold;
+  return Math.max(target - quantity, 1);
+}
+
+/**
+ * Average units sold per day, per "productId:variantId", over the window
+ */
+async function getDailySales(now: Date): Promise<Map<string, number>> {
+  const sales = await prisma.orderLine.groupBy({
+    by: ['productId', 'variantId'],
+    where: {
+      productId: { not: null },
+      order: {
+        status: 'placed',
+        createdAt: { gte: new Date(now.getTime() - VELOCITY_WINDOW_DAYS * DAY_MS) },
+      },
+    },
+    _sum: { quantity: true },
+  });
+
+  return new Map(
+    sales.map(row => [
+      `${row.productId}:${row.variantId ?? ''}`,
+      (row._sum.quantity ?? 0) / VELOCITY_WINDOW_DAYS,
+    ])
+  );
+}
+
+/**
+ * Every SKU that can be restocked: variants of products that have them,
+ * otherwise the product itself. Archived products are left out.
+ */
+async function getStockRows() {
+  const products = await prisma.product.findMany({
+    where: { status: { not: 'archived' } },
+    include: { variants: { orderBy: { position: 'asc' } } },
+  });
+
+  return products.flatMap(product =>
+    product.variants.length > 0
+      ? product.variants.map(variant => ({
+          productId: product.id,
+          variantId: variant.id,
+          sku: variant.sku,
+          name: `${product.name} (${Object.values(JSON.parse(variant.options)).join(' / ')})`,
+          quantity: variant.quantity,
+          lowStockThreshold: variant.lowStockThreshold,
+        }))
+      : [{
+          productId: product.id,
+          variantId: '',
+          sku: product.sku,
+          name: product.name,
+          quantity: product.quantity,
+          lowStockThreshold: product.lowStockThreshold,
+        }]
+  );
+}
+
+/**
+ * Console notifier: one log line per alert
+ */
+export const consoleNotifier: StockAlertNotifier = {
+  name: 'console',
+  async notify(alerts) {
+    for (const alert of alerts) {
+      console.log(
+        `Low stock: ${alert.sku} ${alert.name} - ${alert.quantity} left ` +
+        `(threshold ${alert.lowStockThreshold}, ~${alert.dailySales.toFixed(1)}/day), ` +
+        `reorder ${alert.reorderQuantity}`
+      );
+    }
+  },
+};
+
+/**
+ * Webhook notifier: an inventory.stock_alert event per alert
+ *
+ * Goes through the webhook queue, so subscribers get signed deliveries
+ * with retries like every other event.
+ */
+export const webhookNotifier: StockAlertNotifier = {
+  name: 'webhook',
+  async notify(alerts) {
+    await prisma.$transaction(async (tx) => {
+      for (const alert of alerts) {
+        await enqueueWebhookEvent(tx, 'inventory.stock_alert', { alert });
+      }
+    });
+    deliverWebhooksSoon();
+  },
+};
+
+const NOTIFIERS: Record<string, StockAlertNotifier> = {
+  console: consoleNotifier,
+  webhook: webhookNotifier,
+};
+
+/**
+ * Notifiers by name, e.g. "console,webhook"
+ *
+ * Defaults to STOCK_ALERT_NOTIFIERS, or both built-in notifiers.
+ * Throws 400 VALIDATION_ERROR for an unknown name.
+ */
+export function getStockAlertNotifiers(
+  names: string = process.env.STOCK_ALERT_NOTIFIERS || 'console,webhook'
+): StockAlertNotifier[] {
+  return names
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => {
+      const notifier = NOTIFIERS[name];
+      if (!notifier) {
+        throw new ServiceError(
+          `Unknown notifier "${name}" (use ${Object.keys(NOTIFIERS).join(', ')})`,
+          'VALIDATION_ERROR',
+          400
+        );
+      }
+      return notifier;
+    });
+}
+
+/**
+ * Open an alert, unless the SKU already has an open one
+ *
+ * Educational: The partial unique index on open alerts makes a second,
+ * overlapping check fail here instead of alerting twice.
+ */
+async function openAlert(data: Prisma.StockAlertUncheckedCreateInput): Promise<StockAlert | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const alert = transformDbAlert(await tx.stockAlert.create({ data }));
+      await recordAuditEvent(tx, {
+        action: 'stock_alert.open',
+        entityType: 'stock_alert',
+        entityId: alert.id,
+        after: alert,
+      });
+      return alert;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Check Stock Alerts
+ *
+ * Opens and resolves alerts, then notifies. Alerts stay un-notified until
+ * every notifier succeeds, so a failed webhook or log is retried by the
+ * next check (a notifier may then see an alert twice).
+ */
+export async function checkStockAlerts(
+  notifiers: StockAlertNotifier[] = getStockAlertNotifiers(),
+  now: Date = new Date()
+): Promise<StockAlertCheck> {
+  const [rows, dailySales, openAlerts] = await Promise.all([
+    getStockRows(),
+    getDailySales(now),
+    prisma.stockAlert.findMany({ where: { status: 'open' } }),
+  ]);
+  const openByKey = new Map(openAlerts.map(alert => [`${alert.productId}:${alert.variantId}`, alert]));
+
+  const opened: StockAlert[] = [];
+  for (const row of rows) {
+    const key = `${row.productId}:${row.variantId}`;
+    if (row.quantity > row.lowStockThreshold || openByKey.has(key)) continue;
+
+    const sales = dailySales.get(key) ?? 0;
+    const alert = await openAlert({
+      ...row,
+      dailySales: Math.round(sales * 100) / 100,
+      reorderQuantity: suggestReorderQuantity(row.quantity, row.lowStockThreshold, sales),
+    });
+    if (alert) opened.push(alert);
+  }
+
+  // Restocked above the threshold (or the variant is gone): the crossing is over
+  let resolved = 0;
+  const rowsByKey = new Map(rows.map(row => [`${row.productId}:${row.variantId}`, row]));
+  for (const alert of openAlerts) {
+    const row = rowsByKey.get(`${alert.productId}:${alert.variantId}`);
+    if (row && row.quantity <= row.lowStockThreshold) continue;
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.stockAlert.updateMany({
+        where: { id: alert.id, status: 'open' },
+        data: { status: 'resolved', resolvedAt: now },
+      });
+      if (count === 0) return;
+
+      resolved++;
+      await recordAuditEvent(tx, {
+        action: 'stock_alert.resolve',
+        entityType: 'stock_alert',
+        entityId: alert.id,
+        before: { status: 'open' },
+        after: { status: 'resolved', quantity: row?.quantity ?? null },
+      });
+    });
+  }
+
+  // Everything still waiting to be announced, including earlier failures
+  const pending = (
+    await prisma.stockAlert.findMany({
+      where: { status: 'open', notifiedAt: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    })
+  ).map(transformDbAlert);
+
+  let notified = 0;
+  if (pending.length > 0) {
+    let failed = false;
+    for (const notifier of notifiers) {
+      try {
+        await notifier.notify(pending);
+      } catch (error) {
+        failed = true;
+        console.error(`Stock alert notifier "${notifier.name}" failed:`, error);
+      }
+    }
+
+    if (!failed) {
+      await prisma.stockAlert.updateMany({
+        where: { id: { in: pending.map(alert => alert.id) } },
+        data: { notifiedAt: now },
+      });
+      notified = pending.length;
+    }
+  }
+
+  return { opened, resolved, notified };
+}
+
+/**
+ * List Stock Alerts (newest first)
+ *
+ * @param status - open (default), resolved, or undefined for both
+ */
+export async function getStockAlerts(
+  options: { status?: StockAlertStatus; limit?: number } = {}
+): Promise<StockAlert[]> {
+  const dbAlerts = await prisma.stockAlert.findMany({
+    where: options.status ? { status: options.status } : {},
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: Math.min(options.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT),
+  });
+  return dbAlerts.map(transformDbAlert);
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Alerts vs. the inventory.low_stock webhook:
+ *    - inventory.low_stock fires the moment a sale crosses the threshold
+ *    - The check also catches stock lowered by edits and imports, and
+ *      adds the reorder suggestion; it runs on a schedule
+ *
+ * 2. Order velocity:
+ *    - Units sold per day over the last VELOCITY_WINDOW_DAYS. A longer
+ *      window smooths out spikes; a shorter one reacts faster to trends
+ *
+ * 3. Pluggable notifiers:
+ *    - checkStockAlerts() takes any StockAlertNotifier, e.g. one posting
+ *      to a chat channel, without changes here
+ */
@@ -0,0 +1,253 @@
+import { Prisma } from '@prisma/client';
+import { Product } from '../types/product';
+import { StockDrift, StockMovement, StockMovementType } from '../types/inventory';
+import { prisma } from '../db';
+import { ServiceError } from './errors';
+import { getAuditContext } from './audit-service';
+import { spreadStockChange } from './locations-service';
+
+/**
+ * Stock Movements Service
+ *
+ * The inventory ledger: every change to a SKU's stock - a sale, a
+ * reservation, a delivery, two damaged units written off - is stored as a
+ * movement, in the same transaction as the change itself.
+ *
+ * Educational Concepts:
+ * - Ledger vs. balance: Product.quantity says how many there are; the
+ *   movements say why. Like a bank account, the balance must always equal
+ *   the sum of the transactions
+ * - Reconciliation: reconcileStock() adds the movements up and reports
+ *   every SKU where the sum and the quantity column disagree - a write
+ *   that bypassed the ledger, or a hand-edited database
+ */
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+function transformDbMovement(dbMovement: any): StockMovement {
+  return {
+    id: dbMovement.id,
+    productId: dbMovement.productId,
+    variantId: dbMovement.variantId || undefined,
+    type: dbMovement.type as StockMovementType,
+    quantity: dbMovement.quantity,
+    reserved: dbMovement.reserved,
+    reason: dbMovement.reason ?? undefined,
+    note: dbMovement.note ?? undefined,
+    reference: dbMovement.reference ?? undefined,
+    locationId: dbMovement.locationId ?? undefined,
+    actor: dbMovement.actor,
+    createdAt: dbMovement.createdAt,
+  };
+}
+
+/**
+ * Record a Movement (inside the transaction that changed the stock)
+ *
+ * The actor is taken from the audit context - the API key, customer or
+ * "system" behind the current request.
+ */
+export async function recordMovement(
+  tx: Prisma.TransactionClient,
+  movement: {
+    productId: string;
+    variantId?: string;
+    type: StockMovementType;
+    quantity?: number;
+    reserved?: number;
+    reason?: string;
+    note?: string;
+    reference?: string;
+    locationId?: string;
+  }
+): Promise<StockMovement> {
+  const dbMovement = await tx.inventoryMovement.create({
+    data: {
+      productId: movement.productId,
+      variantId: movement.variantId ?? '',
+      type: movement.type,
+      quantity: movement.quantity ?? 0,
+      reserved: movement.reserved ?? 0,
+      reason: movement.reason ?? null,
+      note: movement.note ?? null,
+      reference: movement.reference ?? null,
+      locationId: movement.locationId ?? null,
+      actor: getAuditContext().actor.name,
+    },
+  });
+  return transformDbMovement(dbMovement);
+}
+
+/**
+ * Stock of each SKU of a product, keyed by variant id ("" for the product
+ * itself when it has no variants)
+ */
+function getSkuStock(product: Product | null): Map<string, { quantity: number; reserved: number }> {
+  const stock = new Map<string, { quantity: number; reserved: number }>();
+  if (!product) return stock;
+
+  const variants = product.variants ?? [];
+  if (variants.length === 0) {
+    stock.set('', {
+      quantity: product.inventory.quantity,
+      reserved: product.inventory.reservedQuantity,
+    });
+  }
+  for (const variant of variants) {
+    stock.set(variant.id, {
+      quantity: variant.inventory.quantity,
+      reserved: variant.inventory.reservedQuantity,
+    });
+  }
+  return stock;
+}
+
+/**
+ * Apply the stock changes of a product write (create, update, restore)
+ *
+ * Editing a product can set its quantities directly. Each SKU whose stock
+ * changed gets a product_edit adjustment for the difference, per location
+ * it was spread over (see spreadStockChange); a removed variant is
+ * adjusted down to zero, so the ledger still adds up.
+ *
+ * Returns true if any location stock changed - the caller's copy of the
+ * product is then out of date.
+ */
+export async function applyProductStockEdit(
+  tx: Prisma.TransactionClient,
+  before: Product | null,
+  after: Product
+): Promise<boolean> {
+  const previous = getSkuStock(before);
+  const current = getSkuStock(after);
+  const keys = Array.from(new Set(Array.from(previous.keys()).concat(Array.from(current.keys()))));
+  let changed = false;
+
+  for (const key of keys) {
+    const from = previous.get(key) ?? { quantity: 0, reserved: 0 };
+    const to = current.get(key) ?? { quantity: 0, reserved: 0 };
+    if (from.quantity === to.quantity && from.reserved === to.reserved) continue;
+
+    const sku = { productId: after.id, variantId: key || undefined };
+    const delta = to.quantity - from.quantity;
+    const parts: { locationId?: string; quantity: number }[] = await spreadStockChange(tx, sku, delta);
+    changed = changed || parts.length > 0;
+
+    // Units the locations didn't hold (levels that drifted) are still booked,
+    // so the ledger matches the quantity column. Held units belong to no
+    // location; they ride along with the first movement.
+    const unplaced = delta - parts.reduce((sum, part) => sum + part.quantity, 0);
+    const movements = unplaced !== 0 || parts.length === 0 ? parts.concat([{ quantity: unplaced }]) : parts;
+    const reserved = to.reserved - from.reserved;
+    for (let i = 0; i < movements.length; i++) {
+      await recordMovement(tx, {
+        ...sku,
+        type: 'adjustment',
+        quantity: movements[i].quantity,
+        reserved: i === 0 ? reserved : 0,
+        reason: 'product_edit',
+        locationId: movements[i].locationId,
+      });
+    }
+  }
+
+  // Levels of removed variants (or of a product that now has variants)
+  const { count } = await tx.inventoryLevel.deleteMany({
+    where: { productId: after.id, variantId: { notIn: Array.from(current.keys()) } },
+  });
+
+  return changed || count > 0;
+}
+
+/**
+ * Movement History of a Product (newest first)
+ *
+ * @param variantId - Only this variant's movements
+ */
+export async function getProductMovements(
+  productId: string,
+  options: { variantId?: string; limit?: number } = {}
+): Promise<StockMovement[]> {
+  const product = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+  if (!product) {
+    throw new ServiceError(`Product with ID "${productId}" not found`, 'NOT_FOUND', 404);
+  }
+
+  const dbMovements = await prisma.inventoryMovement.findMany({
+    where: { productId, ...(options.variantId && { variantId: options.variantId }) },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: Math.min(options.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+  });
+  return dbMovements.map(transformDbMovement);
+}
+
+/**
+ * Reconcile Stock
+ *
+ * Compares the quantity column of every product and variant with the sum
+ * of its movements, and returns the ones that disagree. Products with
+ * variants are checked per variant and for their total.
+ */
+export async function reconcileStock(): Promise<StockDrift[]> {
+  const [products, sums] = await Promise.all([
+    prisma.product.findMany({ include: { variants: { orderBy: { position: 'asc' } } } }),
+    prisma.inventoryMovement.groupBy({
+      by: ['productId', 'variantId'],
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const ledger = new Map<string, number>();
+  const ledgerTotals = new Map<string, number>();
+  for (const row of sums) {
+    const quantity = row._sum.quantity ?? 0;
+    ledger.set(`${row.productId}:${row.variantId}`, quantity);
+    ledgerTotals.set(row.productId, (ledgerTotals.get(row.productId) ?? 0) + quantity);
+  }
+
+  const drifts: StockDrift[] = [];
+  const check = (productId: string, variantId: string | undefined, sku: string, quantity: number, ledgerQuantity: number) => {
+    if (quantity !== ledgerQuantity) {
+      drifts.push({
+        productId,
+        ...(variantId && { variantId }),
+        sku,
+        quantity,
+        ledgerQuantity,
+        drift: quantity - ledgerQuantity,
+      });
+    }
+  };
+
+  for (const product of products) {
+    for (const variant of product.variants) {
+      check(product.id, variant.id, variant.sku, variant.quantity, ledger.get(`${product.id}:${variant.id}`) ?? 0);
+    }
+    check(product.id, undefined, product.sku, product.quantity, ledgerTotals.get(product.id) ?? 0);
+  }
+
+  return drifts;
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Why keep the quantity column at all:
+ *    - Listings filter and sort on stock, and the conditional UPDATEs in
+ *      inventory-service rely on it to stop overselling. Summing the
+ *      ledger on every read would be slow; the column is the cached sum
+ *
+ * 2. Reserved units:
+ *    - Reservations and releases move `reserved`, not `quantity`. When an
+ *      order converts a reservation, the ledger shows a release followed
+ *      by the sale
+ *
+ * 3. Locations:
+ *    - Movements of on-hand units name the location they happened at, so
+ *      a location's history can be read from the same ledger
+ *
+ * 4. Opening balances:
+ *    - Stock that existed before the ledger was recorded as one
+ *      opening_balance adjustment per SKU when the table was created
+ */
@@ -0,0 +1,207 @@
+import {
+  TaxRateTable,
+  TaxRequest,
+  TaxBreakdown,
+  TaxCalculator,
+  TaxableLine,
+  LineTax,
+  JurisdictionTax,
+} from '../types/tax';
+import { PricingLine, PricingResult } from '../types/promotion';
+import { taxRates } from '../data/tax-rates';
+
+/**
+ * Tax Service
+ *
+ * Computes sales tax / VAT per line from the shipping address and returns a
+ * breakdown by jurisdiction (state, county, country...).
+ *
+ * Like the pricing service it has no database access: the checkout page
+ * calls it while the shopper types their address, and order creation calls
+ * it again to store the exact same figures.
+ *
+ * Educational Concepts:
+ * - Jurisdictions: a US address can owe state AND local tax; each is a row
+ *   of the breakdown
+ * - Exemptions: some places don't tax some categories (e.g. clothing in
+ *   Pennsylvania)
+ * - Tax-inclusive prices: outside the US, shelf prices usually already
+ *   contain the tax, so it is extracted instead of added
+ */
+
+// Prices in these currencies are shown before tax (North American
+// custom); all others include it
+const TAX_EXCLUSIVE_CURRENCIES = ['USD', 'CAD'];
+
+interface Jurisdiction {
+  name: string;
+  rate: number;
+  exemptCategories: string[];
+}
+
+/**
+ * Do prices in this currency already include tax?
+ */
+export function isTaxInclusive(currency: string): boolean {
+  return !TAX_EXCLUSIVE_CURRENCIES.includes(currency.toUpperCase());
+}
+
+// Countries and states can be written as a code or a name
+function matches(value: string, entry: { code: string; name: string }): boolean {
+  const normalized = value.trim().toLowerCase();
+  return normalized === entry.code.toLowerCase() || normalized === entry.name.toLowerCase();
+}
+
+/**
+ * Every jurisdiction that taxes an address, most general first
+ *
+ * Educational: The longest matching ZIP prefix wins, so "9410" can
+ * override "941" if the table ever needs a finer rate.
+ */
+function resolveJurisdictions(table: TaxRateTable, address: TaxRequest['address']): Jurisdiction[] {
+  const country = table.countries.find(entry => matches(address.country, entry));
+  if (!country) return [];
+
+  const jurisdictions: Jurisdiction[] = [];
+  if (country.rate > 0) {
+    jurisdictions.push({
+      name: country.taxName ?? country.name,
+      rate: country.rate,
+      exemptCategories: country.exemptCategories ?? [],
+    });
+  }
+
+  const region = country.regions?.find(entry => matches(address.state, entry));
+  if (!region) return jurisdictions;
+
+  // Local taxes follow the state's exemptions
+  const regionExemptions = region.exemptCategories ?? [];
+  if (region.rate > 0) {
+    jurisdictions.push({ name: region.name, rate: region.rate, exemptCategories: regionExemptions });
+  }
+
+  const zipCode = address.zipCode.trim();
+  const local = (region.zipRates ?? [])
+    .filter(zip => zipCode.startsWith(zip.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (local) {
+    jurisdictions.push({ name: local.name, rate: local.rate, exemptCategories: regionExemptions });
+  }
+
+  return jurisdictions;
+}
+
+function isExempt(jurisdiction: Jurisdiction, line: TaxableLine): boolean {
+  return (
+    jurisdiction.exemptCategories.includes(line.category) ||
+    (line.subcategory !== undefined && jurisdiction.exemptCategories.includes(line.subcategory))
+  );
+}
+
+/**
+ * Create a calculator for a rate table
+ *
+ * Educational Flow (per line):
+ * 1. Find the jurisdictions that tax this line (not exempt there)
+ * 2. Tax-exclusive: each jurisdiction charges amount × rate
+ *    Tax-inclusive: the net price is amount / (1 + combined rate), and each
+ *    jurisdiction's share is net × rate
+ * 3. Round each jurisdiction's tax per line, then add everything up
+ */
+export function createRateTableTaxCalculator(table: TaxRateTable): TaxCalculator {
+  return (request: TaxRequest): TaxBreakdown => {
+    const inclusive = isTaxInclusive(request.currency);
+    const jurisdictions = resolveJurisdictions(table, request.address);
+    const totals: JurisdictionTax[] = jurisdictions.map(jurisdiction => ({
+      name: jurisdiction.name,
+      rate: jurisdiction.rate,
+      taxableAmount: 0,
+      amount: 0,
+    }));
+
+    const lines: LineTax[] = request.lines.map(line => {
+      const applicable: number[] = [];
+      jurisdictions.forEach((jurisdiction, index) => {
+        if (!isExempt(jurisdiction, line)) applicable.push(index);
+      });
+
+      const rate = applicable.reduce((sum, index) => sum + jurisdictions[index].rate, 0);
+      const base = inclusive ? line.amount / (1 + rate) : line.amount;
+
+      let tax = 0;
+      for (const index of applicable) {
+        const amount = Math.round(base * jurisdictions[index].rate);
+        totals[index].amount += amount;
+        tax += amount;
+      }
+
+      // The taxed amount excludes the tax itself, so rate × taxableAmount
+      // gives the tax in both modes
+      const taxableAmount = applicable.length === 0 ? 0 : inclusive ? line.amount - tax : line.amount;
+      for (const index of applicable) {
+        totals[index].taxableAmount += taxableAmount;
+      }
+
+      return {
+        key: line.key,
+        taxableAmount,
+        rate,
+        tax,
+      };
+    });
+
+    return {
+      inclusive,
+      lines,
+      jurisdictions: totals,
+      taxTotal: lines.reduce((sum, line) => sum + line.tax, 0),
+    };
+  };
+}
+
+/**
+ * Calculate Tax
+ *
+ * The calculator used by checkout and order creation. Swap in another
+ * TaxCalculator here to use a different table or an external provider.
+ */
+export const calculateTax: TaxCalculator = createRateTableTaxCalculator(taxRates);
+
+/**
+ * Turn priced cart lines into taxable lines
+ *
+ * Tax is charged on what the shopper actually pays, so each line's amount
+ * is its total after promotions.
+ */
+export function getTaxableLines(lines: PricingLine[], pricing: PricingResult): TaxableLine[] {
+  return lines.map(line => ({
+    key: line.key,
+    category: line.category,
+    subcategory: line.subcategory,
+    amount: pricing.lineTotals[line.key] ?? line.unitPrice * line.quantity,
+  }));
+}
+
+/**
+ * Format a rate for display (0.0725 → "7.25%", 0.2 → "20%")
+ */
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(3))}%`;
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Why per line?
+ *    - Exemptions apply to products, not orders
+ *    - Each order line stores its own tax, so a partial refund knows
+ *      exactly how much tax to give back
+ *
+ * 2. Rounding:
+ *    - Tax is rounded per line and jurisdiction, then summed
+ *    - The breakdown therefore always adds up to the total
+ *
+ * 3. Unknown destinations:
+ *    - Addresses outside the rate table are not taxed
+ *    - A US state missing from the table only pays the (zero) country rate
+ */
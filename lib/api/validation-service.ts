@@ -0,0 +1,1426 @@
+import { ProductInput, ProductOption, ProductStatus, ProductVariantInput, CategoryInput } from '../types/product';
+import { FieldError } from '../types/api';
+import { OrderInput } from '../types/order';
+import {
+  InventoryLevelInput,
+  InventoryLocationInput,
+  InventoryLocationType,
+  StockAdjustmentInput,
+  StockAdjustmentReason,
+  StockLine,
+} from '../types/inventory';
+import { ReviewInput } from '../types/review';
+import { PromotionInput, PromotionType } from '../types/promotion';
+import { ShippingMethodId, ShippingQuoteInput } from '../types/shipping';
+import { ApiKeyInput, ApiScope } from '../types/auth';
+import { CartCheckInput, LoginInput, RegistrationInput } from '../types/customer';
+import { WebhookEndpointInput, WebhookEventType } from '../types/webhook';
+import { shippingMethods } from '../data/shipping-rates';
+import { isSupportedCurrency, SUPPORTED_CURRENCIES } from './currency-service';
+
+/**
+ * Validation Service
+ *
+ * Checks untrusted request bodies against the Product shape before they
+ * reach the database. Request bodies arrive as plain JSON, so nothing about
+ * their types can be assumed - every field is checked explicitly.
+ *
+ * Educational Note: TypeScript types disappear at runtime. A value typed as
+ * ProductInput in a route handler is only a promise, not a guarantee, until
+ * it has been validated like this.
+ */
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const PRODUCT_STATUSES: ProductStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Validate a nested inventory object ({ inStock, quantity, ... })
+ *
+ * A reservedQuantity in the input is ignored - only checkout holds change it.
+ */
+function validateInventory(inventory: unknown, field: string, errors: FieldError[]): boolean {
+  if (!isObject(inventory)) {
+    errors.push({ field, message: 'Is required' });
+    return false;
+  }
+
+  const before = errors.length;
+  if (typeof inventory.inStock !== 'boolean') {
+    errors.push({ field: `${field}.inStock`, message: 'Must be a boolean' });
+  }
+  for (const key of ['quantity', 'lowStockThreshold']) {
+    if (!isNonNegativeInteger(inventory[key])) {
+      errors.push({ field: `${field}.${key}`, message: 'Must be a non-negative integer' });
+    }
+  }
+  return errors.length === before;
+}
+
+/**
+ * Validate an array of images ({ url, alt, isPrimary })
+ */
+function validateImages(images: unknown, field: string, errors: FieldError[]) {
+  if (!Array.isArray(images)) {
+    errors.push({ field, message: 'Must be an array' });
+    return;
+  }
+  images.forEach((image: unknown, index: number) => {
+    if (
+      !isObject(image) ||
+      !isNonEmptyString(image.url) ||
+      typeof image.alt !== 'string' ||
+      typeof image.isPrimary !== 'boolean'
+    ) {
+      errors.push({
+        field: `${field}[${index}]`,
+        message: 'Must be an object with url, alt and isPrimary',
+      });
+    }
+  });
+}
+
+/**
+ * Validate option axes and the variants built from them
+ *
+ * Every variant must pick exactly one allowed value per option axis, and no
+ * two variants may share the same combination or SKU.
+ */
+function validateVariants(
+  optionsInput: unknown,
+  variantsInput: unknown,
+  errors: FieldError[]
+): { options: ProductOption[]; variants: ProductVariantInput[] } {
+  const options: ProductOption[] = [];
+  const variants: ProductVariantInput[] = [];
+
+  if (optionsInput != null) {
+    if (!Array.isArray(optionsInput)) {
+      errors.push({ field: 'options', message: 'Must be an array' });
+    } else {
+      optionsInput.forEach((option: unknown, index: number) => {
+        if (
+          !isObject(option) ||
+          !isNonEmptyString(option.name) ||
+          !Array.isArray(option.values) ||
+          option.values.length === 0 ||
+          !option.values.every(isNonEmptyString) ||
+          new Set(option.values).size !== option.values.length
+        ) {
+          errors.push({
+            field: `options[${index}]`,
+            message: 'Must be an object with a name and a list of distinct values',
+          });
+          return;
+        }
+        if (options.some(existing => existing.name === option.name)) {
+          errors.push({ field: `options[${index}].name`, message: `Duplicate option "${option.name}"` });
+          return;
+        }
+        options.push({ name: option.name.trim(), values: option.values });
+      });
+    }
+  }
+
+  if (variantsInput == null) {
+    return { options, variants };
+  }
+  if (!Array.isArray(variantsInput)) {
+    errors.push({ field: 'variants', message: 'Must be an array' });
+    return { options, variants };
+  }
+  if (variantsInput.length > 0 && options.length === 0) {
+    errors.push({ field: 'options', message: 'Products with variants must define their options' });
+    return { options, variants };
+  }
+
+  const seenSkus = new Set<string>();
+  const seenCombinations = new Set<string>();
+
+  variantsInput.forEach((variant: unknown, index: number) => {
+    const field = `variants[${index}]`;
+    if (!isObject(variant)) {
+      errors.push({ field, message: 'Must be an object' });
+      return;
+    }
+
+    const before = errors.length;
+    if (variant.id !== undefined && !isNonEmptyString(variant.id)) {
+      errors.push({ field: `${field}.id`, message: 'Must be a non-empty string' });
+    }
+    if (!isNonEmptyString(variant.sku)) {
+      errors.push({ field: `${field}.sku`, message: 'Is required' });
+    } else if (seenSkus.has(variant.sku.trim())) {
+      errors.push({ field: `${field}.sku`, message: `Duplicate SKU "${variant.sku}"` });
+    }
+    if (!isNonNegativeInteger(variant.price)) {
+      errors.push({ field: `${field}.price`, message: 'Must be a non-negative integer (cents)' });
+    }
+    if (variant.originalPrice != null && !isNonNegativeInteger(variant.originalPrice)) {
+      errors.push({ field: `${field}.originalPrice`, message: 'Must be a non-negative integer (cents)' });
+    }
+    validateInventory(variant.inventory, `${field}.inventory`, errors);
+    if (variant.images != null) {
+      validateImages(variant.images, `${field}.images`, errors);
+    }
+
+    // One allowed value for every option axis - no more, no less
+    const chosen = variant.options;
+    if (!isObject(chosen)) {
+      errors.push({ field: `${field}.options`, message: 'Must be an object' });
+    } else {
+      const names = Object.keys(chosen);
+      const valid =
+        names.length === options.length &&
+        options.every(option => option.values.includes(chosen[option.name]));
+      if (!valid) {
+        errors.push({
+          field: `${field}.options`,
+          message: `Must choose one value for each of: ${options.map(o => o.name).join(', ')}`,
+        });
+      } else {
+        const combination = options.map(option => chosen[option.name]).join(' / ');
+        if (seenCombinations.has(combination)) {
+          errors.push({ field: `${field}.options`, message: `Duplicate combination "${combination}"` });
+        }
+        seenCombinations.add(combination);
+      }
+    }
+
+    if (errors.length > before) return;
+
+    seenSkus.add(variant.sku.trim());
+    variants.push({
+      id: variant.id,
+      sku: variant.sku.trim(),
+      options: Object.fromEntries(options.map(option => [option.name, chosen[option.name]])),
+      price: variant.price,
+      originalPrice: variant.originalPrice ?? undefined,
+      inventory: {
+        inStock: variant.inventory.inStock,
+        quantity: variant.inventory.quantity,
+        lowStockThreshold: variant.inventory.lowStockThreshold,
+      },
+      images: variant.images ?? [],
+    });
+  });
+
+  return { options, variants };
+}
+
+/**
+ * Validate a Product Input
+ *
+ * Returns the normalized input (dates parsed, optional fields cleaned up)
+ * together with every field error found. The input is only usable when
+ * the errors array is empty.
+ *
+ * Educational Breakdown:
+ * - Required strings must be present and non-empty
+ * - Prices and quantities must be whole, non-negative numbers (cents!)
+ * - Nested objects (inventory, images) are validated field by field
+ * - New products are drafts unless a status is given; publishing without a
+ *   publishedAt publishes now, scheduling requires one
+ */
+export function validateProductInput(input: unknown): {
+  product: ProductInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      product: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  // Identity fields
+  if (input.id !== undefined && !isNonEmptyString(input.id)) {
+    errors.push({ field: 'id', message: 'Must be a non-empty string' });
+  }
+  if (!isNonEmptyString(input.slug) || !SLUG_PATTERN.test(input.slug)) {
+    errors.push({
+      field: 'slug',
+      message: 'Must be lowercase letters, numbers and single hyphens (e.g. "wireless-headphones")',
+    });
+  }
+  if (!isNonEmptyString(input.sku)) {
+    errors.push({ field: 'sku', message: 'Is required' });
+  }
+
+  // Basic information
+  if (!isNonEmptyString(input.name)) {
+    errors.push({ field: 'name', message: 'Is required' });
+  }
+  if (!isNonEmptyString(input.description)) {
+    errors.push({ field: 'description', message: 'Is required' });
+  }
+  if (input.longDescription != null && typeof input.longDescription !== 'string') {
+    errors.push({ field: 'longDescription', message: 'Must be a string' });
+  }
+
+  // Pricing - always integers in cents
+  if (!isNonNegativeInteger(input.price)) {
+    errors.push({ field: 'price', message: 'Must be a non-negative integer (cents)' });
+  }
+  if (input.originalPrice != null && !isNonNegativeInteger(input.originalPrice)) {
+    errors.push({ field: 'originalPrice', message: 'Must be a non-negative integer (cents)' });
+  }
+  if (typeof input.currency !== 'string' || !CURRENCY_PATTERN.test(input.currency)) {
+    errors.push({ field: 'currency', message: 'Must be a 3-letter currency code (e.g. "USD")' });
+  }
+
+  // Categorization
+  if (!isNonEmptyString(input.category)) {
+    errors.push({ field: 'category', message: 'Is required' });
+  }
+  if (input.subcategory != null && typeof input.subcategory !== 'string') {
+    errors.push({ field: 'subcategory', message: 'Must be a string' });
+  }
+  if (!Array.isArray(input.tags) || !input.tags.every(isNonEmptyString)) {
+    errors.push({ field: 'tags', message: 'Must be an array of non-empty strings' });
+  }
+
+  // Inventory
+  const inventory = input.inventory;
+  validateInventory(inventory, 'inventory', errors);
+
+  // Images
+  validateImages(input.images, 'images', errors);
+
+  // Variants (optional)
+  const { options, variants } = validateVariants(input.options, input.variants, errors);
+  variants.forEach((variant, index) => {
+    if (isNonEmptyString(input.sku) && variant.sku === input.sku.trim()) {
+      errors.push({ field: `variants[${index}].sku`, message: 'Must differ from the product SKU' });
+    }
+  });
+
+  // Flags
+  if (typeof input.featured !== 'boolean') {
+    errors.push({ field: 'featured', message: 'Must be a boolean' });
+  }
+  if (typeof input.isNew !== 'boolean') {
+    errors.push({ field: 'isNew', message: 'Must be a boolean' });
+  }
+
+  // Attributes - flat key/value pairs only
+  if (!isObject(input.attributes)) {
+    errors.push({ field: 'attributes', message: 'Must be an object' });
+  } else {
+    for (const [key, value] of Object.entries(input.attributes)) {
+      if (!['string', 'number', 'boolean'].includes(typeof value)) {
+        errors.push({
+          field: `attributes.${key}`,
+          message: 'Must be a string, number or boolean',
+        });
+      }
+    }
+  }
+
+  // Timestamps (optional)
+  let publishedAt: Date | undefined;
+  if (input.publishedAt != null) {
+    const parsed = parseDate(input.publishedAt);
+    if (!parsed) {
+      errors.push({ field: 'publishedAt', message: 'Must be a valid date' });
+    } else {
+      publishedAt = parsed;
+    }
+  }
+
+  // Publishing workflow
+  const status: ProductStatus = input.status ?? 'draft';
+  if (!PRODUCT_STATUSES.includes(status)) {
+    errors.push({ field: 'status', message: `Must be one of: ${PRODUCT_STATUSES.join(', ')}` });
+  } else if (status === 'scheduled' && input.publishedAt == null) {
+    errors.push({ field: 'publishedAt', message: 'Is required for scheduled products' });
+  } else if (status === 'published' && !publishedAt) {
+    publishedAt = new Date();
+  }
+
+  if (errors.length > 0) {
+    return { product: null, errors };
+  }
+
+  return {
+    product: {
+      id: input.id,
+      slug: input.slug,
+      sku: input.sku.trim(),
+      name: input.name.trim(),
+      description: input.description.trim(),
+      longDescription: input.longDescription ?? undefined,
+      price: input.price,
+      originalPrice: input.originalPrice ?? undefined,
+      currency: input.currency,
+      category: input.category,
+      subcategory: input.subcategory ?? undefined,
+      tags: input.tags,
+      inventory: {
+        inStock: inventory.inStock,
+        quantity: inventory.quantity,
+        lowStockThreshold: inventory.lowStockThreshold,
+      },
+      images: input.images,
+      featured: input.featured,
+      isNew: input.isNew,
+      attributes: input.attributes,
+      options,
+      variants,
+      status,
+      publishedAt,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate a Category Input
+ *
+ * Same contract as validateProductInput: the normalized input is only
+ * returned when there are no errors. Whether parentId points at a real
+ * category is checked by the categories service, which has database access.
+ */
+export function validateCategoryInput(input: unknown): {
+  category: CategoryInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      category: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (input.id !== undefined && !isNonEmptyString(input.id)) {
+    errors.push({ field: 'id', message: 'Must be a non-empty string' });
+  }
+  if (!isNonEmptyString(input.slug) || !SLUG_PATTERN.test(input.slug)) {
+    errors.push({
+      field: 'slug',
+      message: 'Must be lowercase letters, numbers and single hyphens (e.g. "home-living")',
+    });
+  }
+  if (!isNonEmptyString(input.name)) {
+    errors.push({ field: 'name', message: 'Is required' });
+  }
+  if (typeof input.description !== 'string') {
+    errors.push({ field: 'description', message: 'Must be a string' });
+  }
+  if (input.image != null && typeof input.image !== 'string') {
+    errors.push({ field: 'image', message: 'Must be a string' });
+  }
+  if (input.parentId != null && !isNonEmptyString(input.parentId)) {
+    errors.push({ field: 'parentId', message: 'Must be a category id or null' });
+  }
+
+  if (errors.length > 0) {
+    return { category: null, errors };
+  }
+
+  return {
+    category: {
+      id: input.id,
+      slug: input.slug,
+      name: input.name.trim(),
+      description: input.description,
+      image: input.image ?? undefined,
+      parentId: input.parentId ?? undefined,
+    },
+    errors,
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_LINE_QUANTITY = 99;
+const SHIPPING_METHOD_IDS: unknown[] = shippingMethods.map(method => method.id);
+
+/**
+ * Validate a list of { productId, variantId?, quantity } items
+ *
+ * Pushes problems onto the given errors array and returns the items with
+ * repeated product (and variant) ids merged into a single line, which must
+ * stay within MAX_LINE_QUANTITY too. With
+ * allowEmpty (carts), an empty or missing list is fine.
+ */
+function validateItems(
+  input: unknown,
+  errors: FieldError[],
+  allowEmpty: boolean = false
+): StockLine[] {
+  const lines = new Map<string, StockLine>();
+
+  if (allowEmpty && (input == null || (Array.isArray(input) && input.length === 0))) {
+    return [];
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    errors.push({ field: 'items', message: 'Must contain at least one item' });
+    return [];
+  }
+
+  input.forEach((item: unknown, index: number) => {
+    if (!isObject(item) || !isNonEmptyString(item.productId)) {
+      errors.push({ field: `items[${index}].productId`, message: 'Is required' });
+      return;
+    }
+    if (item.variantId != null && !isNonEmptyString(item.variantId)) {
+      errors.push({ field: `items[${index}].variantId`, message: 'Must be a string' });
+      return;
+    }
+    if (
+      !isNonNegativeInteger(item.quantity) ||
+      item.quantity < 1 ||
+      item.quantity > MAX_LINE_QUANTITY
+    ) {
+      errors.push({
+        field: `items[${index}].quantity`,
+        message: `Must be a whole number from 1 to ${MAX_LINE_QUANTITY}`,
+      });
+      return;
+    }
+
+    const key = `${item.productId}|${item.variantId ?? ''}`;
+    const existing = lines.get(key);
+    if (existing) {
+      // Two lines of 60 are one line of 120 - the limit applies to the total
+      if (existing.quantity + item.quantity > MAX_LINE_QUANTITY) {
+        errors.push({
+          field: `items[${index}].quantity`,
+          message: `Lines for the same product add up to more than ${MAX_LINE_QUANTITY}`,
+        });
+        return;
+      }
+      existing.quantity += item.quantity;
+    } else {
+      lines.set(key, {
+        productId: item.productId,
+        ...(item.variantId != null && { variantId: item.variantId }),
+        quantity: item.quantity,
+      });
+    }
+  });
+
+  return Array.from(lines.values());
+}
+
+/**
+ * Validate a Reservation Input
+ *
+ * Body of POST /api/inventory/reservations: { items: [{ productId, variantId?, quantity }] }
+ */
+export function validateReservationInput(input: unknown): {
+  items: StockLine[] | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      items: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  const items = validateItems(input.items, errors);
+  return { items: errors.length > 0 ? null : items, errors };
+}
+
+/**
+ * Validate an Order Input
+ *
+ * Checks contact details, the shipping address and the requested items.
+ * Repeated product (and variant) ids are merged into a single line.
+ */
+export function validateOrderInput(input: unknown): {
+  order: OrderInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      order: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  // Customer
+  const customer = input.customer;
+  if (!isObject(customer)) {
+    errors.push({ field: 'customer', message: 'Is required' });
+  } else {
+    if (typeof customer.email !== 'string' || !EMAIL_PATTERN.test(customer.email.trim())) {
+      errors.push({ field: 'customer.email', message: 'Must be a valid email address' });
+    }
+    for (const key of ['firstName', 'lastName']) {
+      if (!isNonEmptyString(customer[key])) {
+        errors.push({ field: `customer.${key}`, message: 'Is required' });
+      }
+    }
+    if (customer.phone != null && typeof customer.phone !== 'string') {
+      errors.push({ field: 'customer.phone', message: 'Must be a string' });
+    }
+  }
+
+  // Shipping address
+  const address = input.shippingAddress;
+  if (!isObject(address)) {
+    errors.push({ field: 'shippingAddress', message: 'Is required' });
+  } else {
+    for (const key of ['address', 'city', 'state', 'zipCode', 'country']) {
+      if (!isNonEmptyString(address[key])) {
+        errors.push({ field: `shippingAddress.${key}`, message: 'Is required' });
+      }
+    }
+  }
+
+  // Items
+  const items = validateItems(input.items, errors);
+
+  // Reservation token from the checkout page (optional)
+  if (input.reservationToken != null && !isNonEmptyString(input.reservationToken)) {
+    errors.push({ field: 'reservationToken', message: 'Must be a string' });
+  }
+
+  // Coupon code (optional)
+  if (input.couponCode != null && typeof input.couponCode !== 'string') {
+    errors.push({ field: 'couponCode', message: 'Must be a string' });
+  }
+
+  // Shipping method (optional, standard by default)
+  if (input.shippingMethod != null && !SHIPPING_METHOD_IDS.includes(input.shippingMethod)) {
+    errors.push({
+      field: 'shippingMethod',
+      message: `Must be one of: ${SHIPPING_METHOD_IDS.join(', ')}`,
+    });
+  }
+
+  // Currency to charge in (optional, USD by default)
+  if (input.currency != null && !isSupportedCurrency(input.currency)) {
+    errors.push({
+      field: 'currency',
+      message: `Must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { order: null, errors };
+  }
+
+  return {
+    order: {
+      customer: {
+        email: customer.email.trim().toLowerCase(),
+        firstName: customer.firstName.trim(),
+        lastName: customer.lastName.trim(),
+        phone: customer.phone?.trim() || undefined,
+      },
+      shippingAddress: {
+        address: address.address.trim(),
+        city: address.city.trim(),
+        state: address.state.trim(),
+        zipCode: address.zipCode.trim(),
+        country: address.country.trim(),
+      },
+      items,
+      reservationToken: input.reservationToken ?? undefined,
+      couponCode: input.couponCode?.trim() || undefined,
+      shippingMethod: input.shippingMethod ?? 'standard',
+      currency: input.currency ?? undefined,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate a Shipping Quote Input
+ *
+ * Body of POST /api/shipping/quote: { items, country, couponCode? }
+ */
+export function validateShippingQuoteInput(input: unknown): {
+  quote: ShippingQuoteInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      quote: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  const items = validateItems(input.items, errors);
+
+  if (!isNonEmptyString(input.country)) {
+    errors.push({ field: 'country', message: 'Is required' });
+  }
+  if (input.couponCode != null && typeof input.couponCode !== 'string') {
+    errors.push({ field: 'couponCode', message: 'Must be a string' });
+  }
+  if (input.currency != null && !isSupportedCurrency(input.currency)) {
+    errors.push({
+      field: 'currency',
+      message: `Must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { quote: null, errors };
+  }
+
+  return {
+    quote: {
+      items,
+      country: input.country.trim(),
+      couponCode: input.couponCode?.trim() || undefined,
+      currency: input.currency ?? undefined,
+    },
+    errors,
+  };
+}
+
+const MAX_REVIEW_TITLE_LENGTH = 120;
+const MAX_REVIEW_BODY_LENGTH = 5000;
+
+/**
+ * Validate a Review Input
+ *
+ * Checks the fields a customer submits with a review. Whether the product
+ * exists and whether the customer bought it is decided by the reviews
+ * service.
+ */
+export function validateReviewInput(input: unknown): {
+  review: ReviewInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      review: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.authorName)) {
+    errors.push({ field: 'authorName', message: 'Is required' });
+  }
+  if (typeof input.email !== 'string' || !EMAIL_PATTERN.test(input.email.trim())) {
+    errors.push({ field: 'email', message: 'Must be a valid email address' });
+  }
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    errors.push({ field: 'rating', message: 'Must be a whole number from 1 to 5' });
+  }
+  if (
+    input.title != null &&
+    (typeof input.title !== 'string' || input.title.length > MAX_REVIEW_TITLE_LENGTH)
+  ) {
+    errors.push({
+      field: 'title',
+      message: `Must be a string of at most ${MAX_REVIEW_TITLE_LENGTH} characters`,
+    });
+  }
+  if (!isNonEmptyString(input.body)) {
+    errors.push({ field: 'body', message: 'Is required' });
+  } else if (input.body.length > MAX_REVIEW_BODY_LENGTH) {
+    errors.push({
+      field: 'body',
+      message: `Must be at most ${MAX_REVIEW_BODY_LENGTH} characters`,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { review: null, errors };
+  }
+
+  return {
+    review: {
+      authorName: input.authorName.trim(),
+      email: input.email.trim().toLowerCase(),
+      rating: input.rating,
+      title: input.title?.trim() || undefined,
+      body: input.body.trim(),
+    },
+    errors,
+  };
+}
+
+const PROMOTION_TYPES: PromotionType[] = ['percentage', 'fixed', 'buy-x-get-y'];
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+/**
+ * Check that a value is an array of non-empty strings
+ */
+function validateStringList(value: unknown, field: string, errors: FieldError[]): string[] {
+  if (value == null) return [];
+  if (!Array.isArray(value) || !value.every(isNonEmptyString)) {
+    errors.push({ field, message: 'Must be an array of strings' });
+    return [];
+  }
+  return value.map((item: string) => item.trim());
+}
+
+/**
+ * Validate a Promotion Input
+ *
+ * Checks that the rule is complete for its type - e.g. a percentage must be
+ * 1-100 and buy-x-get-y needs both quantities.
+ */
+export function validatePromotionInput(input: unknown): {
+  promotion: PromotionInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      promotion: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (input.id !== undefined && !isNonEmptyString(input.id)) {
+    errors.push({ field: 'id', message: 'Must be a non-empty string' });
+  }
+
+  // Coupon code (optional - promotions without one apply automatically)
+  let code: string | undefined;
+  if (input.code != null) {
+    code = typeof input.code === 'string' ? input.code.trim().toUpperCase() : '';
+    if (!COUPON_CODE_PATTERN.test(code)) {
+      errors.push({
+        field: 'code',
+        message: 'Must be 3-32 letters, digits, "-" or "_"',
+      });
+    }
+  }
+
+  if (!isNonEmptyString(input.name)) {
+    errors.push({ field: 'name', message: 'Is required' });
+  }
+  if (input.description != null && typeof input.description !== 'string') {
+    errors.push({ field: 'description', message: 'Must be a string' });
+  }
+
+  // Type and value
+  if (!PROMOTION_TYPES.includes(input.type)) {
+    errors.push({ field: 'type', message: `Must be one of: ${PROMOTION_TYPES.join(', ')}` });
+  } else if (input.type === 'fixed') {
+    if (!isNonNegativeInteger(input.value) || input.value === 0) {
+      errors.push({ field: 'value', message: 'Must be a positive amount in cents' });
+    }
+  } else if (!Number.isInteger(input.value) || input.value < 1 || input.value > 100) {
+    errors.push({ field: 'value', message: 'Must be a percentage from 1 to 100' });
+  }
+
+  if (input.type === 'buy-x-get-y') {
+    for (const key of ['buyQuantity', 'getQuantity']) {
+      if (!Number.isInteger(input[key]) || input[key] < 1) {
+        errors.push({ field: key, message: 'Must be a positive whole number' });
+      }
+    }
+  }
+
+  // Scope
+  const categories = validateStringList(input.categories, 'categories', errors);
+  const tags = validateStringList(input.tags, 'tags', errors);
+
+  // Limits
+  for (const key of ['minSubtotal', 'usageLimit']) {
+    if (input[key] != null && !isNonNegativeInteger(input[key])) {
+      errors.push({ field: key, message: 'Must be a non-negative integer' });
+    }
+  }
+
+  // Validity window
+  let startsAt: Date | undefined;
+  let endsAt: Date | undefined;
+  if (input.startsAt != null) {
+    startsAt = parseDate(input.startsAt) ?? undefined;
+    if (!startsAt) errors.push({ field: 'startsAt', message: 'Must be a valid date' });
+  }
+  if (input.endsAt != null) {
+    endsAt = parseDate(input.endsAt) ?? undefined;
+    if (!endsAt) errors.push({ field: 'endsAt', message: 'Must be a valid date' });
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.push({ field: 'endsAt', message: 'Must be after startsAt' });
+  }
+
+  if (input.active != null && typeof input.active !== 'boolean') {
+    errors.push({ field: 'active', message: 'Must be a boolean' });
+  }
+
+  if (errors.length > 0) {
+    return { promotion: null, errors };
+  }
+
+  const isBuyXGetY = input.type === 'buy-x-get-y';
+
+  return {
+    promotion: {
+      id: input.id,
+      code,
+      name: input.name.trim(),
+      description: input.description ?? undefined,
+      type: input.type,
+      value: input.value,
+      buyQuantity: isBuyXGetY ? input.buyQuantity : undefined,
+      getQuantity: isBuyXGetY ? input.getQuantity : undefined,
+      categories,
+      tags,
+      minSubtotal: input.minSubtotal ?? undefined,
+      usageLimit: input.usageLimit ?? undefined,
+      startsAt,
+      endsAt,
+      active: input.active ?? true,
+    },
+    errors,
+  };
+}
+
+const API_SCOPES: ApiScope[] = [
+  'products:read',
+  'products:write',
+  'categories:write',
+  'promotions:read',
+  'promotions:write',
+  'reviews:moderate',
+  'orders:read',
+  'audit:read',
+  'admin',
+];
+
+/**
+ * Validate an API Key Input
+ *
+ * A key needs a name and at least one known scope. An expiry, if given,
+ * must lie in the future.
+ */
+export function validateApiKeyInput(input: unknown): {
+  apiKey: ApiKeyInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      apiKey: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.name)) {
+    errors.push({ field: 'name', message: 'Is required' });
+  }
+
+  if (
+    !Array.isArray(input.scopes) ||
+    input.scopes.length === 0 ||
+    !input.scopes.every((scope: unknown) => API_SCOPES.includes(scope as ApiScope))
+  ) {
+    errors.push({
+      field: 'scopes',
+      message: `Must be a non-empty list of: ${API_SCOPES.join(', ')}`,
+    });
+  }
+
+  let expiresAt: Date | undefined;
+  if (input.expiresAt != null) {
+    expiresAt = parseDate(input.expiresAt) ?? undefined;
+    if (!expiresAt) {
+      errors.push({ field: 'expiresAt', message: 'Must be a valid date' });
+    } else if (expiresAt <= new Date()) {
+      errors.push({ field: 'expiresAt', message: 'Must be in the future' });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { apiKey: null, errors };
+  }
+
+  return {
+    apiKey: {
+      name: input.name.trim(),
+      scopes: Array.from(new Set<ApiScope>(input.scopes)),
+      expiresAt,
+    },
+    errors,
+  };
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Validate a Registration Input
+ *
+ * Emails are compared in lowercase, so "Ada@Example.com" and
+ * "ada@example.com" are one account.
+ */
+export function validateRegistrationInput(input: unknown): {
+  registration: RegistrationInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      registration: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.email) || !EMAIL_PATTERN.test(input.email.trim())) {
+    errors.push({ field: 'email', message: 'Must be a valid email address' });
+  }
+  if (!isNonEmptyString(input.name)) {
+    errors.push({ field: 'name', message: 'Is required' });
+  }
+  if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+    errors.push({
+      field: 'password',
+      message: `Must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    });
+  }
+  const items = validateItems(input.items, errors, true);
+
+  if (errors.length > 0) {
+    return { registration: null, errors };
+  }
+
+  return {
+    registration: {
+      email: input.email.trim().toLowerCase(),
+      name: input.name.trim(),
+      password: input.password,
+      items,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate a Login Input
+ *
+ * Only checks that the fields are there - whether they are right is the
+ * customers service's job.
+ */
+export function validateLoginInput(input: unknown): {
+  login: LoginInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      login: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.email)) {
+    errors.push({ field: 'email', message: 'Is required' });
+  }
+  if (!isNonEmptyString(input.password)) {
+    errors.push({ field: 'password', message: 'Is required' });
+  }
+  const items = validateItems(input.items, errors, true);
+
+  if (errors.length > 0) {
+    return { login: null, errors };
+  }
+
+  return {
+    login: {
+      email: input.email.trim().toLowerCase(),
+      password: input.password,
+      items,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate a Cart Input
+ *
+ * Body of PUT /api/cart and POST /api/cart/hydrate:
+ * { items: [{ productId, variantId?, quantity }] } - an empty list is an
+ * empty cart.
+ */
+export function validateCartInput(input: unknown): {
+  items: StockLine[] | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      items: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  const items = validateItems(input.items, errors, true);
+  return { items: errors.length > 0 ? null : items, errors };
+}
+
+/**
+ * Validate a Cart Validation Input
+ *
+ * Body of POST /api/cart/validate:
+ * { items: [{ productId, variantId?, quantity, price? }], reservationToken? }
+ *
+ * `price` is the unit price (cents) the shopper was shown. Lines repeated
+ * for the same product and variant are merged like everywhere else.
+ */
+export function validateCartCheckInput(input: unknown): {
+  cart: CartCheckInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      cart: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (input.reservationToken != null && !isNonEmptyString(input.reservationToken)) {
+    errors.push({ field: 'reservationToken', message: 'Must be a string' });
+  }
+
+  const lines = validateItems(input.items, errors, true);
+
+  const prices = new Map<string, number>();
+  if (Array.isArray(input.items)) {
+    input.items.forEach((item: unknown, index: number) => {
+      if (!isObject(item) || item.price == null) return;
+      if (!isNonNegativeInteger(item.price)) {
+        errors.push({ field: `items[${index}].price`, message: 'Must be a non-negative integer (cents)' });
+        return;
+      }
+      prices.set(`${item.productId}|${item.variantId ?? ''}`, item.price);
+    });
+  }
+
+  if (errors.length > 0) return { cart: null, errors };
+
+  return {
+    cart: {
+      items: lines.map(line => {
+        const price = prices.get(`${line.productId}|${line.variantId ?? ''}`);
+        return price === undefined ? line : { ...line, price };
+      }),
+      ...(input.reservationToken != null && { reservationToken: input.reservationToken }),
+    },
+    errors,
+  };
+}
+
+const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'product.created',
+  'product.updated',
+  'product.deleted',
+  'inventory.low_stock',
+  'inventory.stock_alert',
+  'order.placed',
+];
+const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Validate a Webhook Endpoint Input
+ *
+ * The URL must be absolute http(s); `events` a non-empty list of known
+ * event types. Endpoints are active unless `active: false` is given.
+ */
+export function validateWebhookEndpointInput(input: unknown): {
+  endpoint: WebhookEndpointInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      endpoint: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  let url: URL | null = null;
+  try {
+    url = isNonEmptyString(input.url) ? new URL(input.url) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    errors.push({ field: 'url', message: 'Must be an absolute http:// or https:// URL' });
+  }
+
+  if (
+    !Array.isArray(input.events) ||
+    input.events.length === 0 ||
+    !input.events.every((event: unknown) => WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))
+  ) {
+    errors.push({
+      field: 'events',
+      message: `Must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+    });
+  }
+
+  if (
+    input.description != null &&
+    (typeof input.description !== 'string' ||
+      input.description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH)
+  ) {
+    errors.push({
+      field: 'description',
+      message: `Must be a string of at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters`,
+    });
+  }
+
+  if (input.active != null && typeof input.active !== 'boolean') {
+    errors.push({ field: 'active', message: 'Must be true or false' });
+  }
+
+  if (errors.length > 0) {
+    return { endpoint: null, errors };
+  }
+
+  return {
+    endpoint: {
+      url: url!.toString(),
+      description: input.description?.trim() || undefined,
+      events: Array.from(new Set<WebhookEventType>(input.events)),
+      active: input.active ?? true,
+    },
+    errors,
+  };
+}
+
+/**
+ * Adjustment reason codes and the direction each allows
+ * (1: stock goes up, -1: down, 0: either)
+ */
+const STOCK_ADJUSTMENT_REASONS: Record<StockAdjustmentReason, 1 | -1 | 0> = {
+  received: 1,
+  customer_return: 1,
+  found: 1,
+  damaged: -1,
+  lost: -1,
+  stolen: -1,
+  expired: -1,
+  count_correction: 0,
+  other: 0,
+};
+const MAX_ADJUSTMENT_TEXT_LENGTH = 500;
+
+/**
+ * Validate a Stock Adjustment Input
+ *
+ * quantity is a non-zero whole number whose sign matches the reason
+ * (damaged stock can't go up). "other" needs a note saying what happened.
+ */
+export function validateStockAdjustmentInput(input: unknown): {
+  adjustment: StockAdjustmentInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      adjustment: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.productId)) {
+    errors.push({ field: 'productId', message: 'Is required' });
+  }
+  for (const key of ['variantId', 'locationId']) {
+    if (input[key] != null && !isNonEmptyString(input[key])) {
+      errors.push({ field: key, message: 'Must be a non-empty string' });
+    }
+  }
+
+  const reasons = Object.keys(STOCK_ADJUSTMENT_REASONS) as StockAdjustmentReason[];
+  const reason = input.reason as StockAdjustmentReason;
+  if (!reasons.includes(reason)) {
+    errors.push({ field: 'reason', message: `Must be one of: ${reasons.join(', ')}` });
+  }
+
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    errors.push({ field: 'quantity', message: 'Must be a non-zero whole number (negative to remove stock)' });
+  } else if (reasons.includes(reason) && STOCK_ADJUSTMENT_REASONS[reason] * input.quantity < 0) {
+    errors.push({
+      field: 'quantity',
+      message: `Must be ${STOCK_ADJUSTMENT_REASONS[reason] > 0 ? 'positive' : 'negative'} for ${reason}`,
+    });
+  }
+
+  for (const key of ['note', 'reference']) {
+    if (
+      input[key] != null &&
+      (typeof input[key] !== 'string' || input[key].length > MAX_ADJUSTMENT_TEXT_LENGTH)
+    ) {
+      errors.push({ field: key, message: `Must be a string of at most ${MAX_ADJUSTMENT_TEXT_LENGTH} characters` });
+    }
+  }
+  if (reason === 'other' && !isNonEmptyString(input.note)) {
+    errors.push({ field: 'note', message: 'Is required for reason "other"' });
+  }
+
+  if (errors.length > 0) {
+    return { adjustment: null, errors };
+  }
+
+  return {
+    adjustment: {
+      productId: input.productId,
+      ...(input.variantId != null && { variantId: input.variantId }),
+      ...(input.locationId != null && { locationId: input.locationId }),
+      quantity: input.quantity,
+      reason,
+      ...(isNonEmptyString(input.note) && { note: input.note.trim() }),
+      ...(isNonEmptyString(input.reference) && { reference: input.reference.trim() }),
+    },
+    errors,
+  };
+}
+
+const LOCATION_TYPES: InventoryLocationType[] = ['warehouse', 'store'];
+const LOCATION_CODE_PATTERN = /^[A-Z0-9]+(?:-[A-Z0-9]+)*$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const MAX_LOCATION_NAME_LENGTH = 100;
+const MAX_ZIP_CODE_LENGTH = 10;
+
+/**
+ * Validate an Inventory Location Input
+ *
+ * code is upper case, e.g. "WH-EAST". Defaults: type warehouse, priority 0,
+ * country US, no pickup.
+ */
+export function validateLocationInput(input: unknown): {
+  location: InventoryLocationInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      location: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.code) || !LOCATION_CODE_PATTERN.test(input.code)) {
+    errors.push({ field: 'code', message: 'Must be upper-case letters, digits and hyphens, e.g. WH-EAST' });
+  }
+  if (!isNonEmptyString(input.name) || input.name.trim().length > MAX_LOCATION_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `Is required (at most ${MAX_LOCATION_NAME_LENGTH} characters)` });
+  }
+  if (input.type != null && !LOCATION_TYPES.includes(input.type)) {
+    errors.push({ field: 'type', message: `Must be one of: ${LOCATION_TYPES.join(', ')}` });
+  }
+  if (input.priority != null && !isNonNegativeInteger(input.priority)) {
+    errors.push({ field: 'priority', message: 'Must be a non-negative whole number' });
+  }
+  if (
+    input.zipCode != null &&
+    (!isNonEmptyString(input.zipCode) || input.zipCode.trim().length > MAX_ZIP_CODE_LENGTH)
+  ) {
+    errors.push({ field: 'zipCode', message: `Must be a string of at most ${MAX_ZIP_CODE_LENGTH} characters` });
+  }
+  if (input.country != null && (typeof input.country !== 'string' || !COUNTRY_PATTERN.test(input.country))) {
+    errors.push({ field: 'country', message: 'Must be a two-letter country code, e.g. US' });
+  }
+  if (input.pickup != null && typeof input.pickup !== 'boolean') {
+    errors.push({ field: 'pickup', message: 'Must be true or false' });
+  }
+
+  if (errors.length > 0) {
+    return { location: null, errors };
+  }
+
+  return {
+    location: {
+      code: input.code,
+      name: input.name.trim(),
+      type: input.type ?? 'warehouse',
+      priority: input.priority ?? 0,
+      ...(input.zipCode != null && { zipCode: input.zipCode.trim() }),
+      country: input.country ?? 'US',
+      pickup: input.pickup ?? false,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate an Inventory Level Input (a location's low-stock threshold for
+ * one product or variant)
+ */
+export function validateLevelInput(input: unknown): {
+  level: InventoryLevelInput | null;
+  errors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+
+  if (!isObject(input)) {
+    return {
+      level: null,
+      errors: [{ field: '', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  if (!isNonEmptyString(input.productId)) {
+    errors.push({ field: 'productId', message: 'Is required' });
+  }
+  if (input.variantId != null && !isNonEmptyString(input.variantId)) {
+    errors.push({ field: 'variantId', message: 'Must be a non-empty string' });
+  }
+  if (!isNonNegativeInteger(input.lowStockThreshold)) {
+    errors.push({ field: 'lowStockThreshold', message: 'Must be a non-negative whole number' });
+  }
+
+  if (errors.length > 0) {
+    return { level: null, errors };
+  }
+
+  return {
+    level: {
+      productId: input.productId,
+      ...(input.variantId != null && { variantId: input.variantId }),
+      lowStockThreshold: input.lowStockThreshold,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,517 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import {
+  RegisteredWebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from '../types/webhook';
+import { prisma } from '../db';
+import { ServiceError } from './errors';
+import { validateWebhookEndpointInput } from './validation-service';
+import { recordAuditEvent } from './audit-service';
+
+/**
+ * Webhooks Service
+ *
+ * Registers webhook endpoints, queues events for them and delivers the
+ * queue with retries.
+ *
+ * Educational Flow (one event):
+ * 1. A write (product saved, order placed) calls enqueueWebhookEvent()
+ *    inside its own transaction - one pending WebhookDelivery row per
+ *    subscribed endpoint (the "transactional outbox" pattern)
+ * 2. After the commit, deliverWebhooksSoon() sends the queue in the
+ *    background; `npm run webhooks:deliver` does the same on a schedule
+ * 3. Each attempt POSTs the payload with an HMAC signature header
+ * 4. A 2xx answer marks the delivery delivered. Anything else schedules a
+ *    retry with exponential backoff; after MAX_ATTEMPTS the delivery is
+ *    dead and waits on the dead-letter list
+ *
+ * Educational Concepts:
+ * - At-least-once delivery: a receiver may see an event twice (e.g. it
+ *   processed it but the answer got lost) and should de-duplicate by the
+ *   event id
+ * - Signatures let the receiver check that a request came from us and
+ *   wasn't changed on the way
+ */
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// 30s, 1m, 2m, 4m, ... - ten attempts span about eight and a half hours
+export const MAX_ATTEMPTS = 10;
+const RETRY_BASE_SECONDS = 30;
+
+// A receiver has this long to answer before the attempt counts as failed
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// How long a worker owns a delivery it is sending (see claimDelivery)
+const CLAIM_SECONDS = 60;
+
+// Signatures older than this are refused by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_DELIVERY_LIST_LIMIT = 200;
+
+function transformDbEndpoint(dbEndpoint: any): WebhookEndpoint {
+  return {
+    id: dbEndpoint.id,
+    url: dbEndpoint.url,
+    description: dbEndpoint.description ?? undefined,
+    events: JSON.parse(dbEndpoint.events),
+    active: dbEndpoint.active,
+    createdAt: dbEndpoint.createdAt,
+    updatedAt: dbEndpoint.updatedAt,
+  };
+}
+
+function transformDbDelivery(dbDelivery: any): WebhookDelivery {
+  return {
+    id: dbDelivery.id,
+    endpointId: dbDelivery.endpointId,
+    eventId: dbDelivery.eventId,
+    eventType: dbDelivery.eventType as WebhookEventType,
+    status: dbDelivery.status as WebhookDeliveryStatus,
+    attempts: dbDelivery.attempts,
+    nextAttemptAt: dbDelivery.status === 'pending' ? dbDelivery.nextAttemptAt : undefined,
+    lastAttemptAt: dbDelivery.lastAttemptAt ?? undefined,
+    responseStatus: dbDelivery.responseStatus ?? undefined,
+    lastError: dbDelivery.lastError ?? undefined,
+    deliveredAt: dbDelivery.deliveredAt ?? undefined,
+    createdAt: dbDelivery.createdAt,
+    payload: JSON.parse(dbDelivery.payload),
+  };
+}
+
+/**
+ * Sign a payload
+ *
+ * Educational: The timestamp is signed along with the body, so a captured
+ * request can't be replayed later - the receiver refuses old timestamps.
+ *
+ * @returns The signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256>"
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header (for receivers, e.g. scripts/webhook-receiver.ts)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const match = header?.match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+  if (!match) return false;
+
+  const timestamp = Number(match[1]);
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  // Compare in constant time, like any secret
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp));
+  const actual = Buffer.from(header!);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Delay before the retry that follows attempt number `attempts`
+ */
+function getRetryDelaySeconds(attempts: number): number {
+  return RETRY_BASE_SECONDS * Math.pow(2, attempts - 1);
+}
+
+async function getDbEndpoint(id: string) {
+  const dbEndpoint = await prisma.webhookEndpoint.findUnique({ where: { id } });
+  if (!dbEndpoint) {
+    throw new ServiceError(`Webhook endpoint with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+  return dbEndpoint;
+}
+
+/**
+ * List Webhook Endpoints (newest first)
+ */
+export async function getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  const dbEndpoints = await prisma.webhookEndpoint.findMany({
+    orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+  });
+  return dbEndpoints.map(transformDbEndpoint);
+}
+
+/**
+ * Get a Webhook Endpoint (404 if it doesn't exist)
+ */
+export async function getWebhookEndpoint(id: string): Promise<WebhookEndpoint> {
+  return transformDbEndpoint(await getDbEndpoint(id));
+}
+
+/**
+ * Register a Webhook Endpoint
+ *
+ * Returns the endpoint with its signing secret - the only time the secret
+ * is shown. Unlike an API key it is stored as is: signing needs the secret
+ * itself, not a hash of it.
+ */
+export async function createWebhookEndpoint(input: unknown): Promise<RegisteredWebhookEndpoint> {
+  const { endpoint, errors } = validateWebhookEndpointInput(input);
+  if (!endpoint) {
+    throw new ServiceError('Webhook endpoint validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+  const created = await prisma.$transaction(async (tx) => {
+    const dbEndpoint = transformDbEndpoint(
+      await tx.webhookEndpoint.create({
+        data: {
+          url: endpoint.url,
+          description: endpoint.description ?? null,
+          events: JSON.stringify(endpoint.events),
+          active: endpoint.active,
+          secret,
+        },
+      })
+    );
+    await recordAuditEvent(tx, {
+      action: 'webhook_endpoint.create',
+      entityType: 'webhook_endpoint',
+      entityId: dbEndpoint.id,
+      after: dbEndpoint,
+    });
+    return dbEndpoint;
+  });
+
+  return { ...created, secret };
+}
+
+/**
+ * Update a Webhook Endpoint (PATCH)
+ *
+ * Merges the given fields into the endpoint and validates the result.
+ * Deliveries already queued are sent to the new URL.
+ */
+export async function updateWebhookEndpoint(id: string, patch: unknown): Promise<WebhookEndpoint> {
+  const current = await getWebhookEndpoint(id);
+
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    throw new ServiceError('Webhook endpoint validation failed', 'VALIDATION_ERROR', 400, [
+      { field: '', message: 'Request body must be a JSON object' },
+    ]);
+  }
+
+  const { id: _id, createdAt, updatedAt, ...currentFields } = current;
+  const { endpoint, errors } = validateWebhookEndpointInput({
+    ...currentFields,
+    ...(patch as Record<string, unknown>),
+  });
+  if (!endpoint) {
+    throw new ServiceError('Webhook endpoint validation failed', 'VALIDATION_ERROR', 400, errors);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = transformDbEndpoint(
+      await tx.webhookEndpoint.update({
+        where: { id },
+        data: {
+          url: endpoint.url,
+          description: endpoint.description ?? null,
+          events: JSON.stringify(endpoint.events),
+          active: endpoint.active,
+        },
+      })
+    );
+    await recordAuditEvent(tx, {
+      action: 'webhook_endpoint.update',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      before: current,
+      after: updated,
+    });
+    return updated;
+  });
+}
+
+/**
+ * Delete a Webhook Endpoint (and its delivery log)
+ */
+export async function deleteWebhookEndpoint(id: string): Promise<WebhookEndpoint> {
+  const current = await getWebhookEndpoint(id);
+  await prisma.$transaction(async (tx) => {
+    await tx.webhookEndpoint.delete({ where: { id } });
+    await recordAuditEvent(tx, {
+      action: 'webhook_endpoint.delete',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      before: current,
+    });
+  });
+  return current;
+}
+
+/**
+ * Queue an Event (inside the write's transaction)
+ *
+ * Creates a pending delivery for every active endpoint subscribed to the
+ * event type. Call deliverWebhooksSoon() once the transaction has
+ * committed.
+ */
+export async function enqueueWebhookEvent(
+  tx: Prisma.TransactionClient,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  const endpoints = (await tx.webhookEndpoint.findMany({ where: { active: true } }))
+    .filter(endpoint => (JSON.parse(endpoint.events) as string[]).includes(type));
+  if (endpoints.length === 0) return;
+
+  const event: WebhookEvent = {
+    id: `evt_${randomUUID()}`,
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  const payload = JSON.stringify(event);
+
+  await tx.webhookDelivery.createMany({
+    data: endpoints.map(endpoint => ({
+      endpointId: endpoint.id,
+      eventId: event.id,
+      eventType: type,
+      payload,
+    })),
+  });
+}
+
+/**
+ * Take a due delivery for this worker
+ *
+ * Educational: Two workers (the request that queued the event and the
+ * scheduled script) may pick the same row. Moving nextAttemptAt forward
+ * with a conditional UPDATE lets exactly one of them win; the lease
+ * expires on its own if the winner crashes mid-delivery.
+ */
+async function claimDelivery(id: string, nextAttemptAt: Date, now: Date): Promise<boolean> {
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id, status: 'pending', nextAttemptAt },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_SECONDS * 1000) },
+  });
+  return claimed.count > 0;
+}
+
+/**
+ * POST one delivery to its endpoint
+ */
+async function attemptDelivery(
+  url: string,
+  secret: string,
+  delivery: { eventId: string; eventType: string; payload: string }
+): Promise<{ ok: boolean; status?: number; error?: string }> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'product-catalog-cms-webhooks',
+        'X-Webhook-Id': delivery.eventId,
+        'X-Webhook-Event': delivery.eventType,
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, delivery.payload, timestamp),
+      },
+      body: delivery.payload,
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+    return response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: `Endpoint answered HTTP ${response.status}` };
+  } catch (error) {
+    return {
+      ok: false,
+      error: controller.signal.aborted
+        ? `No answer within ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : 'Request failed',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Deliver Due Webhooks
+ *
+ * Sends up to `limit` pending deliveries whose time has come, oldest
+ * first. Returns how many were delivered, rescheduled and given up on.
+ */
+export async function deliverDueWebhooks(
+  limit: number = DEFAULT_BATCH_SIZE,
+  now: Date = new Date()
+): Promise<{ delivered: number; retrying: number; dead: number }> {
+  const result = { delivered: 0, retrying: 0, dead: 0 };
+
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: [{ nextAttemptAt: 'asc' }, { id: 'asc' }],
+    take: limit,
+    include: { endpoint: true },
+  });
+
+  for (const delivery of due) {
+    if (!(await claimDelivery(delivery.id, delivery.nextAttemptAt, now))) continue;
+
+    const outcome = await attemptDelivery(delivery.endpoint.url, delivery.endpoint.secret, delivery);
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date();
+
+    if (outcome.ok) {
+      result.delivered++;
+    } else if (attempts >= MAX_ATTEMPTS) {
+      result.dead++;
+    } else {
+      result.retrying++;
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts,
+        lastAttemptAt: attemptedAt,
+        responseStatus: outcome.status ?? null,
+        lastError: outcome.error ?? null,
+        ...(outcome.ok
+          ? { status: 'delivered', deliveredAt: attemptedAt }
+          : attempts >= MAX_ATTEMPTS
+            ? { status: 'dead' }
+            : {
+                nextAttemptAt: new Date(
+                  attemptedAt.getTime() + getRetryDelaySeconds(attempts) * 1000
+                ),
+              }),
+      },
+    });
+  }
+
+  return result;
+}
+
+let deliveryRunning = false;
+let deliveryRequested = false;
+
+/**
+ * Deliver the queue in the background, after the current request
+ *
+ * Call after committing a transaction that queued events. Calls made while
+ * a run is in progress trigger one more run when it finishes.
+ */
+export function deliverWebhooksSoon(): void {
+  deliveryRequested = true;
+  if (deliveryRunning) return;
+  deliveryRunning = true;
+
+  setTimeout(async () => {
+    try {
+      while (deliveryRequested) {
+        deliveryRequested = false;
+        await deliverDueWebhooks();
+      }
+    } catch (error) {
+      console.error('Webhook delivery failed:', error);
+    } finally {
+      deliveryRunning = false;
+    }
+  }, 0);
+}
+
+/**
+ * List an endpoint's deliveries (newest first)
+ *
+ * @param status - Only deliveries in this status
+ */
+export async function getWebhookDeliveries(
+  endpointId: string,
+  options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  await getDbEndpoint(endpointId);
+
+  const dbDeliveries = await prisma.webhookDelivery.findMany({
+    where: { endpointId, ...(options.status && { status: options.status }) },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: Math.min(options.limit ?? 50, MAX_DELIVERY_LIST_LIMIT),
+  });
+  return dbDeliveries.map(transformDbDelivery);
+}
+
+/**
+ * The Dead-Letter List: deliveries that failed every attempt, newest first
+ */
+export async function getDeadWebhookDeliveries(limit: number = 50): Promise<WebhookDelivery[]> {
+  const dbDeliveries = await prisma.webhookDelivery.findMany({
+    where: { status: 'dead' },
+    orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+    take: Math.min(limit, MAX_DELIVERY_LIST_LIMIT),
+  });
+  return dbDeliveries.map(transformDbDelivery);
+}
+
+/**
+ * Retry a Delivery
+ *
+ * Puts a dead (or already delivered) delivery back in the queue with a
+ * fresh set of attempts - e.g. once the receiver's bug is fixed.
+ * Throws 409 ALREADY_PENDING if it is still queued.
+ */
+export async function retryWebhookDelivery(id: string): Promise<WebhookDelivery> {
+  const current = await prisma.webhookDelivery.findUnique({ where: { id } });
+  if (!current) {
+    throw new ServiceError(`Webhook delivery with ID "${id}" not found`, 'NOT_FOUND', 404);
+  }
+  if (current.status === 'pending') {
+    throw new ServiceError('This delivery is already queued', 'ALREADY_PENDING', 409);
+  }
+
+  const retried = await prisma.$transaction(async (tx) => {
+    const dbDelivery = await tx.webhookDelivery.update({
+      where: { id },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), deliveredAt: null },
+    });
+    await recordAuditEvent(tx, {
+      action: 'webhook_delivery.retry',
+      entityType: 'webhook_delivery',
+      entityId: id,
+      before: { status: current.status, attempts: current.attempts },
+      after: { status: dbDelivery.status, attempts: dbDelivery.attempts },
+    });
+    return transformDbDelivery(dbDelivery);
+  });
+  deliverWebhooksSoon();
+
+  return retried;
+}
+
+/**
+ * Educational Notes:
+ *
+ * 1. Why a queue in the database:
+ *    - Sending the HTTP request inside the write would make saving a
+ *      product as slow (and as unreliable) as the slowest receiver
+ *    - Sending it after the write could lose the event if the process
+ *      stops in between; the row in the same transaction can't be lost
+ *
+ * 2. Exponential backoff:
+ *    - A receiver that is down for maintenance isn't hammered with
+ *      retries; one with a short blip gets the event within a minute
+ *
+ * 3. Dead letters:
+ *    - After MAX_ATTEMPTS the delivery stops retrying but is kept, with
+ *      its last error, so nothing is silently dropped
+ */
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Customer } from '../types/customer';
+import { SESSION_COOKIE, getSessionCustomer } from './customers-service';
+import { getRequestAuditContext, runRequest } from './with-request-context';
+
+/**
+ * Customer Sessions in Routes
+ *
+ * The session cookie and a wrapper for routes only signed-in customers may
+ * use - the shopper counterpart of withApiKey:
+ *
+ *   export const GET = withCustomer(async (request, context, customer) => { ... });
+ */
+
+/**
+ * Set the session cookie on a response (after login or registration)
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Remove the session cookie (after logout)
+ */
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+/**
+ * Require a signed-in customer for a route handler (401 otherwise)
+ */
+export function withCustomer<Context = unknown>(
+  handler: (request: NextRequest, context: Context, customer: Customer) => Promise<Response>
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const customer = await getSessionCustomer(request.cookies.get(SESSION_COOKIE)?.value);
+
+    if (!customer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: 'Sign in to use this endpoint',
+            code: 'UNAUTHORIZED',
+          },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 401 }
+      );
+    }
+
+    return runRequest(
+      getRequestAuditContext(request, { type: 'customer', id: customer.id, name: customer.email }),
+      () => handler(request, context, customer)
+    );
+  };
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { AuditActor, AuditContext } from '../types/audit';
+import { Customer } from '../types/customer';
+import { runWithAuditContext } from './audit-service';
+import { SESSION_COOKIE, getSessionCustomer } from './customers-service';
+
+/**
+ * Request Context in Routes
+ *
+ * Wraps a route handler so the changes it makes are audited with the
+ * request's actor, IP, user agent and id:
+ *
+ *   export const POST = withRequestContext(async (request, context, customer) => { ... });
+ *
+ * withApiKey and withCustomer do this themselves (acting as the key or
+ * the customer). Public routes that write - placing an order, voting on a
+ * review, signing in - use withRequestContext, acting as the signed-in
+ * customer if there is one and as "anonymous" otherwise. The handler gets
+ * that customer (or null) to pass on to the services that need it; the
+ * audit context is only for logging.
+ *
+ * Every wrapped response carries an X-Request-Id header: the client's own
+ * X-Request-Id if it sent one, or a new id. It is the requestId of the
+ * request's audit events.
+ */
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const ANONYMOUS: AuditActor = { type: 'anonymous', name: 'anonymous' };
+
+// Longer client-supplied ids are replaced rather than stored
+const MAX_REQUEST_ID_LENGTH = 128;
+
+/**
+ * The client's address
+ *
+ * Educational: Behind a proxy or load balancer the connection comes from
+ * the proxy; the client is the first entry of X-Forwarded-For.
+ */
+function getClientIp(request: NextRequest): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || request.headers.get('x-real-ip') || request.ip || undefined;
+}
+
+/**
+ * Audit context for a request, acting as `actor`
+ */
+export function getRequestAuditContext(request: NextRequest, actor: AuditActor): AuditContext {
+  const requestId = request.headers.get('x-request-id');
+
+  return {
+    actor,
+    ip: getClientIp(request),
+    userAgent: request.headers.get('user-agent') ?? undefined,
+    requestId:
+      requestId && requestId.length <= MAX_REQUEST_ID_LENGTH ? requestId : randomUUID(),
+  };
+}
+
+/**
+ * Run a handler within an audit context and label its response
+ */
+export async function runRequest(
+  context: AuditContext,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const response = await runWithAuditContext(context, handler);
+  response.headers.set(REQUEST_ID_HEADER, context.requestId!);
+  return response;
+}
+
+/**
+ * Audit a public route's changes as the signed-in customer or "anonymous"
+ */
+export function withRequestContext<Context = unknown>(
+  handler: (request: NextRequest, context: Context, customer: Customer | null) => Promise<Response>
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const customer = await getSessionCustomer(request.cookies.get(SESSION_COOKIE)?.value);
+    const actor: AuditActor = customer
+      ? { type: 'customer', id: customer.id, name: customer.email }
+      : ANONYMOUS;
+
+    return runRequest(getRequestAuditContext(request, actor), () => handler(request, context, customer));
+  };
+}
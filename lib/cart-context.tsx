@@ -1,7 +1,14 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Product } from './types/product';
+import { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { Product, ProductVariant } from './types/product';
+import { StockLine } from './types/inventory';
+import { CartValidation, Customer, HydratedCartLine } from './types/customer';
+import { Promotion, PricingLine, PricingResult } from './types/promotion';
+import { priceCart } from './api/pricing-service';
+import { convertPrice, CURRENCY_COOKIE } from './api/currency-service';
+import { BASE_CURRENCY } from './data/exchange-rates';
 
 /**
  * Shopping Cart Context
@@ -11,89 +18,251 @@ import { Product } from './types/product';
  *
  * Educational Note: Context API is React's built-in solution for sharing
  * state across components without prop drilling.
+ *
+ * Only ids and quantities are saved - in localStorage for anonymous
+ * shoppers, on the server for signed-in customers - and the products are
+ * loaded fresh from the API whenever the cart is loaded.
  */
 
-interface CartItem {
+export interface CartItem {
   product: Product;
+  variantId?: string;                   // Chosen variant, for products with variants
   quantity: number;
 }
 
+/**
+ * Find the variant a cart item refers to (undefined for simple products)
+ */
+export function getCartItemVariant(item: CartItem): ProductVariant | undefined {
+  return item.variantId
+    ? item.product.variants?.find(variant => variant.id === item.variantId)
+    : undefined;
+}
+
+/**
+ * Unit price of a cart item - the variant's price when one is chosen -
+ * converted into the given currency (the product's own by default)
+ */
+export function getCartItemPrice(item: CartItem, currency: string = item.product.currency): number {
+  const price = getCartItemVariant(item)?.price ?? item.product.price;
+  return convertPrice(price, item.product.currency, currency);
+}
+
+/**
+ * A stable key for a cart line: the same product in two sizes is two lines
+ */
+export function getCartItemKey(item: CartItem): string {
+  return item.variantId ? `${item.product.id}:${item.variantId}` : item.product.id;
+}
+
+/**
+ * A cart item as a line for the pricing service, priced in `currency`
+ */
+export function toPricingLine(item: CartItem, currency: string): PricingLine {
+  return {
+    key: getCartItemKey(item),
+    productId: item.product.id,
+    category: item.product.category,
+    subcategory: item.product.subcategory,
+    tags: item.product.tags,
+    unitPrice: getCartItemPrice(item, currency),
+    quantity: item.quantity,
+  };
+}
+
+/**
+ * A cart item as it is saved: ids and a quantity, no product data
+ */
+export function toStoredLine(item: CartItem): StockLine {
+  return {
+    productId: item.product.id,
+    ...(item.variantId && { variantId: item.variantId }),
+    quantity: item.quantity,
+  };
+}
+
+/**
+ * Read the anonymous cart lines kept in localStorage
+ *
+ * Educational: Older carts saved whole products; their ids are still
+ * readable, so those carts survive the switch to storing ids only.
+ */
+export function readStoredLines(): StockLine[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem('cart') || '[]');
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map((item: any) => ({
+        productId: item?.productId ?? item?.product?.id,
+        ...(item?.variantId && { variantId: item.variantId }),
+        quantity: item?.quantity,
+      }))
+      .filter((line: StockLine) =>
+        typeof line.productId === 'string' && Number.isInteger(line.quantity) && line.quantity > 0
+      );
+  } catch {
+    return [];
+  }
+}
+
+// JSON turns dates into strings - restore them on the hydrated product
+function toCartItem(line: HydratedCartLine): CartItem {
+  return {
+    product: {
+      ...line.product,
+      createdAt: new Date(line.product.createdAt),
+      updatedAt: new Date(line.product.updatedAt),
+      publishedAt: line.product.publishedAt ? new Date(line.product.publishedAt) : undefined,
+    },
+    variantId: line.variantId,
+    quantity: line.quantity,
+  };
+}
+
 interface CartContextType {
   items: CartItem[];
-  addToCart: (product: Product, quantity?: number) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: Product, quantity?: number, variantId?: string) => void;
+  removeFromCart: (productId: string, variantId?: string) => void;
+  updateQuantity: (productId: string, quantity: number, variantId?: string) => void;
   clearCart: () => void;
+  replaceItems: (lines: HydratedCartLine[]) => void;  // e.g. with a revalidated cart
   totalItems: number;
-  totalPrice: number;
+  totalPrice: number;                   // Subtotal before discounts, in `currency`
+  pricing: PricingResult;               // Discounts from promotions and the coupon
+  couponCode: string | null;
+  applyCoupon: (code: string) => void;
+  removeCoupon: () => void;
+  currency: string;                     // Currency every cart amount is shown in
+  setCurrency: (currency: string) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-export function CartProvider({ children }: { children: ReactNode }) {
+/**
+ * @param currency - The shopper's currency, read from the cookie by the
+ *   root layout (so the server-rendered page and the cart always agree)
+ * @param customer - The signed-in customer, if any (also from the layout)
+ */
+export function CartProvider({
+  children,
+  currency = BASE_CURRENCY,
+  customer = null,
+}: {
+  children: ReactNode;
+  currency?: string;
+  customer?: Customer | null;
+}) {
+  const router = useRouter();
+  const customerId = customer?.id ?? null;
   const [items, setItems] = useState<CartItem[]>([]);
+  // Whose cart `items` holds: the customer id, null for the anonymous
+  // cart, undefined until the first load finishes
+  const [loadedFor, setLoadedFor] = useState<string | null | undefined>(undefined);
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
 
-  // Load cart from localStorage on mount
-  // Educational: Persist cart across page refreshes
+  // Load the cart on mount, and again after signing in or out
+  // Educational: Signed in, the account's cart comes from the server;
+  // otherwise the lines in localStorage are sent to be hydrated. Either
+  // way the products (prices, stock) are current.
   useEffect(() => {
-    const savedCart = localStorage.getItem('cart');
-    if (savedCart) {
-      try {
-        const parsed = JSON.parse(savedCart);
-        // Restore Date objects
-        const restored = parsed.map((item: any) => ({
-          ...item,
-          product: {
-            ...item.product,
-            createdAt: new Date(item.product.createdAt),
-            updatedAt: new Date(item.product.updatedAt),
-            publishedAt: item.product.publishedAt ? new Date(item.product.publishedAt) : undefined,
-          }
-        }));
-        setItems(restored);
-      } catch (e) {
-        console.error('Failed to load cart:', e);
-      }
+    const request = customerId
+      ? fetch('/api/cart')
+      : fetch('/api/cart/hydrate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items: readStoredLines() }),
+        });
+
+    request
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setItems(result.data.items.map(toCartItem));
+      })
+      .catch(e => console.error('Failed to load cart:', e))
+      .finally(() => setLoadedFor(customerId));
+
+    setCouponCode(localStorage.getItem('cartCoupon'));
+  }, [customerId]);
+
+  // Save the cart whenever it changes - but only once it has loaded for the
+  // current shopper, or an empty (or the anonymous) cart would overwrite
+  // the one saved for them
+  useEffect(() => {
+    if (loadedFor !== customerId) return;
+
+    const lines = items.map(toStoredLine);
+    if (customerId) {
+      fetch('/api/cart', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: lines }),
+      }).catch(e => console.error('Failed to save cart:', e));
+    } else {
+      localStorage.setItem('cart', JSON.stringify(lines));
     }
-  }, []);
+  }, [items, loadedFor, customerId]);
 
-  // Save cart to localStorage whenever it changes
+  // Load the promotion rules whenever the coupon changes
+  // Educational: Only the rules come from the server - the discount math
+  // runs here, with the same pricing service the server uses for the order
   useEffect(() => {
-    localStorage.setItem('cart', JSON.stringify(items));
-  }, [items]);
+    if (couponCode) {
+      localStorage.setItem('cartCoupon', couponCode);
+    } else {
+      localStorage.removeItem('cartCoupon');
+    }
+
+    const query = couponCode ? `?code=${encodeURIComponent(couponCode)}` : '';
+    fetch(`/api/promotions/active${query}`)
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setPromotions(result.data);
+      })
+      .catch(() => {
+        // Without rules the cart simply shows no discounts
+      });
+  }, [couponCode]);
+
+  // Same product AND same variant (or both without a variant)
+  const isSameLine = (item: CartItem, productId: string, variantId?: string) =>
+    item.product.id === productId && item.variantId === variantId;
 
-  const addToCart = (product: Product, quantity: number = 1) => {
+  const addToCart = (product: Product, quantity: number = 1, variantId?: string) => {
     setItems(currentItems => {
-      // Check if product already in cart
-      const existingItem = currentItems.find(item => item.product.id === product.id);
+      // Check if product (in this variant) already in cart
+      const existingItem = currentItems.find(item => isSameLine(item, product.id, variantId));
 
       if (existingItem) {
         // Update quantity
         return currentItems.map(item =>
-          item.product.id === product.id
+          isSameLine(item, product.id, variantId)
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
       } else {
         // Add new item
-        return [...currentItems, { product, quantity }];
+        return [...currentItems, { product, variantId, quantity }];
       }
     });
   };
 
-  const removeFromCart = (productId: string) => {
-    setItems(currentItems => currentItems.filter(item => item.product.id !== productId));
+  const removeFromCart = (productId: string, variantId?: string) => {
+    setItems(currentItems =>
+      currentItems.filter(item => !isSameLine(item, productId, variantId))
+    );
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (productId: string, quantity: number, variantId?: string) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(productId, variantId);
       return;
     }
 
     setItems(currentItems =>
       currentItems.map(item =>
-        item.product.id === productId
+        isSameLine(item, productId, variantId)
           ? { ...item, quantity }
           : item
       )
@@ -102,11 +271,42 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const clearCart = () => {
     setItems([]);
+    setCouponCode(null);
+  };
+
+  const replaceItems = (lines: HydratedCartLine[]) => {
+    setItems(lines.map(toCartItem));
+  };
+
+  const applyCoupon = (code: string) => {
+    setCouponCode(code.trim().toUpperCase() || null);
+  };
+
+  const removeCoupon = () => {
+    setCouponCode(null);
+  };
+
+  // Remember the currency for a year and re-render the server components
+  // (listing prices, the layout) with it
+  const setCurrency = (nextCurrency: string) => {
+    document.cookie = `${CURRENCY_COOKIE}=${nextCurrency}; path=/; max-age=31536000; samesite=lax`;
+    router.refresh();
   };
 
   // Calculate totals
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-  const totalPrice = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
+  const totalPrice = items.reduce(
+    (sum, item) => sum + getCartItemPrice(item, currency) * item.quantity,
+    0
+  );
+  const pricing = useMemo(
+    () =>
+      priceCart(items.map(item => toPricingLine(item, currency)), promotions, {
+        couponCode: couponCode ?? undefined,
+        currency,
+      }),
+    [items, promotions, couponCode, currency]
+  );
 
   return (
     <CartContext.Provider
@@ -116,8 +316,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
         removeFromCart,
         updateQuantity,
         clearCart,
+        replaceItems,
         totalItems,
         totalPrice,
+        pricing,
+        couponCode,
+        applyCoupon,
+        removeCoupon,
+        currency,
+        setCurrency,
       }}
     >
       {children}
@@ -133,6 +340,68 @@ export function useCart() {
   return context;
 }
 
+/**
+ * Revalidate the cart against live prices and stock
+ *
+ * Sends the cart - with the unit price shown for each line - to
+ * POST /api/cart/validate whenever its contents or prices change.
+ * `needsReview` is true while there are changes the shopper hasn't
+ * accepted; `acceptChanges` replaces the cart with the corrected one.
+ *
+ * @param reservationToken - At checkout, the page's own stock reservation
+ */
+export function useCartValidation(reservationToken?: string | null) {
+  const { items, replaceItems } = useCart();
+  const [validation, setValidation] = useState<CartValidation | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  // Unit prices are compared in the product's own currency
+  const lines = items.map(item => ({ ...toStoredLine(item), price: getCartItemPrice(item) }));
+  const linesKey = JSON.stringify(lines);
+
+  useEffect(() => {
+    if (lines.length === 0) {
+      setValidation(null);
+      return;
+    }
+
+    let cancelled = false;
+    setChecking(true);
+
+    fetch('/api/cart/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items: lines, reservationToken: reservationToken || undefined }),
+    })
+      .then(response => response.json())
+      .then(result => {
+        if (!cancelled && result.success) setValidation(result.data);
+      })
+      .catch(() => {
+        // Not fatal: the order is checked against live stock anyway
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // linesKey stands in for `lines`, which is a new array every render
+  }, [linesKey]);
+
+  const acceptChanges = () => {
+    if (validation) replaceItems(validation.items);
+  };
+
+  return {
+    validation,
+    checking,
+    needsReview: !!validation && !validation.valid,
+    acceptChanges,
+  };
+}
+
 /**
  * Educational Notes:
  *
@@ -141,10 +410,14 @@ export function useCart() {
  *    - useCart hook accesses the context
  *    - State shared across all components
  *
- * 2. localStorage Persistence:
- *    - Cart survives page refreshes
- *    - Saved as JSON string
- *    - Loaded on mount
+ * 2. Persistence:
+ *    - Anonymous: { productId, variantId, quantity } lines in localStorage
+ *    - Signed in: the same lines saved to the account (PUT /api/cart), so
+ *      the cart follows the customer across devices
+ *    - Products are re-loaded from the database, never read from storage
+ *    - At login the anonymous cart is merged into the account's cart
+ *    - useCartValidation re-checks prices and stock while the cart and
+ *      checkout pages are open
  *
  * 3. Cart Operations:
  *    - Add: Create new or increment existing
@@ -154,6 +427,20 @@ export function useCart() {
  *
  * 4. Derived State:
  *    - totalItems: Sum of quantities
- *    - totalPrice: Sum of price × quantity
+ *    - totalPrice: Sum of price × quantity (variant price when chosen)
  *    - Calculated on every render
+ *
+ * 5. Variants:
+ *    - A cart line is a product plus an optional variantId
+ *    - "T-shirt M" and "T-shirt L" are separate lines
+ *
+ * 6. Promotions:
+ *    - pricing: itemized discounts from the shared pricing service
+ *    - One coupon code at a time, remembered in localStorage
+ *    - The order is re-priced on the server with the same rules
+ *
+ * 7. Currency:
+ *    - Products keep their listed prices; each line is converted into the
+ *      shopper's currency before anything is added up
+ *    - So a cart never mixes currencies, even if products do
  */
@@ -0,0 +1,24 @@
+/**
+ * Countries
+ *
+ * Countries the shop ships to. Addresses may name a country by its code or
+ * by its name; tax and shipping tables use the codes.
+ */
+export const countries: { code: string; name: string }[] = [
+  { code: 'US', name: 'United States' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+];
+
+/**
+ * Helper function to get a country code from a code or name
+ * ("us", "United States" → "US")
+ */
+export function getCountryCode(value: string): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  return countries.find(
+    country => country.code.toLowerCase() === normalized || country.name.toLowerCase() === normalized
+  )?.code;
+}
@@ -0,0 +1,27 @@
+/**
+ * Exchange Rates
+ *
+ * Catalog prices are stored in the base currency (USD). Other currencies
+ * are converted with these rates - units of the currency per 1 USD.
+ *
+ * Rates are a local snapshot (a real shop would refresh them daily from a
+ * provider and keep the date they were taken).
+ */
+export const BASE_CURRENCY = 'USD';
+
+export const EXCHANGE_RATES_DATE = '2026-10-01';
+
+export const exchangeRates: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.37,
+};
+
+// Locale used to format each currency ("€1.234,56" vs "$1,234.56")
+export const currencyLocales: Record<string, string> = {
+  USD: 'en-US',
+  EUR: 'de-DE',
+  GBP: 'en-GB',
+  CAD: 'en-CA',
+};
@@ -0,0 +1,43 @@
+import { InventoryLocationInput } from '../types/inventory';
+
+/**
+ * Sample Inventory Locations
+ *
+ * Two warehouses on opposite coasts and a retail store offering pickup.
+ * `share` is the part of each product's seeded stock kept there.
+ */
+export const locations: (InventoryLocationInput & { id: string; share: number })[] = [
+  {
+    id: 'loc_wh_east',
+    code: 'WH-EAST',
+    name: 'East Coast warehouse',
+    type: 'warehouse',
+    priority: 0,
+    zipCode: '07094',
+    country: 'US',
+    pickup: false,
+    share: 0.6,
+  },
+  {
+    id: 'loc_wh_west',
+    code: 'WH-WEST',
+    name: 'West Coast warehouse',
+    type: 'warehouse',
+    priority: 1,
+    zipCode: '91761',
+    country: 'US',
+    pickup: false,
+    share: 0.3,
+  },
+  {
+    id: 'loc_store_chicago',
+    code: 'STORE-CHI',
+    name: 'Chicago store',
+    type: 'store',
+    priority: 2,
+    zipCode: '60611',
+    country: 'US',
+    pickup: true,
+    share: 0.1,
+  },
+];
@@ -0,0 +1,592 @@
+import { ReviewStatus } from '../types/review';
+
+/**
+ * Sample Product Reviews
+ *
+ * Seed data for the Review table. Product ratings are not stored here -
+ * the seed script computes them from the approved reviews, exactly as the
+ * reviews service does when a review is moderated.
+ *
+ * Educational: A few pending and rejected reviews are included so the
+ * moderation queue isn't empty on a fresh database.
+ */
+
+export interface SeedReview {
+  id: string;
+  productId: string;
+  authorName: string;
+  email: string;
+  rating: number; // 1-5
+  title?: string;
+  body: string;
+  status: ReviewStatus;
+  verifiedPurchase: boolean;
+  helpfulCount: number;
+  createdAt: Date;
+}
+
+export const productReviews: SeedReview[] = [
+  {
+    id: 'rev_001',
+    productId: 'prod_001',
+    authorName: 'Sarah Johnson',
+    email: 'sarah.j@example.com',
+    rating: 5,
+    title: 'Best headphones I have owned',
+    body: 'The noise cancelling is superb on flights and the battery easily lasts a week of commuting.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 42,
+    createdAt: new Date('2024-06-12'),
+  },
+  {
+    id: 'rev_002',
+    productId: 'prod_001',
+    authorName: 'David Park',
+    email: 'dpark@example.com',
+    rating: 5,
+    title: 'Comfortable for hours',
+    body: 'I wear these for full workdays without ear fatigue. Bluetooth pairing with two devices works well.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 18,
+    createdAt: new Date('2024-08-03'),
+  },
+  {
+    id: 'rev_003',
+    productId: 'prod_001',
+    authorName: 'Emma Wilson',
+    email: 'emma.w@example.com',
+    rating: 4,
+    title: 'Great sound, tight fit',
+    body: 'Sound and ANC are excellent. The headband is a little tight at first but loosens up.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 7,
+    createdAt: new Date('2024-09-21'),
+  },
+  {
+    id: 'rev_004',
+    productId: 'prod_001',
+    authorName: 'Chris Lee',
+    email: 'chris.lee@example.com',
+    rating: 2,
+    body: 'Mine started crackling in the left ear after two weeks. The replacement has been fine so far.',
+    status: 'pending',
+    verifiedPurchase: true,
+    helpfulCount: 0,
+    createdAt: new Date('2024-11-18'),
+  },
+  {
+    id: 'rev_005',
+    productId: 'prod_002',
+    authorName: 'Michael Chen',
+    email: 'mchen@example.com',
+    rating: 5,
+    title: 'Picture quality is stunning',
+    body: 'Colors are vivid and 4K content looks incredible. The smart apps load quickly.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 25,
+    createdAt: new Date('2024-03-30'),
+  },
+  {
+    id: 'rev_006',
+    productId: 'prod_002',
+    authorName: 'Laura Gomez',
+    email: 'lgomez@example.com',
+    rating: 4,
+    title: 'Great value',
+    body: 'Excellent picture for the price. The built-in speakers are average, so I added a soundbar.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 11,
+    createdAt: new Date('2024-07-14'),
+  },
+  {
+    id: 'rev_007',
+    productId: 'prod_003',
+    authorName: 'Tom Becker',
+    email: 'tbecker@example.com',
+    rating: 4,
+    title: 'Charges fast',
+    body: 'Works with my phone through a thin case. The LED is a bit bright at night.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 5,
+    createdAt: new Date('2024-05-02'),
+  },
+  {
+    id: 'rev_008',
+    productId: 'prod_003',
+    authorName: 'Priya Patel',
+    email: 'priya.p@example.com',
+    rating: 5,
+    body: 'Simple and reliable. I bought a second one for the office.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 2,
+    createdAt: new Date('2024-10-09'),
+  },
+  {
+    id: 'rev_009',
+    productId: 'prod_004',
+    authorName: 'Jake Turner',
+    email: 'jturner@example.com',
+    rating: 5,
+    title: 'Loud and waterproof',
+    body: 'Took it to the beach and the pool - still going strong. Bass is surprisingly deep.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 14,
+    createdAt: new Date('2024-07-22'),
+  },
+  {
+    id: 'rev_010',
+    productId: 'prod_004',
+    authorName: 'Nina Rossi',
+    email: 'nina.rossi@example.com',
+    rating: 4,
+    title: 'Good battery',
+    body: 'Lasts about 10 hours at medium volume. Wish it came with a carrying case.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 3,
+    createdAt: new Date('2024-08-30'),
+  },
+  {
+    id: 'rev_011',
+    productId: 'prod_005',
+    authorName: 'Alex Kim',
+    email: 'alexkim@example.com',
+    rating: 5,
+    title: 'Satisfying switches',
+    body: 'Typing feels crisp and the RGB software is easy to use.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 21,
+    createdAt: new Date('2024-04-11'),
+  },
+  {
+    id: 'rev_012',
+    productId: 'prod_005',
+    authorName: 'Sam Rivera',
+    email: 'srivera@example.com',
+    rating: 3,
+    title: 'Loud for an office',
+    body: 'Great keyboard but the clicky switches annoyed my coworkers.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 9,
+    createdAt: new Date('2024-09-05'),
+  },
+  {
+    id: 'rev_013',
+    productId: 'prod_006',
+    authorName: 'Hannah Scott',
+    email: 'hscott@example.com',
+    rating: 4,
+    title: 'Does everything I need',
+    body: 'HDMI, card reader and USB ports all work with my laptop. Gets warm under load.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 6,
+    createdAt: new Date('2024-06-18'),
+  },
+  {
+    id: 'rev_014',
+    productId: 'prod_007',
+    authorName: 'Ryan Brooks',
+    email: 'rbrooks@example.com',
+    rating: 5,
+    title: 'Light and precise',
+    body: 'No noticeable lag, and the battery lasts for weeks.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 10,
+    createdAt: new Date('2024-05-27'),
+  },
+  {
+    id: 'rev_015',
+    productId: 'prod_007',
+    authorName: 'Olivia Brown',
+    email: 'obrown@example.com',
+    rating: 4,
+    body: 'Great mouse, but the side buttons are a little small for my hands.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 1,
+    createdAt: new Date('2024-10-15'),
+  },
+  {
+    id: 'rev_016',
+    productId: 'prod_020',
+    authorName: 'Jennifer Martinez',
+    email: 'jmartinez@example.com',
+    rating: 5,
+    title: 'Beautiful leather',
+    body: 'Soft, well stitched and fits true to size. Already getting compliments.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 16,
+    createdAt: new Date('2024-02-14'),
+  },
+  {
+    id: 'rev_017',
+    productId: 'prod_020',
+    authorName: 'Mark Davis',
+    email: 'mdavis@example.com',
+    rating: 4,
+    title: 'Runs slightly small',
+    body: 'Quality is excellent. I would size up if you plan to wear a sweater underneath.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 12,
+    createdAt: new Date('2024-11-02'),
+  },
+  {
+    id: 'rev_018',
+    productId: 'prod_021',
+    authorName: 'Kate Miller',
+    email: 'kmiller@example.com',
+    rating: 4,
+    title: 'Nice stretch',
+    body: 'Comfortable denim that keeps its shape through the day.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 4,
+    createdAt: new Date('2024-08-08'),
+  },
+  {
+    id: 'rev_019',
+    productId: 'prod_022',
+    authorName: 'Ben Carter',
+    email: 'bcarter@example.com',
+    rating: 5,
+    title: 'Soft and holds its shape',
+    body: 'Still looks new after a dozen washes. The blue is a lovely shade.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 8,
+    createdAt: new Date('2024-09-12'),
+  },
+  {
+    id: 'rev_020',
+    productId: 'prod_022',
+    authorName: 'Grace Hall',
+    email: 'ghall@example.com',
+    rating: 4,
+    body: 'Nice quality cotton. The medium is slightly long on me.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 2,
+    createdAt: new Date('2024-10-01'),
+  },
+  {
+    id: 'rev_021',
+    productId: 'prod_022',
+    authorName: 'Buy Cheap Followers',
+    email: 'spam@example.com',
+    rating: 1,
+    title: 'Visit my site',
+    body: 'Great deals at my website!!!',
+    status: 'rejected',
+    verifiedPurchase: false,
+    helpfulCount: 0,
+    createdAt: new Date('2024-10-20'),
+  },
+  {
+    id: 'rev_022',
+    productId: 'prod_023',
+    authorName: 'Lucas Young',
+    email: 'lyoung@example.com',
+    rating: 5,
+    title: 'Great for daily runs',
+    body: 'Light, breathable and cushioned. My knees are thankful.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 13,
+    createdAt: new Date('2024-06-25'),
+  },
+  {
+    id: 'rev_023',
+    productId: 'prod_023',
+    authorName: 'Mia Adams',
+    email: 'madams@example.com',
+    rating: 4,
+    title: 'Comfortable',
+    body: 'Good support, but they took a few runs to break in.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 3,
+    createdAt: new Date('2024-09-17'),
+  },
+  {
+    id: 'rev_024',
+    productId: 'prod_040',
+    authorName: 'Emily Rodriguez',
+    email: 'erodriguez@example.com',
+    rating: 5,
+    title: 'Looks great on my desk',
+    body: 'Warm light, sturdy base and the dimmer is very handy.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 7,
+    createdAt: new Date('2024-04-19'),
+  },
+  {
+    id: 'rev_025',
+    productId: 'prod_041',
+    authorName: 'Daniel Wright',
+    email: 'dwright@example.com',
+    rating: 5,
+    title: 'Lovely mugs',
+    body: 'Nice weight and the glaze is beautiful. All four arrived intact.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 5,
+    createdAt: new Date('2024-03-08'),
+  },
+  {
+    id: 'rev_026',
+    productId: 'prod_041',
+    authorName: 'Sophie Turner',
+    email: 'sturner@example.com',
+    rating: 4,
+    body: 'Pretty set, though a little smaller than I expected.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 2,
+    createdAt: new Date('2024-07-29'),
+  },
+  {
+    id: 'rev_027',
+    productId: 'prod_042',
+    authorName: 'James Wilson',
+    email: 'jwilson@example.com',
+    rating: 5,
+    title: 'Finally sleeping well',
+    body: 'My neck pain is gone after a week with this pillow.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 19,
+    createdAt: new Date('2024-05-15'),
+  },
+  {
+    id: 'rev_028',
+    productId: 'prod_042',
+    authorName: 'Ava Thompson',
+    email: 'athompson@example.com',
+    rating: 3,
+    title: 'Too firm for me',
+    body: 'Good quality, but I prefer a softer pillow.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 4,
+    createdAt: new Date('2024-08-21'),
+  },
+  {
+    id: 'rev_029',
+    productId: 'prod_043',
+    authorName: 'Noah Harris',
+    email: 'nharris@example.com',
+    rating: 5,
+    body: 'Three useful sizes and they clean up easily.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 3,
+    createdAt: new Date('2024-06-02'),
+  },
+  {
+    id: 'rev_030',
+    productId: 'prod_060',
+    authorName: 'Isabella Clark',
+    email: 'iclark@example.com',
+    rating: 5,
+    title: 'Grippy and thick',
+    body: 'No slipping even in hot yoga, and it is easy on the knees.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 15,
+    createdAt: new Date('2024-01-28'),
+  },
+  {
+    id: 'rev_031',
+    productId: 'prod_060',
+    authorName: 'Ethan Lewis',
+    email: 'elewis@example.com',
+    rating: 4,
+    title: 'Good mat',
+    body: 'Great grip. It had a rubber smell for the first few days.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 6,
+    createdAt: new Date('2024-04-06'),
+  },
+  {
+    id: 'rev_032',
+    productId: 'prod_061',
+    authorName: 'Chloe Walker',
+    email: 'cwalker@example.com',
+    rating: 4,
+    body: 'Good variety of resistance levels for home workouts.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 2,
+    createdAt: new Date('2024-07-03'),
+  },
+  {
+    id: 'rev_033',
+    productId: 'prod_062',
+    authorName: 'Liam Hall',
+    email: 'lhall@example.com',
+    rating: 5,
+    title: 'Ice all day',
+    body: 'Kept water cold for over 24 hours in a hot car.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 11,
+    createdAt: new Date('2024-06-30'),
+  },
+  {
+    id: 'rev_034',
+    productId: 'prod_063',
+    authorName: 'Zoe King',
+    email: 'zking@example.com',
+    rating: 4,
+    title: 'Roomy tent',
+    body: 'Four adults fit comfortably. Setup takes about 15 minutes.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 8,
+    createdAt: new Date('2024-08-14'),
+  },
+  {
+    id: 'rev_035',
+    productId: 'prod_064',
+    authorName: 'Owen Green',
+    email: 'ogreen@example.com',
+    rating: 5,
+    title: 'Saves so much space',
+    body: 'Changing weights is quick and the dial mechanism feels solid.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 17,
+    createdAt: new Date('2024-03-22'),
+  },
+  {
+    id: 'rev_036',
+    productId: 'prod_080',
+    authorName: 'Lily Baker',
+    email: 'lbaker@example.com',
+    rating: 5,
+    title: 'Light and hydrating',
+    body: 'Absorbs quickly and does not irritate my sensitive skin.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 9,
+    createdAt: new Date('2024-05-11'),
+  },
+  {
+    id: 'rev_037',
+    productId: 'prod_081',
+    authorName: 'Ella Nelson',
+    email: 'enelson@example.com',
+    rating: 4,
+    body: 'Noticeably brighter skin after a month of use.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 4,
+    createdAt: new Date('2024-09-02'),
+  },
+  {
+    id: 'rev_038',
+    productId: 'prod_082',
+    authorName: 'Jack Hill',
+    email: 'jhill@example.com',
+    rating: 5,
+    title: 'Teeth feel so clean',
+    body: 'Battery lasts two weeks and the timer is helpful.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 6,
+    createdAt: new Date('2024-07-07'),
+  },
+  {
+    id: 'rev_039',
+    productId: 'prod_084',
+    authorName: 'Amelia Moore',
+    email: 'amoore@example.com',
+    rating: 4,
+    title: 'Accurate',
+    body: 'Consistent readings and the app syncs without problems.',
+    status: 'approved',
+    verifiedPurchase: false,
+    helpfulCount: 3,
+    createdAt: new Date('2024-10-24'),
+  },
+  {
+    id: 'rev_040',
+    productId: 'prod_010',
+    authorName: 'Henry Evans',
+    email: 'hevans@example.com',
+    rating: 4,
+    title: 'Great tracker',
+    body: 'Step and sleep tracking are accurate. Notifications could be more configurable.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 12,
+    createdAt: new Date('2024-08-19'),
+  },
+  {
+    id: 'rev_041',
+    productId: 'prod_010',
+    authorName: 'Scarlett White',
+    email: 'swhite@example.com',
+    rating: 5,
+    body: 'Love the battery life and the bright display.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 5,
+    createdAt: new Date('2024-10-27'),
+  },
+  {
+    id: 'rev_042',
+    productId: 'prod_026',
+    authorName: 'Leo Martin',
+    email: 'lmartin@example.com',
+    rating: 5,
+    title: 'Fits my 15" laptop',
+    body: 'Plenty of pockets and the canvas feels durable.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 4,
+    createdAt: new Date('2024-09-09'),
+  },
+  {
+    id: 'rev_043',
+    productId: 'prod_046',
+    authorName: 'Aria Jackson',
+    email: 'ajackson@example.com',
+    rating: 5,
+    title: 'So cozy',
+    body: 'Incredibly soft and did not shed in the wash.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 7,
+    createdAt: new Date('2024-11-10'),
+  },
+  {
+    id: 'rev_044',
+    productId: 'prod_065',
+    authorName: 'Mason Lee',
+    email: 'mason.lee@example.com',
+    rating: 4,
+    title: 'Comfortable on long hikes',
+    body: 'The hip belt takes the weight off your shoulders.',
+    status: 'approved',
+    verifiedPurchase: true,
+    helpfulCount: 3,
+    createdAt: new Date('2024-07-16'),
+  },
+];
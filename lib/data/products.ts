@@ -35,7 +35,7 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: true,
-    rating: { average: 4.7, count: 2834 },
+    status: 'published',
     attributes: { color: 'Black', batteryLife: '30 hours', weight: '250g', bluetooth: '5.2' },
     createdAt: new Date('2024-01-15'),
     updatedAt: new Date('2024-11-20'),
@@ -62,8 +62,8 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: false,
-    rating: { average: 4.5, count: 1256 },
-    attributes: { screenSize: '55 inches', resolution: '3840x2160', refreshRate: '120Hz' },
+    status: 'published',
+    attributes: { screenSize: '55 inches', resolution: '3840x2160', refreshRate: '120Hz', weight: '17.5kg', dimensions: '135x82x15cm' },
     createdAt: new Date('2023-10-05'),
     updatedAt: new Date('2024-11-18'),
   },
@@ -89,7 +89,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.3, count: 542 },
+    status: 'published',
     attributes: { power: '15W', color: 'White' },
     createdAt: new Date('2023-08-12'),
     updatedAt: new Date('2024-11-15'),
@@ -115,7 +115,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.6, count: 892 },
+    status: 'published',
     attributes: { waterproof: true, batteryLife: '20 hours', color: 'Blue' },
     createdAt: new Date('2023-09-20'),
     updatedAt: new Date('2024-11-10'),
@@ -142,7 +142,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: true,
-    rating: { average: 4.8, count: 1523 },
+    status: 'published',
     attributes: { switchType: 'Cherry MX Red', backlight: 'RGB', connectivity: 'USB-C' },
     createdAt: new Date('2024-02-10'),
     updatedAt: new Date('2024-11-22'),
@@ -168,7 +168,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.4, count: 673 },
+    status: 'published',
     attributes: { ports: '7', hdmiSupport: '4K@60Hz', powerDelivery: '100W' },
     createdAt: new Date('2023-11-08'),
     updatedAt: new Date('2024-11-12'),
@@ -194,7 +194,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 1045 },
+    status: 'published',
     attributes: { dpi: '16000', buttons: '7', connectivity: 'Wireless 2.4GHz' },
     createdAt: new Date('2023-07-15'),
     updatedAt: new Date('2024-11-25'),
@@ -222,7 +222,7 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: false,
-    rating: { average: 4.6, count: 423 },
+    status: 'published',
     attributes: { material: '100% Genuine Leather', color: 'Black', size: 'M' },
     createdAt: new Date('2023-09-01'),
     updatedAt: new Date('2024-11-19'),
@@ -249,7 +249,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.3, count: 891 },
+    status: 'published',
     attributes: { fit: 'Slim', waist: '32', material: 'Cotton Denim' },
     createdAt: new Date('2023-06-15'),
     updatedAt: new Date('2024-11-14'),
@@ -257,7 +257,7 @@ export const products: Product[] = [
   {
     id: 'prod_022',
     slug: 'cotton-crew-neck-t-shirt',
-    sku: 'TSHIRT-CREW-WH-L',
+    sku: 'TSHIRT-CREW',
     name: 'Premium Cotton Crew Neck T-Shirt',
     description: 'Soft, breathable cotton t-shirt perfect for everyday wear',
     price: 2499,
@@ -275,15 +275,75 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.7, count: 1567 },
-    attributes: { material: '100% Cotton', color: 'White', size: 'L' },
+    status: 'published',
+    attributes: { material: '100% Cotton' },
+    options: [
+      { name: 'size', values: ['S', 'M', 'L'] },
+      { name: 'color', values: ['White', 'Blue'] },
+    ],
+    variants: [
+      {
+        id: 'var_022_wh_s',
+        sku: 'TSHIRT-CREW-WH-S',
+        options: { size: 'S', color: 'White' },
+        price: 2499,
+        inventory: { inStock: true, quantity: 40, lowStockThreshold: 10, reservedQuantity: 3 },
+        images: [],
+      },
+      {
+        id: 'var_022_wh_m',
+        sku: 'TSHIRT-CREW-WH-M',
+        options: { size: 'M', color: 'White' },
+        price: 2499,
+        inventory: { inStock: true, quantity: 52, lowStockThreshold: 10, reservedQuantity: 5 },
+        images: [],
+      },
+      {
+        id: 'var_022_wh_l',
+        sku: 'TSHIRT-CREW-WH-L',
+        options: { size: 'L', color: 'White' },
+        price: 2499,
+        inventory: { inStock: true, quantity: 38, lowStockThreshold: 10, reservedQuantity: 4 },
+        images: [],
+      },
+      {
+        id: 'var_022_bl_s',
+        sku: 'TSHIRT-CREW-BL-S',
+        options: { size: 'S', color: 'Blue' },
+        price: 2699,
+        inventory: { inStock: true, quantity: 30, lowStockThreshold: 10, reservedQuantity: 2 },
+        images: [
+          { url: '/images/products/tshirt-blue-1.jpg', alt: 'Blue cotton t-shirt', isPrimary: true },
+        ],
+      },
+      {
+        id: 'var_022_bl_m',
+        sku: 'TSHIRT-CREW-BL-M',
+        options: { size: 'M', color: 'Blue' },
+        price: 2699,
+        inventory: { inStock: true, quantity: 44, lowStockThreshold: 10, reservedQuantity: 3 },
+        images: [
+          { url: '/images/products/tshirt-blue-1.jpg', alt: 'Blue cotton t-shirt', isPrimary: true },
+        ],
+      },
+      {
+        id: 'var_022_bl_l',
+        sku: 'TSHIRT-CREW-BL-L',
+        options: { size: 'L', color: 'Blue' },
+        price: 2699,
+        inventory: { inStock: true, quantity: 30, lowStockThreshold: 10, reservedQuantity: 1 },
+        images: [
+          { url: '/images/products/tshirt-blue-1.jpg', alt: 'Blue cotton t-shirt', isPrimary: true },
+        ],
+      },
+    ],
     createdAt: new Date('2023-05-10'),
     updatedAt: new Date('2024-11-20'),
   },
   {
     id: 'prod_023',
     slug: 'running-sneakers-breathable',
-    sku: 'SHOE-RUN-GY-10',
+    sku: 'SHOE-RUN-GY',
     name: 'Breathable Running Sneakers',
     description: 'Lightweight running shoes with superior cushioning and support',
     price: 8999,
@@ -302,8 +362,38 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: true,
-    rating: { average: 4.5, count: 734 },
-    attributes: { size: '10', color: 'Gray', type: 'Running' },
+    status: 'published',
+    attributes: { color: 'Gray', type: 'Running' },
+    options: [{ name: 'size', values: ['9', '10', '11'] }],
+    variants: [
+      {
+        id: 'var_023_9',
+        sku: 'SHOE-RUN-GY-9',
+        options: { size: '9' },
+        price: 8999,
+        originalPrice: 10999,
+        inventory: { inStock: true, quantity: 20, lowStockThreshold: 5, reservedQuantity: 2 },
+        images: [],
+      },
+      {
+        id: 'var_023_10',
+        sku: 'SHOE-RUN-GY-10',
+        options: { size: '10' },
+        price: 8999,
+        originalPrice: 10999,
+        inventory: { inStock: true, quantity: 27, lowStockThreshold: 5, reservedQuantity: 3 },
+        images: [],
+      },
+      {
+        id: 'var_023_11',
+        sku: 'SHOE-RUN-GY-11',
+        options: { size: '11' },
+        price: 8999,
+        originalPrice: 10999,
+        inventory: { inStock: true, quantity: 20, lowStockThreshold: 5, reservedQuantity: 2 },
+        images: [],
+      },
+    ],
     createdAt: new Date('2024-03-05'),
     updatedAt: new Date('2024-11-21'),
   },
@@ -328,7 +418,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.4, count: 312 },
+    status: 'published',
     attributes: { material: '100% Wool', color: 'Navy', length: '180cm' },
     createdAt: new Date('2023-10-20'),
     updatedAt: new Date('2024-11-10'),
@@ -356,7 +446,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: true,
-    rating: { average: 4.6, count: 445 },
+    status: 'published',
     attributes: { color: 'White', dimmable: true, usbPort: true },
     createdAt: new Date('2024-01-25'),
     updatedAt: new Date('2024-11-18'),
@@ -382,8 +472,8 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.7, count: 623 },
-    attributes: { material: 'Ceramic', capacity: '12oz', quantity: 4 },
+    status: 'published',
+    attributes: { material: 'Ceramic', capacity: '12oz', quantity: 4, weight: '1.6kg' },
     createdAt: new Date('2023-07-30'),
     updatedAt: new Date('2024-11-16'),
   },
@@ -409,8 +499,8 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: false,
-    rating: { average: 4.8, count: 1834 },
-    attributes: { material: 'Memory Foam', size: 'Queen', washable: true },
+    status: 'published',
+    attributes: { material: 'Memory Foam', size: 'Queen', washable: true, weight: '1.4kg', dimensions: '66x43x15cm' },
     createdAt: new Date('2023-08-18'),
     updatedAt: new Date('2024-11-17'),
   },
@@ -435,7 +525,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 512 },
+    status: 'published',
     attributes: { material: 'Bamboo', quantity: 3, eco_friendly: true },
     createdAt: new Date('2023-09-12'),
     updatedAt: new Date('2024-11-13'),
@@ -461,7 +551,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.4, count: 289 },
+    status: 'published',
     attributes: { material: 'Oak Wood', length: '24 inches', mounting: 'Included' },
     createdAt: new Date('2023-10-05'),
     updatedAt: new Date('2024-11-11'),
@@ -489,8 +579,8 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: false,
-    rating: { average: 4.7, count: 1245 },
-    attributes: { thickness: '6mm', color: 'Purple', material: 'TPE' },
+    status: 'published',
+    attributes: { thickness: '6mm', color: 'Purple', material: 'TPE', weight: '900g', dimensions: '63x14x14cm' },
     createdAt: new Date('2023-06-22'),
     updatedAt: new Date('2024-11-19'),
   },
@@ -516,7 +606,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 892 },
+    status: 'published',
     attributes: { quantity: 5, levels: 'Light to Heavy', portable: true },
     createdAt: new Date('2023-07-10'),
     updatedAt: new Date('2024-11-15'),
@@ -542,7 +632,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.8, count: 2134 },
+    status: 'published',
     attributes: { capacity: '32oz', material: 'Stainless Steel', insulated: true },
     createdAt: new Date('2023-05-28'),
     updatedAt: new Date('2024-11-20'),
@@ -569,8 +659,8 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: true,
-    rating: { average: 4.6, count: 456 },
-    attributes: { capacity: '4 people', waterproof: true, setup: 'Easy' },
+    status: 'published',
+    attributes: { capacity: '4 people', waterproof: true, setup: 'Easy', weight: '4.8kg', dimensions: '60x22x22cm' },
     createdAt: new Date('2024-02-18'),
     updatedAt: new Date('2024-11-22'),
   },
@@ -595,8 +685,8 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.7, count: 678 },
-    attributes: { weightRange: '5-50 lbs', adjustable: true, compact: true },
+    status: 'published',
+    attributes: { weightRange: '5-50 lbs', adjustable: true, compact: true, weight: '105 lbs', dimensions: '16x8x9 in' },
     createdAt: new Date('2023-08-30'),
     updatedAt: new Date('2024-11-24'),
   },
@@ -623,7 +713,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: true,
-    rating: { average: 4.6, count: 823 },
+    status: 'published',
     attributes: { volume: '50ml', organic: true, skinType: 'All Types' },
     createdAt: new Date('2024-01-12'),
     updatedAt: new Date('2024-11-21'),
@@ -650,7 +740,7 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: false,
-    rating: { average: 4.7, count: 1456 },
+    status: 'published',
     attributes: { volume: '30ml', ingredient: 'Vitamin C', benefits: 'Brightening' },
     createdAt: new Date('2023-09-08'),
     updatedAt: new Date('2024-11-18'),
@@ -676,7 +766,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 934 },
+    status: 'published',
     attributes: { batteryLife: '30 days', modes: 5, rechargeable: true },
     createdAt: new Date('2023-10-14'),
     updatedAt: new Date('2024-11-16'),
@@ -702,7 +792,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.6, count: 712 },
+    status: 'published',
     attributes: { quantity: 6, pure: true, types: 'Lavender, Eucalyptus, Peppermint, Tea Tree, Lemon, Orange' },
     createdAt: new Date('2023-07-25'),
     updatedAt: new Date('2024-11-14'),
@@ -728,7 +818,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: true,
-    rating: { average: 4.4, count: 528 },
+    status: 'published',
     attributes: { bluetooth: true, bodyAnalysis: true, maxWeight: '400 lbs' },
     createdAt: new Date('2024-02-28'),
     updatedAt: new Date('2024-11-20'),
@@ -756,7 +846,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.3, count: 612 },
+    status: 'published',
     attributes: { resolution: '1080p', autoFocus: true, microphone: 'Built-in' },
     createdAt: new Date('2023-11-20'),
     updatedAt: new Date('2024-11-17'),
@@ -782,7 +872,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 845 },
+    status: 'published',
     attributes: { capacity: '20000mAh', ports: 'Dual USB', fastCharge: true },
     createdAt: new Date('2023-08-05'),
     updatedAt: new Date('2024-11-15'),
@@ -808,7 +898,7 @@ export const products: Product[] = [
     ],
     featured: true,
     isNew: true,
-    rating: { average: 4.4, count: 1023 },
+    status: 'published',
     attributes: { gps: true, heartRate: true, waterproof: 'IP68' },
     createdAt: new Date('2024-03-15'),
     updatedAt: new Date('2024-11-23'),
@@ -835,7 +925,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 567 },
+    status: 'published',
     attributes: { polarized: true, uvProtection: '100%', color: 'Black' },
     createdAt: new Date('2023-06-10'),
     updatedAt: new Date('2024-11-12'),
@@ -861,7 +951,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.6, count: 723 },
+    status: 'published',
     attributes: { material: 'Canvas', laptopSize: 'Up to 15 inch', color: 'Gray' },
     createdAt: new Date('2023-09-15'),
     updatedAt: new Date('2024-11-18'),
@@ -888,8 +978,8 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 892 },
-    attributes: { pieces: 10, nonStick: true, dishwasherSafe: true },
+    status: 'published',
+    attributes: { pieces: 10, nonStick: true, dishwasherSafe: true, weight: '7kg', dimensions: '56x30x30cm' },
     createdAt: new Date('2023-07-18'),
     updatedAt: new Date('2024-11-14'),
   },
@@ -914,7 +1004,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.7, count: 1234 },
+    status: 'published',
     attributes: { material: 'Fleece', size: '50x60 inches', color: 'Gray' },
     createdAt: new Date('2023-10-22'),
     updatedAt: new Date('2024-11-19'),
@@ -940,7 +1030,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.6, count: 534 },
+    status: 'published',
     attributes: { capacity: '40L', rainCover: true, weight: '1.2kg' },
     createdAt: new Date('2023-08-22'),
     updatedAt: new Date('2024-11-15'),
@@ -966,7 +1056,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.5, count: 678 },
+    status: 'published',
     attributes: { density: 'High', length: '36 inches', color: 'Blue' },
     createdAt: new Date('2023-06-30'),
     updatedAt: new Date('2024-11-13'),
@@ -992,7 +1082,7 @@ export const products: Product[] = [
     ],
     featured: false,
     isNew: false,
-    rating: { average: 4.6, count: 745 },
+    status: 'published',
     attributes: { lighting: 'LED', magnification: '10x', adjustable: true },
     createdAt: new Date('2023-09-28'),
     updatedAt: new Date('2024-11-17'),
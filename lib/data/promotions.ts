@@ -0,0 +1,70 @@
+import { PromotionInput } from '../types/promotion';
+
+/**
+ * Sample Promotions
+ *
+ * Seed data covering each kind of rule: coupons with a minimum spend and a
+ * usage limit, an automatic category sale with a validity window, and a
+ * buy-X-get-Y deal scoped by tag.
+ */
+export const promotions: (PromotionInput & { id: string })[] = [
+  {
+    id: 'promo_welcome10',
+    code: 'WELCOME10',
+    name: '10% off your order',
+    description: 'Welcome discount on orders of $50 or more',
+    type: 'percentage',
+    value: 10,
+    categories: [],
+    tags: [],
+    minSubtotal: 5000,
+    active: true,
+  },
+  {
+    id: 'promo_save5',
+    code: 'SAVE5',
+    name: '$5 off',
+    description: 'Limited to the first 100 orders',
+    type: 'fixed',
+    value: 500,
+    categories: [],
+    tags: [],
+    minSubtotal: 2500,
+    usageLimit: 100,
+    active: true,
+  },
+  {
+    id: 'promo_fitness_week',
+    name: 'Fitness Week - 15% off fitness gear',
+    type: 'percentage',
+    value: 15,
+    categories: [],
+    tags: ['fitness'],
+    startsAt: new Date('2026-01-01'),
+    endsAt: new Date('2027-01-01'),
+    active: true,
+  },
+  {
+    id: 'promo_mugs_b2g1',
+    name: 'Kitchen: buy 2, get 1 free',
+    type: 'buy-x-get-y',
+    value: 100,
+    buyQuantity: 2,
+    getQuantity: 1,
+    categories: [],
+    tags: ['kitchen'],
+    active: true,
+  },
+  {
+    id: 'promo_summer',
+    code: 'SUMMER25',
+    name: 'Summer sale - 25% off outdoor gear',
+    type: 'percentage',
+    value: 25,
+    categories: ['sports-outdoors'],
+    tags: [],
+    startsAt: new Date('2024-06-01'),
+    endsAt: new Date('2024-09-01'),
+    active: true,
+  },
+];
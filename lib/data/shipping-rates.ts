@@ -0,0 +1,59 @@
+import { ShippingMethod, ShippingZone } from '../types/shipping';
+
+/**
+ * Shipping Rates
+ *
+ * Methods, zones and the fallbacks used for products without a `weight`
+ * attribute. All prices are in cents.
+ */
+
+export const shippingMethods: ShippingMethod[] = [
+  { id: 'standard', name: 'Standard', description: '5-7 business days', minDays: 5, maxDays: 7 },
+  { id: 'express', name: 'Express', description: '1-2 business days', minDays: 1, maxDays: 2 },
+  { id: 'pickup', name: 'Store pickup', description: 'Ready tomorrow at our store', minDays: 1, maxDays: 1 },
+];
+
+export const shippingZones: ShippingZone[] = [
+  {
+    id: 'domestic',
+    name: 'United States',
+    countries: ['US'],
+    rates: {
+      standard: { base: 599, perKg: 100, freeOver: 5000 },
+      express: { base: 1499, perKg: 250 },
+      pickup: { base: 0, perKg: 0 },
+    },
+  },
+  {
+    id: 'north-america',
+    name: 'Canada',
+    countries: ['CA'],
+    rates: {
+      standard: { base: 1499, perKg: 400, freeOver: 15000 },
+      express: { base: 2999, perKg: 800 },
+    },
+  },
+  {
+    id: 'europe',
+    name: 'Europe',
+    countries: ['GB', 'DE', 'FR'],
+    rates: {
+      standard: { base: 1999, perKg: 500, freeOver: 20000 },
+      express: { base: 3999, perKg: 1000 },
+    },
+  },
+];
+
+// Estimated weight (grams) of one item, for products that don't list one
+export const defaultCategoryWeights: Record<string, number> = {
+  electronics: 1000,
+  fashion: 500,
+  'home-living': 1500,
+  'sports-outdoors': 1500,
+  'beauty-health': 300,
+};
+
+export const DEFAULT_ITEM_WEIGHT = 1000;
+
+// Carriers' divisor for dimensional weight: L × W × H (cm) / 5000 = kg
+export const DIMENSIONAL_WEIGHT_DIVISOR = 5000;
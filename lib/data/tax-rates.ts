@@ -0,0 +1,90 @@
+import { TaxRateTable } from '../types/tax';
+
+/**
+ * Tax Rates
+ *
+ * The rate table used by the tax service. Rates are illustrative (rounded
+ * from published state and national rates) - a real shop would keep this
+ * file up to date or plug in a tax provider instead.
+ *
+ * US sales tax is levied by states and local areas, so the country rate is
+ * 0 and each state may add ZIP-prefix rates on top. Other countries charge
+ * a single national VAT/GST, plus provincial tax in Canada.
+ */
+export const taxRates: TaxRateTable = {
+  countries: [
+    {
+      code: 'US',
+      name: 'United States',
+      rate: 0,
+      regions: [
+        {
+          code: 'CA',
+          name: 'California',
+          rate: 0.0725,
+          zipRates: [
+            { prefix: '900', name: 'Los Angeles County', rate: 0.0225 },
+            { prefix: '941', name: 'San Francisco', rate: 0.01375 },
+          ],
+        },
+        {
+          code: 'NY',
+          name: 'New York',
+          rate: 0.04,
+          zipRates: [
+            { prefix: '100', name: 'New York City', rate: 0.04875 },
+            { prefix: '101', name: 'New York City', rate: 0.04875 },
+            { prefix: '102', name: 'New York City', rate: 0.04875 },
+            { prefix: '112', name: 'New York City', rate: 0.04875 },
+          ],
+        },
+        {
+          code: 'TX',
+          name: 'Texas',
+          rate: 0.0625,
+          zipRates: [{ prefix: '787', name: 'Austin', rate: 0.02 }],
+        },
+        {
+          code: 'WA',
+          name: 'Washington',
+          rate: 0.065,
+          zipRates: [{ prefix: '981', name: 'Seattle', rate: 0.0385 }],
+        },
+        {
+          code: 'IL',
+          name: 'Illinois',
+          rate: 0.0625,
+          zipRates: [{ prefix: '606', name: 'Chicago', rate: 0.0375 }],
+        },
+        { code: 'FL', name: 'Florida', rate: 0.06 },
+        // Clothing is exempt from sales tax in these states
+        {
+          code: 'PA',
+          name: 'Pennsylvania',
+          rate: 0.06,
+          exemptCategories: ['fashion'],
+          zipRates: [{ prefix: '191', name: 'Philadelphia', rate: 0.02 }],
+        },
+        { code: 'NJ', name: 'New Jersey', rate: 0.06625, exemptCategories: ['fashion'] },
+        { code: 'MA', name: 'Massachusetts', rate: 0.0625, exemptCategories: ['fashion'] },
+        // No state sales tax
+        { code: 'OR', name: 'Oregon', rate: 0 },
+        { code: 'DE', name: 'Delaware', rate: 0 },
+      ],
+    },
+    {
+      code: 'CA',
+      name: 'Canada',
+      taxName: 'GST',
+      rate: 0.05,
+      regions: [
+        { code: 'ON', name: 'Ontario', rate: 0.08 },
+        { code: 'BC', name: 'British Columbia', rate: 0.07 },
+        { code: 'QC', name: 'Quebec', rate: 0.09975 },
+      ],
+    },
+    { code: 'GB', name: 'United Kingdom', taxName: 'VAT', rate: 0.2 },
+    { code: 'DE', name: 'Germany', taxName: 'VAT', rate: 0.19 },
+    { code: 'FR', name: 'France', taxName: 'VAT', rate: 0.2 },
+  ],
+};
@@ -8,14 +8,20 @@ import { Product, FilterParams } from './product';
  *
  * Educational Note: Pagination is essential for performance when dealing
  * with large datasets. Never return all records at once!
+ *
+ * Listings that support cursors also return nextCursor/prevCursor. Pass one
+ * back as ?cursor=... to continue from there (page is then 0, since a
+ * cursor position has no page number).
  */
 export interface PaginationMeta {
-  page: number;                         // Current page number (1-indexed)
+  page: number;                         // Current page number (1-indexed, 0 in cursor mode)
   limit: number;                        // Items per page
   total: number;                        // Total number of items
   totalPages: number;                   // Total number of pages
   hasNext: boolean;                     // Whether there's a next page
   hasPrev: boolean;                     // Whether there's a previous page
+  nextCursor?: string | null;           // Opaque token for the items after this page
+  prevCursor?: string | null;           // Opaque token for the items before this page
 }
 
 /**
@@ -81,12 +87,26 @@ export interface ApiErrorResponse {
  * Includes the search query for reference and result count.
  */
 export interface SearchResponse {
-  results: Product[];                   // Matching products
+  results: Product[];                   // Matching products, best match first
   query: string;                        // Original search query
   count: number;                        // Number of results
+  highlights: Record<string, SearchHighlight>; // Keyed by product id
   timestamp: string;
 }
 
+/**
+ * Search Highlight
+ *
+ * Shows the shopper WHY a product matched. Matched words are wrapped in
+ * <mark> tags; everything else is HTML-escaped, so the strings are safe
+ * to render as HTML.
+ */
+export interface SearchHighlight {
+  name: string;                         // Product name with matches marked
+  snippet: string;                      // Best-matching excerpt from any field
+  score: number;                        // BM25 relevance (higher is better)
+}
+
 /**
  * Statistics Response
  *
@@ -104,3 +124,17 @@ export interface StatsResponse {
   outOfStockCount: number;              // Products with zero inventory
   featuredCount: number;
 }
+
+/**
+ * Field Error
+ *
+ * A single validation problem, returned in ApiErrorResponse.error.details
+ * when a request body fails validation.
+ *
+ * Educational Note: Reporting every invalid field at once (instead of
+ * stopping at the first) lets a form highlight all problems in one round trip.
+ */
+export interface FieldError {
+  field: string;                        // Path to the field, e.g. "inventory.quantity"
+  message: string;                      // What is wrong with it
+}
@@ -0,0 +1,77 @@
+/**
+ * Audit Types
+ *
+ * Every change made through the service layer - by an API key, a signed-in
+ * customer, an anonymous shopper or a script - is recorded as an
+ * AuditEvent: who did what to which record, what it looked like before
+ * and after, and where the request came from.
+ *
+ * Educational Note: The audit log is append-only. Events are never updated
+ * or deleted (the database refuses to), so the log can be trusted as a
+ * record of what happened, even by someone auditing the admins.
+ */
+
+/**
+ * Who acted
+ *
+ * - api_key: a request authenticated with an API key (id = key id)
+ * - customer: a signed-in shopper (id = customer id)
+ * - anonymous: a shopper without an account, e.g. placing an order
+ * - system: scripts and background jobs (imports, the CLI)
+ */
+export type AuditActorType = 'api_key' | 'customer' | 'anonymous' | 'system';
+
+export interface AuditActor {
+  type: AuditActorType;
+  id?: string;
+  name: string;                         // Key name, customer email, "anonymous" or "system"
+}
+
+/**
+ * Audit Context
+ *
+ * The actor and request metadata for everything a request does, set once
+ * by the route wrapper and picked up by every audit event it records.
+ */
+export interface AuditContext {
+  actor: AuditActor;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+/**
+ * Audit Event
+ *
+ * `action` is "<entity>.<verb>", e.g. product.update or api_key.revoke.
+ * `before` is absent for creations, `after` for deletions.
+ */
+export interface AuditEvent {
+  id: string;
+  createdAt: Date;
+  actorType: AuditActorType;
+  actorId?: string;
+  actor: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+/**
+ * Audit Filters
+ *
+ * Query parameters of GET /api/audit. All are optional and combine with AND.
+ */
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  actor?: string;                       // Actor name or id
+  action?: string;
+  from?: Date;                          // Inclusive
+  to?: Date;                            // Exclusive
+}
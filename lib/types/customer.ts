@@ -0,0 +1,119 @@
+import { Product } from './product';
+import { StockLine } from './inventory';
+
+/**
+ * Customer & Cart Types
+ *
+ * Shoppers can browse and buy without an account. Signing in keeps their
+ * cart on the server, so it follows them from phone to laptop.
+ *
+ * Educational Note: A stored cart holds only ids and quantities - never
+ * prices or names. Those are read from the product whenever the cart is
+ * loaded, so a cart can't show yesterday's price.
+ */
+
+/**
+ * Customer (never includes the password hash)
+ */
+export interface Customer {
+  id: string;
+  email: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Registration Input
+ *
+ * Body of POST /api/auth/register. `items` is the anonymous cart to merge
+ * into the new account.
+ */
+export interface RegistrationInput {
+  email: string;
+  name: string;
+  password: string;
+  items: StockLine[];
+}
+
+/**
+ * Login Input
+ *
+ * Body of POST /api/auth/login.
+ */
+export interface LoginInput {
+  email: string;
+  password: string;
+  items: StockLine[];                   // Anonymous cart to merge, may be empty
+}
+
+/**
+ * A cart line with the product as it is now
+ */
+export interface HydratedCartLine extends StockLine {
+  product: Product;
+}
+
+/**
+ * Cart
+ *
+ * Response of GET/PUT /api/cart and POST /api/cart/hydrate.
+ */
+export interface Cart {
+  items: HydratedCartLine[];
+  removed: StockLine[];                 // Lines dropped because the product or variant is gone
+}
+
+/**
+ * A cart line as sent for revalidation, with the unit price the shopper
+ * was shown (in the product's currency, cents - the variant's price when
+ * one is chosen)
+ */
+export interface CartCheckLine extends StockLine {
+  price?: number;
+}
+
+/**
+ * Cart Validation Input
+ *
+ * Body of POST /api/cart/validate. At checkout the page's own reservation
+ * token is sent too, so the units it holds count as available to it.
+ */
+export interface CartCheckInput {
+  items: CartCheckLine[];
+  reservationToken?: string;
+}
+
+/**
+ * What changed about a cart line since the shopper added it
+ *
+ * - price-changed: the product (or variant) costs something else now
+ * - quantity-reduced: fewer units are available than the line asks for
+ * - unavailable: deleted, unpublished, or out of stock
+ */
+export type CartChangeType = 'price-changed' | 'quantity-reduced' | 'unavailable';
+
+export interface CartChange {
+  type: CartChangeType;
+  productId: string;
+  variantId?: string;
+  name: string;                         // Product (and variant) name, or the id if the product is gone
+  message: string;                      // e.g. "Price changed from $29.99 to $34.99"
+  previousPrice?: number;               // price-changed: what the shopper saw (cents)
+  currentPrice?: number;                // price-changed: what it costs now (cents)
+  currency?: string;                    // Currency of the two prices
+  requestedQuantity?: number;           // quantity-reduced / unavailable
+  availableQuantity?: number;
+}
+
+/**
+ * Cart Validation
+ *
+ * Response of POST /api/cart/validate. `items` is the cart with every
+ * change applied - current products, reduced quantities, unavailable lines
+ * removed - for the shopper to accept.
+ */
+export interface CartValidation {
+  valid: boolean;                       // true when nothing changed
+  items: HydratedCartLine[];
+  changes: CartChange[];
+}
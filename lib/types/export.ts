@@ -0,0 +1,34 @@
+/**
+ * Catalog Export Types
+ *
+ * The catalog leaves the CMS in three shapes: CSV for spreadsheets (the
+ * same columns the importer reads), JSON lines for other systems, and a
+ * Google Merchant Center feed for shopping ads.
+ */
+
+/**
+ * Export formats
+ */
+export type ExportFormat = 'csv' | 'jsonl' | 'google-merchant';
+
+/**
+ * Merchant Center accepts an XML (RSS 2.0) or a tab-separated feed
+ */
+export type MerchantFeedType = 'xml' | 'tsv';
+
+/**
+ * Export Options
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  feed?: MerchantFeedType;              // google-merchant only (default xml)
+  includeUnpublished?: boolean;         // csv / jsonl only - a feed only lists live products
+}
+
+/**
+ * One item of a Merchant Center feed
+ *
+ * Keys are Merchant Center attribute names (id, title, price, ...).
+ * Repeatable attributes (additional_image_link) hold a list.
+ */
+export type MerchantItem = Record<string, string | string[]>;
@@ -0,0 +1,52 @@
+import { FieldError } from './api';
+
+/**
+ * Bulk Import Types
+ *
+ * Products are imported from a CSV file (one product per row, with a header
+ * row) or from JSON lines (one product object per line), and matched to
+ * existing products by SKU: known SKUs are updated, new ones created.
+ *
+ * Educational Note: An import is a batch of independent writes. A bad row
+ * is reported and skipped; it never stops the good rows from being saved.
+ */
+
+/**
+ * File formats the importer reads
+ */
+export type ImportFormat = 'csv' | 'jsonl';
+
+/**
+ * Import Options
+ */
+export interface ImportOptions {
+  format: ImportFormat;
+  dryRun?: boolean;                     // Validate every row but write nothing
+  mapping?: Record<string, string>;     // Source column → product column, e.g. { "Stock": "quantity" }
+  batchSize?: number;                   // Rows per transaction (default 100)
+  author?: string;                      // Stored with the revisions the import creates
+}
+
+/**
+ * Problems with one row
+ */
+export interface ImportRowError {
+  row: number;                          // 1-based data row (the CSV header is not counted)
+  sku?: string;
+  errors: FieldError[];
+}
+
+/**
+ * Import Result
+ *
+ * In a dry run, created and updated count what the import would do.
+ */
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;                        // Data rows read
+  created: number;
+  updated: number;
+  failed: number;                       // Rows skipped because of errors
+  errors: ImportRowError[];
+  ignoredColumns: string[];             // Columns that don't map to a product field
+}
@@ -0,0 +1,262 @@
+/**
+ * Inventory Types
+ *
+ * Types for stock reservations - units held for a shopper while they
+ * complete checkout, so nobody else can buy them in the meantime - for
+ * low-stock alerts, the stock movement ledger and inventory locations.
+ *
+ * Educational Note: A product's available quantity is
+ *   quantity - reservedQuantity
+ * Reservations raise reservedQuantity; placing the order lowers both.
+ */
+
+/**
+ * Stock Line
+ *
+ * A quantity of one product - or of one variant, for products with variants.
+ */
+export interface StockLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+/**
+ * Reservation
+ *
+ * All lines reserved for one checkout share a token. The client keeps the
+ * token and sends it with the order so the held units are used for it.
+ */
+export interface Reservation {
+  token: string;
+  expiresAt: Date;
+  items: StockLine[];
+}
+
+/**
+ * Stock Shortage
+ *
+ * Returned in error details when a line cannot be reserved or fulfilled.
+ */
+export interface StockShortage {
+  productId: string;
+  variantId?: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Stock Alert status
+ *
+ * - open: at or below lowStockThreshold, waiting for a restock
+ * - resolved: restocked above the threshold; the next drop opens a new alert
+ */
+export type StockAlertStatus = 'open' | 'resolved';
+
+/**
+ * Stock Alert
+ *
+ * Opened by the stock alert check when a product (or variant) falls to its
+ * lowStockThreshold. Quantities are as they were when the alert opened.
+ */
+export interface StockAlert {
+  id: string;
+  productId: string;
+  variantId?: string;
+  sku: string;
+  name: string;
+  quantity: number;                     // On hand
+  lowStockThreshold: number;
+  dailySales: number;                   // Average units sold per day recently
+  reorderQuantity: number;              // Suggested units to order
+  status: StockAlertStatus;
+  notified: boolean;                    // Every notifier has been told
+  createdAt: Date;
+  resolvedAt?: Date;
+}
+
+/**
+ * Stock Alert Notifier
+ *
+ * Tells someone about newly opened alerts - a log line, a webhook, or
+ * anything else implementing notify(). A notifier that throws is retried
+ * with the same alerts on the next check.
+ */
+export interface StockAlertNotifier {
+  name: string;
+  notify(alerts: StockAlert[]): Promise<void>;
+}
+
+/**
+ * Result of one stock alert check
+ */
+export interface StockAlertCheck {
+  opened: StockAlert[];
+  resolved: number;
+  notified: number;                     // Alerts handed to the notifiers
+}
+
+/**
+ * Stock Movement type
+ *
+ * - sale: units sold with an order (on hand goes down)
+ * - return: units a customer sent back, restocked
+ * - adjustment: a correction - a stock count, damage, loss, a product edit
+ * - receipt: units received from a supplier
+ * - reservation: units held for a checkout (reserved goes up)
+ * - release: held units given back, or converted into a sale
+ */
+export type StockMovementType =
+  | 'sale'
+  | 'return'
+  | 'adjustment'
+  | 'receipt'
+  | 'reservation'
+  | 'release';
+
+/**
+ * Stock Movement - one entry in the inventory ledger
+ *
+ * quantity and reserved are changes, not totals: adding up every movement
+ * of a SKU gives its current quantity and reservedQuantity.
+ */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  variantId?: string;
+  type: StockMovementType;
+  quantity: number;                     // Change to units on hand
+  reserved: number;                     // Change to units held for checkouts
+  reason?: StockAdjustmentReason | 'opening_balance' | 'product_edit';
+  note?: string;
+  reference?: string;                   // Order id, reservation token, PO number
+  locationId?: string;                  // Where the units moved (none for reserved units)
+  actor: string;
+  createdAt: Date;
+}
+
+/**
+ * Reason codes of POST /api/inventory/adjustments
+ *
+ * The reason decides the movement type and which way stock may move:
+ * - received (receipt) and customer_return (return): stock goes up
+ * - damaged, lost, stolen, expired (adjustment): stock goes down
+ * - found (adjustment): stock goes up
+ * - count_correction, other (adjustment): either way; other needs a note
+ */
+export type StockAdjustmentReason =
+  | 'received'
+  | 'customer_return'
+  | 'damaged'
+  | 'lost'
+  | 'stolen'
+  | 'expired'
+  | 'found'
+  | 'count_correction'
+  | 'other';
+
+/**
+ * Stock Adjustment Input
+ *
+ * Body of POST /api/inventory/adjustments. quantity is the change, e.g. -2
+ * for two damaged units or 50 for a delivery, at locationId (the first
+ * location by priority when omitted).
+ */
+export interface StockAdjustmentInput {
+  productId: string;
+  variantId?: string;
+  locationId?: string;
+  quantity: number;
+  reason: StockAdjustmentReason;
+  note?: string;
+  reference?: string;
+}
+
+/**
+ * Stock Drift - a SKU whose quantity disagrees with its ledger
+ *
+ * Reported by the reconciliation (`npm run inventory:reconcile`).
+ */
+export interface StockDrift {
+  productId: string;
+  variantId?: string;                   // Absent for the product's own total
+  sku: string;
+  quantity: number;                     // The quantity column
+  ledgerQuantity: number;               // Sum of the movements
+  drift: number;                        // quantity - ledgerQuantity
+}
+
+/**
+ * Inventory Location type
+ *
+ * - warehouse: ships orders
+ * - store: ships orders too, and usually offers pickup
+ */
+export type InventoryLocationType = 'warehouse' | 'store';
+
+/**
+ * Inventory Location - a place stock is kept
+ */
+export interface InventoryLocation {
+  id: string;
+  code: string;                         // Short name, e.g. "WH-EAST"
+  name: string;
+  type: InventoryLocationType;
+  priority: number;                     // Lower is used first
+  zipCode?: string;                     // For proximity to the shipping address
+  country: string;                      // ISO 3166-1 alpha-2
+  pickup: boolean;                      // Shoppers can collect orders here
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Inventory Location Input
+ *
+ * Body of POST /api/inventory/locations (PATCH accepts any subset).
+ */
+export interface InventoryLocationInput {
+  code: string;
+  name: string;
+  type: InventoryLocationType;
+  priority: number;
+  zipCode?: string;
+  country: string;
+  pickup: boolean;
+}
+
+/**
+ * Inventory Level - stock of one SKU at one location
+ *
+ * The quantity only changes through stock movements (orders, adjustments,
+ * product edits); the threshold is set per location.
+ */
+export interface InventoryLevel {
+  locationId: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  lowStockThreshold: number;
+}
+
+/**
+ * Inventory Level Input
+ *
+ * Body of PATCH /api/inventory/locations/[id]/levels.
+ */
+export interface InventoryLevelInput {
+  productId: string;
+  variantId?: string;
+  lowStockThreshold: number;
+}
+
+/**
+ * Allocation strategy - how orders pick the locations they ship from
+ *
+ * - priority: the locations' priority order
+ * - proximity: the location nearest the shipping ZIP first, then priority
+ *
+ * Either way, a location that can ship the whole order is preferred to
+ * splitting it.
+ */
+export type AllocationStrategy = 'priority' | 'proximity';
@@ -0,0 +1,137 @@
+import { ShippingMethodId } from './shipping';
+
+/**
+ * Order Types
+ *
+ * An order is a permanent record of a purchase. Unlike a cart, it must not
+ * change when the catalog changes later, so each line stores a snapshot of
+ * the product's name, SKU and price at the time of purchase.
+ *
+ * Educational Note: This is called "denormalizing for history". Joining to
+ * the live Product row would show today's price on last year's invoice.
+ */
+
+/**
+ * Shipping Address
+ */
+export interface ShippingAddress {
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+/**
+ * Customer Contact Details
+ */
+export interface CustomerInfo {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+}
+
+/**
+ * Order Line
+ *
+ * One product in an order, with values frozen at purchase time.
+ */
+export interface OrderLine {
+  id: string;
+  productId: string | null;             // null if the product was deleted since
+  variantId: string | null;             // null for products without variants
+  sku: string;                          // Snapshot (the variant's SKU for variants)
+  name: string;                         // Snapshot
+  options?: Record<string, string>;     // Snapshot of the variant's options, e.g. { size: "M" }
+  unitPrice: number;                    // Snapshot, in cents
+  quantity: number;
+  lineTotal: number;                    // unitPrice × quantity, in cents
+  taxAmount: number;                    // This line's tax, in cents
+}
+
+/**
+ * Order Allocation
+ *
+ * Units of an order line taken from one warehouse or store - where the
+ * line ships from. A line split over two locations has two allocations.
+ */
+export interface OrderAllocation {
+  locationId: string;
+  locationName: string;
+  productId: string | null;             // null if the product was deleted since
+  variantId: string | null;             // null for products without variants
+  sku: string;
+  quantity: number;
+}
+
+/**
+ * Order Discount
+ *
+ * A promotion applied to the order, snapshotted like the lines.
+ */
+export interface OrderDiscount {
+  promotionId: string | null;           // null if the promotion was deleted since
+  code?: string;                        // Coupon code, for coupon promotions
+  name: string;                         // Snapshot, e.g. "Fitness Week - 15% off"
+  amount: number;                       // In cents
+}
+
+/**
+ * Order Tax
+ *
+ * Tax collected for one jurisdiction, e.g. "California" or "VAT".
+ */
+export interface OrderTax {
+  jurisdiction: string;
+  rate: number;                         // Decimal, e.g. 0.0725
+  taxableAmount: number;                // In cents
+  amount: number;                       // In cents
+}
+
+/**
+ * Order
+ */
+export interface Order {
+  id: string;
+  orderNumber: string;                  // Human-friendly reference, e.g. "ORD-20241120-7K3M9Q"
+  status: 'placed' | 'cancelled';
+  customer: CustomerInfo;
+  shippingAddress: ShippingAddress;
+  currency: string;
+  lines: OrderLine[];
+  subtotal: number;                     // Sum of line totals, in cents
+  discounts: OrderDiscount[];           // Every promotion applied, itemized
+  discountTotal: number;                // Sum of discounts, in cents
+  shippingMethod: ShippingMethodId;
+  shippingTotal: number;                // In cents (0 for free shipping and pickup)
+  taxes: OrderTax[];                    // Tax per jurisdiction, itemized
+  allocations: OrderAllocation[];       // Which locations ship which units
+  taxTotal: number;                     // In cents, charged on subtotal - discountTotal
+  taxInclusive: boolean;                // true: taxTotal is already part of the prices
+  total: number;                        // subtotal - discountTotal + shippingTotal (+ taxTotal unless inclusive), in cents
+  createdAt: Date;
+}
+
+/**
+ * Order Input
+ *
+ * What the client sends to POST /api/orders. Only product ids and
+ * quantities are accepted - prices are always looked up on the server.
+ *
+ * Educational Note: Never trust prices sent by the browser. Anyone can edit
+ * localStorage or the request body and "buy" a TV for one cent.
+ */
+export interface OrderInput {
+  customer: CustomerInfo;
+  shippingAddress: ShippingAddress;
+  items: {
+    productId: string;
+    variantId?: string;                 // Required for products with variants
+    quantity: number;
+  }[];
+  reservationToken?: string;            // Stock held when checkout started
+  couponCode?: string;                  // Entered by the shopper; automatic promotions need none
+  shippingMethod?: ShippingMethodId;    // Defaults to "standard"
+  currency?: string;                    // Currency to charge in; defaults to USD
+}
@@ -1,3 +1,5 @@
+import { InventoryLocationType } from './inventory';
+
 /**
  * Core Product Type
  *
@@ -36,6 +38,7 @@ export interface Product {
     quantity: number;                   // Available quantity
     lowStockThreshold: number;          // Trigger for "low stock" warnings
     reservedQuantity: number;           // Items in carts but not yet purchased
+    locations?: LocationStock[];        // Where the quantity is kept (read-only; set on products read from the database)
   };
 
   // Media assets
@@ -49,7 +52,7 @@ export interface Product {
   // Metadata and flags
   featured: boolean;                    // Show on homepage
   isNew: boolean;                       // Display "new" badge
-  rating?: {                            // Optional rating information
+  rating?: {                            // Computed from approved reviews (absent without any)
     average: number;                    // Average rating (0-5)
     count: number;                      // Number of reviews
   };
@@ -58,13 +61,113 @@ export interface Product {
   // Educational Note: Record type allows dynamic key-value pairs
   attributes: Record<string, string | number | boolean>;
 
+  // Variants - purchasable combinations of options (e.g. size × color)
+  // Educational Note: For products with variants, price is the lowest
+  // variant price and inventory is summed over all variants
+  options?: ProductOption[];            // Option axes, e.g. size: S, M, L
+  variants?: ProductVariant[];          // Empty for products sold as a single item
+  priceRange?: {                        // Lowest and highest variant price (or price twice)
+    min: number;
+    max: number;
+  };
+
+  // Publishing workflow
+  // Educational Note: Shoppers only see published products whose publishedAt
+  // has passed; a scheduled product goes live by itself at its publishedAt
+  status: ProductStatus;
+
   // Timestamps
   // Educational Note: Tracking creation and modification times is standard practice
   createdAt: Date;
   updatedAt: Date;
-  publishedAt?: Date;
+  publishedAt?: Date;                   // When the product goes (or went) live
 }
 
+/**
+ * Product Status
+ *
+ * - draft: being written, never shown to shoppers
+ * - scheduled: goes live at publishedAt
+ * - published: live (from publishedAt)
+ * - archived: withdrawn from the shop, kept for past orders and reporting
+ */
+export type ProductStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+/**
+ * Product Option
+ *
+ * One axis a product varies along, with the values shoppers choose from.
+ */
+export interface ProductOption {
+  name: string;                         // e.g. "size"
+  values: string[];                     // e.g. ["S", "M", "L"]
+}
+
+/**
+ * Product Variant
+ *
+ * A sellable version of a product - one value for each option axis.
+ * Each variant has its own SKU, price, stock and (optionally) images.
+ *
+ * Educational Note: "T-shirt" is the product a shopper browses, while
+ * "T-shirt, M, Blue" is what the warehouse actually picks and counts.
+ */
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>;      // e.g. { size: "M", color: "Blue" }
+  price: number;                        // In cents
+  originalPrice?: number;               // In cents
+  inventory: Product['inventory'];
+  images: Product['images'];            // Falls back to the product images when empty
+}
+
+/**
+ * Inventory Input
+ *
+ * The stock fields a client may set. reservedQuantity is server-owned: it
+ * counts units held for checkouts and only changes when a hold is placed
+ * or released, so a write can never clear other shoppers' holds.
+ */
+export type InventoryInput = Omit<Product['inventory'], 'reservedQuantity' | 'locations'>;
+
+/**
+ * Product Variant Input
+ */
+export type ProductVariantInput = Omit<ProductVariant, 'id' | 'inventory'> & {
+  id?: string;
+  inventory: InventoryInput;
+};
+
+/**
+ * Product Input
+ *
+ * Shape accepted when creating or fully replacing a product.
+ * The server owns the id (generated if omitted), the timestamps, the
+ * rating (which comes from reviews) and the reserved stock.
+ *
+ * Educational Note: Omit<> derives a new type from an existing one,
+ * so the input type can never drift away from the Product interface.
+ */
+export type ProductInput = Omit<
+  Product,
+  'id' | 'createdAt' | 'updatedAt' | 'variants' | 'priceRange' | 'rating' | 'inventory'
+> & {
+  id?: string;
+  inventory: InventoryInput;
+  variants?: ProductVariantInput[];     // Replaces all variants when given
+};
+
+/**
+ * Product Patch
+ *
+ * Shape accepted for partial updates (PATCH). Every field is optional,
+ * and nested inventory fields can be updated one at a time.
+ */
+export type ProductPatch = Partial<Omit<ProductInput, 'id' | 'inventory'>> & {
+  inventory?: Partial<InventoryInput>;
+};
+
 /**
  * Category Type
  *
@@ -78,7 +181,32 @@ export interface Category {
   description: string;                  // Category description
   image?: string;                       // Optional category image
   parentId?: string;                    // For hierarchical categories
-  productCount: number;                 // Denormalized count for performance
+  productCount: number;                 // Denormalized count; public reads count published products only
+}
+
+/**
+ * Category Input
+ *
+ * Shape accepted when creating a category. productCount is maintained by
+ * the server, so it is never part of the input.
+ */
+export type CategoryInput = Omit<Category, 'id' | 'productCount'> & {
+  id?: string;
+};
+
+/**
+ * Category Tree Node
+ *
+ * A category with its subcategories nested inside it.
+ *
+ * Educational Note: The database stores the hierarchy as a flat list where
+ * each row points at its parent (an "adjacency list"). The tree is built
+ * in memory by grouping rows under their parentId.
+ */
+export interface CategoryTreeNode extends Category {
+  depth: number;                        // 0 for top-level categories
+  totalProductCount: number;            // productCount rolled up from all descendants
+  children: CategoryTreeNode[];
 }
 
 /**
@@ -92,6 +220,7 @@ export interface Category {
  */
 export interface FilterParams {
   category?: string;                    // Filter by category slug
+  includeSubcategories?: boolean;       // Also match products in descendant categories
   minPrice?: number;                    // Minimum price in cents
   maxPrice?: number;                    // Maximum price in cents
   inStock?: boolean;                    // Only show in-stock products
@@ -100,6 +229,7 @@ export interface FilterParams {
   sortBy?: 'price-asc' | 'price-desc' | 'name' | 'newest' | 'rating';
   page?: number;                        // Current page (for pagination)
   limit?: number;                       // Items per page
+  cursor?: string;                      // Cursor from a previous page (replaces page)
 }
 
 /**
@@ -113,4 +243,39 @@ export interface InventoryStatus {
   message: string;                      // User-facing message
   canOrder: boolean;                    // Whether product can be added to cart
   urgency?: 'none' | 'medium' | 'high'; // Visual urgency indicator
+  locations?: LocationAvailability[];   // Per location, for products with location stock
+}
+
+/**
+ * Location Stock
+ *
+ * The part of a product's (or variant's) quantity kept at one warehouse or
+ * store. The quantities of all locations add up to inventory.quantity;
+ * for products with variants they are summed over the variants.
+ */
+export interface LocationStock {
+  locationId: string;
+  name: string;                         // e.g. "Downtown store"
+  type: InventoryLocationType;
+  pickup: boolean;                      // Orders can be collected here
+  quantity: number;
+  lowStockThreshold: number;            // "Low stock" at this location
+}
+
+/**
+ * Location Availability
+ *
+ * Inventory status at one location, e.g. for "pick up today in store".
+ *
+ * Educational Note: Reservations hold units of a product, not of a
+ * location, so these numbers are on hand - the location that ships is
+ * only chosen when the order is placed.
+ */
+export interface LocationAvailability {
+  locationId: string;
+  name: string;
+  pickup: boolean;
+  status: InventoryStatus['status'];
+  message: string;                      // e.g. "Only 2 left at Downtown store"
+  quantity: number;
 }
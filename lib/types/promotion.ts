@@ -0,0 +1,98 @@
+/**
+ * Promotion Types
+ *
+ * A promotion is a rule that lowers the price of a cart: a coupon code the
+ * shopper types in, or an automatic sale that applies by itself.
+ *
+ * Educational Note: Promotions are data, not code. Marketing can create a
+ * "20% off fitness gear this weekend" sale by inserting a row - the pricing
+ * service knows how to evaluate every kind of rule.
+ */
+
+/**
+ * Kinds of discount
+ *
+ * - percentage: value is a percent off the eligible items (e.g. 15)
+ * - fixed: value is an amount off in cents (e.g. 500 = $5.00)
+ * - buy-x-get-y: buy buyQuantity eligible items, get getQuantity more at
+ *   value percent off (100 = free); the cheapest items are discounted
+ */
+export type PromotionType = 'percentage' | 'fixed' | 'buy-x-get-y';
+
+/**
+ * Promotion
+ */
+export interface Promotion {
+  id: string;
+  code?: string;                        // Coupon code (uppercase); absent for automatic promotions
+  name: string;                         // Shown to shoppers, e.g. "Fitness Week - 15% off"
+  description?: string;
+  type: PromotionType;
+  value: number;                        // Percent (0-100) or cents, depending on type
+  buyQuantity?: number;                 // buy-x-get-y only
+  getQuantity?: number;                 // buy-x-get-y only
+
+  // Scope - empty lists mean "every product"
+  categories: string[];                 // Category (or subcategory) slugs
+  tags: string[];                       // Any matching tag makes a product eligible
+
+  minSubtotal?: number;                 // Cart subtotal needed, in cents
+  usageLimit?: number;                  // Total number of orders that may use it
+  usageCount: number;                   // Orders that have used it so far
+  startsAt?: Date;                      // Validity window (open-ended when absent)
+  endsAt?: Date;
+  active: boolean;                      // Switch a promotion off without deleting it
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Promotion Input
+ *
+ * Shape accepted when creating a promotion. usageCount is maintained by the
+ * server as orders are placed.
+ */
+export type PromotionInput = Omit<Promotion, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'> & {
+  id?: string;
+};
+
+/**
+ * Pricing Line
+ *
+ * One cart line as the pricing service sees it. Cart items and order lines
+ * are both converted into this shape, so they are priced by the same code.
+ */
+export interface PricingLine {
+  key: string;                          // Unique per line, e.g. "prod_022:var_022_bl_m"
+  productId: string;
+  category: string;
+  subcategory?: string;
+  tags: string[];
+  unitPrice: number;                    // In cents
+  quantity: number;
+}
+
+/**
+ * Applied Promotion
+ *
+ * One row of the discount breakdown under the subtotal.
+ */
+export interface AppliedPromotion {
+  promotionId: string;
+  code?: string;
+  name: string;
+  amount: number;                       // Discount in cents (positive)
+}
+
+/**
+ * Pricing Result
+ */
+export interface PricingResult {
+  subtotal: number;                     // Before discounts, in cents
+  discounts: AppliedPromotion[];        // Every promotion that lowered the price
+  discountTotal: number;                // Sum of discounts, in cents
+  discountedSubtotal: number;           // subtotal - discountTotal (tax is charged on this)
+  lineTotals: Record<string, number>;   // Per line key, after discounts, in cents
+  couponError?: string;                 // Why the entered coupon code did not apply
+}
@@ -0,0 +1,65 @@
+/**
+ * Review Types
+ *
+ * Customers review products; a moderator approves or rejects each review
+ * before it is shown. A product's rating is computed from its approved
+ * reviews, so it always matches what shoppers can read.
+ *
+ * Educational Note: The rating on Product is a denormalized copy of an
+ * aggregate (AVG and COUNT over reviews). Storing it avoids recomputing it
+ * for every product in a listing, at the cost of keeping it in sync.
+ */
+
+/**
+ * Moderation state of a review
+ */
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Review
+ *
+ * What the API returns. The reviewer's email is deliberately left out.
+ */
+export interface Review {
+  id: string;
+  productId: string;
+  authorName: string;
+  rating: number;                       // 1-5 stars
+  title?: string;
+  body: string;
+  status: ReviewStatus;
+  verifiedPurchase: boolean;            // The signed-in reviewer ordered this product
+  helpfulCount: number;                 // "Was this review helpful?" votes
+  createdAt: Date;
+  moderatedAt?: Date;
+}
+
+/**
+ * Review Input
+ *
+ * What the client sends to POST /api/products/[id]/reviews. Status and the
+ * verified-purchase flag are decided by the server.
+ */
+export interface ReviewInput {
+  authorName: string;
+  email: string;
+  rating: number;
+  title?: string;
+  body: string;
+}
+
+/**
+ * Rating Summary
+ *
+ * Average, count and star histogram over a product's approved reviews.
+ */
+export interface RatingSummary {
+  average: number | null;               // null when there are no approved reviews
+  count: number;
+  histogram: Record<1 | 2 | 3 | 4 | 5, number>; // Number of reviews per star rating
+}
+
+/**
+ * Review sort options for the public list
+ */
+export type ReviewSort = 'newest' | 'helpful' | 'rating-high' | 'rating-low';
@@ -0,0 +1,79 @@
+import { ProductInput } from './product';
+
+/**
+ * Product Revision Types
+ *
+ * Every write to a product stores a snapshot of the product as it was
+ * saved, numbered 1, 2, 3... per product. Two snapshots can be compared
+ * field by field, and any snapshot can be restored.
+ *
+ * Educational Note: Storing whole snapshots (instead of only the changes)
+ * costs more space but makes reading any revision a single row lookup, and
+ * a diff between any two revisions is just a comparison of two documents.
+ */
+
+/**
+ * What caused a revision
+ */
+export type RevisionAction = 'create' | 'update' | 'restore' | 'delete';
+
+/**
+ * Product Snapshot
+ *
+ * The product as it was saved, in the shape the products API accepts
+ * (dates as ISO strings, since it is stored as JSON).
+ */
+export type ProductSnapshot = Omit<ProductInput, 'publishedAt'> & {
+  id: string;
+  publishedAt?: string;
+};
+
+/**
+ * Product Revision
+ */
+export interface ProductRevision {
+  id: string;
+  productId: string;
+  revision: number;                     // 1 for the first save, then +1 per write
+  action: RevisionAction;
+  author: string;                       // Who made the change
+  createdAt: Date;
+  snapshot: ProductSnapshot;
+}
+
+/**
+ * Revision list entry (GET /api/products/[id]/revisions)
+ *
+ * Without the snapshot, but with the fields changed since the previous
+ * revision.
+ */
+export type ProductRevisionSummary = Omit<ProductRevision, 'snapshot'> & {
+  changedFields: string[];
+};
+
+/**
+ * One difference between two snapshots
+ *
+ * Educational Note: Fields are paths into the product, e.g. "price",
+ * "attributes.color" or "variants[TSHIRT-M].inventory.quantity". Lists of
+ * plain values such as tags are compared as sets and report what was
+ * added and removed, not the whole list.
+ */
+export interface FieldChange {
+  field: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+  added?: unknown[];                    // For lists of values (e.g. tags)
+  removed?: unknown[];
+}
+
+/**
+ * Revision Diff (GET /api/products/[id]/revisions/diff?from=&to=)
+ */
+export interface RevisionDiff {
+  productId: string;
+  from: number;
+  to: number;
+  changes: FieldChange[];
+}
@@ -0,0 +1,98 @@
+import { StockLine } from './inventory';
+
+/**
+ * Shipping Types
+ *
+ * A shipping method (standard, express, pickup) is priced per zone - a
+ * group of countries - from the parcel's weight. Orders over a zone's
+ * threshold ship for free.
+ *
+ * Educational Note: Carriers charge for the larger of the real weight and
+ * the "dimensional weight" (how much space the box takes up), so a light
+ * but bulky pillow can cost more to ship than a heavy little dumbbell.
+ */
+
+/**
+ * Shipping methods offered at checkout
+ */
+export type ShippingMethodId = 'standard' | 'express' | 'pickup';
+
+/**
+ * Shipping Method
+ */
+export interface ShippingMethod {
+  id: ShippingMethodId;
+  name: string;                         // e.g. "Express"
+  description: string;                  // e.g. "1-2 business days"
+  minDays: number;                      // Delivery estimate in business days
+  maxDays: number;
+}
+
+/**
+ * Price of one method in one zone
+ *
+ * price = base + perKg × every started kilogram after the first
+ */
+export interface ShippingRate {
+  base: number;                         // In cents, covers the first kilogram
+  perKg: number;                        // In cents
+  freeOver?: number;                    // Discounted subtotal (cents) from which it's free
+}
+
+/**
+ * Shipping Zone
+ */
+export interface ShippingZone {
+  id: string;
+  name: string;                         // e.g. "Europe"
+  countries: string[];                  // ISO 3166-1 alpha-2 codes
+  rates: Partial<Record<ShippingMethodId, ShippingRate>>; // Methods offered in this zone
+}
+
+/**
+ * Item dimensions in centimetres
+ */
+export interface Dimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One method as offered for a specific cart and destination
+ */
+export interface ShippingOption {
+  method: ShippingMethodId;
+  name: string;
+  description: string;
+  price: number;                        // In cents (0 when free)
+  freeShipping: boolean;                // true when the threshold was reached
+  amountToFreeShipping?: number;        // Cents still to spend for free shipping
+  minDays: number;
+  maxDays: number;
+}
+
+/**
+ * Shipping Quote
+ *
+ * Response of POST /api/shipping/quote.
+ */
+export interface ShippingQuote {
+  zone: string;                         // Zone name
+  currency: string;                     // Currency of every amount in the quote
+  weight: number;                       // Billable weight in grams
+  subtotal: number;                     // Discounted subtotal the thresholds were checked against
+  options: ShippingOption[];            // In the order of the configured methods
+}
+
+/**
+ * Shipping Quote Input
+ *
+ * Body of POST /api/shipping/quote.
+ */
+export interface ShippingQuoteInput {
+  items: StockLine[];
+  country: string;                      // Code or name ("US" / "United States")
+  couponCode?: string;                  // Discounts count towards free shipping
+  currency?: string;                    // Currency to quote in (default USD)
+}
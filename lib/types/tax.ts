@@ -0,0 +1,112 @@
+/**
+ * Tax Types
+ *
+ * Sales tax depends on where an order ships to and on what is being sold.
+ * A rate table describes the rules per country, state and ZIP code area;
+ * a tax calculator applies them to the lines of a cart.
+ *
+ * Educational Note: Rates are decimals (0.0725 = 7.25%) and every amount is
+ * in cents, like the rest of the catalog.
+ */
+
+/**
+ * Local rate for a range of ZIP / postal codes (e.g. a county or city)
+ */
+export interface ZipTaxRate {
+  prefix: string;                       // Codes starting with this, e.g. "900"
+  name: string;                         // e.g. "Los Angeles County"
+  rate: number;
+}
+
+/**
+ * State / province rate
+ */
+export interface RegionTaxRate {
+  code: string;                         // e.g. "CA"
+  name: string;                         // e.g. "California"
+  rate: number;
+  exemptCategories?: string[];          // Category slugs not taxed here (nor locally)
+  zipRates?: ZipTaxRate[];
+}
+
+/**
+ * Country rate (VAT / GST, or 0 where tax is only levied by states)
+ */
+export interface CountryTaxRate {
+  code: string;                         // ISO 3166-1 alpha-2, e.g. "US"
+  name: string;                         // e.g. "United States"
+  taxName?: string;                     // Label for the national tax, e.g. "VAT"
+  rate: number;
+  exemptCategories?: string[];
+  regions?: RegionTaxRate[];
+}
+
+/**
+ * Tax Rate Table
+ */
+export interface TaxRateTable {
+  countries: CountryTaxRate[];
+}
+
+/**
+ * Taxable Line
+ *
+ * One cart or order line, after discounts.
+ */
+export interface TaxableLine {
+  key: string;                          // Same key as the pricing line
+  category: string;
+  subcategory?: string;
+  amount: number;                       // Line total after discounts, in cents
+}
+
+/**
+ * Tax Request
+ */
+export interface TaxRequest {
+  lines: TaxableLine[];
+  address: {
+    country: string;                    // Code or name ("US" / "United States")
+    state: string;                      // Code or name ("CA" / "California")
+    zipCode: string;
+  };
+  currency: string;                     // Decides tax-inclusive vs. tax-exclusive prices
+}
+
+/**
+ * Tax for one line
+ */
+export interface LineTax {
+  key: string;
+  taxableAmount: number;                // Net of tax, in cents; 0 when the line is exempt everywhere
+  rate: number;                         // Combined rate charged on this line
+  tax: number;                          // In cents
+}
+
+/**
+ * Tax collected for one jurisdiction (one row of the breakdown)
+ */
+export interface JurisdictionTax {
+  name: string;                         // e.g. "California", "Los Angeles County", "VAT"
+  rate: number;
+  taxableAmount: number;                // Lines taxed by this jurisdiction, net of tax, in cents
+  amount: number;                       // In cents
+}
+
+/**
+ * Tax Breakdown
+ */
+export interface TaxBreakdown {
+  inclusive: boolean;                   // true: prices already contain the tax
+  lines: LineTax[];
+  jurisdictions: JurisdictionTax[];     // Only jurisdictions that apply to the address
+  taxTotal: number;                     // Sum of line taxes, in cents
+}
+
+/**
+ * Tax Calculator
+ *
+ * Anything that turns a tax request into a breakdown - the built-in
+ * rate-table calculator, or an adapter for an external tax service.
+ */
+export type TaxCalculator = (request: TaxRequest) => TaxBreakdown;
@@ -0,0 +1,105 @@
+/**
+ * Webhook Types
+ *
+ * Other systems (an ERP, a search indexer) register a URL and the events
+ * they care about. When one happens, the catalog POSTs a signed JSON
+ * payload to that URL - instead of the other system polling
+ * /api/products to find out.
+ *
+ * Educational Note: Deliveries are queued in the database, in the same
+ * transaction as the change they announce, and sent afterwards. A receiver
+ * that is down gets the event later (with retries), and an event is never
+ * sent for a change that was rolled back.
+ */
+
+/**
+ * Events an endpoint can subscribe to
+ *
+ * - product.created / product.updated / product.deleted: data.product
+ * - inventory.low_stock: a sale took stock to (or below) the product's
+ *   lowStockThreshold; data has the product, variant and quantities
+ * - inventory.stock_alert: the stock alert check opened an alert, with a
+ *   suggested reorder quantity; data.alert
+ * - order.placed: data.order
+ */
+export type WebhookEventType =
+  | 'product.created'
+  | 'product.updated'
+  | 'product.deleted'
+  | 'inventory.low_stock'
+  | 'inventory.stock_alert'
+  | 'order.placed';
+
+/**
+ * Delivery status
+ *
+ * - pending: waiting for its (next) attempt
+ * - delivered: the endpoint answered 2xx
+ * - dead: every attempt failed - kept on the dead-letter list until it is
+ *   retried by hand
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+/**
+ * Webhook Endpoint (as listed - the signing secret is only returned once)
+ */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  active: boolean;                      // Inactive endpoints get no new deliveries
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook Endpoint Input
+ *
+ * Body of POST /api/webhooks (and, merged with the current values,
+ * PATCH /api/webhooks/[id]).
+ */
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  active: boolean;
+}
+
+/**
+ * An endpoint together with its signing secret
+ *
+ * Returned once, when the endpoint is registered.
+ */
+export interface RegisteredWebhookEndpoint extends WebhookEndpoint {
+  secret: string;
+}
+
+/**
+ * Webhook Event - the JSON body POSTed to an endpoint
+ */
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;                           // Same for every endpoint receiving the event
+  type: WebhookEventType;
+  createdAt: string;                    // ISO 8601
+  data: T;
+}
+
+/**
+ * Webhook Delivery - one event sent (or to be sent) to one endpoint
+ */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;                 // Only while pending
+  lastAttemptAt?: Date;
+  responseStatus?: number;              // HTTP status of the last attempt
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  payload: WebhookEvent;
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CURRENCY_COOKIE, isSupportedCurrency } from '@/lib/api/currency-service';
+
+/**
+ * Middleware
+ *
+ * Turns a ?currency=EUR query parameter into the currency cookie, so the
+ * choice sticks for the cart and checkout, too.
+ *
+ * Educational Note: The cookie is also set on the incoming request, so the
+ * page rendered for this very request already uses the new currency.
+ */
+export function middleware(request: NextRequest) {
+  const currency = request.nextUrl.searchParams.get('currency')?.toUpperCase();
+  if (!isSupportedCurrency(currency)) {
+    return NextResponse.next();
+  }
+
+  request.cookies.set(CURRENCY_COOKIE, currency);
+  const response = NextResponse.next({ request: { headers: request.headers } });
+  response.cookies.set(CURRENCY_COOKIE, currency, {
+    path: '/',
+    maxAge: 60 * 60 * 24 * 365,
+    sameSite: 'lax',
+  });
+  return response;
+}
+
+export const config = {
+  // Pages only - API routes take the currency in their request body
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "InventoryReservation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "token" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "expiresAt" DATETIME NOT NULL,
+    "orderId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "InventoryReservation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryReservation_token_idx" ON "InventoryReservation"("token");
+
+-- CreateIndex
+CREATE INDEX "InventoryReservation_status_expiresAt_idx" ON "InventoryReservation"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryReservation_productId_idx" ON "InventoryReservation"("productId");
@@ -0,0 +1,61 @@
+-- Full-text search index over products (SQLite FTS5)
+-- Prisma has no schema syntax for virtual tables, so this table and its
+-- triggers are managed by hand in this migration only.
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "ProductSearch" USING fts5(
+    "productId" UNINDEXED,
+    "name",
+    "description",
+    "longDescription",
+    "tags",
+    "attributes",
+    tokenize = 'porter unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+-- Backfill
+-- Tags and attribute values are flattened to plain words, so JSON keys and
+-- punctuation do not pollute the index.
+INSERT INTO "ProductSearch" ("productId", "name", "description", "longDescription", "tags", "attributes")
+SELECT
+    "id",
+    "name",
+    "description",
+    COALESCE("longDescription", ''),
+    COALESCE((SELECT group_concat("value", ' ') FROM json_each("Product"."tags")), ''),
+    COALESCE((SELECT group_concat("value", ' ') FROM json_each("Product"."attributes")), '')
+FROM "Product";
+
+-- CreateTrigger
+CREATE TRIGGER "Product_search_insert" AFTER INSERT ON "Product" BEGIN
+    INSERT INTO "ProductSearch" ("productId", "name", "description", "longDescription", "tags", "attributes")
+    VALUES (
+        NEW."id",
+        NEW."name",
+        NEW."description",
+        COALESCE(NEW."longDescription", ''),
+        COALESCE((SELECT group_concat("value", ' ') FROM json_each(NEW."tags")), ''),
+        COALESCE((SELECT group_concat("value", ' ') FROM json_each(NEW."attributes")), '')
+    );
+END;
+
+-- CreateTrigger
+-- Only fires when a searchable column changes (not on stock updates)
+CREATE TRIGGER "Product_search_update" AFTER UPDATE OF "id", "name", "description", "longDescription", "tags", "attributes" ON "Product" BEGIN
+    DELETE FROM "ProductSearch" WHERE "productId" = OLD."id";
+    INSERT INTO "ProductSearch" ("productId", "name", "description", "longDescription", "tags", "attributes")
+    VALUES (
+        NEW."id",
+        NEW."name",
+        NEW."description",
+        COALESCE(NEW."longDescription", ''),
+        COALESCE((SELECT group_concat("value", ' ') FROM json_each(NEW."tags")), ''),
+        COALESCE((SELECT group_concat("value", ' ') FROM json_each(NEW."attributes")), '')
+    );
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Product_search_delete" AFTER DELETE ON "Product" BEGIN
+    DELETE FROM "ProductSearch" WHERE "productId" = OLD."id";
+END;
@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "options" TEXT NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "ProductVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "options" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "originalPrice" INTEGER,
+    "inStock" BOOLEAN NOT NULL DEFAULT true,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "lowStockThreshold" INTEGER NOT NULL DEFAULT 10,
+    "reservedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "images" TEXT NOT NULL DEFAULT '[]',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ProductVariant_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_OrderLine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT,
+    "variantId" TEXT,
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "options" TEXT,
+    "unitPrice" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "lineTotal" INTEGER NOT NULL,
+    CONSTRAINT "OrderLine_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OrderLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "OrderLine_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_OrderLine" ("id", "lineTotal", "name", "orderId", "productId", "quantity", "sku", "unitPrice") SELECT "id", "lineTotal", "name", "orderId", "productId", "quantity", "sku", "unitPrice" FROM "OrderLine";
+DROP TABLE "OrderLine";
+ALTER TABLE "new_OrderLine" RENAME TO "OrderLine";
+CREATE INDEX "OrderLine_orderId_idx" ON "OrderLine"("orderId");
+CREATE INDEX "OrderLine_productId_idx" ON "OrderLine"("productId");
+CREATE TABLE "new_InventoryReservation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "token" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "expiresAt" DATETIME NOT NULL,
+    "orderId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "InventoryReservation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "InventoryReservation_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_InventoryReservation" ("createdAt", "expiresAt", "id", "orderId", "productId", "quantity", "status", "token", "updatedAt") SELECT "createdAt", "expiresAt", "id", "orderId", "productId", "quantity", "status", "token", "updatedAt" FROM "InventoryReservation";
+DROP TABLE "InventoryReservation";
+ALTER TABLE "new_InventoryReservation" RENAME TO "InventoryReservation";
+CREATE INDEX "InventoryReservation_token_idx" ON "InventoryReservation"("token");
+CREATE INDEX "InventoryReservation_status_expiresAt_idx" ON "InventoryReservation"("status", "expiresAt");
+CREATE INDEX "InventoryReservation_productId_idx" ON "InventoryReservation"("productId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductVariant_sku_key" ON "ProductVariant"("sku");
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_productId_idx" ON "ProductVariant"("productId");
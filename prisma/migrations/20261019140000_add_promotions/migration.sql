@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "discountTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "code" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "categories" TEXT NOT NULL DEFAULT '[]',
+    "tags" TEXT NOT NULL DEFAULT '[]',
+    "minSubtotal" INTEGER,
+    "usageLimit" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" DATETIME,
+    "endsAt" DATETIME,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "OrderDiscount" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "promotionId" TEXT,
+    "code" TEXT,
+    "name" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    CONSTRAINT "OrderDiscount_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OrderDiscount_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Promotion_code_key" ON "Promotion"("code");
+
+-- CreateIndex
+CREATE INDEX "Promotion_active_idx" ON "Promotion"("active");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_orderId_idx" ON "OrderDiscount"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_promotionId_idx" ON "OrderDiscount"("promotionId");
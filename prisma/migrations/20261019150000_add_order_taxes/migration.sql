@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "taxInclusive" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN "taxAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "OrderTax" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "jurisdiction" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "taxableAmount" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    CONSTRAINT "OrderTax_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OrderTax_orderId_idx" ON "OrderTax"("orderId");
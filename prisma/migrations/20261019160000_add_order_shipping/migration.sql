@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "shippingMethod" TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE "Order" ADD COLUMN "shippingTotal" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'draft';
+
+-- Products that existed before the workflow were all live
+UPDATE "Product" SET "status" = 'published';
+UPDATE "Product" SET "publishedAt" = "createdAt" WHERE "publishedAt" IS NULL;
+
+-- CreateIndex
+CREATE INDEX "Product_status_publishedAt_idx" ON "Product"("status", "publishedAt");
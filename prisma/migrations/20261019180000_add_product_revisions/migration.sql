@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ProductRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductRevision_productId_revision_key" ON "ProductRevision"("productId", "revision");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "StockAlert" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL DEFAULT '',
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "lowStockThreshold" INTEGER NOT NULL,
+    "dailySales" REAL NOT NULL,
+    "reorderQuantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "notifiedAt" DATETIME,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "StockAlert_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "StockAlert_status_createdAt_idx" ON "StockAlert"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockAlert_productId_idx" ON "StockAlert"("productId");
+
+-- One open alert per product/variant: two overlapping runs can't both open one
+CREATE UNIQUE INDEX "StockAlert_open_productId_variantId_key" ON "StockAlert"("productId", "variantId") WHERE "status" = 'open';
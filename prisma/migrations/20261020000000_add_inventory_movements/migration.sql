@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL DEFAULT '',
+    "type" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "reserved" INTEGER NOT NULL DEFAULT 0,
+    "reason" TEXT,
+    "note" TEXT,
+    "reference" TEXT,
+    "actor" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "InventoryMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_productId_createdAt_idx" ON "InventoryMovement"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_productId_variantId_idx" ON "InventoryMovement"("productId", "variantId");
+
+-- Opening balances: the stock that exists today becomes the first movement
+-- of every product without variants, and of every variant
+INSERT INTO "InventoryMovement" ("id", "productId", "variantId", "type", "quantity", "reserved", "reason", "actor")
+SELECT 'mov_' || lower(hex(randomblob(12))), "id", '', 'adjustment', "quantity", "reservedQuantity", 'opening_balance', 'system'
+FROM "Product"
+WHERE NOT EXISTS (SELECT 1 FROM "ProductVariant" WHERE "ProductVariant"."productId" = "Product"."id");
+
+INSERT INTO "InventoryMovement" ("id", "productId", "variantId", "type", "quantity", "reserved", "reason", "actor")
+SELECT 'mov_' || lower(hex(randomblob(12))), "productId", "id", 'adjustment', "quantity", "reservedQuantity", 'opening_balance', 'system'
+FROM "ProductVariant";
@@ -0,0 +1,70 @@
+-- AlterTable
+ALTER TABLE "InventoryMovement" ADD COLUMN "locationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "InventoryLocation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'warehouse',
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "zipCode" TEXT,
+    "country" TEXT NOT NULL DEFAULT 'US',
+    "pickup" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "InventoryLevel" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL DEFAULT '',
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "lowStockThreshold" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "InventoryLevel_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "InventoryLocation" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "InventoryLevel_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "OrderAllocation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT,
+    "variantId" TEXT NOT NULL DEFAULT '',
+    "sku" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    CONSTRAINT "OrderAllocation_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OrderAllocation_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "InventoryLocation" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryLocation_code_key" ON "InventoryLocation"("code");
+
+-- CreateIndex
+CREATE INDEX "InventoryLevel_productId_idx" ON "InventoryLevel"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryLevel_locationId_productId_variantId_key" ON "InventoryLevel"("locationId", "productId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "OrderAllocation_orderId_idx" ON "OrderAllocation"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderAllocation_locationId_idx" ON "OrderAllocation"("locationId");
+
+-- Until more locations are added, all existing stock sits in one place
+INSERT INTO "InventoryLocation" ("id", "code", "name", "type", "priority", "updatedAt")
+VALUES ('loc_main', 'MAIN', 'Main warehouse', 'warehouse', 0, CURRENT_TIMESTAMP);
+
+INSERT INTO "InventoryLevel" ("id", "locationId", "productId", "variantId", "quantity", "lowStockThreshold", "updatedAt")
+SELECT 'lvl_' || lower(hex(randomblob(12))), 'loc_main', "id", '', "quantity", "lowStockThreshold", CURRENT_TIMESTAMP
+FROM "Product"
+WHERE NOT EXISTS (SELECT 1 FROM "ProductVariant" WHERE "ProductVariant"."productId" = "Product"."id");
+
+INSERT INTO "InventoryLevel" ("id", "locationId", "productId", "variantId", "quantity", "lowStockThreshold", "updatedAt")
+SELECT 'lvl_' || lower(hex(randomblob(12))), 'loc_main', "productId", "id", "quantity", "lowStockThreshold", CURRENT_TIMESTAMP
+FROM "ProductVariant";
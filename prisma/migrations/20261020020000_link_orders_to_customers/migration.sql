@@ -0,0 +1,34 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Order" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderNumber" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'placed',
+    "email" TEXT NOT NULL,
+    "customerId" TEXT,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "phone" TEXT,
+    "shippingAddress" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "subtotal" INTEGER NOT NULL,
+    "discountTotal" INTEGER NOT NULL DEFAULT 0,
+    "shippingMethod" TEXT NOT NULL DEFAULT 'standard',
+    "shippingTotal" INTEGER NOT NULL DEFAULT 0,
+    "taxTotal" INTEGER NOT NULL,
+    "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+    "total" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Order_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Order" ("createdAt", "currency", "discountTotal", "email", "firstName", "id", "lastName", "orderNumber", "phone", "shippingAddress", "shippingMethod", "shippingTotal", "status", "subtotal", "taxInclusive", "taxTotal", "total", "updatedAt") SELECT "createdAt", "currency", "discountTotal", "email", "firstName", "id", "lastName", "orderNumber", "phone", "shippingAddress", "shippingMethod", "shippingTotal", "status", "subtotal", "taxInclusive", "taxTotal", "total", "updatedAt" FROM "Order";
+DROP TABLE "Order";
+ALTER TABLE "new_Order" RENAME TO "Order";
+CREATE UNIQUE INDEX "Order_orderNumber_key" ON "Order"("orderNumber");
+CREATE INDEX "Order_email_idx" ON "Order"("email");
+CREATE INDEX "Order_createdAt_idx" ON "Order"("createdAt");
+CREATE INDEX "Order_customerId_idx" ON "Order"("customerId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,6 @@
+-- The opening balances were written with CURRENT_TIMESTAMP's
+-- "YYYY-MM-DD HH:MM:SS". Rewrite them in the ISO-8601 format Prisma uses,
+-- so they sort and compare correctly against later movements.
+UPDATE "InventoryMovement"
+SET "createdAt" = strftime('%Y-%m-%dT%H:%M:%f+00:00', "createdAt")
+WHERE "createdAt" NOT LIKE '%T%';
@@ -0,0 +1,14 @@
+-- The main warehouse and its stock levels were written with
+-- CURRENT_TIMESTAMP's "YYYY-MM-DD HH:MM:SS". Rewrite them in the ISO-8601
+-- format Prisma uses.
+UPDATE "InventoryLocation"
+SET "createdAt" = strftime('%Y-%m-%dT%H:%M:%f+00:00', "createdAt")
+WHERE "createdAt" NOT LIKE '%T%';
+
+UPDATE "InventoryLocation"
+SET "updatedAt" = strftime('%Y-%m-%dT%H:%M:%f+00:00', "updatedAt")
+WHERE "updatedAt" NOT LIKE '%T%';
+
+UPDATE "InventoryLevel"
+SET "updatedAt" = strftime('%Y-%m-%dT%H:%M:%f+00:00', "updatedAt")
+WHERE "updatedAt" NOT LIKE '%T%';
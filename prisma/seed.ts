@@ -2,6 +2,9 @@ import { PrismaClient } from '@prisma/client'
 import { PrismaLibSql } from '@prisma/adapter-libsql'
 import { categories } from '../lib/data/categories'
 import { products } from '../lib/data/products'
+import { productReviews } from '../lib/data/product-reviews'
+import { promotions } from '../lib/data/promotions'
+import { locations } from '../lib/data/locations'
 
 // Create Prisma adapter for LibSQL/SQLite
 const adapter = new PrismaLibSql({
@@ -10,13 +13,24 @@ const adapter = new PrismaLibSql({
 
 const prisma = new PrismaClient({ adapter })
 
+// Split a seeded quantity over the locations by their share; the first
+// location (the main warehouse) gets whatever rounding leaves over
+function splitStock(quantity: number) {
+  const parts = locations.map((location) => Math.floor(quantity * location.share))
+  parts[0] += quantity - parts.reduce((sum, part) => sum + part, 0)
+  return locations.map((location, index) => ({ locationId: location.id, share: location.share, quantity: parts[index] }))
+}
+
 async function main() {
   console.log('Starting database seed...')
 
   // Clear existing data
   console.log('Clearing existing data...')
-  await prisma.product.deleteMany()
+  await prisma.order.deleteMany() // Order lines are removed by ON DELETE CASCADE
+  await prisma.product.deleteMany() // Reviews are removed by ON DELETE CASCADE
+  await prisma.inventoryLocation.deleteMany() // After the products and orders that point at them
   await prisma.category.deleteMany()
+  await prisma.promotion.deleteMany()
 
   // Seed categories
   console.log('Seeding categories...')
@@ -35,9 +49,20 @@ async function main() {
   }
   console.log(`✓ Seeded ${categories.length} categories`)
 
+  // Seed inventory locations
+  console.log('Seeding inventory locations...')
+  for (const { share, ...location } of locations) {
+    await prisma.inventoryLocation.create({ data: location })
+  }
+  console.log(`✓ Seeded ${locations.length} inventory locations`)
+
   // Seed products
   console.log('Seeding products...')
   for (const product of products) {
+    const skus = product.variants?.length
+      ? product.variants.map((variant) => ({ variantId: variant.id, inventory: variant.inventory }))
+      : [{ variantId: '', inventory: product.inventory }]
+
     await prisma.product.create({
       data: {
         id: product.id,
@@ -59,17 +84,99 @@ async function main() {
         images: JSON.stringify(product.images),
         featured: product.featured,
         isNew: product.isNew,
-        ratingAverage: product.rating?.average,
-        ratingCount: product.rating?.count,
         attributes: JSON.stringify(product.attributes),
+        options: JSON.stringify(product.options ?? []),
         createdAt: product.createdAt,
         updatedAt: product.updatedAt,
-        publishedAt: product.publishedAt,
+        status: product.status,
+        publishedAt: product.publishedAt ?? product.createdAt,
+        variants: {
+          create: (product.variants ?? []).map((variant, position) => ({
+            id: variant.id,
+            sku: variant.sku,
+            options: JSON.stringify(variant.options),
+            price: variant.price,
+            originalPrice: variant.originalPrice,
+            inStock: variant.inventory.inStock,
+            quantity: variant.inventory.quantity,
+            lowStockThreshold: variant.inventory.lowStockThreshold,
+            reservedQuantity: variant.inventory.reservedQuantity,
+            images: JSON.stringify(variant.images),
+            position,
+          })),
+        },
+        // Each SKU's stock is spread over the locations...
+        inventoryLevels: {
+          create: skus.flatMap(({ variantId, inventory }) =>
+            splitStock(inventory.quantity).map(({ locationId, share, quantity }) => ({
+              locationId,
+              variantId,
+              quantity,
+              lowStockThreshold: Math.ceil(inventory.lowStockThreshold * share),
+            }))
+          ),
+        },
+        // ...and the ledger starts from it, one entry per SKU and location
+        stockMovements: {
+          create: skus.flatMap(({ variantId, inventory }) =>
+            splitStock(inventory.quantity).map(({ locationId, quantity }, index) => ({
+              variantId,
+              locationId,
+              quantity,
+              reserved: index === 0 ? inventory.reservedQuantity : 0,
+              type: 'adjustment',
+              reason: 'opening_balance',
+              actor: 'system',
+            }))
+          ),
+        },
       },
     })
   }
   console.log(`✓ Seeded ${products.length} products`)
 
+  // Seed reviews
+  console.log('Seeding reviews...')
+  for (const review of productReviews) {
+    await prisma.review.create({
+      data: {
+        ...review,
+        moderatedAt: review.status === 'pending' ? null : review.createdAt,
+      },
+    })
+  }
+
+  // Product ratings come from approved reviews only
+  const ratings = await prisma.review.groupBy({
+    by: ['productId'],
+    where: { status: 'approved' },
+    _avg: { rating: true },
+    _count: { _all: true },
+  })
+  for (const rating of ratings) {
+    await prisma.product.update({
+      where: { id: rating.productId },
+      data: {
+        ratingAverage: Math.round((rating._avg.rating ?? 0) * 10) / 10,
+        ratingCount: rating._count._all,
+      },
+    })
+  }
+  console.log(`✓ Seeded ${productReviews.length} reviews (${ratings.length} products rated)`)
+
+  // Seed promotions
+  console.log('Seeding promotions...')
+  for (const promotion of promotions) {
+    await prisma.promotion.create({
+      data: {
+        ...promotion,
+        categories: JSON.stringify(promotion.categories),
+        tags: JSON.stringify(promotion.tags),
+      },
+    })
+  }
+  console.log(`✓ Seeded ${promotions.length} promotions`)
+
   console.log('✓ Database seeding completed successfully!')
 }
 
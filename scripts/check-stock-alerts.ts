@@ -0,0 +1,49 @@
+import { checkStockAlerts, getStockAlertNotifiers } from '../lib/api/stock-alerts-service'
+import { disconnectDb } from '../lib/db'
+
+// Open low-stock alerts with reorder suggestions, and notify about them
+//
+// Usage:
+//   npm run inventory:alerts                          # once, e.g. from cron
+//   npm run inventory:alerts -- --notify console      # only log, no webhooks
+//   npm run inventory:alerts -- --watch 300           # keep going, every 5 minutes
+//
+// Each SKU is alerted once when it falls to its lowStockThreshold; the
+// alert resolves when it is restocked above it.
+
+const DEFAULT_INTERVAL_SECONDS = 60
+
+async function runOnce(notify: string | undefined) {
+  const result = await checkStockAlerts(getStockAlertNotifiers(notify))
+  console.log(
+    `${new Date().toISOString()} opened ${result.opened.length}, resolved ${result.resolved}, notified ${result.notified}`
+  )
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const notifyIndex = args.indexOf('--notify')
+  const notify = notifyIndex === -1 ? undefined : args[notifyIndex + 1]
+  const watchIndex = args.indexOf('--watch')
+
+  if (watchIndex === -1) {
+    await runOnce(notify)
+    return
+  }
+
+  const interval = Number(args[watchIndex + 1]) || DEFAULT_INTERVAL_SECONDS
+  console.log(`Checking stock every ${interval}s (Ctrl+C to stop)`)
+  for (;;) {
+    await runOnce(notify)
+    await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Error checking stock alerts:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDb()
+  })
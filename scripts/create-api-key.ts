@@ -0,0 +1,64 @@
+import { createApiKey } from '../lib/api/api-keys-service'
+import { ServiceError } from '../lib/api/errors'
+import { disconnectDb } from '../lib/db'
+
+// Create an API key from the command line
+//
+// Usage:
+//   npm run keys:create -- --name "Admin" --scopes admin
+//   npm run keys:create -- --name "Warehouse sync" --scopes products:read,products:write --expires 2027-06-30
+//
+// This is how the first admin key is made - POST /api/keys itself needs one.
+// The token is printed once; only its hash is stored.
+
+const USAGE =
+  'Usage: npm run keys:create -- --name <name> --scopes <scope,scope> [--expires <date>]'
+
+function parseArgs(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {}
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) options[args[i].slice(2)] = args[++i] ?? ''
+  }
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  if (!options.name || !options.scopes) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  try {
+    const apiKey = await createApiKey({
+      name: options.name,
+      scopes: options.scopes.split(',').map((scope) => scope.trim()),
+      expiresAt: options.expires,
+    })
+
+    console.log(`✓ Created API key "${apiKey.name}" (${apiKey.id})`)
+    console.log(`  Scopes: ${apiKey.scopes.join(', ')}`)
+    if (apiKey.expiresAt) console.log(`  Expires: ${apiKey.expiresAt.toISOString()}`)
+    console.log('')
+    console.log(`  ${apiKey.token}`)
+    console.log('')
+    console.log('Store the token now - it will not be shown again.')
+  } catch (e) {
+    if (e instanceof ServiceError) {
+      console.error(`✗ ${e.message}`)
+      for (const detail of e.details ?? []) console.error(`  ${detail.field}: ${detail.message}`)
+      process.exitCode = 1
+      return
+    }
+    throw e
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Error creating API key:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDb()
+  })
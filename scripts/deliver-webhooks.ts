@@ -0,0 +1,61 @@
+import { deliverDueWebhooks } from '../lib/api/webhooks-service'
+import { disconnectDb } from '../lib/db'
+
+// Send the webhook deliveries that are due
+//
+// Usage:
+//   npm run webhooks:deliver                 # once, e.g. from cron
+//   npm run webhooks:deliver -- --watch      # keep going, every 10 seconds
+//   npm run webhooks:deliver -- --watch 30   # ... every 30 seconds
+//
+// Requests also deliver their own events right after they commit; this
+// picks up the retries, which fall due later.
+
+const DEFAULT_INTERVAL_SECONDS = 10
+
+async function runOnce() {
+  let total = { delivered: 0, retrying: 0, dead: 0 }
+
+  // Keep going until nothing more is due
+  for (;;) {
+    const result = await deliverDueWebhooks()
+    total = {
+      delivered: total.delivered + result.delivered,
+      retrying: total.retrying + result.retrying,
+      dead: total.dead + result.dead,
+    }
+    if (result.delivered + result.retrying + result.dead === 0) break
+  }
+
+  if (total.delivered + total.retrying + total.dead > 0) {
+    console.log(
+      `${new Date().toISOString()} delivered ${total.delivered}, retrying ${total.retrying}, dead ${total.dead}`
+    )
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const watchIndex = args.indexOf('--watch')
+
+  if (watchIndex === -1) {
+    await runOnce()
+    return
+  }
+
+  const interval = Number(args[watchIndex + 1]) || DEFAULT_INTERVAL_SECONDS
+  console.log(`Delivering webhooks every ${interval}s (Ctrl+C to stop)`)
+  for (;;) {
+    await runOnce()
+    await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Error delivering webhooks:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDb()
+  })
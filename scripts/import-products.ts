@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs'
+import { extname } from 'path'
+import { importProducts, parseColumnMapping } from '../lib/api/import-service'
+import { disconnectDb } from '../lib/db'
+import { ImportFormat } from '../lib/types/import'
+
+// Import products from a CSV or JSON lines file
+//
+// Usage:
+//   npm run import -- products.csv [--dry-run] [--format csv|jsonl]
+//     [--map "Stock=quantity,Retail=price"] [--batch-size 100] [--author name]
+//
+// The format is taken from the file extension (.csv, .jsonl, .ndjson)
+// unless --format is given. Exits with code 1 when any row failed.
+
+const USAGE =
+  'Usage: npm run import -- <file> [--dry-run] [--format csv|jsonl] [--map "From=to,..."] [--batch-size N] [--author name]'
+
+function parseArgs(args: string[]) {
+  const options: Record<string, string | boolean> = {}
+  const files: string[] = []
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--dry-run') {
+      options.dryRun = true
+    } else if (arg.startsWith('--')) {
+      options[arg.slice(2)] = args[++i] ?? ''
+    } else {
+      files.push(arg)
+    }
+  }
+
+  return { file: files[0], options }
+}
+
+function getFormat(file: string, format?: string | boolean): ImportFormat | null {
+  const value = typeof format === 'string' ? format : extname(file).slice(1).toLowerCase()
+  if (value === 'csv') return 'csv'
+  if (value === 'jsonl' || value === 'ndjson') return 'jsonl'
+  return null
+}
+
+async function main() {
+  const { file, options } = parseArgs(process.argv.slice(2))
+  if (!file) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const format = getFormat(file, options.format)
+  if (!format) {
+    console.error(`Can't tell the format of "${file}" - pass --format csv or --format jsonl`)
+    process.exit(1)
+  }
+
+  const result = await importProducts(readFileSync(file, 'utf8'), {
+    format,
+    dryRun: options.dryRun === true,
+    mapping: typeof options.map === 'string' ? parseColumnMapping(options.map) : undefined,
+    batchSize: typeof options['batch-size'] === 'string' ? parseInt(options['batch-size'], 10) || undefined : undefined,
+    author: typeof options.author === 'string' ? options.author : 'cli',
+  })
+
+  console.log(`${result.dryRun ? 'Dry run of' : 'Imported'} ${file}`)
+  console.log(`  Rows:    ${result.total}`)
+  console.log(`  Created: ${result.created}`)
+  console.log(`  Updated: ${result.updated}`)
+  console.log(`  Failed:  ${result.failed}`)
+  if (result.ignoredColumns.length > 0) {
+    console.log(`  Ignored columns: ${result.ignoredColumns.join(', ')}`)
+  }
+
+  for (const rowError of result.errors) {
+    const messages = rowError.errors
+      .map((error) => (error.field ? `${error.field}: ${error.message}` : error.message))
+      .join('; ')
+    console.log(`✗ Row ${rowError.row}${rowError.sku ? ` (${rowError.sku})` : ''} - ${messages}`)
+  }
+
+  if (result.failed > 0) process.exitCode = 1
+}
+
+main()
+  .catch((e) => {
+    console.error('Error importing products:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDb()
+  })
@@ -0,0 +1,43 @@
+import { reconcileStock } from '../lib/api/stock-movements-service'
+import { disconnectDb } from '../lib/db'
+
+// Compare every product's and variant's quantity with its movement ledger
+//
+// Usage:
+//   npm run inventory:reconcile             # table of drifting SKUs
+//   npm run inventory:reconcile -- --json   # the same as JSON, for scripts
+//
+// Exits with code 1 when any SKU drifts, so a scheduled run can alert on it.
+// Drift means stock changed without a movement: a direct database edit, or
+// a code path that bypasses the inventory services.
+
+async function main() {
+  const json = process.argv.slice(2).includes('--json')
+  const drifts = await reconcileStock()
+
+  if (json) {
+    console.log(JSON.stringify(drifts, null, 2))
+  } else if (drifts.length === 0) {
+    console.log('✓ Every SKU matches its ledger')
+  } else {
+    console.log(`✗ ${drifts.length} SKU(s) drift from the ledger:`)
+    for (const drift of drifts) {
+      const sign = drift.drift > 0 ? '+' : ''
+      console.log(
+        `  ${drift.sku} (${drift.productId}${drift.variantId ? ` / ${drift.variantId}` : ''}): ` +
+        `quantity ${drift.quantity}, ledger ${drift.ledgerQuantity} (${sign}${drift.drift})`
+      )
+    }
+  }
+
+  if (drifts.length > 0) process.exitCode = 1
+}
+
+main()
+  .catch((e) => {
+    console.error('Error reconciling inventory:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDb()
+  })
@@ -0,0 +1,65 @@
+import { createServer } from 'http'
+import { SIGNATURE_HEADER, verifyWebhookSignature } from '../lib/api/webhooks-service'
+
+// A local endpoint for trying out webhooks
+//
+// Usage:
+//   npm run webhooks:receive -- --secret whsec_... [--port 4000] [--fail-rate 0.5]
+//
+// Register http://localhost:4000/ with POST /api/webhooks, start this with
+// the secret from the response, and change a product. Each request is
+// printed with whether its signature is valid. --fail-rate answers that
+// share of requests with HTTP 500, to watch the retries and the
+// dead-letter list at work.
+
+const USAGE =
+  'Usage: npm run webhooks:receive -- --secret <whsec_...> [--port 4000] [--fail-rate 0..1]'
+
+function parseArgs(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {}
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) options[args[i].slice(2)] = args[++i] ?? ''
+  }
+  return options
+}
+
+const options = parseArgs(process.argv.slice(2))
+if (!options.secret) {
+  console.error(USAGE)
+  process.exit(1)
+}
+const port = Number(options.port) || 4000
+const failRate = Number(options['fail-rate']) || 0
+
+// Events already handled - deliveries are at-least-once, so repeats happen
+const seen = new Set<string>()
+
+const server = createServer((request, response) => {
+  let body = ''
+  request.on('data', (chunk) => (body += chunk))
+  request.on('end', () => {
+    const signature = request.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined
+    if (!verifyWebhookSignature(options.secret, body, signature)) {
+      console.log(`✗ ${request.headers['x-webhook-event']} - invalid signature, refused`)
+      response.writeHead(401).end()
+      return
+    }
+
+    if (Math.random() < failRate) {
+      console.log(`! ${request.headers['x-webhook-event']} - failing on purpose (HTTP 500)`)
+      response.writeHead(500).end()
+      return
+    }
+
+    const event = JSON.parse(body)
+    const repeat = seen.has(event.id)
+    seen.add(event.id)
+    console.log(`✓ ${event.type} ${event.id}${repeat ? ' (repeat, ignored)' : ''}`)
+    if (!repeat) console.log(JSON.stringify(event.data, null, 2))
+    response.writeHead(204).end()
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}/`)
+})